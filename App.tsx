@@ -12,7 +12,7 @@ import {
 import Sidebar from "./components/Sidebar";
 import Header from "./components/Header";
 import WelcomeIntro from "./components/WelcomeIntro";
-import { User, UserRole } from "./types";
+import { Permission, User, UserRole } from "./types";
 
 // Pages
 import Home from "./pages/Home";
@@ -23,6 +23,13 @@ import Login from "./pages/Login";
 import LandingPage from "./pages/LandingPage";
 import AdminDashboard from "./pages/AdminDashboard";
 import LegislativeHub from "./pages/LegislativeHub";
+import Trash from "./pages/Trash";
+import Policies from "./pages/Policies";
+import DepartmentWorkspace from "./pages/DepartmentWorkspace";
+
+import { purgeExpiredTrash } from "./src/trash";
+import { storage } from "./src/storage";
+import { can, profileScopes } from "./src/permissions";
 
 const LS_USER_KEY = "samasa_user";
 
@@ -71,6 +78,16 @@ const saveUser = (user: User) => localStorage.setItem(LS_USER_KEY, JSON.stringif
 const clearUser = () => localStorage.removeItem(LS_USER_KEY);
 
 /** ✅ Role-protected wrapper */
+const RequirePermission: React.FC<{
+  user: User | null;
+  permission: Permission;
+  children: React.ReactElement;
+}> = ({ user, permission, children }) => {
+  if (!user) return <Navigate to="/login" replace />;
+  if (!can(user, permission)) return <Navigate to="/" replace />;
+  return children;
+};
+
 const RequireRole: React.FC<{
   user: User | null;
   allow: UserRole[];
@@ -85,10 +102,33 @@ const RequireRole: React.FC<{
 const AuthenticatedShell: React.FC<{
   user: User;
   onLogout: () => void;
-}> = ({ user, onLogout }) => {
+  onUserChange: (user: User) => void;
+}> = ({ user, onLogout, onUserChange }) => {
   const location = useLocation();
   const isAdminRoute = location.pathname.startsWith("/admin");
 
+  // ✅ Recycle bin auto-purge runs once per SUPERADMIN session
+  useEffect(() => {
+    if (user.role !== UserRole.SUPERADMIN) return;
+    purgeExpiredTrash(user).catch((err) => console.error("AUTO PURGE ERROR:", err));
+  }, [user.id, user.role]);
+
+  // ✅ Roles can be reassigned mid-session; keep the session's scopes in step with users/{uid}
+  useEffect(
+    () =>
+      storage.subscribeDoc(
+        "users",
+        user.id,
+        (row) => {
+          if (!row) return;
+          const scopes = profileScopes(row.data);
+          if (scopes.join(",") !== (user.scopes ?? []).join(",")) onUserChange({ ...user, scopes });
+        },
+        (err) => console.error("PROFILE LISTENER ERROR:", err)
+      ),
+    [user, onUserChange]
+  );
+
   return (
     <div className="flex flex-col">
       <Header user={user} onLogout={onLogout} />
@@ -99,9 +139,9 @@ const AuthenticatedShell: React.FC<{
             <Route
               path="/admin"
               element={
-                <RequireRole user={user} allow={[UserRole.SUPERADMIN]}>
+                <RequirePermission user={user} permission="site.manage">
                   <AdminDashboard user={user} />
-                </RequireRole>
+                </RequirePermission>
               }
             />
             <Route path="*" element={<Navigate to="/admin" replace />} />
@@ -116,8 +156,19 @@ const AuthenticatedShell: React.FC<{
               <Route path="/" element={<Home user={user} />} />
               <Route path="/about" element={<About currentUser={user} />} />
               <Route path="/officers" element={<Officers currentUser={user} />} />
+              <Route path="/dept/:id" element={<DepartmentWorkspace currentUser={user} />} />
               <Route path="/budget" element={<Budget user={user} isEditable={true} />} />
               <Route path="/proposals" element={<LegislativeHub user={user} />} />
+              <Route path="/policies" element={<Policies currentUser={user} />} />
+              <Route
+                path="/trash"
+                element={
+                  // restore/purge touch every department (and linked accounts), so SUPERADMIN only
+                  <RequireRole user={user} allow={[UserRole.SUPERADMIN]}>
+                    <Trash user={user} />
+                  </RequireRole>
+                }
+              />
               <Route path="*" element={<Navigate to="/" replace />} />
             </Routes>
           </main>
@@ -160,7 +211,7 @@ const App: React.FC = () => {
       <ScrollToTop />
       <div className="bg-white min-h-screen">
         {currentUser ? (
-          <AuthenticatedShell user={currentUser} onLogout={handleLogout} />
+          <AuthenticatedShell user={currentUser} onLogout={handleLogout} onUserChange={handleLogin} />
         ) : (
           <Routes>
             <Route path="/" element={<LandingPage />} />
@@ -168,6 +219,8 @@ const App: React.FC = () => {
             {/* ✅ PUBLIC VIEW */}
             <Route path="/about" element={<About currentUser={null} />} />
             <Route path="/officers" element={<Officers currentUser={null} />} />
+            <Route path="/dept/:id" element={<DepartmentWorkspace currentUser={null} />} />
+            <Route path="/policies" element={<Policies currentUser={null} />} />
 
             <Route path="/login" element={<Login onLogin={handleLogin} />} />
 
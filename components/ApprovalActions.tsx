@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import { BookCheck, Check, Send, Undo2 } from "lucide-react";
+import { ApprovalRule, BudgetEntry, Officer, User } from "../types";
+import {
+  approveExpense,
+  canApprove,
+  postExpense,
+  rejectExpense,
+  submitExpense,
+} from "../src/expenseApproval";
+import { can } from "../src/permissions";
+
+interface ApprovalActionsProps {
+  entry: BudgetEntry;
+  user: User;
+  rules: ApprovalRule[];
+  officers: Officer[];
+  /** entries in a closed term can't move */
+  locked?: boolean;
+}
+
+const STATUS_STYLE = {
+  DRAFT: "bg-slate-100 border-slate-200 text-slate-600",
+  SUBMITTED: "bg-amber-50 border-amber-100 text-amber-700",
+  APPROVED: "bg-blue-50 border-blue-100 text-samasa-blue",
+} as const;
+
+/** Status chip for entries still in the workflow (POSTED rows render nothing) */
+export const ApprovalStatusBadge: React.FC<{ entry: BudgetEntry }> = ({ entry }) => {
+  const status = entry.status ?? "POSTED";
+  if (status === "POSTED") return null;
+
+  const a = entry.approval;
+  const title =
+    status === "DRAFT" && a?.rejectionNote
+      ? `Rejected by ${a.rejectedByName}: ${a.rejectionNote}`
+      : status === "SUBMITTED"
+        ? `Submitted by ${a?.submittedByName || "—"}`
+        : status === "APPROVED"
+          ? `Approved by ${a?.approvedByName || "—"}`
+          : undefined;
+
+  return (
+    <span
+      className={`px-2.5 py-1 border rounded-md text-[9px] font-black uppercase tracking-wider ${STATUS_STYLE[status]}`}
+      title={title}
+    >
+      {status === "DRAFT" && a?.rejectionNote ? "Returned" : status.toLowerCase()}
+    </span>
+  );
+};
+
+/** Submit / approve / reject / post buttons for whatever step the expense is at */
+const ApprovalActions: React.FC<ApprovalActionsProps> = ({ entry, user, rules, officers, locked }) => {
+  const [busy, setBusy] = useState(false);
+
+  const status = entry.status ?? "POSTED";
+  if (locked || status === "POSTED") return null;
+
+  const canPost = can(user, "budget.post", entry.department);
+  const approver = canApprove(user, entry, rules, officers);
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (err: any) {
+      console.error("APPROVAL ERROR:", err);
+      alert(err?.message || "Failed to update the expense.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reject = () => {
+    const note = String(prompt("Why is this expense being returned?") ?? "").trim();
+    if (!note) return alert("A reason is required to return an expense.");
+    run(() => rejectExpense(entry, user, note));
+  };
+
+  const btn =
+    "w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 transition-all disabled:opacity-50";
+
+  return (
+    <>
+      {status === "DRAFT" && canPost && (
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => run(() => submitExpense(entry, user))}
+          className={`${btn} hover:bg-amber-50 hover:text-amber-700`}
+          title="Submit for approval"
+        >
+          <Send size={16} />
+        </button>
+      )}
+
+      {status === "SUBMITTED" && approver && (
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => {
+            if (!confirm(`Approve "${entry.title}" (₱${Number(entry.amount).toLocaleString()})?`)) return;
+            run(() => approveExpense(entry, user));
+          }}
+          className={`${btn} hover:bg-emerald-50 hover:text-emerald-700`}
+          title="Approve"
+        >
+          <Check size={16} />
+        </button>
+      )}
+
+      {status === "APPROVED" && canPost && (
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => {
+            if (!confirm(`Post "${entry.title}" to the ledger?`)) return;
+            run(() => postExpense(entry, user));
+          }}
+          className={`${btn} hover:bg-samasa-blue/10 hover:text-samasa-blue`}
+          title="Post to ledger"
+        >
+          <BookCheck size={16} />
+        </button>
+      )}
+
+      {(status === "SUBMITTED" || status === "APPROVED") && approver && (
+        <button
+          type="button"
+          disabled={busy}
+          onClick={reject}
+          className={`${btn} hover:bg-red-50 hover:text-samasa-red`}
+          title="Return to draft"
+        >
+          <Undo2 size={16} />
+        </button>
+      )}
+    </>
+  );
+};
+
+export default ApprovalActions;
@@ -0,0 +1,89 @@
+import React, { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Inbox } from "lucide-react";
+import { ApprovalRule, BudgetEntry, Officer, TermTagged, User, UserRole } from "../types";
+import { canApprove } from "../src/expenseApproval";
+import { can } from "../src/permissions";
+import ApprovalActions, { ApprovalStatusBadge } from "./ApprovalActions";
+
+interface ApprovalInboxProps {
+  user: User;
+  entries: BudgetEntry[];
+  rules: ApprovalRule[];
+  officers: Officer[];
+  isLocked: (item: TermTagged, date: any) => boolean;
+}
+
+/** Home card: expenses waiting on this user (approve, post, or fix after a return) */
+const ApprovalInbox: React.FC<ApprovalInboxProps> = ({ user, entries, rules, officers, isLocked }) => {
+  const isManager = user.role === UserRole.SUPERADMIN || user.role === UserRole.OFFICER;
+
+  const items = useMemo(
+    () =>
+      entries.filter((e) => {
+        if (isLocked(e, e.date)) return false;
+        if (e.status === "SUBMITTED") return canApprove(user, e, rules, officers);
+        if (e.status === "APPROVED") return can(user, "budget.post", e.department);
+        if (e.status === "DRAFT") return !!e.approval?.rejectionNote && e.approval.submittedById === user.id;
+        return false;
+      }),
+    [entries, user, rules, officers, isLocked]
+  );
+
+  if (!isManager) return null;
+
+  return (
+    <div className="bg-white p-10 rounded-[3.5rem] border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <h4 className="text-xl font-black text-samasa-black uppercase tracking-tight flex items-center gap-3">
+          <Inbox className="w-5 h-5 text-samasa-blue" />
+          Approvals
+        </h4>
+        <span className="px-3 py-1 rounded-xl bg-slate-50 border border-slate-100 text-[10px] font-black uppercase tracking-widest text-slate-500">
+          {items.length}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {items.slice(0, 6).map((e) => (
+          <div key={e.id} className="p-4 rounded-2xl bg-slate-50 border border-slate-100">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="font-black text-samasa-black text-sm truncate">{e.title}</div>
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  <ApprovalStatusBadge entry={e} />
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {e.department} • ₱{Number(e.amount).toLocaleString()}
+                  </span>
+                </div>
+                {e.status === "DRAFT" && e.approval?.rejectionNote && (
+                  <div className="mt-2 text-xs font-bold text-samasa-red">{e.approval.rejectionNote}</div>
+                )}
+              </div>
+              <div className="flex shrink-0">
+                <ApprovalActions entry={e} user={user} rules={rules} officers={officers} />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {items.length === 0 && (
+          <div className="py-8 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+            Nothing waiting on you
+          </div>
+        )}
+      </div>
+
+      {items.length > 6 && (
+        <Link
+          to="/budget"
+          className="mt-6 inline-block text-[10px] font-black text-samasa-blue uppercase tracking-widest hover:underline"
+        >
+          {items.length - 6} more in the ledger
+        </Link>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalInbox;
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from "react";
+import { Save, X } from "lucide-react";
+import { ApprovalRule, DepartmentType, User } from "../types";
+import { normalizeNumber } from "../src/repository";
+import { ruleFor, saveApprovalRule } from "../src/expenseApproval";
+
+interface ApprovalRulesManagerProps {
+  user: User;
+  rules: ApprovalRule[];
+  onClose: () => void;
+}
+
+type Draft = { enabled: boolean; positions: string; autoPostUnder: string };
+
+const toDraft = (rule: ApprovalRule): Draft => ({
+  enabled: rule.enabled,
+  positions: rule.approverPositions.join(", "),
+  autoPostUnder: rule.autoPostUnder ? String(rule.autoPostUnder) : "",
+});
+
+/** SUPERADMIN: per-department expense approval settings */
+const ApprovalRulesManager: React.FC<ApprovalRulesManagerProps> = ({ user, rules, onClose }) => {
+  const departments = Object.values(DepartmentType);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>(() =>
+    Object.fromEntries(departments.map((d) => [d, toDraft(ruleFor(rules, d))]))
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const patch = (dept: string, p: Partial<Draft>) => setDrafts((all) => ({ ...all, [dept]: { ...all[dept], ...p } }));
+
+  const save = async () => {
+    const next: ApprovalRule[] = departments.map((d) => ({
+      department: d,
+      enabled: drafts[d].enabled,
+      approverPositions: drafts[d].positions
+        .split(",")
+        .map((p) => p.trim())
+        .filter(Boolean),
+      autoPostUnder: Math.max(0, normalizeNumber(drafts[d].autoPostUnder)),
+    }));
+
+    const missing = next.find((r) => r.enabled && r.approverPositions.length === 0);
+    if (missing) return alert(`${missing.department}: list at least one approver position or turn approval off.`);
+
+    setSaving(true);
+    try {
+      await Promise.all(next.map((r) => saveApprovalRule(r, user)));
+      onClose();
+    } catch (err: any) {
+      console.error("APPROVAL RULES ERROR:", err);
+      alert(err?.message || "Failed to save approval rules.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl font-bold text-sm outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-3xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div>
+              <div className="text-3xl font-black tracking-tighter text-samasa-black">Approval Rules</div>
+              <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                Expenses go Draft → Submitted → Approved → Posted
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-3">
+            {departments.map((d) => {
+              const draft = drafts[d];
+              return (
+                <div key={d} className="p-5 rounded-2xl bg-slate-50 border border-slate-100 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="font-black text-samasa-black tracking-tight">{d}</div>
+                    <label className="inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={draft.enabled}
+                        onChange={(e) => patch(d, { enabled: e.target.checked })}
+                      />
+                      Require approval
+                    </label>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="sm:col-span-2">
+                      <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1.5">
+                        Approver positions
+                      </div>
+                      <input
+                        value={draft.positions}
+                        disabled={!draft.enabled}
+                        onChange={(e) => patch(d, { positions: e.target.value })}
+                        placeholder="Treasurer, Auditor"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1.5">
+                        Auto-post under (₱)
+                      </div>
+                      <input
+                        value={draft.autoPostUnder}
+                        disabled={!draft.enabled}
+                        onChange={(e) => patch(d, { autoPostUnder: e.target.value })}
+                        inputMode="decimal"
+                        placeholder="0"
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="text-xs font-bold text-slate-400">
+              Approvers are officers of the same department whose position contains one of the listed words. SUPERADMIN
+              can always approve.
+            </div>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 border-t border-slate-100">
+            <button
+              type="button"
+              disabled={saving}
+              onClick={save}
+              className="w-full py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalRulesManager;
@@ -0,0 +1,152 @@
+import React, { useEffect } from "react";
+import { History, X } from "lucide-react";
+import { BudgetAuditRecord } from "../types";
+import { diffBudgetSnapshots } from "../src/budgetLedger";
+
+interface BudgetAuditLogProps {
+  title: string;
+  subtitle?: string;
+  records: BudgetAuditRecord[];
+  /** Global log shows which entry each row belongs to */
+  showEntry?: boolean;
+  onClose: () => void;
+}
+
+const ACTION_STYLE: Record<BudgetAuditRecord["action"], string> = {
+  CREATE: "bg-emerald-50 border-emerald-100 text-emerald-700",
+  UPDATE: "bg-amber-50 border-amber-100 text-amber-700",
+  DELETE: "bg-red-50 border-red-100 text-samasa-red",
+  RESTORE: "bg-blue-50 border-blue-100 text-samasa-blue",
+  PURGE: "bg-samasa-black border-samasa-black text-white",
+};
+
+const fmtWhen = (ms: number) =>
+  ms
+    ? new Date(ms).toLocaleString(undefined, {
+        year: "numeric",
+        month: "short",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "—";
+
+const fmtValue = (field: string, v: any) => {
+  if (v === undefined || v === null || v === "") return "—";
+  if (field === "amount") return `₱${Number(v).toLocaleString()}`;
+  if (field === "ceilingOverride") return `override by ${v.approvedByName}: ${v.reason}`;
+  if (field === "receipts") return `${v.length} receipt(s)`;
+  if (field === "approval") {
+    const steps = ["submitted", "approved", "posted", "rejected"].filter((s) => v[`${s}ByName`]);
+    return steps.map((s) => `${s} by ${v[`${s}ByName`]}`).join(", ") || "—";
+  }
+  return String(v);
+};
+
+const BudgetAuditLog: React.FC<BudgetAuditLogProps> = ({ title, subtitle, records, showEntry, onClose }) => {
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => {
+      document.body.style.overflow = prev;
+      window.removeEventListener("keydown", onKey);
+    };
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-3xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <History size={14} />
+                Audit Trail
+              </div>
+              <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">{title}</div>
+              {subtitle && (
+                <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">{subtitle}</div>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-4">
+            {records.map((r) => {
+              const changes = diffBudgetSnapshots(r.before, r.after);
+              const entryTitle = r.after?.title || r.before?.title || r.entryId;
+
+              return (
+                <div key={r.id} className="p-5 rounded-2xl bg-slate-50 border border-slate-100">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span
+                      className={`px-2.5 py-1 rounded-md border text-[9px] font-black uppercase tracking-wider ${ACTION_STYLE[r.action]}`}
+                    >
+                      {r.action}
+                    </span>
+                    {showEntry && (
+                      <span className="font-black text-samasa-black tracking-tight">{entryTitle}</span>
+                    )}
+                    <span className="ml-auto text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                      {fmtWhen(r.at)}
+                    </span>
+                  </div>
+
+                  <div className="mt-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                    {r.actorName || "Unknown"} • {r.actorRole}
+                  </div>
+
+                  <div className="mt-2 text-sm font-semibold text-slate-700">
+                    <span className="text-slate-400 font-black text-[10px] uppercase tracking-widest mr-2">Reason</span>
+                    {r.reason || "—"}
+                  </div>
+
+                  {r.action === "UPDATE" && changes.length > 0 && (
+                    <div className="mt-3 space-y-1">
+                      {changes.map((c) => (
+                        <div key={c.field} className="text-xs font-bold text-slate-600">
+                          <span className="uppercase tracking-widest text-[10px] text-slate-400 mr-2">{c.field}</span>
+                          <span className="line-through text-slate-400">{fmtValue(c.field, c.before)}</span>
+                          <span className="mx-2 text-slate-300">→</span>
+                          <span className="text-samasa-black">{fmtValue(c.field, c.after)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {r.action !== "UPDATE" && (
+                    <div className="mt-3 text-xs font-bold text-slate-600">
+                      {fmtValue("amount", (r.after || r.before)?.amount)} • {(r.after || r.before)?.type} •{" "}
+                      {(r.after || r.before)?.department} • {(r.after || r.before)?.date}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {records.length === 0 && (
+              <div className="py-16 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+                No audit records
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetAuditLog;
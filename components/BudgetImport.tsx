@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, Upload, X } from "lucide-react";
+import { ApprovalRule, BudgetAllocation, BudgetEntry, DepartmentId, FiscalTerm, User } from "../types";
+import {
+  ColumnMap,
+  guessColumnMap,
+  IMPORT_FIELDS,
+  readImportFile,
+  REQUIRED_FIELDS,
+  validateImportRows,
+} from "../src/budgetImport";
+import { createBudgetEntries } from "../src/budgetLedger";
+
+interface BudgetImportProps {
+  user: User;
+  terms: FiscalTerm[];
+  departments: DepartmentId[];
+  entries: BudgetEntry[];
+  allocations: BudgetAllocation[];
+  rules: ApprovalRule[];
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 200;
+
+/** CSV/XLSX bulk import: map columns → dry-run preview → batched write of valid rows */
+const BudgetImport: React.FC<BudgetImportProps> = ({ user, terms, departments, entries, allocations, rules, onClose }) => {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [map, setMap] = useState<ColumnMap | null>(null);
+  const [reason, setReason] = useState("");
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const header = rows[0] ?? [];
+
+  const preview = useMemo(
+    () =>
+      map
+        ? validateImportRows(rows, map, { terms, departments, entries, allocations, rules, actor: user })
+        : [],
+    [rows, map, terms, departments, entries, allocations, rules, user]
+  );
+
+  const valid = preview.filter((r) => r.record);
+  const invalidCount = preview.length - valid.length;
+  const visible = (showErrorsOnly ? preview.filter((r) => r.errors.length > 0) : preview).slice(0, PREVIEW_LIMIT);
+
+  const onFile = async (file?: File | null) => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.length < 2) throw new Error("The file has no data rows.");
+      setFileName(file.name);
+      setRows(parsed);
+      setMap(guessColumnMap(parsed[0]));
+      setReason(`Bulk import: ${file.name}`);
+    } catch (err: any) {
+      console.error("IMPORT READ ERROR:", err);
+      alert(err?.message || "Failed to read file.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const commit = async () => {
+    if (valid.length === 0) return alert("No valid rows to import.");
+    if (!reason.trim()) return alert("Please enter a reason for this import.");
+
+    const skip = invalidCount > 0 ? ` ${invalidCount} row(s) with errors will be skipped.` : "";
+    if (!confirm(`Import ${valid.length} record(s)?${skip}`)) return;
+
+    setBusy(true);
+    try {
+      await createBudgetEntries(
+        valid.map((r) => r.record),
+        user,
+        reason.trim()
+      );
+      alert(`Imported ${valid.length} record(s).`);
+      onClose();
+    } catch (err: any) {
+      console.error("IMPORT ERROR:", err);
+      alert(err?.message || "Import failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl font-bold text-sm outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all";
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-5xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <FileSpreadsheet size={14} />
+                Bulk Import
+              </div>
+              <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">
+                {fileName || "Import Records"}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-6">
+            {/* File */}
+            <label className="flex flex-col items-center justify-center gap-3 p-8 rounded-2xl border-2 border-dashed border-slate-200 hover:border-samasa-blue transition-all cursor-pointer text-center">
+              <Upload className="w-6 h-6 text-slate-400" />
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                {fileName ? "Choose another file" : "Choose a .csv or .xlsx file"}
+              </div>
+              <div className="text-xs font-bold text-slate-400">
+                Columns: title, amount, type (income/expense), category, department, date, fund, impact
+              </div>
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="hidden"
+                disabled={busy}
+                onChange={(e) => {
+                  onFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+
+            {/* Column mapping */}
+            {map && (
+              <div>
+                <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Column Mapping</div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {IMPORT_FIELDS.map((field) => (
+                    <div key={field}>
+                      <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1.5">
+                        {field}
+                        {REQUIRED_FIELDS.includes(field) && <span className="text-samasa-red"> *</span>}
+                      </div>
+                      <select
+                        value={map[field]}
+                        onChange={(e) => setMap({ ...map, [field]: Number(e.target.value) })}
+                        className={inputClass}
+                      >
+                        <option value={-1}>— Not mapped —</option>
+                        {header.map((h, i) => (
+                          <option key={i} value={i}>
+                            {h || `Column ${i + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Dry-run preview */}
+            {map && (
+              <div>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl border bg-emerald-50 border-emerald-100 text-emerald-700 text-[10px] font-black uppercase tracking-widest">
+                      <CheckCircle2 size={12} />
+                      {valid.length} valid
+                    </span>
+                    <span
+                      className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl border text-[10px] font-black uppercase tracking-widest ${
+                        invalidCount > 0
+                          ? "bg-red-50 border-red-100 text-samasa-red"
+                          : "bg-slate-50 border-slate-100 text-slate-400"
+                      }`}
+                    >
+                      <AlertTriangle size={12} />
+                      {invalidCount} with errors
+                    </span>
+                  </div>
+
+                  <label className="inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={showErrorsOnly}
+                      onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                    />
+                    Errors only
+                  </label>
+                </div>
+
+                <div className="rounded-2xl border border-slate-100 overflow-x-auto">
+                  <table className="w-full text-left">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-400">Line</th>
+                        <th className="px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-400">Record</th>
+                        <th className="px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-400">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {visible.map((r) => (
+                        <tr key={r.line} className={r.errors.length > 0 ? "bg-red-50/40" : ""}>
+                          <td className="px-4 py-3 text-xs font-black text-slate-400 align-top">{r.line}</td>
+                          <td className="px-4 py-3 align-top">
+                            {r.record ? (
+                              <>
+                                <div className="font-black text-samasa-black text-sm">{r.record.title}</div>
+                                <div className="mt-0.5 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                                  {r.record.type} • ₱{Number(r.record.amount).toLocaleString()} • {r.record.department} •{" "}
+                                  {r.record.date}
+                                  {r.record.fund ? ` • ${r.record.fund}` : ""}
+                                  {r.record.impact === "AVAILABLE_ONLY" ? " • balance only" : ""}
+                                  {r.record.status === "SUBMITTED" ? " • needs approval" : ""}
+                                </div>
+                              </>
+                            ) : (
+                              <div className="text-xs font-bold text-slate-500 truncate max-w-md">
+                                {r.cells.join(" | ")}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 align-top">
+                            {r.errors.length > 0 ? (
+                              <ul className="space-y-1">
+                                {r.errors.map((err, i) => (
+                                  <li key={i} className="text-xs font-bold text-samasa-red">
+                                    {err}
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <span className="text-[10px] font-black uppercase tracking-widest text-emerald-600">Ready</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {visible.length === PREVIEW_LIMIT && (
+                  <div className="mt-2 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    Showing the first {PREVIEW_LIMIT} rows
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {map && (
+            <div className="px-6 sm:px-8 py-6 border-t border-slate-100 flex flex-col sm:flex-row gap-3">
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (saved to the audit trail)"
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                type="button"
+                disabled={busy || valid.length === 0}
+                onClick={commit}
+                className="px-8 py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                {busy ? "Importing…" : `Import ${valid.length}`}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetImport;
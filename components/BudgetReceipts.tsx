@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import { ExternalLink, FileText, Paperclip, Trash2, Upload, X } from "lucide-react";
+import { BudgetEntry, BudgetReceipt, User } from "../types";
+import { attachReceipt, RECEIPT_ACCEPT, removeReceipt } from "../src/budgetReceipts";
+
+interface BudgetReceiptsProps {
+  entry: BudgetEntry;
+  user: User;
+  /** false for viewers and for entries in a closed term */
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+const fmtWhen = (ms: number) =>
+  ms ? new Date(ms).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "2-digit" }) : "—";
+
+/** Receipt viewer for one ledger entry, with upload/remove for managers */
+const BudgetReceipts: React.FC<BudgetReceiptsProps> = ({ entry, user, canEdit, onClose }) => {
+  const receipts = entry.receipts ?? [];
+  const [activeId, setActiveId] = useState<string | null>(receipts[0]?.id ?? null);
+  const [file, setFile] = useState<File | null>(null);
+  const [orNumber, setOrNumber] = useState("");
+  const [vendor, setVendor] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => {
+      document.body.style.overflow = prev;
+      window.removeEventListener("keydown", onKey);
+    };
+  }, [onClose]);
+
+  const active = receipts.find((r) => r.id === activeId) ?? receipts[0] ?? null;
+
+  const upload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return alert("Choose a photo or PDF of the receipt.");
+    if (!orNumber.trim()) return alert("OR number is required.");
+
+    setBusy(true);
+    try {
+      const receipt = await attachReceipt(entry, file, { orNumber, vendor }, user);
+      setActiveId(receipt.id);
+      setFile(null);
+      setOrNumber("");
+      setVendor("");
+    } catch (err: any) {
+      console.error("RECEIPT UPLOAD ERROR:", err);
+      alert(err?.message || "Failed to upload receipt.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (r: BudgetReceipt) => {
+    const reason = prompt(`Reason for removing ${r.orNumber ? `OR #${r.orNumber}` : r.fileName}?`);
+    if (reason === null) return;
+    if (!reason.trim()) return alert("A reason is required.");
+
+    setBusy(true);
+    try {
+      await removeReceipt(entry, r, user, reason.trim());
+      if (activeId === r.id) setActiveId(null);
+    } catch (err: any) {
+      console.error("RECEIPT REMOVE ERROR:", err);
+      alert(err?.message || "Failed to remove receipt.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl font-bold text-sm outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all";
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-4xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <Paperclip size={14} />
+                Receipts
+              </div>
+              <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">{entry.title}</div>
+              <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {entry.department} • {entry.date} • ₱{Number(entry.amount).toLocaleString()}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto grid grid-cols-1 md:grid-cols-[1fr_16rem] gap-6">
+            {/* Preview */}
+            <div className="min-h-[18rem] rounded-2xl bg-slate-50 border border-slate-100 flex items-center justify-center overflow-hidden">
+              {active ? (
+                active.kind === "image" ? (
+                  <img src={active.url} alt={active.fileName} className="max-h-[60vh] w-full object-contain" />
+                ) : (
+                  <iframe title={active.fileName} src={active.url} className="w-full h-[60vh] bg-white" />
+                )
+              ) : (
+                <div className="py-16 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+                  No receipts attached
+                </div>
+              )}
+            </div>
+
+            {/* List */}
+            <div className="space-y-3">
+              {receipts.map((r) => (
+                <div
+                  key={r.id}
+                  onClick={() => setActiveId(r.id)}
+                  className={`p-4 rounded-2xl border cursor-pointer transition-all ${
+                    active?.id === r.id ? "border-samasa-blue bg-blue-50/40" : "border-slate-100 hover:border-slate-200"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-1.5 font-black text-samasa-black text-sm truncate">
+                        {r.kind === "pdf" && <FileText size={14} className="shrink-0 text-slate-400" />}
+                        {r.orNumber ? `OR #${r.orNumber}` : r.fileName}
+                      </div>
+                      {r.vendor && <div className="text-xs font-bold text-slate-500 truncate">{r.vendor}</div>}
+                      <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                        {r.uploadedByName || "—"} • {fmtWhen(r.uploadedAt)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <a
+                        href={r.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        onClick={(e) => e.stopPropagation()}
+                        className="w-8 h-8 rounded-xl text-slate-400 hover:text-samasa-blue flex items-center justify-center"
+                        title="Open"
+                      >
+                        <ExternalLink size={14} />
+                      </a>
+                      {canEdit && (
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            remove(r);
+                          }}
+                          className="w-8 h-8 rounded-xl text-slate-400 hover:text-samasa-red flex items-center justify-center disabled:opacity-50"
+                          title="Remove"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {canEdit && (
+            <form
+              onSubmit={upload}
+              className="px-6 sm:px-8 py-6 border-t border-slate-100 grid grid-cols-1 sm:grid-cols-4 gap-3"
+            >
+              <label className={`${inputClass} cursor-pointer truncate text-slate-500`}>
+                {file ? file.name : "Choose file…"}
+                <input
+                  type="file"
+                  accept={RECEIPT_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </label>
+              <input
+                value={orNumber}
+                onChange={(e) => setOrNumber(e.target.value)}
+                placeholder="OR number"
+                className={inputClass}
+              />
+              <input value={vendor} onChange={(e) => setVendor(e.target.value)} placeholder="Vendor" className={inputClass} />
+              <button
+                type="submit"
+                disabled={busy}
+                className="py-3 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                {busy ? "Uploading…" : "Attach"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetReceipts;
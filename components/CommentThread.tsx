@@ -0,0 +1,346 @@
+import React, { useMemo, useRef, useState } from "react";
+import { EyeOff, Lock, MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+import { CommentTargetType, CommentVisibility, DiscussionComment, Officer, User, UserRole } from "../types";
+import { useComments, useOfficers } from "../src/repository";
+import { useSittingOfficers } from "../src/councilTerms";
+import {
+  commentsFor,
+  COMMENT_MAX_LENGTH,
+  deleteComment,
+  editComment,
+  isCouncilStaff,
+  mentionParts,
+  postComment,
+  setCommentHidden,
+} from "../src/comments";
+
+interface CommentThreadProps {
+  targetType: CommentTargetType;
+  targetId: string;
+  user: User;
+  /** false on public embeds: read only */
+  canPost: boolean;
+}
+
+const MAX_INDENT = 3;
+
+// ==============================
+// Composer with @mention suggestions
+// ==============================
+const Composer: React.FC<{
+  officers: Officer[];
+  staff: boolean;
+  /** replies to an internal note stay internal */
+  forceInternal?: boolean;
+  initial?: string;
+  submitLabel: string;
+  onSubmit: (body: string, visibility: CommentVisibility) => Promise<void>;
+  onCancel?: () => void;
+}> = ({ officers, staff, forceInternal, initial = "", submitLabel, onSubmit, onCancel }) => {
+  const [body, setBody] = useState(initial);
+  const [internal, setInternal] = useState(!!forceInternal);
+  const [query, setQuery] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const ref = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = useMemo(() => {
+    if (query === null) return [];
+    const q = query.toLowerCase();
+    return officers.filter((o) => o.name.toLowerCase().startsWith(q)).slice(0, 6);
+  }, [officers, query]);
+
+  const onChange = (value: string, caret: number) => {
+    setBody(value);
+    const m = value.slice(0, caret).match(/@([^@\n]{0,30})$/);
+    setQuery(m ? m[1] : null);
+  };
+
+  const pick = (o: Officer) => {
+    const el = ref.current;
+    const caret = el?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@([^@\n]{0,30})$/, `@${o.name} `);
+    const next = before + body.slice(caret);
+    setBody(next);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const submit = async () => {
+    setBusy(true);
+    try {
+      await onSubmit(body, internal || forceInternal ? "INTERNAL" : "PUBLIC");
+      setBody("");
+      setQuery(null);
+    } catch (err: any) {
+      console.error("COMMENT ERROR:", err);
+      alert(err?.message || "Failed to save comment.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={ref}
+        value={body}
+        maxLength={COMMENT_MAX_LENGTH}
+        onChange={(e) => onChange(e.target.value, e.target.selectionStart)}
+        placeholder="Write a comment… use @ to mention an officer"
+        className="w-full min-h-[90px] px-4 py-3 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium text-sm"
+      />
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-4 z-10 -mt-2 w-72 rounded-2xl bg-white border border-slate-200 shadow-xl overflow-hidden">
+          {suggestions.map((o) => (
+            <button
+              key={o.id}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(o);
+              }}
+              className="w-full text-left px-4 py-2.5 hover:bg-slate-50 transition-all"
+            >
+              <div className="text-sm font-black text-samasa-black">{o.name}</div>
+              <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {o.position} • {o.department}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-3">
+        {staff && !forceInternal ? (
+          <label className="inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={internal} onChange={(e) => setInternal(e.target.checked)} />
+            Internal note (officers only)
+          </label>
+        ) : (
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {forceInternal ? "Internal thread" : "Visible to everyone"}
+          </span>
+        )}
+
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            disabled={busy || !body.trim()}
+            onClick={submit}
+            className="px-5 py-2 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all disabled:opacity-60"
+          >
+            {busy ? "Saving..." : submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ==============================
+// Thread
+// ==============================
+/** Threaded discussion for a proposal or project */
+const CommentThread: React.FC<CommentThreadProps> = ({ targetType, targetId, user, canPost }) => {
+  const staff = isCouncilStaff(user);
+  const { data: allComments } = useComments(staff);
+  // mentions resolve against the sitting council; past mentions still render from the full history
+  const { data: allOfficers } = useOfficers();
+  const { data: officers } = useSittingOfficers();
+
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const comments = useMemo(
+    () => commentsFor(allComments, targetType, targetId),
+    [allComments, targetType, targetId]
+  );
+  const childrenOf = (parentId: string | null) => comments.filter((c) => c.parentId === parentId);
+
+  const run = async (label: string, fn: () => Promise<any>) => {
+    try {
+      await fn();
+    } catch (err: any) {
+      console.error(`${label} ERROR:`, err);
+      alert(err?.message || "Something went wrong.");
+    }
+  };
+
+  const toggleHidden = (c: DiscussionComment) => {
+    if (c.hidden) return run("UNHIDE COMMENT", () => setCommentHidden(c, false, user));
+    const reason = prompt("Reason for hiding this comment:", "");
+    if (reason === null) return;
+    return run("HIDE COMMENT", () => setCommentHidden(c, true, user, reason));
+  };
+
+  const remove = (c: DiscussionComment) => {
+    if (!confirm("Delete this comment?")) return;
+    return run("DELETE COMMENT", () => deleteComment(c, comments, user));
+  };
+
+  const renderBody = (c: DiscussionComment) => {
+    if (c.deleted) return <span className="italic text-slate-300">Comment deleted.</span>;
+    if (c.hidden && !staff) return <span className="italic text-slate-300">Hidden by a moderator.</span>;
+
+    const mentioned = allOfficers.filter((o) => c.mentions.includes(o.id));
+    return mentionParts(c.body, mentioned).map((p, i) =>
+      p.mention ? (
+        <span key={i} className="font-black text-samasa-blue">
+          {p.text}
+        </span>
+      ) : (
+        <span key={i}>{p.text}</span>
+      )
+    );
+  };
+
+  const renderComment = (c: DiscussionComment, depth: number): React.ReactNode => {
+    const mine = c.authorId === user.id;
+    const canDelete = !c.deleted && (mine || user.role === UserRole.SUPERADMIN);
+
+    return (
+      <div key={c.id} className={depth > 0 && depth <= MAX_INDENT ? "ml-5 pl-4 border-l-2 border-slate-100" : ""}>
+        <div
+          className={`p-4 rounded-2xl border ${
+            c.visibility === "INTERNAL" ? "bg-amber-50/50 border-amber-100" : "bg-slate-50 border-slate-100"
+          } ${c.hidden ? "opacity-60" : ""}`}
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-black text-samasa-black">{c.authorName || "—"}</span>
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{c.authorRole}</span>
+            {c.visibility === "INTERNAL" && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-[10px] font-black uppercase tracking-widest">
+                <Lock className="w-3 h-3" />
+                Internal
+              </span>
+            )}
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-300">
+              {c.createdAt ? new Date(c.createdAt).toLocaleString() : ""}
+              {c.editedAt ? " • edited" : ""}
+            </span>
+          </div>
+
+          {editing === c.id ? (
+            <div className="mt-3">
+              <Composer
+                officers={officers}
+                staff={false}
+                forceInternal={c.visibility === "INTERNAL"}
+                initial={c.body}
+                submitLabel="Save"
+                onCancel={() => setEditing(null)}
+                onSubmit={async (body) => {
+                  await editComment(c, body, user, officers);
+                  setEditing(null);
+                }}
+              />
+            </div>
+          ) : (
+            <p className="mt-2 text-sm font-medium text-slate-700 whitespace-pre-wrap break-words">{renderBody(c)}</p>
+          )}
+
+          {c.hidden && staff && (
+            <div className="mt-2 text-[10px] font-black uppercase tracking-widest text-samasa-red">
+              Hidden by {c.hiddenByName || "a moderator"}
+              {c.hiddenReason ? `: ${c.hiddenReason}` : ""}
+            </div>
+          )}
+
+          {canPost && !c.deleted && editing !== c.id && (
+            <div className="mt-3 flex flex-wrap gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <button type="button" onClick={() => setReplyTo(c.id)} className="inline-flex items-center gap-1 hover:text-samasa-blue">
+                <Reply className="w-3 h-3" /> Reply
+              </button>
+              {mine && (
+                <button type="button" onClick={() => setEditing(c.id)} className="inline-flex items-center gap-1 hover:text-samasa-blue">
+                  <Pencil className="w-3 h-3" /> Edit
+                </button>
+              )}
+              {staff && (
+                <button type="button" onClick={() => toggleHidden(c)} className="inline-flex items-center gap-1 hover:text-samasa-red">
+                  <EyeOff className="w-3 h-3" /> {c.hidden ? "Unhide" : "Hide"}
+                </button>
+              )}
+              {canDelete && (
+                <button type="button" onClick={() => remove(c)} className="inline-flex items-center gap-1 hover:text-samasa-red">
+                  <Trash2 className="w-3 h-3" /> Delete
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {replyTo === c.id && (
+          <div className="mt-3 ml-5">
+            <Composer
+              officers={officers}
+              staff={staff}
+              forceInternal={c.visibility === "INTERNAL"}
+              submitLabel="Reply"
+              onCancel={() => setReplyTo(null)}
+              onSubmit={async (body, visibility) => {
+                await postComment({ type: targetType, id: targetId }, { body, visibility, parentId: c.id }, user, officers);
+                setReplyTo(null);
+              }}
+            />
+          </div>
+        )}
+
+        <div className="mt-3 space-y-3">{childrenOf(c.id).map((r) => renderComment(r, depth + 1))}</div>
+      </div>
+    );
+  };
+
+  const roots = childrenOf(null);
+  // Replies whose parent isn't visible to this viewer (e.g. an internal parent) surface at the top level
+  const orphans = comments.filter((c) => c.parentId && !comments.some((p) => p.id === c.parentId));
+
+  return (
+    <div className="rounded-2xl border border-slate-200 p-6 space-y-5">
+      <div className="flex items-center gap-3">
+        <MessageSquare className="w-5 h-5 text-samasa-blue" />
+        <div>
+          <div className="text-sm font-black text-samasa-black">Discussion</div>
+          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {staff ? "Internal notes are visible to officers only" : "Public comments"}
+          </div>
+        </div>
+      </div>
+
+      {canPost && (
+        <Composer
+          officers={officers}
+          staff={staff}
+          submitLabel="Comment"
+          onSubmit={(body, visibility) =>
+            postComment({ type: targetType, id: targetId }, { body, visibility }, user, officers).then(() => undefined)
+          }
+        />
+      )}
+
+      <div className="space-y-3">
+        {[...roots, ...orphans].map((c) => renderComment(c, 0))}
+        {comments.length === 0 && (
+          <div className="py-6 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+            No comments yet
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,389 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { CalendarRange, CopyPlus, Pencil, Plus, Settings2, X } from "lucide-react";
+import { CouncilTerm, Officer, User, UserAccount, UserRole } from "../types";
+import {
+  carryOverOfficers,
+  createCouncilTerm,
+  officerTermId,
+  rosterFor,
+  sittingTerm,
+  updateCouncilTerm,
+} from "../src/councilTerms";
+
+interface CouncilTermSelectorProps {
+  user?: User | null;
+  terms: CouncilTerm[];
+  /** term id being viewed */
+  value: string;
+  onChange: (termId: string) => void;
+  /** full officer history (every term) */
+  officers: Officer[];
+  accounts: UserAccount[];
+  deptName: (id: string) => string;
+}
+
+const inputClass =
+  "w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all";
+
+const useBodyLock = () =>
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+/** Council term switcher for the officer directory; SUPERADMIN also manages terms and carry-overs */
+const CouncilTermSelector: React.FC<CouncilTermSelectorProps> = ({
+  user,
+  terms,
+  value,
+  onChange,
+  officers,
+  accounts,
+  deptName,
+}) => {
+  const [managerOpen, setManagerOpen] = useState(false);
+  const [carryOpen, setCarryOpen] = useState(false);
+
+  const isSuperAdmin = user?.role === UserRole.SUPERADMIN;
+  const sitting = sittingTerm(terms);
+  const viewed = terms.find((t) => t.id === value) ?? null;
+
+  if (terms.length === 0 && !isSuperAdmin) return null;
+
+  return (
+    <div className="inline-flex flex-wrap items-center gap-2">
+      {terms.length > 0 && (
+        <div className="relative">
+          <CalendarRange className="absolute left-4 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400 pointer-events-none" />
+          <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="pl-10 pr-8 py-4 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest outline-none appearance-none hover:border-slate-300 transition-colors cursor-pointer"
+          >
+            {terms.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+                {t.id === sitting?.id ? " • Sitting" : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {isSuperAdmin && viewed && terms.length > 1 && (
+        <button
+          type="button"
+          onClick={() => setCarryOpen(true)}
+          className="inline-flex items-center gap-2 px-5 py-4 rounded-2xl bg-white border border-slate-200 text-slate-800 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-50 transition-all active:scale-95"
+          title="Carry over re-elected officers"
+        >
+          <CopyPlus className="w-4 h-4 text-samasa-blue" />
+          Carry Over
+        </button>
+      )}
+
+      {isSuperAdmin && (
+        <button
+          type="button"
+          onClick={() => setManagerOpen(true)}
+          className="w-[50px] h-[50px] rounded-2xl bg-white border border-slate-200 text-slate-400 hover:text-samasa-blue hover:border-samasa-blue transition-all flex items-center justify-center"
+          title="Manage council terms"
+        >
+          <Settings2 size={16} />
+        </button>
+      )}
+
+      {managerOpen && isSuperAdmin && user && (
+        <CouncilTermManager user={user} terms={terms} officers={officers} onClose={() => setManagerOpen(false)} />
+      )}
+
+      {carryOpen && isSuperAdmin && user && viewed && (
+        <CarryOverDialog
+          user={user}
+          terms={terms}
+          target={viewed}
+          officers={officers}
+          accounts={accounts}
+          deptName={deptName}
+          onClose={() => setCarryOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+const CouncilTermManager: React.FC<{
+  user: User;
+  terms: CouncilTerm[];
+  officers: Officer[];
+  onClose: () => void;
+}> = ({ user, terms, officers, onClose }) => {
+  const [editing, setEditing] = useState<CouncilTerm | null>(null);
+  const [label, setLabel] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useBodyLock();
+
+  const reset = () => {
+    setEditing(null);
+    setLabel("");
+    setStartDate("");
+    setEndDate("");
+  };
+
+  const startEdit = (t: CouncilTerm) => {
+    setEditing(t);
+    setLabel(t.label);
+    setStartDate(t.startDate);
+    setEndDate(t.endDate);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      if (editing) await updateCouncilTerm(editing, { label, startDate, endDate }, terms, user);
+      else await createCouncilTerm({ label, startDate, endDate }, terms, officers, user);
+      reset();
+    } catch (err: any) {
+      console.error("COUNCIL TERM ERROR:", err);
+      alert(err?.message || "Failed to save term.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-2xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="text-3xl font-black tracking-tighter text-samasa-black">Council Terms</div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-3">
+            {terms.map((t) => (
+              <div
+                key={t.id}
+                className="p-5 rounded-2xl bg-slate-50 border border-slate-100 flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <div className="font-black text-samasa-black tracking-tight truncate">{t.label}</div>
+                  <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {t.startDate} → {t.endDate} • {rosterFor(officers, terms, t.id).length} officer(s)
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => startEdit(t)}
+                  className="shrink-0 inline-flex items-center gap-2 px-4 py-2.5 rounded-2xl border bg-white border-slate-200 text-slate-600 hover:border-samasa-blue hover:text-samasa-blue font-black text-[10px] uppercase tracking-widest transition-all disabled:opacity-50"
+                >
+                  <Pencil size={12} />
+                  Edit
+                </button>
+              </div>
+            ))}
+
+            {terms.length === 0 && (
+              <div className="py-10 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+                No terms yet — the first one you add keeps the current officer cards
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={submit} className="px-6 sm:px-8 py-6 border-t border-slate-100 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Council 2025–2026"
+              className={`${inputClass} sm:col-span-2`}
+            />
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+            {editing && (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={reset}
+                className="py-4 bg-slate-50 text-slate-500 font-black rounded-2xl hover:bg-slate-100 transition-all text-[10px] uppercase tracking-[0.3em] disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={busy}
+              className={`${
+                editing ? "" : "sm:col-span-2 "
+              }py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50`}
+            >
+              {editing ? <Pencil className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+              {editing ? "Save Term" : "Add Term"}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CarryOverDialog: React.FC<{
+  user: User;
+  terms: CouncilTerm[];
+  target: CouncilTerm;
+  officers: Officer[];
+  accounts: UserAccount[];
+  deptName: (id: string) => string;
+  onClose: () => void;
+}> = ({ user, terms, target, officers, accounts, deptName, onClose }) => {
+  const sources = terms.filter((t) => t.id !== target.id);
+  // default to the council right before the target
+  const [sourceId, setSourceId] = useState(
+    () => sources.find((t) => t.startDate < target.startDate)?.id ?? sources[0]?.id ?? ""
+  );
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  useBodyLock();
+  useEffect(() => setPicked(new Set()), [sourceId]);
+
+  // cards already carried into the target are not offered again
+  const alreadyCarried = useMemo(
+    () => new Set(rosterFor(officers, terms, target.id).map((o) => o.carriedFromId).filter(Boolean)),
+    [officers, terms, target.id]
+  );
+  const roster = useMemo(
+    () =>
+      officers
+        .filter((o) => officerTermId(o, terms) === sourceId && !alreadyCarried.has(o.id))
+        .sort(
+          (a, b) =>
+            deptName(String(a.department)).localeCompare(deptName(String(b.department))) ||
+            (a.order ?? 0) - (b.order ?? 0)
+        ),
+    [officers, terms, sourceId, alreadyCarried, deptName]
+  );
+
+  const toggle = (id: string) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const submit = async () => {
+    const selected = roster.filter((o) => picked.has(o.id));
+    if (!confirm(`Carry ${selected.length} officer(s) over to ${target.label}? Linked accounts move to the new cards.`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      await carryOverOfficers(selected, target, accounts, user);
+      onClose();
+    } catch (err: any) {
+      console.error("CARRY OVER ERROR:", err);
+      alert(err?.message || "Failed to carry officers over.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-2xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Re-elected officers</div>
+              <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">
+                Carry over to {target.label}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-4">
+            <div>
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">From council</div>
+              <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} className={inputClass}>
+                {sources.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {roster.length === 0 ? (
+              <div className="py-10 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+                Nobody left to carry over
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {roster.map((o) => (
+                  <label
+                    key={o.id}
+                    className="p-4 rounded-2xl bg-slate-50 border border-slate-100 flex items-center gap-4 cursor-pointer"
+                  >
+                    <input type="checkbox" checked={picked.has(o.id)} onChange={() => toggle(o.id)} />
+                    <div className="min-w-0">
+                      <div className="font-black text-samasa-black truncate">{o.name}</div>
+                      <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate">
+                        {o.position} • {deptName(String(o.department))}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 border-t border-slate-100">
+            <button
+              type="button"
+              disabled={busy || picked.size === 0}
+              onClick={submit}
+              className="w-full py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+            >
+              <CopyPlus className="w-4 h-4" />
+              {busy ? "Copying…" : `Carry Over ${picked.size || ""}`.trim()}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CouncilTermSelector;
@@ -6,8 +6,10 @@ import {
   X,
   AlertTriangle,
   Menu,
+  Search,
 } from "lucide-react";
 import { User } from "../types";
+import SearchPalette from "./SearchPalette";
 
 interface HeaderProps {
   user: User | null;
@@ -17,6 +19,20 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
   const [showConfirm, setShowConfirm] = useState(false);
   const [isTerminating, setIsTerminating] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  // ✅ Ctrl+K / ⌘K toggles global search
+  useEffect(() => {
+    if (!user) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [user]);
 
   if (!user) return null;
 
@@ -82,6 +98,21 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
 
         {/* Right */}
         <div className="flex items-center gap-3 sm:gap-6 lg:gap-10">
+          {/* Global search */}
+          <button
+            type="button"
+            onClick={() => setSearchOpen(true)}
+            className="flex items-center gap-3 px-3 sm:px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-slate-400 hover:border-samasa-blue/30 hover:text-samasa-blue transition-all"
+            aria-label="Search"
+            title="Search (Ctrl+K)"
+          >
+            <Search className="w-4 h-4" />
+            <span className="hidden md:inline text-[10px] font-black uppercase tracking-widest">Search</span>
+            <kbd className="hidden md:inline px-2 py-0.5 rounded-md bg-white border border-slate-200 text-[9px] font-black text-slate-400">
+              Ctrl K
+            </kbd>
+          </button>
+
           {/* User badge (hide on very small screens) */}
           <div className="hidden sm:flex items-center space-x-4 px-4 lg:px-6 py-2.5 bg-slate-50 border border-slate-100 rounded-2xl group transition-all hover:border-samasa-blue/30">
             <div className="w-8 h-8 rounded-full bg-samasa-blue flex items-center justify-center text-white transition-transform group-hover:scale-110">
@@ -113,6 +144,8 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
         </div>
       </header>
 
+      {searchOpen && <SearchPalette user={user} onClose={() => setSearchOpen(false)} />}
+
       {/* Modern Logout Confirmation Modal */}
       {showConfirm && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
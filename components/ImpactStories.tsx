@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { CheckCircle2, Sparkles, Users, X } from "lucide-react";
+import { useProjects } from "../src/repository";
+import { impactStories, objectivesMet } from "../src/projectReports";
+import ProjectReport from "./ProjectReport";
+
+/** Public impact stories: completed projects with a published report */
+const ImpactStories: React.FC = () => {
+  const { data: projects } = useProjects();
+  const stories = useMemo(() => impactStories(projects), [projects]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = stories.find((p) => p.id === openId) ?? null;
+
+  useEffect(() => {
+    if (!open) return;
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, [open]);
+
+  if (stories.length === 0) return null;
+
+  return (
+    <div className="mt-20">
+      <div className="flex items-center gap-2 text-samasa-blue font-black uppercase tracking-[0.3em] text-[10px] mb-6">
+        <Sparkles className="w-4 h-4" />
+        <span>Impact Stories</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {stories.map((p) => {
+          const report = p.report!;
+          const cover = report.gallery[0]?.url || p.bannerImage;
+          return (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => setOpenId(p.id)}
+              className="text-left bg-white rounded-[2.5rem] border border-slate-200 shadow-sm overflow-hidden group hover:border-samasa-blue hover:shadow-2xl transition-all"
+            >
+              <img src={cover} alt={p.title} className="w-full h-48 object-cover" />
+              <div className="p-8 space-y-4">
+                <h4 className="text-2xl font-black text-samasa-black leading-tight group-hover:text-samasa-blue transition-colors">
+                  {p.title}
+                </h4>
+                <div className="flex flex-wrap gap-x-5 gap-y-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  <span className="flex items-center gap-1.5">
+                    <Users className="w-4 h-4 text-samasa-blue" />
+                    {report.beneficiaries.toLocaleString()} reached
+                  </span>
+                  <span className="flex items-center gap-1.5">
+                    <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+                    {objectivesMet(report)}/{report.outcomes.length} objectives met
+                  </span>
+                </div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {open && (
+        <div className="fixed inset-0 z-[500]">
+          <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={() => setOpenId(null)} />
+          <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+            <div
+              className="w-full max-w-4xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+              style={{ maxHeight: "90vh" }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <Sparkles size={14} />
+                    Impact Story
+                  </div>
+                  <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">{open.title}</div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setOpenId(null)}
+                  className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+                >
+                  <X size={18} />
+                </button>
+              </div>
+
+              <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-6">
+                <p className="text-slate-600 font-medium leading-relaxed whitespace-pre-wrap">{open.description}</p>
+                <ProjectReport project={open} user={null} canAct={false} />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImpactStories;
@@ -0,0 +1,123 @@
+import React, { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { CalendarRange, Landmark, UserCircle } from "lucide-react";
+import { DepartmentType, Officer, OfficerDivision } from "../types";
+import { useCouncilTerms, useDepartments, useOfficers } from "../src/repository";
+import { pastTerms, rosterFor } from "../src/councilTerms";
+
+const DIVISION_ORDER: OfficerDivision[] = [
+  OfficerDivision.EXECUTIVE,
+  OfficerDivision.UNDERSECRETARIES,
+  OfficerDivision.LEGISLATIVE,
+  OfficerDivision.ADVISERS,
+];
+
+/** About → Past Councils: rosters of every ended term, read from the officer directory */
+const PastCouncils: React.FC = () => {
+  const { data: terms } = useCouncilTerms();
+  const { data: officers } = useOfficers();
+  const { data: departments } = useDepartments();
+
+  const deptName = (id: string) =>
+    String(id) === String(DepartmentType.SAMASA)
+      ? "SAMASA Central Board"
+      : departments.find((d) => String(d.id) === String(id))?.name || id;
+
+  const councils = useMemo(
+    () =>
+      pastTerms(terms).map((term) => {
+        const byDept = new Map<string, Officer[]>();
+        rosterFor(officers, terms, term.id)
+          .slice()
+          .sort(
+            (a, b) =>
+              DIVISION_ORDER.indexOf(a.division) - DIVISION_ORDER.indexOf(b.division) ||
+              (a.order ?? 0) - (b.order ?? 0)
+          )
+          .forEach((o) => byDept.set(String(o.department), [...(byDept.get(String(o.department)) ?? []), o]));
+
+        // SAMASA first, then departments in directory order
+        const order = (id: string) =>
+          id === String(DepartmentType.SAMASA) ? -1 : departments.find((d) => String(d.id) === id)?.order ?? 999;
+        const groups = [...byDept.entries()].sort(([a], [b]) => order(a) - order(b));
+        return { term, groups };
+      }),
+    [terms, officers, departments]
+  );
+
+  if (councils.length === 0) {
+    return (
+      <div className="bg-white p-12 rounded-[3.5rem] border border-slate-200 shadow-sm text-center">
+        <div className="mx-auto w-16 h-16 rounded-3xl bg-slate-50 border border-slate-100 flex items-center justify-center">
+          <Landmark className="w-8 h-8 text-slate-400" />
+        </div>
+        <h3 className="text-2xl font-black text-samasa-black mt-6">No past councils yet</h3>
+        <p className="text-slate-500 font-medium mt-3">
+          Councils appear here once their term of office has ended.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-10">
+      {councils.map(({ term, groups }) => (
+        <div key={term.id} className="bg-white p-10 md:p-14 rounded-[3.5rem] border border-slate-200 shadow-sm">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-10">
+            <div>
+              <div className="flex items-center space-x-2 text-samasa-blue font-black uppercase tracking-[0.3em] text-[10px] mb-3">
+                <CalendarRange className="w-4 h-4" />
+                <span>
+                  {term.startDate} → {term.endDate}
+                </span>
+              </div>
+              <h3 className="text-4xl font-black text-samasa-black leading-tight">{term.label}</h3>
+            </div>
+            <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {groups.reduce((n, [, list]) => n + list.length, 0)} officer(s)
+            </div>
+          </div>
+
+          {groups.length === 0 ? (
+            <div className="text-[10px] font-black uppercase tracking-widest text-slate-300">No roster recorded</div>
+          ) : (
+            <div className="space-y-8">
+              {groups.map(([dept, list]) => (
+                <div key={dept}>
+                  <div className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400 mb-4">
+                    {deptName(dept)}
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {list.map((o) => (
+                      <Link
+                        key={o.id}
+                        to={`/officers?officer=${o.id}`}
+                        className="flex items-center gap-4 p-4 rounded-2xl bg-slate-50 border border-slate-100 hover:border-samasa-blue transition-all"
+                      >
+                        {o.photoUrl ? (
+                          <img src={o.photoUrl} alt={o.name} className="w-12 h-12 rounded-2xl object-cover shrink-0" />
+                        ) : (
+                          <div className="w-12 h-12 rounded-2xl bg-white border border-slate-100 flex items-center justify-center shrink-0">
+                            <UserCircle className="w-6 h-6 text-slate-300" />
+                          </div>
+                        )}
+                        <div className="min-w-0">
+                          <div className="font-black text-samasa-black truncate">{o.name}</div>
+                          <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate">
+                            {o.position}
+                          </div>
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PastCouncils;
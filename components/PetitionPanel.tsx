@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { PenLine } from "lucide-react";
+import { Proposal, ProposalSubmitter, User, UserRole } from "../types";
+import { usePetitionSettings, useUserSignatures } from "../src/repository";
+import {
+  canCollectSignatures,
+  isStudent,
+  savePetitionSettings,
+  signPetition,
+  SUBMISSION_KIND_LABEL,
+} from "../src/petitions";
+
+interface PetitionPanelProps {
+  proposal: Proposal;
+  user: User;
+  /** staff (all rows) or the student's own submission; never passed on public views */
+  submitter?: ProposalSubmitter | null;
+  /** false on public embeds: count only */
+  canAct: boolean;
+  /** false for the signed-out viewer, whose signatures the rules won't list */
+  signedIn?: boolean;
+}
+
+/** Anonymous co-signatures; a petition is filed once it reaches the threshold */
+const PetitionPanel: React.FC<PetitionPanelProps> = ({ proposal, user, submitter, canAct, signedIn = true }) => {
+  const { data: settings } = usePetitionSettings();
+  const { data: mySignatures } = useUserSignatures(user.id, signedIn);
+  const [busy, setBusy] = useState(false);
+
+  const count = proposal.signatureCount ?? 0;
+  const threshold = settings.signatureThreshold;
+  const isPetition = proposal.status === "PETITION";
+  const collecting = canCollectSignatures(proposal);
+  const signed = mySignatures.some((s) => s.proposalId === proposal.id);
+  const canSign = canAct && isStudent(user) && collecting && !signed;
+  const isSuper = user.role === UserRole.SUPERADMIN;
+
+  if (!proposal.submissionKind && !collecting && count === 0) return null;
+
+  const sign = async () => {
+    if (!confirm("Co-sign this proposal? Only the total count is shown publicly.")) return;
+    setBusy(true);
+    try {
+      const filed = await signPetition(proposal, user);
+      if (filed) alert("Your signature reached the threshold — the petition is now filed for council review.");
+    } catch (err: any) {
+      console.error("SIGN PETITION ERROR:", err);
+      alert(err?.message || "Failed to sign.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const editThreshold = async () => {
+    const raw = prompt("Signatures needed to file a petition:", String(threshold));
+    if (raw === null) return;
+    try {
+      await savePetitionSettings({ signatureThreshold: Number(raw) }, user);
+    } catch (err: any) {
+      console.error("PETITION SETTINGS ERROR:", err);
+      alert(err?.message || "Failed to save the threshold.");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <PenLine className="w-5 h-5 text-samasa-blue" />
+          <div>
+            <div className="text-sm font-black text-samasa-black">
+              {isPetition ? "Petition" : "Student Support"}
+            </div>
+            <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {proposal.submissionKind ? SUBMISSION_KIND_LABEL[proposal.submissionKind] : "Co-signatures"}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {isSuper && canAct && isPetition && (
+            <button
+              type="button"
+              onClick={editThreshold}
+              className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all"
+            >
+              Threshold: {threshold}
+            </button>
+          )}
+          {canSign && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={sign}
+              className="px-4 py-2 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all disabled:opacity-60"
+            >
+              {busy ? "Signing..." : "Co-sign"}
+            </button>
+          )}
+          {signed && (
+            <span className="px-4 py-2 rounded-full bg-emerald-100 text-emerald-700 text-[10px] font-black uppercase tracking-widest">
+              You signed
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-baseline justify-between gap-3">
+          <div className="text-3xl font-black tracking-tighter text-samasa-black">{count}</div>
+          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {isPetition ? `of ${threshold} signatures to file` : "signature(s)"}
+          </div>
+        </div>
+        {isPetition && (
+          <div className="mt-3 h-2 rounded-full bg-slate-100 overflow-hidden">
+            <div
+              className="h-full bg-samasa-blue transition-all"
+              style={{ width: `${Math.min(100, (count / Math.max(1, threshold)) * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {proposal.status === "SUBMITTED" && (
+        <div className="text-xs font-bold text-slate-500">
+          Waiting for council moderation. It stays off the public list until an officer files it or opens it for
+          signatures.
+        </div>
+      )}
+
+      {submitter && (
+        <div className="rounded-2xl bg-slate-50 border border-slate-100 px-5 py-4">
+          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Submitted by (not public)
+          </div>
+          <div className="mt-1 text-sm font-black text-samasa-black">
+            {submitter.studentName || "—"}
+            {submitter.studentEmail && <span className="ml-2 font-bold text-slate-400">{submitter.studentEmail}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PetitionPanel;
@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Gavel, X } from "lucide-react";
+import { DepartmentType, Policy, PolicyKind, User } from "../types";
+import { isoToday, isTrashed, ProposalRecord, useProposals } from "../src/repository";
+import { useTermFilter } from "../src/fiscalTerms";
+import { enactPolicy, POLICY_KIND_LABEL, policyStatus, updatePolicy } from "../src/policies";
+
+interface PolicyFormProps {
+  user: User;
+  policies: Policy[];
+  /** edit mode when set */
+  policy?: Policy | null;
+  /** "Enact as policy" from a proposal pre-fills title/summary and links it */
+  fromProposal?: ProposalRecord | null;
+  onClose: () => void;
+  onSaved?: (id: string) => void;
+}
+
+/** Enact a resolution/ordinance (or correct one) */
+const PolicyForm: React.FC<PolicyFormProps> = ({ user, policies, policy, fromProposal, onClose, onSaved }) => {
+  const { terms } = useTermFilter();
+  const { data: proposals } = useProposals();
+
+  const [title, setTitle] = useState(policy?.title ?? fromProposal?.title ?? "");
+  const [kind, setKind] = useState<PolicyKind>(policy?.kind ?? "RESOLUTION");
+  const [department, setDepartment] = useState<DepartmentType>(policy?.department ?? DepartmentType.SAMASA);
+  const [dateApproved, setDateApproved] = useState(policy?.dateApproved ?? isoToday());
+  const [description, setDescription] = useState(policy?.description ?? fromProposal?.description ?? "");
+  const [fullText, setFullText] = useState(policy?.fullText ?? "");
+  const [proposalId, setProposalId] = useState(policy?.proposalId ?? fromProposal?.id ?? "");
+  const [amends, setAmends] = useState<string[]>(policy?.amends ?? []);
+  const [repeals, setRepeals] = useState<string[]>(policy?.repeals ?? []);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  // Only policies still in force (or already linked) can be amended/repealed
+  const linkable = useMemo(
+    () =>
+      policies.filter(
+        (p) =>
+          p.id !== policy?.id &&
+          (policyStatus(p, policies) !== "REPEALED" || amends.includes(p.id) || repeals.includes(p.id))
+      ),
+    [policies, policy?.id, amends, repeals]
+  );
+
+  // Adopted proposals only (plus whatever is already linked)
+  const sourceProposals = useMemo(
+    () =>
+      proposals.filter(
+        (p) => p.id === proposalId || (!isTrashed(p) && (p.status === "APPROVED" || p.status === "IMPLEMENTED"))
+      ),
+    [proposals, proposalId]
+  );
+
+  const toggle = (list: string[], set: (v: string[]) => void, id: string) =>
+    set(list.includes(id) ? list.filter((x) => x !== id) : [...list, id]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      if (policy) {
+        await updatePolicy(policy, { title, description, fullText, amends, repeals, proposalId }, user, policies);
+        onSaved?.(policy.id);
+      } else {
+        const { id, code } = await enactPolicy(
+          { title, kind, department, dateApproved, description, fullText, proposalId, amends, repeals },
+          user,
+          terms,
+          policies
+        );
+        alert(`Enacted as ${code}.`);
+        onSaved?.(id);
+      }
+      onClose();
+    } catch (err: any) {
+      console.error("POLICY SAVE ERROR:", err);
+      alert(err?.message || "Failed to save policy.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all disabled:opacity-60";
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+
+  const renderLinkPicker = (label: string, value: string[], other: string[], onToggle: (id: string) => void) => (
+    <div>
+      <div className={labelClass}>{label}</div>
+      <div className="max-h-40 overflow-y-auto rounded-2xl border border-slate-100 divide-y divide-slate-50">
+        {linkable.map((p) => (
+          <label
+            key={p.id}
+            className={`flex items-center gap-3 px-4 py-2.5 text-sm font-bold cursor-pointer ${
+              other.includes(p.id) ? "opacity-40 pointer-events-none" : ""
+            }`}
+          >
+            <input type="checkbox" checked={value.includes(p.id)} onChange={() => onToggle(p.id)} />
+            <span className="text-slate-400 shrink-0">{p.code}</span>
+            <span className="truncate text-samasa-black">{p.title}</span>
+          </label>
+        ))}
+        {linkable.length === 0 && (
+          <div className="px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-300">No policies yet</div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <form
+          onSubmit={save}
+          className="w-full max-w-3xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <Gavel size={14} />
+                {policy ? policy.code : "Enact"}
+              </div>
+              <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">
+                {policy ? "Edit Policy" : `New ${POLICY_KIND_LABEL[kind]}`}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-5">
+            <div>
+              <div className={labelClass}>Title</div>
+              <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <div className={labelClass}>Kind</div>
+                <select
+                  value={kind}
+                  disabled={!!policy}
+                  onChange={(e) => setKind(e.target.value as PolicyKind)}
+                  className={inputClass}
+                >
+                  <option value="RESOLUTION">Resolution</option>
+                  <option value="ORDINANCE">Ordinance</option>
+                </select>
+              </div>
+              <div>
+                <div className={labelClass}>Department</div>
+                <select
+                  value={department}
+                  disabled={!!policy}
+                  onChange={(e) => setDepartment(e.target.value as DepartmentType)}
+                  className={inputClass}
+                >
+                  {Object.values(DepartmentType).map((d) => (
+                    <option key={d} value={d}>
+                      {d}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <div className={labelClass}>Date approved</div>
+                <input
+                  type="date"
+                  value={dateApproved}
+                  disabled={!!policy}
+                  onChange={(e) => setDateApproved(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className={labelClass}>Summary</div>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <div className={labelClass}>Full text</div>
+              <textarea
+                value={fullText}
+                onChange={(e) => setFullText(e.target.value)}
+                rows={10}
+                placeholder="WHEREAS, …&#10;RESOLVED, …"
+                className={`${inputClass} font-medium leading-relaxed`}
+              />
+            </div>
+
+            <div>
+              <div className={labelClass}>Source proposal</div>
+              <select value={proposalId ?? ""} onChange={(e) => setProposalId(e.target.value)} className={inputClass}>
+                <option value="">— None —</option>
+                {sourceProposals.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.title} ({p.status})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderLinkPicker("Amends", amends, repeals, (id) => toggle(amends, setAmends, id))}
+              {renderLinkPicker("Repeals", repeals, amends, (id) => toggle(repeals, setRepeals, id))}
+            </div>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 border-t border-slate-100">
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+            >
+              <Gavel className="w-4 h-4" />
+              {saving ? "Saving…" : policy ? "Save" : "Enact"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PolicyForm;
@@ -0,0 +1,386 @@
+import React, { useMemo, useState } from "react";
+import { Flag, Pencil, Plus, Trash2 } from "lucide-react";
+import { MilestoneState, Project, ProjectMilestone, User } from "../types";
+import { isoToday } from "../src/repository";
+import { useSittingOfficers } from "../src/councilTerms";
+import {
+  canEditMilestones,
+  canUpdateMilestone,
+  isOverdue,
+  MILESTONE_STATE_LABEL,
+  MilestoneInput,
+  objectiveProgress,
+  percentComplete,
+  removeMilestone,
+  saveMilestone,
+  setMilestoneState,
+} from "../src/projectMilestones";
+
+interface ProjectMilestonesProps {
+  project: Project;
+  user: User;
+  /** false on public embeds and closed terms: read-only */
+  canAct: boolean;
+}
+
+const STATE_STYLE: Record<MilestoneState, string> = {
+  TODO: "bg-slate-100 text-slate-500",
+  IN_PROGRESS: "bg-samasa-blue text-white",
+  BLOCKED: "bg-red-100 text-samasa-red",
+  DONE: "bg-emerald-100 text-emerald-700",
+};
+
+const BAR_STYLE: Record<MilestoneState, string> = {
+  TODO: "bg-slate-300",
+  IN_PROGRESS: "bg-samasa-blue",
+  BLOCKED: "bg-samasa-red",
+  DONE: "bg-emerald-500",
+};
+
+const DAY = 86400000;
+const dayNum = (iso: string) => Math.floor(new Date(`${iso}T00:00:00Z`).getTime() / DAY);
+
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+const inputClass =
+  "w-full px-4 py-3 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium text-sm";
+
+const emptyForm = (): MilestoneInput => ({
+  title: "",
+  objective: "",
+  ownerId: "",
+  startDate: isoToday(),
+  dueDate: isoToday(),
+});
+
+/** Milestone plan, per-objective progress and a Gantt-style timeline */
+const ProjectMilestones: React.FC<ProjectMilestonesProps> = ({ project, user, canAct }) => {
+  const { data: officers } = useSittingOfficers();
+  const milestones = project.milestones ?? [];
+
+  const canEdit = canAct && canEditMilestones(user, project);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<MilestoneInput | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const sorted = useMemo(
+    () => milestones.slice().sort((a, b) => a.startDate.localeCompare(b.startDate) || a.dueDate.localeCompare(b.dueDate)),
+    [milestones]
+  );
+  const progress = useMemo(() => objectiveProgress(project), [project]);
+  const percent = Math.round(percentComplete(milestones));
+
+  // Gantt window: first start → last due (always at least one day wide)
+  const range = useMemo(() => {
+    if (sorted.length === 0) return null;
+    const start = Math.min(...sorted.map((m) => dayNum(m.startDate)));
+    const end = Math.max(...sorted.map((m) => dayNum(m.dueDate)));
+    return { start, span: Math.max(1, end - start + 1) };
+  }, [sorted]);
+  const today = dayNum(isoToday());
+
+  const openForm = (m?: ProjectMilestone) => {
+    setEditingId(m?.id ?? null);
+    setForm(
+      m
+        ? { title: m.title, objective: m.objective, ownerId: m.ownerId, startDate: m.startDate, dueDate: m.dueDate }
+        : emptyForm()
+    );
+  };
+
+  const save = async () => {
+    if (!form) return;
+    setBusy(true);
+    try {
+      await saveMilestone(project, form, officers, user, editingId ?? undefined);
+      setForm(null);
+      setEditingId(null);
+    } catch (err: any) {
+      console.error("SAVE MILESTONE ERROR:", err);
+      alert(err?.message || "Failed to save milestone.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeState = async (m: ProjectMilestone, state: MilestoneState) => {
+    let reason = "";
+    if (state === "BLOCKED") {
+      const input = prompt("What is blocking this milestone?");
+      if (input === null) return;
+      reason = input;
+    }
+    setBusy(true);
+    try {
+      await setMilestoneState(project, m, state, user, reason);
+    } catch (err: any) {
+      console.error("MILESTONE STATE ERROR:", err);
+      alert(err?.message || "Failed to update milestone.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (m: ProjectMilestone) => {
+    if (!confirm(`Remove the milestone "${m.title}"?`)) return;
+    setBusy(true);
+    try {
+      await removeMilestone(project, m, user);
+    } catch (err: any) {
+      console.error("REMOVE MILESTONE ERROR:", err);
+      alert(err?.message || "Failed to remove milestone.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (milestones.length === 0 && !canEdit) return null;
+
+  return (
+    <div className="rounded-2xl border border-slate-200 p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Flag className="w-5 h-5 text-samasa-blue" />
+          <div>
+            <div className="text-sm font-black text-samasa-black">Milestones</div>
+            <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {milestones.length > 0 ? `${percent}% complete` : "No milestones yet"}
+              {project.statusOverride && " • status set manually"}
+            </div>
+          </div>
+        </div>
+
+        {canEdit && !form && (
+          <button
+            type="button"
+            onClick={() => openForm()}
+            className="px-4 py-2 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all inline-flex items-center gap-1.5"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Milestone
+          </button>
+        )}
+      </div>
+
+      {milestones.length > 0 && (
+        <div className="w-full h-3 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500 rounded-full transition-all duration-700" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+
+      {/* Per-objective progress */}
+      {milestones.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {progress
+            .filter((o) => o.total > 0)
+            .map((o) => (
+              <div key={o.objective || "_general"} className="rounded-2xl bg-slate-50 border border-slate-100 px-4 py-3">
+                <div className="flex justify-between gap-3 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                  <span className="truncate">{o.objective || "General"}</span>
+                  <span>
+                    {o.done}/{o.total}
+                  </span>
+                </div>
+                <div className="mt-2 w-full h-1.5 bg-white rounded-full overflow-hidden">
+                  <div className="h-full bg-samasa-blue rounded-full" style={{ width: `${(o.done / o.total) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {/* Gantt */}
+      {range && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400 sm:pl-48">
+            <span>{sorted[0].startDate}</span>
+            <span>{new Date((range.start + range.span - 1) * DAY).toISOString().slice(0, 10)}</span>
+          </div>
+
+          {sorted.map((m) => {
+            const left = ((dayNum(m.startDate) - range.start) / range.span) * 100;
+            const width = ((dayNum(m.dueDate) - dayNum(m.startDate) + 1) / range.span) * 100;
+            return (
+              <div key={m.id} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3">
+                <div className="sm:w-44 shrink-0 text-xs font-black text-samasa-black truncate" title={m.title}>
+                  {m.title}
+                </div>
+                <div className="relative flex-grow h-6 rounded-lg bg-slate-50">
+                  {today >= range.start && today < range.start + range.span && (
+                    <div
+                      className="absolute top-0 bottom-0 w-px bg-samasa-red/60"
+                      style={{ left: `${((today - range.start) / range.span) * 100}%` }}
+                      title="Today"
+                    />
+                  )}
+                  <div
+                    className={`absolute top-1 bottom-1 rounded-md ${BAR_STYLE[m.state]} ${
+                      isOverdue(m) ? "ring-2 ring-samasa-red" : ""
+                    }`}
+                    style={{ left: `${left}%`, width: `${Math.max(width, 1)}%` }}
+                    title={`${m.startDate} → ${m.dueDate}`}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* List */}
+      {sorted.length > 0 && (
+        <div className="divide-y divide-slate-50">
+          {sorted.map((m) => (
+            <div key={m.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-black text-samasa-black">{m.title}</span>
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${STATE_STYLE[m.state]}`}>
+                    {MILESTONE_STATE_LABEL[m.state]}
+                  </span>
+                  {isOverdue(m) && (
+                    <span className="text-[10px] font-black uppercase tracking-widest text-samasa-red">Overdue</span>
+                  )}
+                </div>
+                <div className="mt-1 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  {m.ownerName || "No owner"} • {m.startDate} → {m.dueDate}
+                  {m.objective && ` • ${m.objective}`}
+                </div>
+                {m.state === "BLOCKED" && m.blockedReason && (
+                  <div className="mt-1 text-xs font-bold text-samasa-red">{m.blockedReason}</div>
+                )}
+              </div>
+
+              {canAct && (canUpdateMilestone(user, project, m) || canEdit) && (
+                <div className="flex items-center gap-2">
+                  {canUpdateMilestone(user, project, m) && (
+                    <select
+                      value={m.state}
+                      disabled={busy}
+                      onChange={(e) => changeState(m, e.target.value as MilestoneState)}
+                      className="px-3 py-2 rounded-2xl border border-slate-200 text-xs font-bold"
+                    >
+                      {(Object.keys(MILESTONE_STATE_LABEL) as MilestoneState[]).map((s) => (
+                        <option key={s} value={s}>
+                          {MILESTONE_STATE_LABEL[s]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {canEdit && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => openForm(m)}
+                        className="p-2 rounded-full bg-slate-50 border border-slate-100 text-slate-400 hover:text-samasa-blue transition-all"
+                        aria-label="Edit milestone"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => remove(m)}
+                        className="p-2 rounded-full bg-slate-50 border border-slate-100 text-slate-400 hover:text-samasa-red transition-all"
+                        aria-label="Remove milestone"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add / edit */}
+      {canEdit && form && (
+        <div className="rounded-2xl bg-slate-50 border border-slate-100 p-5 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2">
+              <label className={labelClass}>Milestone</label>
+              <input
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Venue booked"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Objective</label>
+              <select
+                value={form.objective}
+                onChange={(e) => setForm({ ...form, objective: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">General</option>
+                {project.objectives.map((o) => (
+                  <option key={o} value={o}>
+                    {o}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Owner</label>
+              <select
+                value={form.ownerId}
+                onChange={(e) => setForm({ ...form, ownerId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">No owner</option>
+                {officers.map((o) => (
+                  <option key={o.id} value={o.id}>
+                    {o.name} — {o.position}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Start</label>
+              <input
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Due</label>
+              <input
+                type="date"
+                value={form.dueDate}
+                onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+              className="px-5 py-2.5 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={save}
+              className="px-5 py-2.5 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all disabled:opacity-60"
+            >
+              {busy ? "Saving..." : editingId ? "Save Milestone" : "Add Milestone"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectMilestones;
@@ -0,0 +1,370 @@
+import React, { useRef, useState } from "react";
+import { CheckCircle2, CircleDashed, ClipboardCheck, Images, Pencil, Trash2, Upload } from "lucide-react";
+import { Project, ProjectPhoto, ProjectStatus, User } from "../types";
+import {
+  addReportPhotos,
+  canWriteReport,
+  GALLERY_MAX_PHOTOS,
+  objectivesMet,
+  outcomeRows,
+  removeReportPhoto,
+  ReportInput,
+  saveProjectReport,
+  updatePhotoCaption,
+} from "../src/projectReports";
+
+interface ProjectReportProps {
+  project: Project;
+  /** null on public views */
+  user: User | null;
+  /** false on public embeds and closed terms: read-only */
+  canAct: boolean;
+  /** ledger-derived spending, used to pre-fill the final cost */
+  spent?: number;
+}
+
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+const inputClass =
+  "w-full px-4 py-3 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium text-sm";
+
+/** Completion report: outcomes vs objectives, reach, final cost, lessons and a photo gallery */
+const ProjectReport: React.FC<ProjectReportProps> = ({ project, user, canAct, spent = 0 }) => {
+  const report = project.report ?? null;
+  const canEdit = canAct && !!user && canWriteReport(user, project) && project.status === ProjectStatus.COMPLETED;
+
+  const [form, setForm] = useState<ReportInput | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  // Drafts are only visible to the officers who can finish them
+  if (!report && !canEdit) return null;
+  if (report && !report.published && !canEdit) return null;
+
+  const allocated = Number(project.budgetAllocated) || 0;
+
+  const openForm = () =>
+    setForm({
+      outcomes: outcomeRows(project),
+      beneficiaries: report?.beneficiaries ?? 0,
+      beneficiaryNote: report?.beneficiaryNote ?? "",
+      finalCost: report ? report.finalCost : spent,
+      lessonsLearned: report?.lessonsLearned ?? "",
+      published: report?.published ?? false,
+    });
+
+  const run = async (label: string, fn: () => Promise<void>) => {
+    if (!user) return;
+    setBusy(true);
+    try {
+      await fn();
+    } catch (err: any) {
+      console.error(`${label} ERROR:`, err);
+      alert(err?.message || "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () =>
+    run("SAVE PROJECT REPORT", async () => {
+      if (!form || !user) return;
+      await saveProjectReport(project, form, user);
+      setForm(null);
+    });
+
+  const upload = (files: FileList | null) =>
+    run("GALLERY UPLOAD", async () => {
+      if (!files || files.length === 0 || !user) return;
+      await addReportPhotos(project, Array.from(files), user);
+      if (fileRef.current) fileRef.current.value = "";
+    });
+
+  const editCaption = (photo: ProjectPhoto) => {
+    const caption = prompt("Caption:", photo.caption);
+    if (caption === null) return;
+    run("PHOTO CAPTION", () => updatePhotoCaption(project, photo, caption, user!));
+  };
+
+  const removePhoto = (photo: ProjectPhoto) => {
+    if (!confirm("Remove this photo from the gallery?")) return;
+    run("REMOVE PHOTO", () => removeReportPhoto(project, photo, user!));
+  };
+
+  const gallery = report?.gallery ?? [];
+  const variance = report ? report.finalCost - allocated : 0;
+
+  return (
+    <div className="rounded-2xl border border-slate-200 p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="w-5 h-5 text-samasa-blue" />
+          <div>
+            <div className="text-sm font-black text-samasa-black">Completion Report</div>
+            <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {!report
+                ? "Not written yet"
+                : report.published
+                ? `Impact story${report.authorName ? ` • by ${report.authorName}` : ""}`
+                : "Draft • not public"}
+            </div>
+          </div>
+        </div>
+
+        {canEdit && !form && (
+          <button
+            type="button"
+            onClick={openForm}
+            className="px-4 py-2 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all inline-flex items-center gap-1.5"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            {report ? "Edit Report" : "Write Report"}
+          </button>
+        )}
+      </div>
+
+      {/* Read view */}
+      {report && !form && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="rounded-2xl bg-slate-50 border border-slate-100 px-5 py-4">
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Beneficiaries</div>
+              <div className="mt-1 text-2xl font-black text-samasa-black">{report.beneficiaries.toLocaleString()}</div>
+              {report.beneficiaryNote && (
+                <div className="mt-1 text-xs font-bold text-slate-500">{report.beneficiaryNote}</div>
+              )}
+            </div>
+            <div className="rounded-2xl bg-slate-50 border border-slate-100 px-5 py-4">
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Final Cost</div>
+              <div className="mt-1 text-2xl font-black text-samasa-black">₱{report.finalCost.toLocaleString()}</div>
+              <div
+                className={`mt-1 text-xs font-bold ${variance > 0 ? "text-samasa-red" : "text-emerald-600"}`}
+              >
+                {variance > 0
+                  ? `₱${variance.toLocaleString()} over the ₱${allocated.toLocaleString()} allocation`
+                  : `₱${Math.abs(variance).toLocaleString()} under the ₱${allocated.toLocaleString()} allocation`}
+              </div>
+            </div>
+            <div className="rounded-2xl bg-slate-50 border border-slate-100 px-5 py-4">
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Objectives Met</div>
+              <div className="mt-1 text-2xl font-black text-samasa-black">
+                {objectivesMet(report)}/{report.outcomes.length}
+              </div>
+            </div>
+          </div>
+
+          {report.outcomes.length > 0 && (
+            <div className="space-y-3">
+              <div className={labelClass}>Outcomes vs Objectives</div>
+              {report.outcomes.map((o) => (
+                <div key={o.objective} className="flex items-start gap-3">
+                  {o.met ? (
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-emerald-500" />
+                  ) : (
+                    <CircleDashed className="w-4 h-4 mt-0.5 shrink-0 text-slate-300" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-500">{o.objective}</div>
+                    <div className="text-sm font-medium text-slate-600 whitespace-pre-wrap">{o.outcome || "—"}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.lessonsLearned && (
+            <div>
+              <div className={labelClass}>Lessons Learned</div>
+              <p className="text-sm font-medium text-slate-600 leading-relaxed whitespace-pre-wrap">
+                {report.lessonsLearned}
+              </p>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Edit form */}
+      {form && (
+        <div className="space-y-5">
+          <div className="space-y-3">
+            <div className={labelClass}>Outcomes vs Objectives</div>
+            {form.outcomes.length === 0 && (
+              <div className="text-xs font-bold text-slate-400">This project has no objectives to report on.</div>
+            )}
+            {form.outcomes.map((o, i) => (
+              <div key={o.objective} className="rounded-2xl bg-slate-50 border border-slate-100 p-4 space-y-2">
+                <label className="flex items-center justify-between gap-3">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{o.objective}</span>
+                  <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={o.met}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          outcomes: form.outcomes.map((x, j) => (j === i ? { ...x, met: e.target.checked } : x)),
+                        })
+                      }
+                    />
+                    Met
+                  </span>
+                </label>
+                <textarea
+                  rows={2}
+                  value={o.outcome}
+                  placeholder="What actually happened?"
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      outcomes: form.outcomes.map((x, j) => (j === i ? { ...x, outcome: e.target.value } : x)),
+                    })
+                  }
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Beneficiaries Reached</label>
+              <input
+                type="number"
+                min={0}
+                value={String(form.beneficiaries)}
+                onChange={(e) => setForm({ ...form, beneficiaries: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Who Was Reached</label>
+              <input
+                value={form.beneficiaryNote}
+                placeholder="e.g. 1st-year students"
+                onChange={(e) => setForm({ ...form, beneficiaryNote: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Final Cost (₱{allocated.toLocaleString()} allocated)</label>
+              <input
+                type="number"
+                min={0}
+                value={String(form.finalCost)}
+                onChange={(e) => setForm({ ...form, finalCost: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Lessons Learned</label>
+            <textarea
+              rows={4}
+              value={form.lessonsLearned}
+              onChange={(e) => setForm({ ...form, lessonsLearned: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <label className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-500">
+            <input
+              type="checkbox"
+              checked={form.published}
+              onChange={(e) => setForm({ ...form, published: e.target.checked })}
+            />
+            Publish as a public impact story
+          </label>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => setForm(null)}
+              className="px-5 py-2.5 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all disabled:opacity-60"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={save}
+              className="px-5 py-2.5 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all disabled:opacity-60"
+            >
+              {busy ? "Saving..." : "Save Report"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Gallery */}
+      {(gallery.length > 0 || canEdit) && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <Images className="w-4 h-4" />
+              Gallery ({gallery.length})
+            </div>
+            {canEdit && gallery.length < GALLERY_MAX_PHOTOS && (
+              <>
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => upload(e.target.files)}
+                />
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => fileRef.current?.click()}
+                  className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all inline-flex items-center gap-1.5 disabled:opacity-60"
+                >
+                  <Upload className="w-3.5 h-3.5" />
+                  {busy ? "Uploading..." : "Add Photos"}
+                </button>
+              </>
+            )}
+          </div>
+
+          {gallery.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {gallery.map((photo) => (
+                <figure key={photo.id} className="group relative rounded-2xl overflow-hidden bg-slate-100">
+                  <a href={photo.url} target="_blank" rel="noreferrer">
+                    <img src={photo.url} alt={photo.caption || project.title} className="w-full h-36 object-cover" />
+                  </a>
+                  {photo.caption && (
+                    <figcaption className="px-3 py-2 text-xs font-bold text-slate-600 bg-white">{photo.caption}</figcaption>
+                  )}
+                  {canEdit && (
+                    <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => editCaption(photo)}
+                        className="w-8 h-8 rounded-xl bg-white/90 text-slate-500 hover:text-samasa-blue flex items-center justify-center"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => removePhoto(photo)}
+                        className="w-8 h-8 rounded-xl bg-white/90 text-slate-500 hover:text-samasa-red flex items-center justify-center"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </figure>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectReport;
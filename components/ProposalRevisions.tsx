@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Download, GitCompare, RotateCcw, X } from "lucide-react";
+import { User } from "../types";
+import { ProposalRecord, useProposalRevisions } from "../src/repository";
+import { revertProposal } from "../src/proposalRevisions";
+import { diffText, DiffPart } from "../src/textDiff";
+import { PROPOSAL_STATUS_LABEL } from "../src/proposalWorkflow";
+
+interface ProposalRevisionsProps {
+  proposal: ProposalRecord;
+  user: User;
+  canRevert: boolean;
+  onClose: () => void;
+}
+
+const Redline: React.FC<{ parts: DiffPart[]; side: "before" | "after" }> = ({ parts, side }) => (
+  <div className="p-5 rounded-2xl bg-slate-50 border border-slate-100 text-sm font-medium leading-relaxed text-slate-700 whitespace-pre-wrap break-words">
+    {parts.map((p, i) => {
+      if (p.kind === "same") return <span key={i}>{p.text}</span>;
+      if (p.kind === "removed" && side === "before")
+        return (
+          <span key={i} className="bg-red-100 text-samasa-red line-through">
+            {p.text}
+          </span>
+        );
+      if (p.kind === "added" && side === "after")
+        return (
+          <span key={i} className="bg-emerald-100 text-emerald-800">
+            {p.text}
+          </span>
+        );
+      return null;
+    })}
+  </div>
+);
+
+/** Saved versions of a proposal with a side-by-side redline and revert */
+const ProposalRevisions: React.FC<ProposalRevisionsProps> = ({ proposal, user, canRevert, onClose }) => {
+  const { data: revisions, loading } = useProposalRevisions(proposal.id);
+
+  const [baseId, setBaseId] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [reverting, setReverting] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  // Default: previous version → latest
+  useEffect(() => {
+    if (revisions.length === 0) return;
+    setTargetId((id) => (revisions.some((r) => r.id === id) ? id : revisions[0].id));
+    setBaseId((id) => (revisions.some((r) => r.id === id) ? id : (revisions[1] ?? revisions[0]).id));
+  }, [revisions]);
+
+  const base = revisions.find((r) => r.id === baseId) ?? null;
+  const target = revisions.find((r) => r.id === targetId) ?? null;
+  const latestVersion = revisions[0]?.version ?? 0;
+
+  const descDiff = useMemo(
+    () => (base && target ? diffText(base.description, target.description) : []),
+    [base, target]
+  );
+  const titleDiff = useMemo(() => (base && target ? diffText(base.title, target.title) : []), [base, target]);
+
+  const revert = async (id: string) => {
+    const revision = revisions.find((r) => r.id === id);
+    if (!revision) return;
+    if (!confirm(`Revert the proposal to v${revision.version}? This is saved as a new version.`)) return;
+
+    setReverting(true);
+    try {
+      await revertProposal(proposal, revision, user);
+    } catch (err: any) {
+      console.error("REVERT PROPOSAL ERROR:", err);
+      alert(err?.message || "Failed to revert.");
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  const selectClass =
+    "px-4 py-2.5 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-bold text-sm";
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-6xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <GitCompare size={14} />
+                Revisions
+              </div>
+              <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">{proposal.title}</div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto">
+            {revisions.length === 0 ? (
+              <div className="py-12 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+                {loading ? "Loading…" : "No saved versions yet — history starts with the next edit"}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6">
+                {/* Versions */}
+                <div className="space-y-2">
+                  {revisions.map((r) => (
+                    <div
+                      key={r.id}
+                      className={`p-4 rounded-2xl border ${
+                        r.id === targetId ? "border-samasa-blue bg-blue-50/40" : "border-slate-100 bg-slate-50"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="font-black text-samasa-black">
+                          v{r.version}
+                          {r.version === latestVersion && (
+                            <span className="ml-2 text-[10px] font-black uppercase tracking-widest text-samasa-blue">
+                              Current
+                            </span>
+                          )}
+                        </div>
+                        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                          {PROPOSAL_STATUS_LABEL[r.status]}
+                        </span>
+                      </div>
+                      <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                        {r.savedByName || "—"} • {r.savedAt ? new Date(r.savedAt).toLocaleString() : "—"}
+                      </div>
+                      {r.note && <div className="mt-1 text-xs font-bold text-slate-500">{r.note}</div>}
+
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setTargetId(r.id)}
+                          className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all"
+                        >
+                          View
+                        </button>
+                        {r.pdfUrl && (
+                          <a
+                            href={r.pdfUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            title={r.pdfName || "PDF"}
+                            className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all inline-flex items-center gap-1.5"
+                          >
+                            <Download className="w-3 h-3" />
+                            PDF
+                          </a>
+                        )}
+                        {canRevert && r.version !== latestVersion && (
+                          <button
+                            type="button"
+                            disabled={reverting}
+                            onClick={() => revert(r.id)}
+                            className="px-3 py-1.5 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all disabled:opacity-60 inline-flex items-center gap-1.5"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Revert
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Redline */}
+                <div className="space-y-5 min-w-0">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className={selectClass}>
+                      {revisions.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          v{r.version}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">compared with</span>
+                    <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={selectClass}>
+                      {revisions.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          v{r.version}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {base && target && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                            v{base.version} title
+                          </div>
+                          <Redline parts={titleDiff} side="before" />
+                        </div>
+                        <div>
+                          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                            v{target.version} title
+                          </div>
+                          <Redline parts={titleDiff} side="after" />
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                            v{base.version} description
+                          </div>
+                          <Redline parts={descDiff} side="before" />
+                        </div>
+                        <div>
+                          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                            v{target.version} description
+                          </div>
+                          <Redline parts={descDiff} side="after" />
+                        </div>
+                      </div>
+
+                      {(base.category !== target.category ||
+                        base.proponent !== target.proponent ||
+                        (base.pdfUrl || "") !== (target.pdfUrl || "")) && (
+                        <ul className="space-y-1 text-xs font-bold text-slate-500">
+                          {base.category !== target.category && (
+                            <li>
+                              Category: {base.category} → {target.category}
+                            </li>
+                          )}
+                          {base.proponent !== target.proponent && (
+                            <li>
+                              Proponent: {base.proponent || "—"} → {target.proponent || "—"}
+                            </li>
+                          )}
+                          {(base.pdfUrl || "") !== (target.pdfUrl || "") && (
+                            <li>
+                              PDF: {base.pdfName || "none"} → {target.pdfName || "none"}
+                            </li>
+                          )}
+                        </ul>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProposalRevisions;
@@ -0,0 +1,89 @@
+import React from "react";
+import { Plus, ShieldCheck, X } from "lucide-react";
+import { DepartmentId, PermissionRole, RoleGrant } from "../types";
+import { ALL_DEPARTMENTS, PERMISSIONS } from "../src/permissions";
+
+interface RoleGrantsEditorProps {
+  grants: RoleGrant[];
+  onChange: (grants: RoleGrant[]) => void;
+  roles: PermissionRole[];
+  departments: { id: DepartmentId; name: string }[];
+  /** department preselected for a new row */
+  defaultDepartment: DepartmentId;
+}
+
+const selectClass =
+  "w-full px-4 py-3 rounded-2xl bg-white border border-slate-200 font-semibold text-slate-700 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30";
+
+const permissionLabel = (id: string) => PERMISSIONS.find((p) => p.id === id)?.label ?? id;
+
+/** Role × department rows for an officer account (Officers → Manage Accounts) */
+const RoleGrantsEditor: React.FC<RoleGrantsEditorProps> = ({ grants, onChange, roles, departments, defaultDepartment }) => {
+  const patch = (index: number, next: Partial<RoleGrant>) =>
+    onChange(grants.map((g, i) => (i === index ? { ...g, ...next } : g)));
+
+  return (
+    <div className="space-y-3">
+      {grants.length === 0 && (
+        <div className="px-4 py-3 rounded-2xl bg-amber-50 border border-amber-100 text-xs font-semibold text-amber-700">
+          No roles: this account can sign in but can't change anything.
+        </div>
+      )}
+
+      {grants.map((g, i) => {
+        const role = roles.find((r) => r.id === g.roleId);
+        return (
+          <div key={i} className="bg-white border border-slate-200 rounded-2xl p-3">
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4 text-samasa-blue shrink-0" />
+              <select value={g.roleId} onChange={(e) => patch(i, { roleId: e.target.value })} className={selectClass}>
+                {!role && <option value={g.roleId}>{g.roleId} (deleted)</option>}
+                {roles.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={String(g.department)}
+                onChange={(e) => patch(i, { department: e.target.value as RoleGrant["department"] })}
+                className={selectClass}
+              >
+                <option value={ALL_DEPARTMENTS}>All departments</option>
+                {departments.map((d) => (
+                  <option key={String(d.id)} value={String(d.id)}>
+                    {d.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(grants.filter((_, j) => j !== i))}
+                className="p-3 rounded-2xl text-slate-400 hover:bg-rose-50 hover:text-samasa-red transition-all shrink-0"
+                title="Remove role"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            {role && (
+              <div className="mt-2 pl-6 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {role.permissions.map(permissionLabel).join(" · ")}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...grants, { roleId: roles[0]?.id ?? "officer", department: defaultDepartment }])}
+        className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-white border border-slate-200 text-slate-700 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-50 transition-all active:scale-95"
+      >
+        <Plus className="w-4 h-4 text-samasa-blue" />
+        Add role
+      </button>
+    </div>
+  );
+};
+
+export default RoleGrantsEditor;
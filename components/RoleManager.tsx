@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import { Lock, Pencil, Plus, ShieldCheck, Trash2, X } from "lucide-react";
+import { Permission, PermissionRole, User, UserAccount } from "../types";
+import { deleteRole, grantsOf, PERMISSIONS, saveRole } from "../src/permissions";
+
+interface RoleManagerProps {
+  user: User;
+  /** built-in and custom roles */
+  roles: PermissionRole[];
+  /** officer accounts, re-scoped when a role they hold changes */
+  accounts: UserAccount[];
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all";
+
+/** SUPERADMIN: browse the built-in roles and create, edit or delete custom ones */
+const RoleManager: React.FC<RoleManagerProps> = ({ user, roles, accounts, onClose }) => {
+  const [editing, setEditing] = useState<PermissionRole | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const reset = () => {
+    setEditing(null);
+    setName("");
+    setDescription("");
+    setPermissions([]);
+  };
+
+  const startEdit = (r: PermissionRole) => {
+    setEditing(r);
+    setName(r.name);
+    setDescription(r.description);
+    setPermissions(r.permissions);
+  };
+
+  const togglePermission = (id: Permission) =>
+    setPermissions((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+
+  const holders = (roleId: string) => accounts.filter((a) => grantsOf(a).some((g) => g.roleId === roleId)).length;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      await saveRole({ id: editing?.id, name, description, permissions }, roles, accounts, user);
+      reset();
+    } catch (err: any) {
+      console.error("SAVE ROLE ERROR:", err);
+      alert(err?.message || "Failed to save role.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (r: PermissionRole) => {
+    const count = holders(r.id);
+    if (!confirm(`Delete the "${r.name}" role?${count ? ` ${count} account(s) lose it.` : ""}`)) return;
+    try {
+      await deleteRole(r, roles, accounts, user);
+      if (editing?.id === r.id) reset();
+    } catch (err: any) {
+      console.error("DELETE ROLE ERROR:", err);
+      alert(err?.message || "Failed to delete role.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-3xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="text-3xl font-black tracking-tighter text-samasa-black">Roles</div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 sm:px-8 py-6 space-y-8">
+            <div className="space-y-3">
+              {roles.map((r) => (
+                <div
+                  key={r.id}
+                  className={`p-5 rounded-2xl border flex items-start justify-between gap-4 ${
+                    editing?.id === r.id ? "border-samasa-blue bg-samasa-blue/5" : "border-slate-100 bg-slate-50"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 font-black text-samasa-black">
+                      <ShieldCheck className="w-4 h-4 text-samasa-blue" />
+                      {r.name}
+                      {r.builtIn && (
+                        <span className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                          Built-in
+                        </span>
+                      )}
+                    </div>
+                    {r.description && <div className="mt-1 text-xs font-semibold text-slate-500">{r.description}</div>}
+                    <div className="mt-3 flex flex-wrap gap-1.5">
+                      {r.permissions.map((p) => (
+                        <span
+                          key={p}
+                          className="px-2.5 py-1 rounded-full bg-white border border-slate-200 text-[10px] font-bold text-slate-600"
+                        >
+                          {p}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="mt-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                      {holders(r.id)} account(s)
+                    </div>
+                  </div>
+
+                  {r.builtIn ? (
+                    <Lock className="w-4 h-4 text-slate-300 shrink-0 mt-1" />
+                  ) : (
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => startEdit(r)}
+                        className="p-3 rounded-2xl border border-slate-200 bg-white hover:bg-slate-100 transition-all"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => remove(r)}
+                        className="p-3 rounded-2xl border border-slate-200 bg-white hover:bg-slate-100 transition-all"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4 text-samasa-red" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <form onSubmit={submit} className="space-y-4 pt-6 border-t border-slate-100">
+              <div className="text-[10px] font-black uppercase tracking-[0.35em] text-slate-400">
+                {editing ? `Edit “${editing.name}”` : "New custom role"}
+              </div>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Role name (e.g. Events Coordinator)"
+                className={inputClass}
+                required
+              />
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What this role is for"
+                className={inputClass}
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {PERMISSIONS.map((p) => (
+                  <label
+                    key={p.id}
+                    className={`flex items-start gap-3 p-4 rounded-2xl border cursor-pointer transition-all ${
+                      permissions.includes(p.id) ? "border-samasa-blue bg-samasa-blue/5" : "border-slate-100 bg-slate-50"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={permissions.includes(p.id)}
+                      onChange={() => togglePermission(p.id)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm font-black text-samasa-black">{p.label}</span>
+                      <span className="block text-xs font-semibold text-slate-500">{p.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="flex-1 inline-flex items-center justify-center gap-3 px-6 py-5 rounded-2xl bg-samasa-blue text-white font-black text-[10px] uppercase tracking-[0.25em] hover:opacity-90 transition-all active:scale-95 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  {editing ? "Save Role" : "Create Role"}
+                </button>
+                {editing && (
+                  <button
+                    type="button"
+                    onClick={reset}
+                    className="px-6 py-5 rounded-2xl bg-white border border-slate-200 text-slate-700 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-50 transition-all active:scale-95"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoleManager;
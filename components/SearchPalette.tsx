@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Award, Building2, FileText, Layers, Search, UserCircle, Wallet, X } from "lucide-react";
+import { User } from "../types";
+import {
+  useAboutContent,
+  useApprovalRules,
+  useBudgetEntries,
+  useDepartments,
+  useOfficers,
+  useProjects,
+  useProposals,
+  useProposalSubmitters,
+} from "../src/repository";
+import { buildSearchIndex, SEARCH_KIND_LABEL, SearchAchievement, SearchDoc, SearchKind, searchIndex } from "../src/search";
+
+interface SearchPaletteProps {
+  user: User;
+  onClose: () => void;
+}
+
+const KIND_ICON: Record<SearchKind, React.ElementType> = {
+  proposal: FileText,
+  project: Layers,
+  entry: Wallet,
+  officer: UserCircle,
+  department: Building2,
+  achievement: Award,
+};
+
+/** Ctrl+K command palette; mounted only while open so the listeners it needs stay idle otherwise */
+const SearchPalette: React.FC<SearchPaletteProps> = ({ user, onClose }) => {
+  const navigate = useNavigate();
+  const { data: proposals } = useProposals();
+  const { data: projects } = useProjects();
+  const { data: entries } = useBudgetEntries();
+  const { data: approvalRules } = useApprovalRules();
+  const { data: officers } = useOfficers();
+  const { data: departments } = useDepartments();
+  const { data: about } = useAboutContent();
+  const { data: submitters } = useProposalSubmitters(user.id);
+
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const index = useMemo(() => {
+    const achievements: SearchAchievement[] = Array.isArray(about?.achievements?.items)
+      ? about.achievements.items.filter((a: any) => a?.id && a?.title)
+      : [];
+    const mySubmissionIds = new Set(submitters.filter((s) => s.studentId === user.id).map((s) => s.proposalId));
+    return buildSearchIndex(
+      { proposals, projects, entries, approvalRules, officers, departments, achievements, mySubmissionIds },
+      user
+    );
+  }, [proposals, projects, entries, approvalRules, officers, departments, about, submitters, user]);
+
+  const groups = useMemo(() => searchIndex(index, query), [index, query]);
+  const flat = useMemo(() => groups.flatMap((g) => g.results), [groups]);
+
+  useEffect(() => setActive(0), [query]);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    inputRef.current?.focus();
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const go = (d: SearchDoc) => {
+    onClose();
+    navigate(d.to);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((i) => Math.min(flat.length - 1, i + 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => Math.max(0, i - 1));
+    } else if (e.key === "Enter" && flat[active]) {
+      e.preventDefault();
+      go(flat[active]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[500]" onKeyDown={onKeyDown}>
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-start justify-center p-4 sm:p-6 pt-[10vh]">
+        <div
+          className="w-full max-w-2xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "80vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 py-5 border-b border-slate-100 flex items-center gap-3">
+            <Search className="w-5 h-5 text-slate-400 shrink-0" />
+            <input
+              ref={inputRef}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search proposals, projects, budget, officers…"
+              className="flex-1 min-w-0 bg-transparent outline-none font-bold text-samasa-black placeholder:text-slate-300"
+            />
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-9 h-9 shrink-0 rounded-xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+              aria-label="Close search"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="overflow-y-auto px-3 py-3">
+            {query.trim() === "" ? (
+              <div className="px-4 py-8 text-center text-[10px] font-black uppercase tracking-widest text-slate-300">
+                Type to search • ↑ ↓ to move • Enter to open
+              </div>
+            ) : groups.length === 0 ? (
+              <div className="px-4 py-8 text-center text-[10px] font-black uppercase tracking-widest text-slate-300">
+                No matches
+              </div>
+            ) : (
+              groups.map((g) => {
+                const Icon = KIND_ICON[g.kind];
+                return (
+                  <div key={g.kind} className="mb-2">
+                    <div className="px-4 pt-3 pb-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                      {SEARCH_KIND_LABEL[g.kind]}
+                    </div>
+                    {g.results.map((d) => {
+                      const i = flat.indexOf(d);
+                      return (
+                        <button
+                          key={`${d.kind}-${d.id}`}
+                          type="button"
+                          onMouseEnter={() => setActive(i)}
+                          onClick={() => go(d)}
+                          className={`w-full text-left px-4 py-3 rounded-2xl flex items-center gap-3 transition-all ${
+                            i === active ? "bg-samasa-blue/10" : "hover:bg-slate-50"
+                          }`}
+                        >
+                          <Icon className={`w-4 h-4 shrink-0 ${i === active ? "text-samasa-blue" : "text-slate-400"}`} />
+                          <div className="min-w-0">
+                            <div className="text-sm font-black text-samasa-black truncate">{d.title || "Untitled"}</div>
+                            <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate">
+                              {d.subtitle}
+                            </div>
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
@@ -6,11 +6,14 @@ import {
   Users,
   Wallet,
   FileText,
+  Scale,
   ChevronRight,
   Settings,
+  Trash2,
   X,
 } from "lucide-react";
 import { User, UserRole } from "../types";
+import { can } from "../src/permissions";
 
 interface SidebarProps {
   user: User | null;
@@ -23,6 +26,9 @@ const Sidebar: React.FC<SidebarProps> = ({ user }) => {
 
   if (!user) return null;
 
+  const canManageSite = can(user, "site.manage");
+  const isSuperAdmin = user.role === UserRole.SUPERADMIN;
+
   const links = useMemo(
     () => [
       { name: "Dashboard", path: "/", icon: LayoutDashboard },
@@ -30,12 +36,12 @@ const Sidebar: React.FC<SidebarProps> = ({ user }) => {
       { name: "Meet the Officers", path: "/officers", icon: Users },
       { name: "Budget Tracker", path: "/budget", icon: Wallet },
       { name: "Proposals & Projects", path: "/proposals", icon: FileText },
+      { name: "Policy Registry", path: "/policies", icon: Scale },
+      ...(isSuperAdmin ? [{ name: "Recycle Bin", path: "/trash", icon: Trash2 }] : []),
     ],
-    []
+    [isSuperAdmin]
   );
 
-  const isSuperAdmin = user.role === UserRole.SUPERADMIN;
-
   // Listen to Header toggle
   useEffect(() => {
     const onToggle = () => setMobileOpen((v) => !v);
@@ -119,7 +125,7 @@ const Sidebar: React.FC<SidebarProps> = ({ user }) => {
 
         {/* Bottom Controls */}
         <div className="mt-auto pt-10">
-          {isSuperAdmin && (
+          {canManageSite && (
             <NavLink
               to="/admin"
               className={({ isActive }) => `
@@ -198,7 +204,7 @@ const Sidebar: React.FC<SidebarProps> = ({ user }) => {
           </div>
 
           <div className="mt-auto p-6 border-t border-white/5">
-            {isSuperAdmin && (
+            {canManageSite && (
               <NavLink
                 to="/admin"
                 onClick={() => setMobileOpen(false)}
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { FileDown, FileText, X } from "lucide-react";
+import { BudgetEntry, BudgetFundKey, DepartmentId, FiscalTerm, User } from "../types";
+import { isoToday } from "../src/repository";
+import {
+  buildStatement,
+  DEFAULT_SIGNATORIES,
+  downloadStatementCsv,
+  downloadStatementPdf,
+  Signatory,
+} from "../src/financialStatement";
+
+interface StatementExportProps {
+  user: User;
+  entries: BudgetEntry[];
+  /** Starting scope: the Budget page's department and term */
+  department: DepartmentId | "ALL";
+  departments: DepartmentId[];
+  term: FiscalTerm | null;
+  onClose: () => void;
+}
+
+const peso = (n: number) => `₱${Number(n).toLocaleString()}`;
+
+/** Statement of receipts and disbursements (PDF/CSV) for a department, period and fund */
+const StatementExport: React.FC<StatementExportProps> = ({ user, entries, department, departments, term, onClose }) => {
+  const [dept, setDept] = useState<DepartmentId | "ALL">(department);
+  const [from, setFrom] = useState(term?.startDate ?? `${isoToday().slice(0, 4)}-01-01`);
+  const [to, setTo] = useState(term?.endDate ?? isoToday());
+  const [fund, setFund] = useState<BudgetFundKey | "ALL">("ALL");
+  const [signatories, setSignatories] = useState<Signatory[]>(() =>
+    DEFAULT_SIGNATORIES.map((s, i) => (i === 0 ? { ...s, name: user.name } : { ...s }))
+  );
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const rangeOk = !!from && !!to && from <= to;
+
+  const statement = useMemo(
+    () => (rangeOk ? buildStatement(entries, { department: dept, from, to, fund }) : null),
+    [entries, dept, from, to, fund, rangeOk]
+  );
+
+  const setSignatory = (i: number, patch: Partial<Signatory>) =>
+    setSignatories((list) => list.map((s, idx) => (idx === i ? { ...s, ...patch } : s)));
+
+  const exportAs = (kind: "pdf" | "csv") => {
+    if (!statement) return alert("Pick a valid date range.");
+    try {
+      if (kind === "pdf") downloadStatementPdf(statement, signatories);
+      else downloadStatementCsv(statement, signatories);
+    } catch (err: any) {
+      console.error("STATEMENT EXPORT ERROR:", err);
+      alert(err?.message || "Failed to generate statement.");
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl font-bold text-sm outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all";
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1.5";
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-3xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <FileText size={14} />
+                Receipts &amp; Disbursements
+              </div>
+              <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">Financial Statement</div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-6">
+            {/* Scope */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <div className={labelClass}>Department</div>
+                <select value={dept} onChange={(e) => setDept(e.target.value as any)} className={inputClass}>
+                  <option value="ALL">Overall</option>
+                  {departments.map((d) => (
+                    <option key={d} value={d}>
+                      {d}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <div className={labelClass}>Fund</div>
+                <select value={fund} onChange={(e) => setFund(e.target.value as any)} className={inputClass}>
+                  <option value="ALL">All funds</option>
+                  <option value="operational">Operational</option>
+                  <option value="project">Project</option>
+                  <option value="trust">Trust</option>
+                </select>
+              </div>
+              <div>
+                <div className={labelClass}>From</div>
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <div className={labelClass}>To</div>
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+
+            {fund !== "ALL" && (
+              <div className="text-xs font-bold text-slate-400">
+                Funds only tag expenses, so a single-fund statement lists that fund's disbursements.
+              </div>
+            )}
+
+            {/* Summary */}
+            {statement ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {[
+                  { label: "Opening", value: statement.opening },
+                  { label: "Receipts", value: statement.totalReceipts },
+                  { label: "Disbursements", value: statement.totalDisbursements },
+                  { label: "Closing", value: statement.closing },
+                ].map((c) => (
+                  <div key={c.label} className="p-4 rounded-2xl bg-slate-50 border border-slate-100">
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">{c.label}</div>
+                    <div className="mt-1 text-xl font-black tracking-tighter text-samasa-black">{peso(c.value)}</div>
+                  </div>
+                ))}
+                <div className="col-span-2 md:col-span-4 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  {statement.lines.length} line item(s)
+                  {statement.netAdjustments !== 0 ? ` • includes ${peso(statement.netAdjustments)} balance adjustments` : ""}
+                </div>
+              </div>
+            ) : (
+              <div className="text-xs font-bold text-samasa-red">The end date must be on or after the start date.</div>
+            )}
+
+            {/* Signatories */}
+            <div>
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Signatories</div>
+              <div className="space-y-3">
+                {signatories.map((s, i) => (
+                  <div key={i} className="grid grid-cols-3 gap-3">
+                    <input
+                      value={s.role}
+                      onChange={(e) => setSignatory(i, { role: e.target.value })}
+                      placeholder="Prepared by"
+                      className={inputClass}
+                    />
+                    <input
+                      value={s.name}
+                      onChange={(e) => setSignatory(i, { name: e.target.value })}
+                      placeholder="Full name"
+                      className={inputClass}
+                    />
+                    <input
+                      value={s.position}
+                      onChange={(e) => setSignatory(i, { position: e.target.value })}
+                      placeholder="Position"
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 border-t border-slate-100 grid grid-cols-2 gap-3">
+            <button
+              type="button"
+              disabled={!statement}
+              onClick={() => exportAs("csv")}
+              className="py-4 bg-white border border-slate-200 text-samasa-black font-black rounded-2xl hover:border-samasa-blue hover:text-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+            >
+              <FileDown className="w-4 h-4" />
+              CSV
+            </button>
+            <button
+              type="button"
+              disabled={!statement}
+              onClick={() => exportAs("pdf")}
+              className="py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+            >
+              <FileDown className="w-4 h-4" />
+              PDF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatementExport;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from "react";
+import { Megaphone, X } from "lucide-react";
+import { ProposalCategory, StudentSubmissionKind, User } from "../types";
+import { submitStudentProposal, SUBMISSION_KIND_LABEL } from "../src/petitions";
+
+interface StudentSubmissionFormProps {
+  user: User;
+  /** pre-selected from the active hub tab */
+  category: ProposalCategory;
+  dateSubmitted: string;
+  termId: string;
+  onClose: () => void;
+}
+
+const CATEGORY_OPTIONS = [ProposalCategory.RESOURCES, ProposalCategory.PROGRAMS, ProposalCategory.POLICY];
+
+/** Student proposal/concern → moderation queue */
+const StudentSubmissionForm: React.FC<StudentSubmissionFormProps> = ({
+  user,
+  category: initialCategory,
+  dateSubmitted,
+  termId,
+  onClose,
+}) => {
+  const [kind, setKind] = useState<StudentSubmissionKind>("PROPOSAL");
+  const [title, setTitle] = useState("");
+  const [category, setCategory] = useState<ProposalCategory>(initialCategory);
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await submitStudentProposal({ kind, title, category, description, dateSubmitted, termId }, user);
+      alert("Submitted. Council officers will review it before it appears publicly.");
+      onClose();
+    } catch (err: any) {
+      console.error("STUDENT SUBMISSION ERROR:", err);
+      alert(err?.message || "Failed to submit.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all disabled:opacity-60";
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <form
+          onSubmit={submit}
+          className="w-full max-w-2xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <Megaphone size={14} />
+                Student Submission
+              </div>
+              <div className="mt-1 text-3xl font-black tracking-tighter text-samasa-black truncate">
+                New {SUBMISSION_KIND_LABEL[kind]}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 shrink-0 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-5">
+            <div className="flex gap-2">
+              {(["PROPOSAL", "CONCERN"] as StudentSubmissionKind[]).map((k) => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => setKind(k)}
+                  className={`px-5 py-2.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${
+                    kind === k ? "bg-samasa-black text-samasa-yellow" : "bg-slate-50 text-slate-400 hover:text-samasa-black"
+                  }`}
+                >
+                  {k === "PROPOSAL" ? "Proposal" : "Concern"}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <div className={labelClass}>Title</div>
+              <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} required />
+            </div>
+
+            <div>
+              <div className={labelClass}>Category</div>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as ProposalCategory)}
+                className={inputClass}
+              >
+                {CATEGORY_OPTIONS.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <div className={labelClass}>{kind === "CONCERN" ? "Describe the concern" : "What do you propose?"}</div>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={7}
+                className={inputClass}
+                required
+              />
+            </div>
+
+            <p className="text-xs font-semibold text-slate-400">
+              Your name is only visible to council officers. If they open it for signatures, other students can
+              co-sign it anonymously.
+            </p>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 border-t border-slate-100">
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+            >
+              <Megaphone className="w-4 h-4" />
+              {saving ? "Submitting…" : "Submit for Review"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StudentSubmissionForm;
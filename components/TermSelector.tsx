@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from "react";
+import { CalendarRange, Lock, Unlock, Plus, Settings2, X } from "lucide-react";
+import { FiscalTerm, User, UserRole } from "../types";
+import {
+  closeFiscalTerm,
+  createFiscalTerm,
+  reopenFiscalTerm,
+  useTermFilter,
+  validateTermRange,
+} from "../src/fiscalTerms";
+
+interface TermSelectorProps {
+  user?: User | null;
+}
+
+/** Page-level fiscal term picker; SUPERADMIN also gets the open/close manager */
+const TermSelector: React.FC<TermSelectorProps> = ({ user }) => {
+  const { terms, selected, setSelected } = useTermFilter();
+  const [managerOpen, setManagerOpen] = useState(false);
+
+  const isSuperAdmin = user?.role === UserRole.SUPERADMIN;
+
+  return (
+    <div className="inline-flex items-center gap-2">
+      <div className="relative">
+        <CalendarRange className="absolute left-4 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400 pointer-events-none" />
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          className="pl-10 pr-8 py-4 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest outline-none appearance-none hover:border-slate-300 transition-colors cursor-pointer"
+        >
+          <option value="ALL">All terms</option>
+          {terms.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label}
+              {t.status === "CLOSED" ? " • Closed" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isSuperAdmin && (
+        <button
+          type="button"
+          onClick={() => setManagerOpen(true)}
+          className="w-[50px] h-[50px] rounded-2xl bg-white border border-slate-200 text-slate-400 hover:text-samasa-blue hover:border-samasa-blue transition-all flex items-center justify-center"
+          title="Manage fiscal terms"
+        >
+          <Settings2 size={16} />
+        </button>
+      )}
+
+      {managerOpen && isSuperAdmin && user && (
+        <FiscalTermManager user={user} terms={terms} onClose={() => setManagerOpen(false)} />
+      )}
+    </div>
+  );
+};
+
+const FiscalTermManager: React.FC<{
+  user: User;
+  terms: FiscalTerm[];
+  onClose: () => void;
+}> = ({ user, terms, onClose }) => {
+  const [label, setLabel] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return alert("Label is required.");
+    const problem = validateTermRange(terms, startDate, endDate);
+    if (problem) return alert(problem);
+
+    setBusy(true);
+    try {
+      await createFiscalTerm({ label, startDate, endDate }, user);
+      setLabel("");
+      setStartDate("");
+      setEndDate("");
+    } catch (err: any) {
+      alert(err?.message || "Failed to create term.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = async (t: FiscalTerm) => {
+    const closing = t.status === "OPEN";
+    const msg = closing
+      ? `Close "${t.label}"? Its budget entries, proposals and projects become read-only.`
+      : `Reopen "${t.label}"? Its records become editable again.`;
+    if (!confirm(msg)) return;
+
+    setBusy(true);
+    try {
+      if (closing) await closeFiscalTerm(t, user);
+      else await reopenFiscalTerm(t, user);
+    } catch (err: any) {
+      alert(err?.message || "Failed to update term.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all";
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <div
+          className="w-full max-w-2xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="text-3xl font-black tracking-tighter text-samasa-black">Fiscal Terms</div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-3">
+            {terms.map((t) => (
+              <div
+                key={t.id}
+                className="p-5 rounded-2xl bg-slate-50 border border-slate-100 flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <div className="font-black text-samasa-black tracking-tight truncate">{t.label}</div>
+                  <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {t.startDate} → {t.endDate}
+                    {t.status === "CLOSED" && t.closedByName ? ` • closed by ${t.closedByName}` : ""}
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => toggle(t)}
+                  className={`shrink-0 inline-flex items-center gap-2 px-4 py-2.5 rounded-2xl border font-black text-[10px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+                    t.status === "OPEN"
+                      ? "bg-white border-slate-200 text-slate-600 hover:border-samasa-red hover:text-samasa-red"
+                      : "bg-samasa-black border-samasa-black text-white hover:bg-samasa-blue"
+                  }`}
+                >
+                  {t.status === "OPEN" ? <Lock size={12} /> : <Unlock size={12} />}
+                  {t.status === "OPEN" ? "Close" : "Reopen"}
+                </button>
+              </div>
+            ))}
+
+            {terms.length === 0 && (
+              <div className="py-10 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+                No terms yet
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={submit} className="px-6 sm:px-8 py-6 border-t border-slate-100 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="AY 2025–2026, 1st Sem"
+              className={`${inputClass} sm:col-span-2`}
+            />
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+            <button
+              type="submit"
+              disabled={busy}
+              className="sm:col-span-2 py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Open Term
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TermSelector;
@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Vote as VoteIcon } from "lucide-react";
+import { DepartmentType, PassRule, Proposal, QuorumRule, User, UserRole, VoteChoice, VoteSession } from "../types";
+import { useDepartments, useSessionVotes, useVoteSessions } from "../src/repository";
+import { departmentOptions } from "../src/departmentWorkspace";
+import { useSittingOfficers } from "../src/councilTerms";
+import {
+  castVote,
+  closeReason,
+  closeVoteSession,
+  DEFAULT_VOTE_HOURS,
+  DEFAULT_VOTE_RULE,
+  eligibleVoters,
+  openVoteSession,
+  PASS_LABEL,
+  QUORUM_LABEL,
+  tallyVotes,
+  VOTE_LABEL,
+  voterFor,
+} from "../src/councilVoting";
+
+interface VotingPanelProps {
+  proposal: Proposal;
+  user: User;
+  /** false on public embeds: roll call only */
+  canAct: boolean;
+  /** false for the signed-out viewer, who may only read closed sessions */
+  signedIn?: boolean;
+}
+
+const VOTE_STYLE: Record<VoteChoice | "ABSENT", string> = {
+  YES: "bg-emerald-100 text-emerald-700",
+  NO: "bg-red-100 text-samasa-red",
+  ABSTAIN: "bg-slate-100 text-slate-500",
+  ABSENT: "bg-white border border-slate-200 text-slate-300",
+};
+
+const toLocalInput = (millis: number) => {
+  const d = new Date(millis - new Date().getTimezoneOffset() * 60000);
+  return d.toISOString().slice(0, 16);
+};
+
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+const inputClass =
+  "w-full px-4 py-3 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium text-sm";
+
+/** Council vote for a proposal on the floor; the closed roll call is public */
+const VotingPanel: React.FC<VotingPanelProps> = ({ proposal, user, canAct, signedIn = true }) => {
+  const { data: allSessions } = useVoteSessions(signedIn);
+  const { data: officers } = useSittingOfficers();
+  const { data: departmentRows } = useDepartments();
+  const deptOptions = useMemo(() => departmentOptions(departmentRows), [departmentRows]);
+
+  const sessions = useMemo(
+    () => allSessions.filter((s) => s.proposalId === proposal.id),
+    [allSessions, proposal.id]
+  );
+  const latest = sessions[0] ?? null;
+
+  const isSuper = user.role === UserRole.SUPERADMIN;
+  const canOpen = canAct && isSuper && proposal.status === "FLOOR" && latest?.status !== "OPEN";
+
+  // Open-session form
+  const [department, setDepartment] = useState<string>(DepartmentType.SAMASA);
+  const [quorum, setQuorum] = useState<QuorumRule>(DEFAULT_VOTE_RULE.quorum);
+  const [pass, setPass] = useState<PassRule>(DEFAULT_VOTE_RULE.pass);
+  const [closesAt, setClosesAt] = useState(() => toLocalInput(Date.now() + DEFAULT_VOTE_HOURS * 3600000));
+  const [opening, setOpening] = useState(false);
+
+  const seats = useMemo(() => eligibleVoters(officers, department), [officers, department]);
+
+  const open = async () => {
+    setOpening(true);
+    try {
+      await openVoteSession(
+        proposal,
+        { department, rule: { quorum, pass }, closesAt: new Date(closesAt).getTime() },
+        user,
+        officers
+      );
+    } catch (err: any) {
+      console.error("OPEN VOTE ERROR:", err);
+      alert(err?.message || "Failed to open the vote.");
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  if (!latest && !canOpen) return null;
+
+  return (
+    <div className="rounded-2xl border border-slate-200 p-6 space-y-5">
+      <div className="flex items-center gap-3">
+        <VoteIcon className="w-5 h-5 text-samasa-blue" />
+        <div>
+          <div className="text-sm font-black text-samasa-black">Council Vote</div>
+          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {latest ? `${latest.department} Legislative • ${QUORUM_LABEL[latest.rule.quorum]} • ${PASS_LABEL[latest.rule.pass]}` : "Not yet voted"}
+          </div>
+        </div>
+      </div>
+
+      {latest && <SessionView session={latest} user={user} canAct={canAct} />}
+
+      {sessions.length > 1 && (
+        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+          {sessions.length - 1} earlier session(s) without a decision
+        </div>
+      )}
+
+      {canOpen && (
+        <div className="rounded-2xl bg-slate-50 border border-slate-100 p-5 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Department</label>
+              <select value={department} onChange={(e) => setDepartment(e.target.value)} className={inputClass}>
+                {deptOptions.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Closes at</label>
+              <input
+                type="datetime-local"
+                value={closesAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Quorum</label>
+              <select value={quorum} onChange={(e) => setQuorum(e.target.value as QuorumRule)} className={inputClass}>
+                {(Object.keys(QUORUM_LABEL) as QuorumRule[]).map((q) => (
+                  <option key={q} value={q}>
+                    {QUORUM_LABEL[q]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Passes with</label>
+              <select value={pass} onChange={(e) => setPass(e.target.value as PassRule)} className={inputClass}>
+                {(Object.keys(PASS_LABEL) as PassRule[]).map((p) => (
+                  <option key={p} value={p}>
+                    {PASS_LABEL[p]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="text-xs font-bold text-slate-500">
+              {seats.length} voting member(s): {seats.map((v) => v.name).join(", ") || "none in the Legislative division"}
+            </div>
+            <button
+              type="button"
+              disabled={opening || seats.length === 0}
+              onClick={open}
+              className="px-5 py-2.5 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all disabled:opacity-60"
+            >
+              {opening ? "Opening..." : "Open Vote"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SessionView: React.FC<{ session: VoteSession; user: User; canAct: boolean }> = ({ session, user, canAct }) => {
+  // a closed session carries its tally and roll call
+  const { data: votes } = useSessionVotes(session.id, session.status === "OPEN");
+  const [busy, setBusy] = useState(false);
+
+  const seat = voterFor(user, session);
+  const myVote = seat ? votes.find((v) => v.officerId === seat.officerId)?.vote : undefined;
+  const canClose = canAct && user.role === UserRole.SUPERADMIN;
+
+  // ✅ Auto-close: a SUPERADMIN's client closes it once everyone voted or time is up (server/adminApi.ts
+  // sweeps the ones nobody had open)
+  const closingRef = useRef(false);
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (session.status !== "OPEN") return;
+    const t = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(t);
+  }, [session.status]);
+
+  useEffect(() => {
+    const reason = closeReason(session, votes, now);
+    if (!reason || !canClose || closingRef.current) return;
+    closingRef.current = true;
+    closeVoteSession(session, user, reason)
+      .catch((err) => console.error("CLOSE VOTE ERROR:", err))
+      .finally(() => {
+        closingRef.current = false;
+      });
+  }, [session, votes, now, canClose, user]);
+
+  const vote = async (choice: VoteChoice) => {
+    setBusy(true);
+    try {
+      await castVote(session, user, choice);
+    } catch (err: any) {
+      console.error("CAST VOTE ERROR:", err);
+      alert(err?.message || "Failed to record your vote.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const closeNow = async () => {
+    if (!confirm("Close the vote now? Members who haven't voted will be marked absent.")) return;
+    setBusy(true);
+    try {
+      await closeVoteSession(session, user, "MANUAL");
+    } catch (err: any) {
+      console.error("CLOSE VOTE ERROR:", err);
+      alert(err?.message || "Failed to close the vote.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (session.status === "OPEN") {
+    const live = tallyVotes(session, votes);
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <span className="px-4 py-1.5 rounded-full bg-samasa-yellow text-samasa-black text-[10px] font-black uppercase tracking-widest">
+            Voting open • {live.present} of {live.eligible} voted
+          </span>
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {closeReason(session, votes, now) && !canClose
+              ? "Waiting for a SUPERADMIN to close it"
+              : `Closes ${new Date(session.closesAt).toLocaleString()}`}
+          </span>
+        </div>
+
+        {canAct && seat && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 mr-2">Your vote</span>
+            {(["YES", "NO", "ABSTAIN"] as VoteChoice[]).map((c) => (
+              <button
+                key={c}
+                type="button"
+                disabled={busy}
+                onClick={() => vote(c)}
+                className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-60 ${
+                  myVote === c ? VOTE_STYLE[c] + " ring-2 ring-samasa-blue/30" : "bg-white border border-slate-200 text-slate-500 hover:bg-slate-50"
+                }`}
+              >
+                {VOTE_LABEL[c]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {canAct && user.role === UserRole.SUPERADMIN && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={closeNow}
+            className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:text-samasa-red transition-all disabled:opacity-60"
+          >
+            Close Now
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const tally = session.tally ?? tallyVotes(session, votes);
+  const outcome = !tally.quorumMet ? "No quorum" : tally.passed ? "Carried" : "Lost";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span
+          className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest ${
+            !tally.quorumMet ? "bg-slate-100 text-slate-500" : tally.passed ? "bg-emerald-100 text-emerald-700" : "bg-red-100 text-samasa-red"
+          }`}
+        >
+          {outcome}
+        </span>
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+          {tally.yes} yes • {tally.no} no • {tally.abstain} abstain • {tally.present} of {tally.eligible} present
+          {session.closedAt ? ` • closed ${new Date(session.closedAt).toLocaleString()}` : ""}
+        </span>
+      </div>
+
+      <div className="rounded-2xl border border-slate-100 divide-y divide-slate-100">
+        {(session.rollCall ?? []).map((r) => (
+          <div key={r.officerId} className="flex items-center justify-between gap-3 px-4 py-3">
+            <div className="min-w-0">
+              <div className="text-sm font-black text-samasa-black truncate">{r.name}</div>
+              <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate">{r.position}</div>
+            </div>
+            <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${VOTE_STYLE[r.vote]}`}>
+              {VOTE_LABEL[r.vote]}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VotingPanel;
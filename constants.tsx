@@ -240,7 +240,7 @@ export const MOCK_PROPOSALS: Proposal[] = [
     category: ProposalCategory.PROGRAMS,
     proponent: "SAMASA Executive",
     dateSubmitted: "2024-03-10",
-    status: "PENDING",
+    status: "FILED",
     description: "Establishing a network of trained peer counselors across all departments.",
   },
   {
@@ -262,6 +262,12 @@ export const MOCK_POLICIES: Policy[] = [
     title: "Transparency Act",
     dateApproved: "2024-01-10",
     description: "Ensures all financial records are accessible to officers via the digital portal.",
+    kind: "ORDINANCE",
+    department: DepartmentType.SAMASA,
+    number: 1,
+    fullText: "",
+    amends: [],
+    repeals: [],
   },
   {
     id: "pol2",
@@ -269,6 +275,12 @@ export const MOCK_POLICIES: Policy[] = [
     title: "Environmental Sustainability Code",
     dateApproved: "2024-02-05",
     description: "Banning single-use plastics in all student-led events.",
+    kind: "ORDINANCE",
+    department: DepartmentType.SAMASA,
+    number: 2,
+    fullText: "",
+    amends: [],
+    repeals: [],
   },
 ];
 
@@ -1,17 +1,53 @@
-import { initializeApp, getApp, getApps } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
+import { initializeApp, getApp, getApps, FirebaseApp } from "firebase/app";
+import { connectFirestoreEmulator, getFirestore, Firestore } from "firebase/firestore";
+import { Auth, connectAuthEmulator, getAuth } from "firebase/auth";
+
+/**
+ * Optional local emulator wiring:
+ * - VITE_FIRESTORE_EMULATOR_HOST = "127.0.0.1:8080"
+ * - VITE_AUTH_EMULATOR_URL       = "http://127.0.0.1:9099"
+ * With an emulator the project id defaults to a "demo-" project (no real Firebase project needed).
+ */
+const FIRESTORE_EMULATOR_HOST = (import.meta.env.VITE_FIRESTORE_EMULATOR_HOST as string) || "";
+const AUTH_EMULATOR_URL = (import.meta.env.VITE_AUTH_EMULATOR_URL as string) || "";
+const usingEmulator = Boolean(FIRESTORE_EMULATOR_HOST || AUTH_EMULATOR_URL);
 
 const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY || (usingEmulator ? "demo-api-key" : undefined),
   authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || (usingEmulator ? "demo-samasa" : undefined),
   storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
   messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
   appId: import.meta.env.VITE_FIREBASE_APP_ID,
 };
 
-export const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
+// Lazy so the localStorage backend never initializes Firebase (no project / keys required).
+let _db: Firestore | null = null;
+let _auth: Auth | null = null;
+
+export const getFirebaseApp = (): FirebaseApp =>
+  getApps().length ? getApp() : initializeApp(firebaseConfig);
+
+export const getDb = (): Firestore => {
+  if (!_db) {
+    _db = getFirestore(getFirebaseApp());
+    if (FIRESTORE_EMULATOR_HOST) {
+      const [host, port] = FIRESTORE_EMULATOR_HOST.split(":");
+      connectFirestoreEmulator(_db, host || "127.0.0.1", Number(port) || 8080);
+    }
+  }
+  return _db;
+};
 
-export const db = getFirestore(app);
-export const auth = getAuth(app);
+/** Wires an Auth instance (primary or secondary app) to the emulator when configured */
+export const withAuthEmulator = (auth: Auth): Auth => {
+  if (AUTH_EMULATOR_URL && !(auth as any)?.emulatorConfig) {
+    connectAuthEmulator(auth, AUTH_EMULATOR_URL, { disableWarnings: true });
+  }
+  return auth;
+};
+
+export const getFirebaseAuth = (): Auth => {
+  if (!_auth) _auth = withAuthEmulator(getAuth(getFirebaseApp()));
+  return _auth;
+};
@@ -16,7 +16,10 @@ export function cloudinaryEnvOk() {
   return Boolean(CLOUD_NAME && UPLOAD_PRESET);
 }
 
-export async function uploadToCloudinary(file: File, opts?: { folder?: string }) {
+export async function uploadToCloudinary(
+  file: File,
+  opts?: { folder?: string; resourceType?: "image" | "raw" | "auto" }
+) {
   if (!CLOUD_NAME || !UPLOAD_PRESET) {
     throw new Error(
       "Cloudinary env vars missing: VITE_CLOUDINARY_CLOUD_NAME and/or VITE_CLOUDINARY_UPLOAD_PRESET"
@@ -28,8 +31,8 @@ export async function uploadToCloudinary(file: File, opts?: { folder?: string })
   form.append("upload_preset", UPLOAD_PRESET);
   form.append("folder", opts?.folder || FOLDER);
 
-  // image-only endpoint is a little more strict (good for landing images)
-  const url = `https://api.cloudinary.com/v1_1/${CLOUD_NAME}/image/upload`;
+  // image-only endpoint is a little more strict (good for landing images); PDFs go through "raw"
+  const url = `https://api.cloudinary.com/v1_1/${CLOUD_NAME}/${opts?.resourceType || "image"}/upload`;
 
   const res = await fetch(url, { method: "POST", body: form });
 
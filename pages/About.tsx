@@ -1,7 +1,7 @@
 // src/pages/About.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Link } from "react-router-dom";
-import { User, UserRole } from "../types";
+import { Link, useSearchParams } from "react-router-dom";
+import { User } from "../types";
 import {
   ArrowLeft,
   History,
@@ -28,19 +28,17 @@ import {
   Link as LinkIcon,
   Tag,
   CheckCircle2,
+  Landmark,
 } from "lucide-react";
 
 // ✅ Firestore
-import { db } from "../firebase/firebaseConfig";
-import {
-  doc,
-  onSnapshot,
-  serverTimestamp,
-  setDoc,
-  getDoc,
-} from "firebase/firestore";
+import { storage } from "../src/storage";
+import { useAboutContent, useProjects } from "../src/repository";
+import { impactStories, objectivesMet } from "../src/projectReports";
+import PastCouncils from "../components/PastCouncils";
+import { can } from "../src/permissions";
 
-type Tab = "History" | "Achievements";
+type Tab = "History" | "Achievements" | "Past Councils";
 
 type Milestone = {
   year: string;
@@ -57,6 +55,8 @@ type Achievement = {
   tags?: string[];
   evidenceUrl?: string;
   featured?: boolean;
+  /** derived from a published project report; never stored in the About doc */
+  fromProject?: boolean;
 };
 
 type AboutContent = {
@@ -81,7 +81,8 @@ type AboutContent = {
 };
 
 // ✅ Firestore path: site_content/about
-const ABOUT_DOC_REF = doc(db, "site_content", "about");
+const ABOUT_COLLECTION = "site_content";
+const ABOUT_DOC_ID = "about";
 
 const DEFAULT_CONTENT: AboutContent = {
   history: {
@@ -167,9 +168,6 @@ function safeMergeContent(parsed: any): AboutContent {
   };
 }
 
-const canEditUser = (u: User | null) =>
-  !!u && (u.role === UserRole.SUPERADMIN || u.role === UserRole.OFFICER);
-
 const cx = (...classes: Array<string | false | undefined | null>) =>
   classes.filter(Boolean).join(" ");
 
@@ -299,24 +297,71 @@ const IconButton = ({
 
 const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
   const [tab, setTab] = useState<Tab>("History");
-  const canEdit = canEditUser(currentUser);
+  const canEdit = can(currentUser, "content.edit");
 
   // Firestore-loaded content
   const [content, setContent] = useState<AboutContent>(DEFAULT_CONTENT);
   const [loading, setLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
 
+  // ✅ Deep links from global search: ?tab=Achievements&achievement=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [focusAchievementId, setFocusAchievementId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const linkedTab = searchParams.get("tab");
+    const achievementId = searchParams.get("achievement");
+    if (!linkedTab && !achievementId) return;
+    if (linkedTab === "History" || linkedTab === "Achievements" || linkedTab === "Past Councils") setTab(linkedTab);
+    if (achievementId) setFocusAchievementId(achievementId);
+    setSearchParams({}, { replace: true });
+  }, [searchParams]);
+
+  useEffect(() => {
+    if (!focusAchievementId) return;
+    const t = window.setTimeout(() => {
+      document
+        .getElementById(`achievement-${focusAchievementId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, 100);
+    const clear = window.setTimeout(() => setFocusAchievementId(null), 3000);
+    return () => {
+      window.clearTimeout(t);
+      window.clearTimeout(clear);
+    };
+  }, [focusAchievementId]);
+
+  // ✅ Completed projects with a published report are listed after the curated achievements
+  const { data: projects } = useProjects();
+  const achievements = useMemo<Achievement[]>(() => {
+    const fromReports = impactStories(projects).map((p) => {
+      const report = p.report!;
+      return {
+        id: `project-${p.id}`,
+        title: p.title,
+        summary:
+          `Reached ${report.beneficiaries.toLocaleString()} ${report.beneficiaryNote || "beneficiaries"}; ` +
+          `${objectivesMet(report)} of ${report.outcomes.length} objectives met.`,
+        lead: p.inCharge,
+        date: report.updatedAt ? new Date(report.updatedAt).toISOString().slice(0, 10) : undefined,
+        tags: ["project report"],
+        fromProject: true,
+      };
+    });
+    return [...content.achievements.items, ...fromReports];
+  }, [content.achievements.items, projects]);
+
   // ======= stats (simple, page-level) =======
   const pageStats = useMemo(() => {
-    const achievementsCount = content.achievements.items.length;
-    const featuredCount = content.achievements.items.filter((a) => a.featured).length;
+    const achievementsCount = achievements.length;
+    const featuredCount = achievements.filter((a) => a.featured).length;
     const leads = new Set(
-      content.achievements.items.map((a) => (a.lead ?? "").trim()).filter(Boolean)
+      achievements.map((a) => (a.lead ?? "").trim()).filter(Boolean)
     ).size;
 
     const activeYears = Math.max(1, new Date().getFullYear() - 2015 + 1);
     return { achievementsCount, featuredCount, leads, activeYears };
-  }, [content.achievements.items]);
+  }, [achievements]);
 
   // =========================
   // Editor Modal State
@@ -338,48 +383,46 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
   };
 
   // =========================
-  // ✅ Firestore: subscribe
+  // ✅ Firestore: shared subscription
   // =========================
+  const aboutDoc = useAboutContent();
+
   useEffect(() => {
-    setLoading(true);
-    setLoadError(null);
-
-    const unsub = onSnapshot(
-      ABOUT_DOC_REF,
-      async (snap) => {
-        try {
-          if (!snap.exists()) {
-            // If missing, initialize once (safe to do for everyone, but better for admins)
-            // We'll initialize only if the doc truly doesn't exist.
-            // If you want only admins to initialize, wrap with canEdit.
-            await setDoc(
-              ABOUT_DOC_REF,
-              {
-                content: DEFAULT_CONTENT,
-                updatedAt: serverTimestamp(),
-              },
-              { merge: true }
-            );
-            setContent(DEFAULT_CONTENT);
-          } else {
-            const data = snap.data();
-            const merged = safeMergeContent(data?.content);
-            setContent(merged);
-          }
-          setLoading(false);
-        } catch (e: any) {
-          setLoading(false);
-          setLoadError(e?.message || "Failed to load About content.");
-        }
+    if (aboutDoc.error) {
+      setLoading(false);
+      setLoadError(aboutDoc.error?.message || "Failed to subscribe to About content.");
+      return;
+    }
+    if (aboutDoc.loading) return;
+
+    if (aboutDoc.data) {
+      setContent(safeMergeContent(aboutDoc.data));
+      setLoading(false);
+      setLoadError(null);
+      return;
+    }
+
+    // If missing, show the defaults; only content editors may write the doc (firestore.rules)
+    setContent(DEFAULT_CONTENT);
+    if (!canEdit) {
+      setLoading(false);
+      return;
+    }
+    storage.set(
+      ABOUT_COLLECTION,
+      ABOUT_DOC_ID,
+      {
+        content: DEFAULT_CONTENT,
+        updatedAt: storage.now(),
       },
-      (err) => {
+      { merge: true }
+    )
+      .then(() => setLoading(false))
+      .catch((e: any) => {
         setLoading(false);
-        setLoadError(err?.message || "Failed to subscribe to About content.");
-      }
-    );
-
-    return () => unsub();
-  }, []);
+        setLoadError(e?.message || "Failed to load About content.");
+      });
+  }, [aboutDoc.data, aboutDoc.loading, aboutDoc.error, canEdit]);
 
   // Keep draft in sync when editor is not open (so realtime updates don't fight the editor)
   useEffect(() => {
@@ -408,11 +451,12 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
     try {
       // Optional: quick check to reduce accidental overwrite
       // (If you want stronger conflict control, we can add updatedAt compare)
-      await setDoc(
-        ABOUT_DOC_REF,
+      await storage.set(
+        ABOUT_COLLECTION,
+        ABOUT_DOC_ID,
         {
           content: draft,
-          updatedAt: serverTimestamp(),
+          updatedAt: storage.now(),
           updatedBy: currentUser
             ? { id: currentUser.id, name: currentUser.name, role: currentUser.role }
             : null,
@@ -625,7 +669,7 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
         {canEdit && (
           <div className="hidden md:flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
             <ShieldCheck className="w-4 h-4" />
-            Editable (Superadmin/Officer)
+            Editable (Content editor)
           </div>
         )}
       </div>
@@ -724,6 +768,7 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
         {[
           { id: "History" as const, icon: History, label: "History" },
           { id: "Achievements" as const, icon: Trophy, label: "Achievements" },
+          { id: "Past Councils" as const, icon: Landmark, label: "Past Councils" },
         ].map((t) => (
           <button
             key={t.id}
@@ -843,10 +888,10 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
                       Achievements Count
                     </div>
                     <div className="mt-3 text-4xl font-black text-samasa-black">
-                      {content.achievements.items.length}
+                      {achievements.length}
                     </div>
                     <div className="mt-4 text-xs font-bold text-slate-400">
-                      Featured: {content.achievements.items.filter((a) => a.featured).length}
+                      Featured: {achievements.filter((a) => a.featured).length}
                     </div>
                   </div>
                 </div>
@@ -854,7 +899,7 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
             </div>
 
             {/* Achievements list */}
-            {content.achievements.items.length === 0 ? (
+            {achievements.length === 0 ? (
               <div className="bg-white p-12 rounded-[3.5rem] border border-slate-200 shadow-sm text-center">
                 <div className="mx-auto w-16 h-16 rounded-3xl bg-slate-50 border border-slate-100 flex items-center justify-center">
                   <Trophy className="w-8 h-8 text-slate-400" />
@@ -868,10 +913,14 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
               </div>
             ) : (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
-                {content.achievements.items.map((a) => (
+                {achievements.map((a) => (
                   <div
                     key={a.id}
-                    className="bg-white p-12 rounded-[3.5rem] border border-slate-200 shadow-sm group hover:border-samasa-blue hover:shadow-2xl transition-all relative overflow-hidden"
+                    id={`achievement-${a.id}`}
+                    className={cx(
+                      "bg-white p-12 rounded-[3.5rem] border border-slate-200 shadow-sm group hover:border-samasa-blue hover:shadow-2xl transition-all relative overflow-hidden",
+                      focusAchievementId === a.id && "ring-4 ring-samasa-yellow"
+                    )}
                   >
                     <div className="absolute -top-20 -right-20 w-64 h-64 bg-samasa-yellow/10 blur-[90px] rounded-full" />
 
@@ -884,6 +933,10 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
                         <div className="px-5 py-2 bg-samasa-yellow/30 text-samasa-black text-[9px] font-black rounded-full uppercase tracking-widest">
                           Featured
                         </div>
+                      ) : a.fromProject ? (
+                        <div className="px-5 py-2 bg-emerald-100 text-emerald-700 text-[9px] font-black rounded-full uppercase tracking-widest">
+                          Project Report
+                        </div>
                       ) : (
                         <div className="px-5 py-2 bg-slate-100 text-slate-600 text-[9px] font-black rounded-full uppercase tracking-widest">
                           Achievement
@@ -945,10 +998,13 @@ const About: React.FC<{ currentUser: User | null }> = ({ currentUser }) => {
             )}
           </div>
         )}
+
+        {/* Rosters come from the officer directory (Officers → council terms), not page content */}
+        {tab === "Past Councils" && <PastCouncils />}
       </div>
 
       {/* Floating edit button */}
-      {canEdit && !editOpen && (
+      {canEdit && !editOpen && tab !== "Past Councils" && (
         <button
           onClick={() => openEditor(tab)}
           className="fixed bottom-6 right-6 z-[60] px-6 py-4 rounded-full bg-samasa-black text-samasa-yellow font-black uppercase tracking-widest text-[10px] shadow-2xl hover:bg-samasa-blue hover:text-white transition-all active:scale-95 inline-flex items-center"
@@ -17,8 +17,9 @@ import {
 } from "lucide-react";
 
 // ✅ Firebase
-import { db, auth } from "../firebase/firebaseConfig";
-import { doc, getDoc, setDoc, serverTimestamp, onSnapshot } from "firebase/firestore";
+import { storage } from "../src/storage";
+import { authBackend } from "../src/authBackend";
+import { DEFAULT_LANDING_CONTENT, useLandingContent } from "../src/repository";
 
 // ✅ Cloudinary
 import { uploadToCloudinary, cloudinaryEnvOk } from "../lib/cloudinaryUpload";
@@ -30,34 +31,9 @@ interface AdminDashboardProps {
 // ✅ Vision removed
 type AdminSection = "Hero" | "Login" | "Sections" | "Footer";
 
-const DEFAULT_LANDING_CONTENT: LandingPageContent = {
-  heroBackgroundUrl: "",
-  heroHeadingTop: "SAMASA",
-  heroHeadingHighlight: "STRONG",
-  heroSubtitle: "Public landing subtitle…",
-
-  // Keep these defaults if your LandingPageContent type still includes them
-  // (so Firestore doc stays compatible), but we won't edit them here.
-  visionImageUrl: "",
-  visionTitle: "Vision Title",
-  visionBody: "Vision body…",
-  visionCard1Title: "Integrity",
-  visionCard1Body: "Card 1 body…",
-  visionCard2Title: "Excellence",
-  visionCard2Body: "Card 2 body…",
-
-  loginBackgroundUrl: "",
-
-  projectsEyebrow: "PROJECTS",
-  projectsTitle: "Projects",
-  budgetEyebrow: "BUDGET",
-  budgetTitle: "Budget",
-
-  footerLeft: "SAMASA",
-  footerRight: "All Rights Reserved",
-};
-
-const LANDING_DOC_REF = () => doc(db, "siteSettings", "landingPage");
+// siteSettings/landingPage
+const LANDING_COLLECTION = "siteSettings";
+const LANDING_DOC_ID = "landingPage";
 
 type ToastType = "success" | "error" | "info";
 type ToastState = { open: boolean; type: ToastType; title: string; message?: string };
@@ -88,76 +64,66 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
     window.setTimeout(() => setToast((t) => ({ ...t, open: false })), ms);
   };
 
-  const authUid = () => auth.currentUser?.uid ?? null;
+  const authUid = () => authBackend.currentUid();
 
-  // ✅ Load from Firestore (and keep synced in realtime)
+  // ✅ Live landing doc (shared listener)
+  const landing = useLandingContent();
+
+  // Seed the doc once if it does not exist yet
   useEffect(() => {
-    const ref = LANDING_DOC_REF();
-    let unsub: (() => void) | undefined;
-
-    (async () => {
-      try {
-        const snap = await getDoc(ref);
-        if (!snap.exists()) {
-          await setDoc(
-            ref,
-            {
-              ...DEFAULT_LANDING_CONTENT,
-              createdAt: serverTimestamp(),
-              updatedAt: serverTimestamp(),
-              updatedBy: authUid(),
-            },
-            { merge: true }
-          );
-        }
-
-        unsub = onSnapshot(
-          ref,
-          (s) => {
-            const data = (s.data() || {}) as Partial<LandingPageContent>;
-            setDraft({ ...DEFAULT_LANDING_CONTENT, ...data } as LandingPageContent);
-            setLoading(false);
-          },
-          (err) => {
-            console.error("Firestore landing onSnapshot error:", err);
-            setDraft(DEFAULT_LANDING_CONTENT);
-            setLoading(false);
-            showToast({
-              type: "error",
-              title: "Realtime sync failed",
-              message: "Check console + Firestore rules.",
-            });
-          }
-        );
-      } catch (err) {
-        console.error("Firestore landing load error:", err);
-        setDraft(DEFAULT_LANDING_CONTENT);
-        setLoading(false);
-        showToast({
-          type: "error",
-          title: "Failed to load landing content",
-          message: "Check console + Firestore rules.",
-        });
-      }
-    })();
+    if (landing.loading || landing.error || landing.data) return;
+
+    storage.set(
+      LANDING_COLLECTION,
+      LANDING_DOC_ID,
+      {
+        ...DEFAULT_LANDING_CONTENT,
+        createdAt: storage.now(),
+        updatedAt: storage.now(),
+        updatedBy: authUid(),
+      },
+      { merge: true }
+    ).catch((err) => {
+      console.error("Firestore landing load error:", err);
+      showToast({
+        type: "error",
+        title: "Failed to load landing content",
+        message: "Check console + Firestore rules.",
+      });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [landing.loading, landing.error, landing.data]);
 
-    return () => {
-      if (unsub) unsub();
-    };
+  // Keep draft synced in realtime
+  useEffect(() => {
+    if (landing.loading) return;
+    setDraft(landing.data ?? DEFAULT_LANDING_CONTENT);
+    setLoading(false);
+  }, [landing.loading, landing.data]);
+
+  useEffect(() => {
+    if (!landing.error) return;
+    setDraft(DEFAULT_LANDING_CONTENT);
+    setLoading(false);
+    showToast({
+      type: "error",
+      title: "Realtime sync failed",
+      message: "Check console + Firestore rules.",
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id]);
+  }, [landing.error]);
 
   const save = async () => {
     if (saving || resetting || uploadingField) return;
     setSaving(true);
 
     try {
-      const ref = LANDING_DOC_REF();
-      await setDoc(
-        ref,
+      await storage.set(
+        LANDING_COLLECTION,
+        LANDING_DOC_ID,
         {
           ...draft,
-          updatedAt: serverTimestamp(),
+          updatedAt: storage.now(),
           updatedBy: authUid(),
         },
         { merge: true }
@@ -185,14 +151,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
     setResetting(true);
 
     try {
-      const ref = LANDING_DOC_REF();
-      await setDoc(
-        ref,
+      await storage.set(
+        LANDING_COLLECTION,
+        LANDING_DOC_ID,
         {
           ...DEFAULT_LANDING_CONTENT,
-          updatedAt: serverTimestamp(),
+          updatedAt: storage.now(),
           updatedBy: authUid(),
-          resetAt: serverTimestamp(),
+          resetAt: storage.now(),
         },
         { merge: true }
       );
@@ -1,6 +1,7 @@
 // src/pages/Budget.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { User, UserRole, BudgetEntry, DepartmentType } from "../types";
+import { useSearchParams } from "react-router-dom";
+import { User, UserRole, BudgetEntry, BudgetFundKey, DepartmentId, DepartmentType } from "../types";
 import {
   Plus,
   Search,
@@ -17,74 +18,193 @@ import {
   ShieldCheck,
   ChevronLeft,
   ChevronRight,
+  History,
+  ScrollText,
+  SlidersHorizontal,
+  AlertTriangle,
+  Lock,
+  FileSpreadsheet,
+  FileText,
+  Paperclip,
+  ListChecks,
+  Send,
 } from "lucide-react";
 
-import { db } from "../firebase/firebaseConfig";
 import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  onSnapshot,
-  orderBy,
-  query,
-  serverTimestamp,
-  updateDoc,
-} from "firebase/firestore";
+  isFundKey,
+  isoToday,
+  normalizeNumber,
+  toISODate,
+  useApprovalRules,
+  useBudgetAllocations,
+  useBudgetAudit,
+  useBudgetEntries,
+  useDepartments,
+  useProjects,
+} from "../src/repository";
+import { useSittingOfficers } from "../src/councilTerms";
+import {
+  checkCeiling,
+  FUND_KEYS,
+  FundUsage,
+  fundUsage,
+  saveAllocations,
+} from "../src/budgetAllocations";
+import { resolveTermId, useTermFilter } from "../src/fiscalTerms";
+import TermSelector from "../components/TermSelector";
+import {
+  buildBudgetRecord,
+  createBudgetEntry,
+  deleteBudgetEntry,
+  RecordMode,
+  updateBudgetEntry,
+} from "../src/budgetLedger";
+import BudgetAuditLog from "../components/BudgetAuditLog";
+import BudgetImport from "../components/BudgetImport";
+import StatementExport from "../components/StatementExport";
+import BudgetReceipts from "../components/BudgetReceipts";
+import { isMissingLiquidation } from "../src/budgetReceipts";
+import { canSeeEntry, isPosted, needsApproval, workflowFields } from "../src/expenseApproval";
+import ApprovalActions, { ApprovalStatusBadge } from "../components/ApprovalActions";
+import ApprovalRulesManager from "../components/ApprovalRulesManager";
+import { ALL_DEPARTMENTS, can, canAnywhere, departmentsWith } from "../src/permissions";
+import { departmentOptions } from "../src/departmentWorkspace";
 
 interface BudgetProps {
   user: User;
   isEditable?: boolean; // controls editing (not viewing)
   hideTitle?: boolean;  // ✅ add this for landing page
+  department?: DepartmentId; // ✅ locks the view to one department (department workspace)
 }
 
-type DeptKey = DepartmentType | "ALL";
-type FundKey = "operational" | "project" | "trust";
-type RecordMode = "INCOME" | "EXPENSE" | "AVAILABLE_ONLY";
+type DeptKey = DepartmentId | "ALL";
+type FundKey = BudgetFundKey;
 
 const PAGE_SIZE = 10;
 
 const deptLabel = (d: DeptKey) => (d === "ALL" ? "Overall" : String(d));
-const normalizeNumber = (v: any) => (Number.isFinite(Number(v)) ? Number(v) : 0);
-const isFundKey = (v: any): v is FundKey => v === "operational" || v === "project" || v === "trust";
-
-const isoToday = () => new Date().toISOString().slice(0, 10);
-const toISODate = (raw: any) => {
-  const s = String(raw ?? "").trim();
-  if (!s) return isoToday();
-  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
-  const d = new Date(s);
-  if (!Number.isFinite(d.getTime())) return isoToday();
-  return d.toISOString().slice(0, 10);
+
+const FUND_LABEL: Record<FundKey, string> = {
+  operational: "Operational",
+  project: "Project",
+  trust: "Trust",
 };
 
+const peso = (n: number) => `₱${Number(n).toLocaleString()}`;
+
 const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
 
-const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = false }) => {
+const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = false, department }) => {
   const isPrivilegedViewer = user.role === UserRole.SUPERADMIN || user.role === UserRole.OFFICER;
-  const canManage = isEditable && isPrivilegedViewer;
+  const isSuperAdmin = user.role === UserRole.SUPERADMIN;
+  // ✅ Ledger permissions are granted per department (src/permissions)
+  const showActions = isEditable && isPrivilegedViewer;
+  const canPostIn = (dept: DepartmentId) => isEditable && can(user, "budget.post", dept);
+  const canManage = isEditable && canAnywhere(user, "budget.post");
+  // built-in departments plus the ones added on the Officers page
+  const { data: departmentRows, loading: loadingDepts } = useDepartments();
+  const deptOptions = useMemo(() => departmentOptions(departmentRows), [departmentRows]);
+  const postableDepts = departmentsWith(user, "budget.post", deptOptions);
+  const canAudit = canAnywhere(user, "budget.audit");
+  // auditors only read the trail of departments they audit (firestore.rules)
+  const auditDepts = can(user, "budget.audit", ALL_DEPARTMENTS)
+    ? null
+    : departmentsWith(user, "budget.audit", deptOptions);
+  const canAllocate = isEditable && canAnywhere(user, "budget.allocate");
+  const allocatableDepts = departmentsWith(user, "budget.allocate", deptOptions);
 
   // ===== Data =====
-  const [entries, setEntries] = useState<BudgetEntry[]>([]);
+  const { data: entries, loading: loadingEntries } = useBudgetEntries();
+  const { data: auditRecords } = useBudgetAudit(auditDepts);
+  const { data: allocations } = useBudgetAllocations();
+  const { data: approvalRules } = useApprovalRules();
+  const { data: officers } = useSittingOfficers();
+  const { data: projects } = useProjects();
+  const { terms, selected: selectedTerm, selectedTerm: selectedTermInfo, matches, isLocked } = useTermFilter();
+
+  const seesEntry = (e: BudgetEntry) => canSeeEntry(user, e, approvalRules, officers);
+
+  // ===== Audit =====
+  const [historyEntry, setHistoryEntry] = useState<BudgetEntry | null>(null);
+  const [auditOpen, setAuditOpen] = useState(false);
+
+  // ===== Bulk import =====
+  const [importOpen, setImportOpen] = useState(false);
+
+  // ===== Financial statement =====
+  const [statementOpen, setStatementOpen] = useState(false);
+
+  const visibleAudit = useMemo(
+    () => auditRecords.filter((r) => can(user, "budget.audit", r.department)),
+    [auditRecords, user]
+  );
+
+  const historyRecords = useMemo(
+    () => (historyEntry ? auditRecords.filter((r) => r.entryId === historyEntry.id) : []),
+    [auditRecords, historyEntry]
+  );
+
+  // ===== Approval rules (SUPERADMIN) =====
+  const [rulesOpen, setRulesOpen] = useState(false);
+
+  // ===== Receipts =====
+  // id (not the entry) so the viewer follows live updates after an upload
+  const [receiptsEntryId, setReceiptsEntryId] = useState<string | null>(null);
+  const receiptsEntry = useMemo(
+    () => (receiptsEntryId ? entries.find((e) => e.id === receiptsEntryId) ?? null : null),
+    [entries, receiptsEntryId]
+  );
 
   // ===== Filters =====
   const [search, setSearch] = useState("");
-  const [selectedDept, setSelectedDept] = useState<DeptKey>("ALL");
+  const [selectedDept, setSelectedDept] = useState<DeptKey>(department ?? "ALL");
+  const [missingOnly, setMissingOnly] = useState(false);
+
+  // ✅ Deep links: ?entry=<id> (global search) opens the entry's receipt viewer;
+  // ?dept=<id> (department workspace) opens the ledger filtered to that department
+  const [searchParams, setSearchParams] = useSearchParams();
+  useEffect(() => {
+    const dept = searchParams.get("dept");
+    if (!department && dept && loadingDepts) return;
+    if (!department && dept && deptOptions.includes(dept)) {
+      setSelectedDept(dept);
+      setSearchParams({}, { replace: true });
+      return;
+    }
+    const entryId = searchParams.get("entry");
+    if (!entryId || loadingEntries) return;
+    const entry = entries.find((e) => e.id === entryId);
+    if (entry && seesEntry(entry)) setReceiptsEntryId(entry.id);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, entries, loadingEntries, loadingDepts]);
 
   // ===== Pagination (table) =====
   const [page, setPage] = useState(1);
 
+  // ===== Fund allocations =====
+  const [allocOpen, setAllocOpen] = useState(false);
+  const [allocDept, setAllocDept] = useState<DepartmentId>(DepartmentType.SAMASA);
+  const [allocInputs, setAllocInputs] = useState<Record<FundKey, string>>({
+    operational: "",
+    project: "",
+    trust: "",
+  });
+  const [allocSaving, setAllocSaving] = useState(false);
+
   // ===== Record Modal =====
   const [recordOpen, setRecordOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<BudgetEntry | null>(null);
 
   const [mode, setMode] = useState<RecordMode>("EXPENSE");
-  const [deptInput, setDeptInput] = useState<DepartmentType>(DepartmentType.SAMASA as any);
+  const [deptInput, setDeptInput] = useState<DepartmentId>(DepartmentType.SAMASA);
   const [dateInput, setDateInput] = useState<string>(isoToday());
   const [amountInput, setAmountInput] = useState<string>("");
 
   const [fundInput, setFundInput] = useState<FundKey>("operational");
   const [fundSelected, setFundSelected] = useState(false);
+  // ✅ Project-fund expenses may name the project they were spent on
+  const [projectInput, setProjectInput] = useState("");
+  const [reasonInput, setReasonInput] = useState("");
 
   const titleRef = useRef<HTMLInputElement | null>(null);
   const categoryRef = useRef<HTMLInputElement | null>(null);
@@ -98,61 +218,33 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
     };
   }, [recordOpen]);
 
-  // ===== Firestore listener =====
   useEffect(() => {
-    const qEntries = query(collection(db, "budgetEntries"), orderBy("createdAt", "desc"));
-    const unsub = onSnapshot(
-      qEntries,
-      (snap) => {
-        const rows: BudgetEntry[] = snap.docs.map((d) => {
-          const data = d.data() as any;
-
-          const fundRaw = data?.fund;
-          const fund = isFundKey(fundRaw) ? (fundRaw as FundKey) : undefined;
-
-          const impact = data?.impact === "AVAILABLE_ONLY" ? "AVAILABLE_ONLY" : "LEDGER";
-
-          return {
-            id: d.id,
-            title: String(data.title ?? ""),
-            amount: normalizeNumber(data.amount),
-            type: (data.type === "INCOME" ? "INCOME" : "EXPENSE") as "INCOME" | "EXPENSE",
-            category: String(data.category ?? ""),
-            department: (data.department ?? DepartmentType.SAMASA) as any,
-            date: String(data.date ?? ""),
-            approvedBy: String(data.approvedBy ?? ""),
-            fund,
-            impact: impact as any,
-          } as any;
-        });
-
-        setEntries(rows);
-      },
-      () => setEntries((prev) => prev)
-    );
+    setPage(1);
+  }, [search, selectedDept, selectedTerm, missingOnly]);
 
-    return () => unsub();
-  }, []);
+  const projectTitles = useMemo(() => new Map(projects.map((p) => [p.id, p.title])), [projects]);
 
-  useEffect(() => {
-    setPage(1);
-  }, [search, selectedDept]);
+  // ===== Term + dept-scoped entries =====
+  const termEntries = useMemo(() => entries.filter((e) => matches(e, e.date)), [entries, matches]);
 
-  // ===== Dept-scoped entries =====
   const entriesForDept = useMemo(() => {
+    const visible = termEntries.filter(seesEntry);
     return selectedDept === "ALL"
-      ? entries
-      : entries.filter((e) => String(e.department) === String(selectedDept));
-  }, [entries, selectedDept]);
+      ? visible
+      : visible.filter((e) => String(e.department) === String(selectedDept));
+  }, [termEntries, selectedDept, user, approvalRules, officers]);
+
+  // Drafts and expenses awaiting approval stay in the table but not in the totals
+  const postedForDept = useMemo(() => entriesForDept.filter(isPosted), [entriesForDept]);
 
   const ledgerEntries = useMemo(
-    () => entriesForDept.filter((e: any) => e?.impact !== "AVAILABLE_ONLY"),
-    [entriesForDept]
+    () => postedForDept.filter((e: any) => e?.impact !== "AVAILABLE_ONLY"),
+    [postedForDept]
   );
 
   const availableAdjustEntries = useMemo(
-    () => entriesForDept.filter((e: any) => e?.impact === "AVAILABLE_ONLY"),
-    [entriesForDept]
+    () => postedForDept.filter((e: any) => e?.impact === "AVAILABLE_ONLY"),
+    [postedForDept]
   );
 
   // ===== Cards =====
@@ -173,30 +265,24 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
 
   const available = useMemo(() => revenue - expenditure + availableAdjust, [revenue, expenditure, availableAdjust]);
 
-  const funds = useMemo(() => {
-    const spent = (fund: FundKey) =>
-      ledgerEntries
-        .filter((e: any) => e.type === "EXPENSE" && e.fund === fund)
-        .reduce((a, e) => a + e.amount, 0);
-
-    return {
-      operational: spent("operational"),
-      project: spent("project"),
-      trust: spent("trust"),
-    };
-  }, [ledgerEntries]);
+  // Allocations are set per term, so the fund cards follow the term selector
+  const funds = useMemo(
+    () => fundUsage(termEntries.filter(isPosted), allocations, { term: selectedTerm, department: selectedDept }),
+    [termEntries, allocations, selectedTerm, selectedDept]
+  );
 
   // ===== Table entries =====
   const tableEntriesAll = useMemo(() => {
     const s = search.trim().toLowerCase();
-    if (!s) return entriesForDept;
-    return entriesForDept.filter((e: any) => {
+    const base = missingOnly ? entriesForDept.filter(isMissingLiquidation) : entriesForDept;
+    if (!s) return base;
+    return base.filter((e: any) => {
       const hay = `${e.title} ${e.category} ${e.department} ${e.date} ${e.type} ${e.fund ?? ""} ${
         e.impact ?? ""
       }`.toLowerCase();
       return hay.includes(s);
     });
-  }, [entriesForDept, search]);
+  }, [entriesForDept, search, missingOnly]);
 
   const pageCount = useMemo(() => {
     if (user.role !== UserRole.SUPERADMIN && user.role !== UserRole.OFFICER) return 1;
@@ -247,6 +333,54 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
     );
   };
 
+  const FundCard: React.FC<{
+    title: string;
+    usage: FundUsage;
+    icon: React.ReactNode;
+  }> = ({ title, usage, icon }) => {
+    const over = usage.hasCeiling && usage.remaining < 0;
+    const pct = usage.allocated > 0 ? clamp((usage.spent / usage.allocated) * 100, 0, 100) : 0;
+
+    return (
+      <div
+        className={`bg-white p-8 rounded-[2.25rem] border shadow-sm hover:shadow-md transition-shadow ${
+          over ? "border-red-200" : "border-slate-100"
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <div className="w-11 h-11 bg-slate-50 rounded-2xl flex items-center justify-center text-slate-500">
+            {icon}
+          </div>
+          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">{title}</div>
+        </div>
+
+        <div className={`mt-6 text-4xl font-black tracking-tighter ${over ? "text-samasa-red" : "text-samasa-black"}`}>
+          {peso(usage.spent)}
+        </div>
+
+        {usage.hasCeiling ? (
+          <>
+            <div className="mt-4 h-2 rounded-full bg-slate-100 overflow-hidden">
+              <div
+                className={`h-full rounded-full ${over ? "bg-samasa-red" : pct >= 85 ? "bg-amber-500" : "bg-samasa-blue"}`}
+                style={{ width: `${over ? 100 : pct}%` }}
+              />
+            </div>
+            <div className="mt-3 flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+              <span className="text-slate-400">of {peso(usage.allocated)}</span>
+              <span className={over ? "text-samasa-red flex items-center gap-1" : "text-emerald-700"}>
+                {over && <AlertTriangle size={12} />}
+                {over ? `${peso(-usage.remaining)} over` : `${peso(usage.remaining)} left`}
+              </span>
+            </div>
+          </>
+        ) : (
+          <div className="mt-4 text-[10px] font-black uppercase tracking-widest text-slate-300">No allocation set</div>
+        )}
+      </div>
+    );
+  };
+
   const Pill: React.FC<{
     active: boolean;
     disabled?: boolean;
@@ -277,32 +411,41 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
     setEditingEntry(null);
 
     setMode("EXPENSE");
-    setDeptInput((selectedDept === "ALL" ? DepartmentType.SAMASA : selectedDept) as any);
+    const preferred = selectedDept === "ALL" ? DepartmentType.SAMASA : selectedDept;
+    setDeptInput(postableDepts.includes(preferred) ? preferred : postableDepts[0]);
     setDateInput(isoToday());
     setAmountInput("");
 
     setFundInput("operational");
     setFundSelected(false);
+    setProjectInput("");
+    setReasonInput("");
 
     setRecordOpen(true);
     setTimeout(() => titleRef.current?.focus(), 0);
   };
 
   const openEditRecord = (e: BudgetEntry) => {
-    if (!canManage) return;
+    if (!canPostIn(e.department)) return;
+    if (isLocked(e, e.date)) return alert("This entry belongs to a closed fiscal term and can't be edited.");
+    if (e.status === "SUBMITTED" || e.status === "APPROVED") {
+      return alert("This expense is awaiting approval. Return it to draft before making changes.");
+    }
     setEditingEntry(e);
 
     const impact = (e as any)?.impact === "AVAILABLE_ONLY" ? "AVAILABLE_ONLY" : "LEDGER";
     if (impact === "AVAILABLE_ONLY") setMode("AVAILABLE_ONLY");
     else setMode(e.type === "INCOME" ? "INCOME" : "EXPENSE");
 
-    setDeptInput((e.department || DepartmentType.SAMASA) as any);
+    setDeptInput(e.department || DepartmentType.SAMASA);
     setDateInput(toISODate((e as any)?.date));
     setAmountInput(String(e.amount ?? ""));
 
     const fund = isFundKey((e as any)?.fund) ? ((e as any).fund as FundKey) : "operational";
     setFundInput(fund);
     setFundSelected(e.type === "EXPENSE" && isFundKey((e as any)?.fund));
+    setProjectInput(e.projectId ?? "");
+    setReasonInput("");
 
     setRecordOpen(true);
     setTimeout(() => titleRef.current?.focus(), 0);
@@ -310,56 +453,146 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
 
   const closeRecord = () => setRecordOpen(false);
 
+  // Posted entries are edited in place; new records and drafts follow the department rule
+  const recordNeedsApproval =
+    (!editingEntry || !isPosted(editingEntry)) &&
+    needsApproval(approvalRules, {
+      type: mode === "INCOME" ? "INCOME" : "EXPENSE",
+      impact: mode === "AVAILABLE_ONLY" ? "AVAILABLE_ONLY" : "LEDGER",
+      department: String(deptInput),
+      amount: normalizeNumber(amountInput),
+    });
+
+  // ===== Allocations =====
+  const fillAllocInputs = (dept: DepartmentId) => {
+    const next = { operational: "", project: "", trust: "" } as Record<FundKey, string>;
+    allocations
+      .filter((a) => a.term === selectedTerm && String(a.department) === String(dept))
+      .forEach((a) => {
+        next[a.fund] = String(a.amount);
+      });
+    setAllocInputs(next);
+  };
+
+  const openAllocations = () => {
+    if (!canAllocate) return;
+    if (!selectedTermInfo) return alert("Pick a fiscal term first.");
+    const preferred = selectedDept === "ALL" ? DepartmentType.SAMASA : selectedDept;
+    const dept = allocatableDepts.includes(preferred) ? preferred : allocatableDepts[0];
+    setAllocDept(dept);
+    fillAllocInputs(dept);
+    setAllocOpen(true);
+  };
+
+  const submitAllocations = async () => {
+    if (!canAllocate || !selectedTermInfo) return;
+    if (!can(user, "budget.allocate", allocDept)) return alert(`You can't set allocations for ${allocDept}.`);
+
+    const amounts = {} as Record<FundKey, number>;
+    for (const fund of FUND_KEYS) {
+      const n = normalizeNumber(allocInputs[fund]);
+      if (n < 0) return alert(`${FUND_LABEL[fund]} allocation cannot be negative.`);
+      amounts[fund] = n;
+    }
+
+    setAllocSaving(true);
+    try {
+      await saveAllocations(selectedTermInfo.id, allocDept, amounts, user);
+      setAllocOpen(false);
+    } catch (err: any) {
+      alert(err?.message || "Failed to save allocations.");
+    } finally {
+      setAllocSaving(false);
+    }
+  };
+
   // ===== Save / Delete =====
-  const handleDelete = async (id: string) => {
-    if (!canManage) return;
-    if (!confirm("Delete this record?")) return;
+  const handleDelete = async (entry: BudgetEntry) => {
+    if (!canPostIn(entry.department)) return;
+    if (isLocked(entry, entry.date)) return alert("This entry belongs to a closed fiscal term and can't be deleted.");
+    if (!confirm("Move this record to the trash?")) return;
+
+    // ✅ deletions are audited, so a reason is mandatory
+    const reason = String(prompt("Reason for deleting this record:") ?? "").trim();
+    if (!reason) return alert("A reason is required to delete a record.");
+
     try {
-      await deleteDoc(doc(db, "budgetEntries", id));
+      await deleteBudgetEntry(entry, user, reason);
     } catch (err: any) {
       alert(err?.message || "Failed to delete record.");
     }
   };
 
-  const saveRecord = async () => {
+  const saveRecord = async (asDraft = false) => {
     if (!canManage) return;
 
-    const title = String(titleRef.current?.value || "").trim();
-    const categoryRaw = String(categoryRef.current?.value || "").trim();
     const amount = normalizeNumber(amountInput);
-
-    if (!title) return alert("Description is required.");
-    if (!Number.isFinite(amount) || amount === 0) return alert("Amount must not be 0.");
-
-    if (mode === "EXPENSE" && !fundSelected) {
-      return alert("Pick Operational / Project / Trust for Expense.");
+    const built = buildBudgetRecord(
+      {
+        title: String(titleRef.current?.value || ""),
+        amount,
+        mode,
+        category: String(categoryRef.current?.value || ""),
+        department: String(deptInput),
+        date: dateInput || isoToday(),
+        fund: mode === "EXPENSE" && fundSelected ? fundInput : null,
+        approvedBy: user.name,
+        projectId: mode === "EXPENSE" && fundSelected && fundInput === "project" ? projectInput : null,
+      },
+      terms,
+      deptOptions
+    );
+    if (built.error !== undefined) return alert(built.error);
+    if (!canPostIn(deptInput)) return alert(`You can't record entries for ${deptInput}.`);
+
+    const reason = reasonInput.trim();
+    if (editingEntry && !reason) return alert("A reason is required when changing a record.");
+
+    const base = built.record;
+    const termId: string = base.termId;
+
+    // ✅ Fund ceiling: going past the allocation needs a SUPERADMIN override
+    if (editingEntry?.ceilingOverride) base.ceilingOverride = null; // cleared unless re-approved below
+    if (mode === "EXPENSE") {
+      const over = checkCeiling(
+        entries.filter((e) => resolveTermId(terms, e, e.date) === termId),
+        allocations,
+        { department: deptInput, termId, fund: fundInput, amount },
+        editingEntry?.id
+      );
+
+      if (over) {
+        const termLabel = terms.find((t) => t.id === termId)?.label ?? "term";
+        const detail =
+          `This expense pushes the ${FUND_LABEL[fundInput]} fund of ${deptInput} past its ${termLabel} ceiling ` +
+          `(${peso(over.allocated)} allocated, ${peso(over.spentBefore)} already spent).`;
+
+        if (user.role !== UserRole.SUPERADMIN) {
+          return alert(`${detail}\n\nA SUPERADMIN must approve an override before it can be saved.`);
+        }
+        if (!confirm(`${detail}\n\nOverride the ceiling?`)) return;
+
+        const overrideReason = String(prompt("Override justification:") ?? "").trim();
+        if (!overrideReason) return alert("An override justification is required.");
+
+        base.ceilingOverride = {
+          approvedById: user.id,
+          approvedByName: user.name,
+          reason: overrideReason,
+          allocated: over.allocated,
+          spentBefore: over.spentBefore,
+        };
+      }
     }
 
-    const base: any = {
-      title,
-      amount,
-      department: String(deptInput),
-      date: dateInput || isoToday(),
-      approvedBy: user.name,
-      updatedAt: serverTimestamp(),
-    };
-
-    if (mode === "AVAILABLE_ONLY") {
-      base.impact = "AVAILABLE_ONLY";
-      base.type = "INCOME";
-      base.category = categoryRaw || "Balance Adjustment";
-    } else {
-      base.impact = "LEDGER";
-      base.type = mode === "INCOME" ? "INCOME" : "EXPENSE";
-      base.category = categoryRaw || (mode === "INCOME" ? "Income" : "Expense");
-      if (mode === "EXPENSE") base.fund = fundInput;
-    }
+    // ✅ Approval workflow: expenses under a department rule start as DRAFT/SUBMITTED instead of POSTED
+    Object.assign(base, workflowFields(base, approvalRules, user, { draft: asDraft, previous: editingEntry }));
 
     try {
       if (editingEntry?.id) {
-        await updateDoc(doc(db, "budgetEntries", editingEntry.id), base);
+        await updateBudgetEntry(editingEntry, base, user, reason);
       } else {
-        await addDoc(collection(db, "budgetEntries"), { ...base, createdAt: serverTimestamp() });
+        await createBudgetEntry(base, user, reason || "Initial entry");
       }
       closeRecord();
       setEditingEntry(null);
@@ -380,15 +613,57 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
             </div>
           </div>
 
-          {canManage && (
-            <button
-              onClick={openNewRecord}
-              className="inline-flex items-center justify-center gap-3 px-7 py-4 bg-samasa-black text-white rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-samasa-blue transition-all active:scale-95 shadow-xl shadow-samasa-blue/10"
-            >
-              <Plus className="w-4 h-4" />
-              Record
-            </button>
-          )}
+          <div className="flex flex-wrap gap-3">
+            {isPrivilegedViewer && (
+              <button
+                onClick={() => setStatementOpen(true)}
+                className="inline-flex items-center justify-center gap-3 px-7 py-4 bg-white border border-slate-200 text-samasa-black rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:border-samasa-blue hover:text-samasa-blue transition-all active:scale-95"
+              >
+                <FileText className="w-4 h-4" />
+                Statement
+              </button>
+            )}
+
+            {isSuperAdmin && isEditable && (
+              <button
+                onClick={() => setRulesOpen(true)}
+                className="inline-flex items-center justify-center gap-3 px-7 py-4 bg-white border border-slate-200 text-samasa-black rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:border-samasa-blue hover:text-samasa-blue transition-all active:scale-95"
+              >
+                <ListChecks className="w-4 h-4" />
+                Approvals
+              </button>
+            )}
+
+            {canAudit && (
+              <button
+                onClick={() => setAuditOpen(true)}
+                className="inline-flex items-center justify-center gap-3 px-7 py-4 bg-white border border-slate-200 text-samasa-black rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:border-samasa-blue hover:text-samasa-blue transition-all active:scale-95"
+              >
+                <ScrollText className="w-4 h-4" />
+                Audit Log
+              </button>
+            )}
+
+            {canManage && (
+              <button
+                onClick={() => setImportOpen(true)}
+                className="inline-flex items-center justify-center gap-3 px-7 py-4 bg-white border border-slate-200 text-samasa-black rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:border-samasa-blue hover:text-samasa-blue transition-all active:scale-95"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Import
+              </button>
+            )}
+
+            {canManage && (
+              <button
+                onClick={openNewRecord}
+                className="inline-flex items-center justify-center gap-3 px-7 py-4 bg-samasa-black text-white rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-samasa-blue transition-all active:scale-95 shadow-xl shadow-samasa-blue/10"
+              >
+                <Plus className="w-4 h-4" />
+                Record
+              </button>
+            )}
+          </div>
         </div>
       )}
 
@@ -399,10 +674,26 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
         <MetricCard title="Expenditure" value={expenditure} tone="bad" icon={<ArrowDownRight size={18} />} />
       </div>
 
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Fund Allocations</div>
+        <div className="flex items-center gap-3">
+          {canAllocate && selectedTermInfo && (
+            <button
+              type="button"
+              onClick={openAllocations}
+              className="inline-flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest text-samasa-black hover:border-samasa-blue hover:text-samasa-blue transition-all"
+            >
+              <SlidersHorizontal size={14} />
+              Set
+            </button>
+          )}
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
-        <MetricCard title="Operational" value={funds.operational} icon={<Briefcase size={18} />} />
-        <MetricCard title="Project" value={funds.project} icon={<Layers size={18} />} />
-        <MetricCard title="Trust" value={funds.trust} icon={<ShieldCheck size={18} />} />
+        <FundCard title="Operational" usage={funds.operational} icon={<Briefcase size={18} />} />
+        <FundCard title="Project" usage={funds.project} icon={<Layers size={18} />} />
+        <FundCard title="Trust" usage={funds.trust} icon={<ShieldCheck size={18} />} />
       </div>
 
       {/* Controls */}
@@ -419,21 +710,41 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
             />
           </div>
 
-          <div className="relative">
-            <Filter className="absolute left-4 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400 pointer-events-none" />
-            <select
-              value={selectedDept}
-              onChange={(e) => setSelectedDept(e.target.value as any)}
-              className="pl-10 pr-8 py-4 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest outline-none appearance-none hover:border-slate-300 transition-colors cursor-pointer"
+          {!department && (
+            <div className="relative">
+              <Filter className="absolute left-4 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400 pointer-events-none" />
+              <select
+                value={selectedDept}
+                onChange={(e) => setSelectedDept(e.target.value as any)}
+                className="pl-10 pr-8 py-4 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest outline-none appearance-none hover:border-slate-300 transition-colors cursor-pointer"
+              >
+                <option value="ALL">Overall</option>
+                {deptOptions.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {isPrivilegedViewer && (
+            <button
+              type="button"
+              onClick={() => setMissingOnly((v) => !v)}
+              className={`inline-flex items-center gap-2 px-5 py-4 rounded-2xl border font-black text-[10px] uppercase tracking-widest transition-all ${
+                missingOnly
+                  ? "bg-amber-50 border-amber-200 text-amber-700"
+                  : "bg-white border-slate-200 text-slate-500 hover:border-slate-300"
+              }`}
+              title="Expenses without a receipt"
             >
-              <option value="ALL">Overall</option>
-              {Object.values(DepartmentType).map((d) => (
-                <option key={d} value={d}>
-                  {d}
-                </option>
-              ))}
-            </select>
-          </div>
+              <Paperclip size={14} />
+              Missing liquidation
+            </button>
+          )}
+
+          <TermSelector user={user} />
         </div>
       </div>
 
@@ -445,7 +756,7 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
               <tr className="bg-slate-50/60 border-b border-slate-100">
                 <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">Details</th>
                 <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Amount</th>
-                {canManage && (
+                {showActions && (
                   <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">
                     Actions
                   </th>
@@ -456,6 +767,7 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
             <tbody className="divide-y divide-slate-50">
               {pagedEntries.map((e: any) => {
                 const isAdj = e?.impact === "AVAILABLE_ONLY";
+                const locked = isLocked(e, e.date);
                 const fundText =
                   e.fund === "operational"
                     ? "Operational"
@@ -468,8 +780,10 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
                 return (
                   <tr
                     key={e.id}
-                    className={`group hover:bg-slate-50/40 transition-colors ${canManage ? "cursor-pointer" : ""}`}
-                    onClick={() => canManage && openEditRecord(e)}
+                    className={`group hover:bg-slate-50/40 transition-colors ${
+                      canPostIn(e.department) && !locked ? "cursor-pointer" : ""
+                    }`}
+                    onClick={() => canPostIn(e.department) && !locked && openEditRecord(e)}
                   >
                     <td className="px-8 py-6">
                       <div className="font-black text-samasa-black text-lg tracking-tight group-hover:text-samasa-blue transition-colors">
@@ -497,6 +811,44 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
                           </span>
                         )}
 
+                        {!isAdj && e.projectId && (
+                          <span className="px-2.5 py-1 bg-violet-50 border border-violet-100 rounded-md text-[9px] font-black uppercase tracking-wider text-violet-700">
+                            {projectTitles.get(e.projectId) ?? "Project"}
+                          </span>
+                        )}
+
+                        {!isAdj && e.type === "EXPENSE" && (e.receipts?.length ?? 0) > 0 && (
+                          <button
+                            type="button"
+                            onClick={(ev) => {
+                              ev.stopPropagation();
+                              setReceiptsEntryId(e.id);
+                            }}
+                            className="inline-flex items-center gap-1 px-2.5 py-1 bg-blue-50 border border-blue-100 rounded-md text-[9px] font-black uppercase tracking-wider text-samasa-blue hover:bg-blue-100"
+                            title="View receipts"
+                          >
+                            <Paperclip size={10} />
+                            {e.receipts.length}
+                          </button>
+                        )}
+
+                        {isPrivilegedViewer && isMissingLiquidation(e) && (
+                          <span className="px-2.5 py-1 bg-amber-50 border border-amber-100 rounded-md text-[9px] font-black uppercase tracking-wider text-amber-700">
+                            No receipt
+                          </span>
+                        )}
+
+                        <ApprovalStatusBadge entry={e} />
+
+                        {e.ceilingOverride && (
+                          <span
+                            className="px-2.5 py-1 bg-red-50 border border-red-100 rounded-md text-[9px] font-black uppercase tracking-wider text-samasa-red"
+                            title={`Approved by ${e.ceilingOverride.approvedByName}: ${e.ceilingOverride.reason}`}
+                          >
+                            Over ceiling
+                          </span>
+                        )}
+
                         <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
                           {e.category} • {e.date}
                         </span>
@@ -513,25 +865,63 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
                       </div>
                     </td>
 
-                    {canManage && (
+                    {showActions && (
                       <td className="px-8 py-6 text-right" onClick={(ev) => ev.stopPropagation()}>
                         <div className="flex justify-end gap-2">
-                          <button
-                            onClick={() => openEditRecord(e)}
-                            className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 hover:bg-samasa-blue/10 hover:text-samasa-blue transition-all"
-                            title="Edit"
-                            type="button"
-                          >
-                            <Edit2 size={16} />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(e.id)}
-                            className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 hover:bg-red-50 hover:text-samasa-red transition-all"
-                            title="Delete"
-                            type="button"
-                          >
-                            <Trash2 size={16} />
-                          </button>
+                          <ApprovalActions
+                            entry={e}
+                            user={user}
+                            rules={approvalRules}
+                            officers={officers}
+                            locked={locked}
+                          />
+                          {e.type === "EXPENSE" && !isAdj && (
+                            <button
+                              onClick={() => setReceiptsEntryId(e.id)}
+                              className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 hover:bg-slate-100 hover:text-samasa-black transition-all"
+                              title="Receipts"
+                              type="button"
+                            >
+                              <Paperclip size={16} />
+                            </button>
+                          )}
+                          {can(user, "budget.audit", e.department) && (
+                            <button
+                              onClick={() => setHistoryEntry(e)}
+                              className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 hover:bg-slate-100 hover:text-samasa-black transition-all"
+                              title="History"
+                              type="button"
+                            >
+                              <History size={16} />
+                            </button>
+                          )}
+                          {locked ? (
+                            <span
+                              className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300"
+                              title="Closed fiscal term"
+                            >
+                              <Lock size={16} />
+                            </span>
+                          ) : canPostIn(e.department) ? (
+                            <>
+                              <button
+                                onClick={() => openEditRecord(e)}
+                                className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 hover:bg-samasa-blue/10 hover:text-samasa-blue transition-all"
+                                title="Edit"
+                                type="button"
+                              >
+                                <Edit2 size={16} />
+                              </button>
+                              <button
+                                onClick={() => handleDelete(e)}
+                                className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 hover:bg-red-50 hover:text-samasa-red transition-all"
+                                title="Delete"
+                                type="button"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </>
+                          ) : null}
                         </div>
                       </td>
                     )}
@@ -541,7 +931,7 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
 
               {pagedEntries.length === 0 && (
                 <tr>
-                  <td colSpan={canManage ? 3 : 2} className="px-8 py-16 text-center">
+                  <td colSpan={showActions ? 3 : 2} className="px-8 py-16 text-center">
                     <div className="text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">No records</div>
                   </td>
                 </tr>
@@ -733,7 +1123,7 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
                       onChange={(e) => setDeptInput(e.target.value as any)}
                       className="w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none cursor-pointer"
                     >
-                      {Object.values(DepartmentType).map((d) => (
+                      {postableDepts.map((d) => (
                         <option key={d} value={d}>
                           {d}
                         </option>
@@ -753,6 +1143,26 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
                     />
                   </div>
 
+                  {mode === "EXPENSE" && fundSelected && fundInput === "project" && (
+                    <div className="md:col-span-2">
+                      <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                        Project (optional)
+                      </div>
+                      <select
+                        value={projectInput}
+                        onChange={(e) => setProjectInput(e.target.value)}
+                        className="w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none cursor-pointer"
+                      >
+                        <option value="">Not linked to a project</option>
+                        {projects.map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.title}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   <div className="md:col-span-2">
                     <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
                       Category
@@ -764,6 +1174,18 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
                       className="w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all"
                     />
                   </div>
+
+                  <div className="md:col-span-2">
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                      Reason {editingEntry ? "(required)" : "(optional)"}
+                    </div>
+                    <input
+                      value={reasonInput}
+                      onChange={(e) => setReasonInput(e.target.value)}
+                      placeholder={editingEntry ? "Why is this record being changed?" : "e.g., Collected membership fees"}
+                      className="w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all"
+                    />
+                  </div>
                 </div>
               </div>
 
@@ -777,13 +1199,24 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
                     Cancel
                   </button>
 
+                  {recordNeedsApproval && (
+                    <button
+                      type="button"
+                      onClick={() => saveRecord(true)}
+                      className="flex-1 py-4 bg-white border border-slate-200 text-samasa-black font-black rounded-2xl hover:border-samasa-blue hover:text-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3"
+                    >
+                      <Save className="w-4 h-4" />
+                      Save Draft
+                    </button>
+                  )}
+
                   <button
                     type="button"
-                    onClick={saveRecord}
+                    onClick={() => saveRecord()}
                     className="flex-1 py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] shadow-xl shadow-samasa-blue/20 text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3"
                   >
-                    <Save className="w-4 h-4" />
-                    Save
+                    {recordNeedsApproval ? <Send className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+                    {recordNeedsApproval ? "Submit" : "Save"}
                   </button>
                 </div>
               </div>
@@ -791,6 +1224,146 @@ const Budget: React.FC<BudgetProps> = ({ user, isEditable = true, hideTitle = fa
           </div>
         </div>
       )}
+
+      {/* Allocations Modal */}
+      {allocOpen && canAllocate && (
+        <div className="fixed inset-0 z-[500]">
+          <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={() => setAllocOpen(false)} />
+          <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+            <div
+              className="w-full max-w-lg bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-3xl font-black tracking-tighter text-samasa-black">Allocations</div>
+                  <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {selectedTermInfo?.label}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setAllocOpen(false)}
+                  className="w-11 h-11 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+                >
+                  <X size={18} />
+                </button>
+              </div>
+
+              <div className="px-6 sm:px-8 py-6 space-y-4">
+                <div>
+                  <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Department</div>
+                  <select
+                    value={allocDept as any}
+                    onChange={(e) => {
+                      const dept = e.target.value;
+                      setAllocDept(dept);
+                      fillAllocInputs(dept);
+                    }}
+                    className="w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none cursor-pointer"
+                  >
+                    {allocatableDepts.map((d) => (
+                      <option key={d} value={d}>
+                        {d}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {FUND_KEYS.map((fund) => (
+                  <div key={fund}>
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                      {FUND_LABEL[fund]}
+                    </div>
+                    <input
+                      value={allocInputs[fund]}
+                      onChange={(e) => setAllocInputs((prev) => ({ ...prev, [fund]: e.target.value }))}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0.00"
+                      className="w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="px-6 sm:px-8 py-6 border-t border-slate-100">
+                <button
+                  type="button"
+                  onClick={submitAllocations}
+                  disabled={allocSaving}
+                  className="w-full py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] shadow-xl shadow-samasa-blue/20 text-[10px] uppercase tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  {allocSaving ? "Saving…" : "Save"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* History (per entry) */}
+      {historyEntry && (
+        <BudgetAuditLog
+          title={historyEntry.title}
+          subtitle={`${historyEntry.department} • ${historyEntry.date}`}
+          records={historyRecords}
+          onClose={() => setHistoryEntry(null)}
+        />
+      )}
+
+      {/* Global audit log (budget.audit, per department) */}
+      {auditOpen && canAudit && (
+        <BudgetAuditLog
+          title="Budget Audit Log"
+          subtitle={`${visibleAudit.length} record(s)`}
+          records={visibleAudit}
+          showEntry
+          onClose={() => setAuditOpen(false)}
+        />
+      )}
+
+      {/* Approval rules (SUPERADMIN) */}
+      {rulesOpen && isSuperAdmin && (
+        <ApprovalRulesManager user={user} rules={approvalRules} onClose={() => setRulesOpen(false)} />
+      )}
+
+      {/* Receipts */}
+      {receiptsEntry && (
+        <BudgetReceipts
+          entry={receiptsEntry}
+          user={user}
+          canEdit={canPostIn(receiptsEntry.department) && !isLocked(receiptsEntry, receiptsEntry.date)}
+          onClose={() => setReceiptsEntryId(null)}
+        />
+      )}
+
+      {/* Bulk import */}
+      {importOpen && canManage && (
+        <BudgetImport
+          user={user}
+          rules={approvalRules}
+          terms={terms}
+          departments={deptOptions}
+          entries={entries}
+          allocations={allocations}
+          onClose={() => setImportOpen(false)}
+        />
+      )}
+
+      {/* Financial statement export */}
+      {statementOpen && isPrivilegedViewer && (
+        <StatementExport
+          user={user}
+          entries={entries}
+          department={selectedDept}
+          departments={deptOptions}
+          term={selectedTermInfo}
+          onClose={() => setStatementOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,480 @@
+// src/pages/DepartmentWorkspace.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  FileText,
+  Hexagon,
+  Image as ImageIcon,
+  Layers,
+  Pencil,
+  Save,
+  Upload,
+  UserCircle,
+  Users,
+  Wallet,
+  X,
+} from "lucide-react";
+import { Department, DepartmentType, OfficerDivision, User, UserRole } from "../types";
+import { useDepartments, useProjects, useProposals } from "../src/repository";
+import { useSittingOfficers } from "../src/councilTerms";
+import { canViewProposal } from "../src/petitions";
+import { PROPOSAL_STATUS_LABEL } from "../src/proposalWorkflow";
+import {
+  canEditDepartment,
+  departmentTitle,
+  findDepartment,
+  saveDepartmentProfile,
+} from "../src/departmentWorkspace";
+import { cloudinaryEnvOk, uploadToCloudinary } from "../lib/cloudinaryUpload";
+import Budget from "./Budget";
+
+interface DepartmentWorkspaceProps {
+  currentUser?: User | null;
+}
+
+// Budget needs a viewer; signed-out visitors see the public (posted) ledger
+const PUBLIC_VIEWER: User = {
+  id: "public-guest",
+  name: "Public Viewer",
+  email: "guest@samasa.edu",
+  role: UserRole.STUDENT,
+  department: DepartmentType.SAMASA,
+};
+
+const DIVISION_ORDER: OfficerDivision[] = [
+  OfficerDivision.EXECUTIVE,
+  OfficerDivision.UNDERSECRETARIES,
+  OfficerDivision.LEGISLATIVE,
+  OfficerDivision.ADVISERS,
+];
+
+const NO_SUBMISSIONS = new Set<string>();
+
+const sectionTitle = (icon: React.ReactNode, label: string, count?: number) => (
+  <div className="flex items-center justify-between gap-4 mb-6">
+    <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-[0.35em] text-slate-400">
+      {icon}
+      {label}
+    </div>
+    {count !== undefined && (
+      <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">{count}</div>
+    )}
+  </div>
+);
+
+/** /dept/:id — one department's officers, ledger, proposals and projects, with its own blurb and logo */
+const DepartmentWorkspace: React.FC<DepartmentWorkspaceProps> = ({ currentUser }) => {
+  const { id = "" } = useParams();
+  const { data: departments, loading } = useDepartments();
+  const { data: officers } = useSittingOfficers();
+  const { data: proposals } = useProposals();
+  const { data: projects } = useProjects();
+
+  const [editOpen, setEditOpen] = useState(false);
+
+  const department = findDepartment(departments, id);
+  const canEdit = canEditDepartment(currentUser, id);
+  const viewer = currentUser ?? PUBLIC_VIEWER;
+  const isStaff = currentUser?.role === UserRole.SUPERADMIN || currentUser?.role === UserRole.OFFICER;
+  const inDept = (d?: string) => String(d || DepartmentType.SAMASA) === id;
+
+  const roster = useMemo(
+    () =>
+      officers
+        .filter((o) => String(o.department) === id)
+        .slice()
+        .sort(
+          (a, b) =>
+            DIVISION_ORDER.indexOf(a.division) - DIVISION_ORDER.indexOf(b.division) || (a.order ?? 0) - (b.order ?? 0)
+        ),
+    [officers, id]
+  );
+
+  const deptProposals = useMemo(
+    () =>
+      proposals
+        .filter((p) => inDept(p.department) && canViewProposal(p, viewer, NO_SUBMISSIONS))
+        .slice()
+        .sort((a, b) => String(b.dateSubmitted).localeCompare(String(a.dateSubmitted))),
+    [proposals, id, viewer]
+  );
+
+  const deptProjects = useMemo(() => projects.filter((p) => inDept(p.department)), [projects, id]);
+
+  if (loading && !department) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-[10px] font-black uppercase tracking-[0.35em] text-slate-400">Loading department…</div>
+      </div>
+    );
+  }
+
+  if (!department) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center px-6">
+        <div className="bg-white p-12 rounded-[3.5rem] border border-slate-200 shadow-sm text-center max-w-lg">
+          <div className="mx-auto w-16 h-16 rounded-3xl bg-slate-50 border border-slate-100 flex items-center justify-center">
+            <Hexagon className="w-8 h-8 text-slate-400" />
+          </div>
+          <h3 className="text-2xl font-black text-samasa-black mt-6">Department not found</h3>
+          <p className="text-slate-500 font-medium mt-3">There is no department with the code “{id}”.</p>
+          <Link
+            to="/officers"
+            className="mt-8 inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.25em] text-samasa-blue"
+          >
+            <ArrowLeft size={14} />
+            Officer Directory
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const rowClass =
+    "flex items-center justify-between gap-4 p-4 rounded-2xl bg-slate-50 border border-slate-100 transition-all";
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="max-w-7xl mx-auto pb-28 px-6">
+        <div className="pt-10 mb-8 flex items-start justify-between gap-6 flex-wrap">
+          <Link
+            to={currentUser ? `/officers?dept=${encodeURIComponent(id)}` : "/"}
+            className="group inline-flex items-center gap-3 text-slate-500 hover:text-samasa-black transition-all"
+          >
+            <div className="w-11 h-11 rounded-2xl bg-white border border-slate-200 flex items-center justify-center group-hover:bg-samasa-black group-hover:text-white transition-all shadow-sm">
+              <ArrowLeft size={18} />
+            </div>
+            <span className="text-[10px] font-black uppercase tracking-[0.25em]">
+              {currentUser ? "Officer Directory" : "Exit to Portal"}
+            </span>
+          </Link>
+
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => setEditOpen(true)}
+              className="px-6 py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center gap-3"
+            >
+              <Pencil className="w-4 h-4" />
+              Edit Page
+            </button>
+          )}
+        </div>
+
+        {/* Hero */}
+        <div className="bg-white p-10 md:p-14 rounded-[3.5rem] border border-slate-200 shadow-sm mb-10 flex flex-col md:flex-row gap-10 items-start">
+          {department.logoUrl ? (
+            <img
+              src={department.logoUrl}
+              alt={department.name}
+              className="w-32 h-32 rounded-[2rem] object-cover border border-slate-100 shrink-0"
+            />
+          ) : (
+            <div className="w-32 h-32 rounded-[2rem] bg-slate-50 border border-slate-100 flex items-center justify-center shrink-0">
+              <Hexagon className="w-12 h-12 text-samasa-blue" />
+            </div>
+          )}
+          <div className="min-w-0">
+            <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-[0.35em] text-slate-400">
+              <span>{id}</span>
+              {!department.active && (
+                <span className="px-2.5 py-1 rounded-xl bg-amber-50 border border-amber-100 text-amber-700">Inactive</span>
+              )}
+            </div>
+            <h1 className="mt-3 text-5xl sm:text-6xl font-black tracking-tighter text-samasa-black">
+              {departmentTitle(department)}
+            </h1>
+            {department.about ? (
+              <p className="mt-6 max-w-3xl text-slate-600 font-medium leading-relaxed whitespace-pre-line">
+                {department.about}
+              </p>
+            ) : (
+              <p className="mt-6 text-slate-400 font-medium">
+                {canEdit ? "No description yet. Use Edit Page to introduce the department." : "No description yet."}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Officers */}
+        <div className="bg-white p-10 md:p-14 rounded-[3.5rem] border border-slate-200 shadow-sm mb-10">
+          {sectionTitle(<Users size={14} />, "Officers", roster.length)}
+          {roster.length === 0 ? (
+            <div className="text-[10px] font-black uppercase tracking-widest text-slate-300">No officers listed</div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {roster.map((o) => (
+                <Link
+                  key={o.id}
+                  to={`/officers?dept=${encodeURIComponent(id)}&officer=${o.id}`}
+                  className="flex items-center gap-4 p-4 rounded-2xl bg-slate-50 border border-slate-100 hover:border-samasa-blue transition-all"
+                >
+                  {o.photoUrl ? (
+                    <img src={o.photoUrl} alt={o.name} className="w-12 h-12 rounded-2xl object-cover shrink-0" />
+                  ) : (
+                    <div className="w-12 h-12 rounded-2xl bg-white border border-slate-100 flex items-center justify-center shrink-0">
+                      <UserCircle className="w-6 h-6 text-slate-300" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <div className="font-black text-samasa-black truncate">{o.name}</div>
+                    <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate">
+                      {o.position}
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Budget */}
+        <div className="mb-10">
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-[0.35em] text-slate-400">
+              <Wallet size={14} />
+              Budget
+            </div>
+            {isStaff && (
+              <Link
+                to={`/budget?dept=${encodeURIComponent(id)}`}
+                className="text-[10px] font-black uppercase tracking-[0.25em] text-samasa-blue hover:underline"
+              >
+                Open Ledger
+              </Link>
+            )}
+          </div>
+          <Budget key={id} user={viewer} isEditable={false} hideTitle department={id} />
+        </div>
+
+        {/* Proposals + projects */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+          <div className="bg-white p-10 rounded-[3.5rem] border border-slate-200 shadow-sm">
+            {sectionTitle(<FileText size={14} />, "Proposals", deptProposals.length)}
+            {deptProposals.length === 0 ? (
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-300">No proposals yet</div>
+            ) : (
+              <div className="space-y-3">
+                {deptProposals.map((p) => {
+                  const body = (
+                    <>
+                      <div className="min-w-0">
+                        <div className="font-black text-samasa-black truncate">{p.title}</div>
+                        <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate">
+                          {p.category} • {p.dateSubmitted}
+                        </div>
+                      </div>
+                      <span className="shrink-0 px-2.5 py-1 rounded-xl bg-white border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                        {PROPOSAL_STATUS_LABEL[p.status]}
+                      </span>
+                    </>
+                  );
+                  return currentUser ? (
+                    <Link key={p.id} to={`/proposals?proposal=${p.id}`} className={`${rowClass} hover:border-samasa-blue`}>
+                      {body}
+                    </Link>
+                  ) : (
+                    <div key={p.id} className={rowClass}>
+                      {body}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white p-10 rounded-[3.5rem] border border-slate-200 shadow-sm">
+            {sectionTitle(<Layers size={14} />, "Projects", deptProjects.length)}
+            {deptProjects.length === 0 ? (
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-300">No projects yet</div>
+            ) : (
+              <div className="space-y-3">
+                {deptProjects.map((p) => {
+                  const body = (
+                    <>
+                      <div className="min-w-0">
+                        <div className="font-black text-samasa-black truncate">{p.title}</div>
+                        <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate">
+                          {p.inCharge} • {p.timeline}
+                        </div>
+                      </div>
+                      <span className="shrink-0 px-2.5 py-1 rounded-xl bg-white border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                        {p.status}
+                      </span>
+                    </>
+                  );
+                  return currentUser ? (
+                    <Link key={p.id} to={`/proposals?project=${p.id}`} className={`${rowClass} hover:border-samasa-blue`}>
+                      {body}
+                    </Link>
+                  ) : (
+                    <div key={p.id} className={rowClass}>
+                      {body}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {editOpen && currentUser && (
+        <DepartmentPageEditor department={department} user={currentUser} onClose={() => setEditOpen(false)} />
+      )}
+    </div>
+  );
+};
+
+// ==============================
+// Editor (content.edit in the department)
+// ==============================
+const DepartmentPageEditor: React.FC<{ department: Department; user: User; onClose: () => void }> = ({
+  department,
+  user,
+  onClose,
+}) => {
+  const [about, setAbout] = useState(department.about ?? "");
+  const [logoUrl, setLogoUrl] = useState(department.logoUrl ?? "");
+  const [logoPublicId, setLogoPublicId] = useState(department.logoPublicId ?? "");
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const onLogoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith("image/")) return alert("Please choose an image file.");
+    setUploading(true);
+    try {
+      const up = await uploadToCloudinary(file, { folder: `samasa/departments/${department.id}` });
+      setLogoUrl(up.url);
+      setLogoPublicId(up.publicId);
+    } catch (err: any) {
+      console.error("DEPARTMENT LOGO UPLOAD ERROR:", err);
+      alert(err?.message || "Failed to upload logo.");
+    } finally {
+      setUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await saveDepartmentProfile(department, { about, logoUrl, logoPublicId }, user);
+      onClose();
+    } catch (err: any) {
+      console.error("DEPARTMENT PAGE ERROR:", err);
+      alert(err?.message || "Failed to save department page.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl font-bold outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all";
+
+  return (
+    <div className="fixed inset-0 z-[500]">
+      <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={onClose} />
+      <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+        <form
+          onSubmit={submit}
+          className="w-full max-w-2xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+          style={{ maxHeight: "90vh" }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+            <div className="text-3xl font-black tracking-tighter text-samasa-black">{departmentTitle(department)}</div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-11 h-11 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 sm:px-8 py-6 space-y-6">
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-[0.3em] text-slate-400 mb-2">Logo</label>
+              <div className="flex items-center gap-4">
+                {logoUrl ? (
+                  <img src={logoUrl} alt="" className="w-20 h-20 rounded-2xl object-cover border border-slate-100 shrink-0" />
+                ) : (
+                  <div className="w-20 h-20 rounded-2xl bg-slate-50 border border-slate-100 flex items-center justify-center shrink-0">
+                    <ImageIcon className="w-6 h-6 text-slate-300" />
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {cloudinaryEnvOk() && (
+                    <label className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-white border border-slate-200 text-slate-700 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-50 transition-all cursor-pointer">
+                      <Upload className="w-4 h-4 text-samasa-blue" />
+                      {uploading ? "Uploading..." : "Upload"}
+                      <input type="file" accept="image/*" className="hidden" onChange={onLogoFile} disabled={uploading} />
+                    </label>
+                  )}
+                  {logoUrl && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setLogoUrl("");
+                        setLogoPublicId("");
+                      }}
+                      className="px-4 py-3 rounded-2xl bg-white border border-slate-200 text-samasa-red font-black text-[10px] uppercase tracking-[0.25em] hover:bg-rose-50 transition-all"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+              <input
+                value={logoUrl}
+                onChange={(e) => {
+                  setLogoUrl(e.target.value);
+                  setLogoPublicId("");
+                }}
+                placeholder="…or paste an image URL"
+                className={`${inputClass} mt-3`}
+              />
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-[0.3em] text-slate-400 mb-2">About</label>
+              <textarea
+                value={about}
+                onChange={(e) => setAbout(e.target.value)}
+                rows={8}
+                placeholder="Who the department serves, what it does, how to reach it."
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+          </div>
+
+          <div className="px-6 sm:px-8 py-6 border-t border-slate-100">
+            <button
+              type="submit"
+              disabled={saving || uploading}
+              className="w-full inline-flex items-center justify-center gap-3 px-6 py-5 rounded-2xl bg-samasa-blue text-white font-black text-[10px] uppercase tracking-[0.25em] hover:opacity-90 transition-all active:scale-95 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? "Saving..." : "Save Page"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default DepartmentWorkspace;
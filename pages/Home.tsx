@@ -1,7 +1,7 @@
 // src/pages/Home.tsx
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useMemo } from "react";
 import { Link } from "react-router-dom";
-import { User, BudgetEntry } from "../types";
+import { User } from "../types";
 import {
   LayoutDashboard,
   ShieldAlert,
@@ -13,122 +13,48 @@ import {
   ShieldCheck,
 } from "lucide-react";
 
-// ✅ Firestore
-import { db } from "../firebase/firebaseConfig";
+// ✅ Shared Firestore listeners
 import {
-  collection,
-  doc,
-  onSnapshot,
-  orderBy,
-  query,
-  where,
-} from "firebase/firestore";
+  useApprovalRules,
+  useBudgetEntries,
+  useBudgetOverride,
+  useProposals,
+} from "../src/repository";
+import { useSittingOfficers } from "../src/councilTerms";
+import { useTermFilter } from "../src/fiscalTerms";
+import { isPosted } from "../src/expenseApproval";
+import { isActiveProposal } from "../src/proposalWorkflow";
+import TermSelector from "../components/TermSelector";
+import ApprovalInbox from "../components/ApprovalInbox";
 
 interface HomeProps {
   user: User;
 }
 
-const normalizeNumber = (v: any) => (Number.isFinite(Number(v)) ? Number(v) : 0);
-
-type TopOverride = {
-  available: number;
-  revenue: number;
-  expenditure: number;
-};
-
 const Home: React.FC<HomeProps> = ({ user }) => {
   // ===== Budget (same source as Budget.tsx) =====
-  const [entries, setEntries] = useState<BudgetEntry[]>([]);
-  const [budgetLoading, setBudgetLoading] = useState(true);
+  const { data: allEntries, loading: budgetLoading } = useBudgetEntries();
+  const { matches, isLocked } = useTermFilter();
+  const termEntries = useMemo(() => allEntries.filter((e) => matches(e, e.date)), [allEntries, matches]);
+  // Totals and the activity feed only show what reached the ledger
+  const entries = useMemo(() => termEntries.filter(isPosted), [termEntries]);
+
+  // ===== Expense approvals =====
+  const { data: approvalRules } = useApprovalRules();
+  const { data: officers } = useSittingOfficers();
 
   // Overrides (budgetOverrides/ALL) — same schema as Budget.tsx
-  const [topOverrideAll, setTopOverrideAll] = useState<TopOverride>({
-    available: 0,
-    revenue: 0,
-    expenditure: 0,
-  });
+  const { data: topOverrideAll } = useBudgetOverride("ALL");
 
   // ===== Proposals count (for Legislative Alert) =====
-  const [pendingProposals, setPendingProposals] = useState<number>(0);
-  const [proposalLoading, setProposalLoading] = useState(true);
-
-  // ✅ Load budget entries (all, real-time)
-  useEffect(() => {
-    const qEntries = query(collection(db, "budgetEntries"), orderBy("createdAt", "desc"));
-    const unsub = onSnapshot(
-      qEntries,
-      (snap) => {
-        const rows: BudgetEntry[] = snap.docs.map((d) => {
-          const data = d.data() as any;
-          return {
-            id: d.id,
-            title: String(data.title ?? ""),
-            amount: normalizeNumber(data.amount),
-            type: (data.type === "INCOME" ? "INCOME" : "EXPENSE") as "INCOME" | "EXPENSE",
-            category: String(data.category ?? ""),
-            department: (data.department ?? "SAMASA") as any,
-            date: String(data.date ?? ""),
-            approvedBy: String(data.approvedBy ?? ""),
-          } as BudgetEntry;
-        });
-
-        setEntries(rows);
-        setBudgetLoading(false);
-      },
-      (err) => {
-        console.warn("Home budgetEntries snapshot error:", err);
-        setEntries([]);
-        setBudgetLoading(false);
-      }
-    );
-
-    return () => unsub();
-  }, []);
-
-  // ✅ Load overrides for ALL (real-time)
-  useEffect(() => {
-    const ref = doc(db, "budgetOverrides", "ALL");
-    const unsub = onSnapshot(
-      ref,
-      (snap) => {
-        const data = (snap.data() || {}) as any;
-        setTopOverrideAll({
-          available: normalizeNumber(data?.top?.available),
-          revenue: normalizeNumber(data?.top?.revenue),
-          expenditure: normalizeNumber(data?.top?.expenditure),
-        });
-      },
-      (err) => {
-        console.warn("Home budgetOverrides/ALL snapshot error:", err);
-        setTopOverrideAll({ available: 0, revenue: 0, expenditure: 0 });
-      }
-    );
-
-    return () => unsub();
-  }, []);
-
-  // ✅ Pending proposals (REVIEW + PENDING) real-time
-  useEffect(() => {
-    const qPending = query(
-      collection(db, "proposals"),
-      where("status", "in", ["REVIEW", "PENDING"])
-    );
-
-    const unsub = onSnapshot(
-      qPending,
-      (snap) => {
-        setPendingProposals(snap.size);
-        setProposalLoading(false);
-      },
-      (err) => {
-        console.warn("Home proposals snapshot error:", err);
-        setPendingProposals(0);
-        setProposalLoading(false);
-      }
-    );
-
-    return () => unsub();
-  }, []);
+  const { data: proposals, loading: proposalLoading } = useProposals();
+  const pendingProposals = useMemo(
+    () =>
+      proposals.filter(
+        (p) => isActiveProposal(p) && matches(p, p.createdAt ?? p.dateSubmitted)
+      ).length,
+    [proposals, matches]
+  );
 
   // ===== Budget totals (Overall, like selectedDept=ALL and search="") =====
   const totalIncome = useMemo(
@@ -166,9 +92,12 @@ const Home: React.FC<HomeProps> = ({ user }) => {
           <LayoutDashboard className="w-4 h-4" />
           <span>Internal Portal</span>
         </div>
-        <h1 className="text-6xl font-black text-samasa-black tracking-tighter">
-          Welcome, <span className="text-samasa-blue">{firstName}</span>.
-        </h1>
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+          <h1 className="text-6xl font-black text-samasa-black tracking-tighter">
+            Welcome, <span className="text-samasa-blue">{firstName}</span>.
+          </h1>
+          <TermSelector user={user} />
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-10">
@@ -323,6 +252,14 @@ const Home: React.FC<HomeProps> = ({ user }) => {
         </div>
 
         <div className="lg:col-span-4 space-y-8">
+          <ApprovalInbox
+            user={user}
+            entries={termEntries}
+            rules={approvalRules}
+            officers={officers}
+            isLocked={isLocked}
+          />
+
           {/* Side cards (unchanged) */}
           <div className="bg-white p-12 rounded-[3.5rem] border border-slate-200 shadow-sm text-center">
             <div className="w-20 h-20 bg-samasa-blue/5 rounded-full flex items-center justify-center mx-auto mb-8">
@@ -14,40 +14,11 @@ import {
 
 import Budget from "./Budget";
 import LegislativeHub from "./LegislativeHub";
+import ImpactStories from "../components/ImpactStories";
 import { User, UserRole, DepartmentType, LandingPageContent } from "../types";
 
-// ✅ Firestore
-import { db } from "../firebase/firebaseConfig";
-import { doc, onSnapshot } from "firebase/firestore";
-
-/** ---------------------------
- * Landing page content (siteSettings/landingPage)
- * -------------------------- */
-const DEFAULT_LANDING_CONTENT: LandingPageContent = {
-  heroBackgroundUrl: "",
-  heroHeadingTop: "SAMASA",
-  heroHeadingHighlight: "STRONG",
-  heroSubtitle: "Public landing subtitle…",
-
-  visionImageUrl: "",
-  visionTitle: "Vision Title",
-  visionBody: "Vision body…",
-  visionCard1Title: "Integrity",
-  visionCard1Body: "Card 1 body…",
-  visionCard2Title: "Excellence",
-  visionCard2Body: "Card 2 body…",
-
-  projectsEyebrow: "PROJECTS",
-  projectsTitle: "Projects",
-  budgetEyebrow: "BUDGET",
-  budgetTitle: "Budget",
-
-  footerLeft: "SAMASA",
-  footerRight: "All Rights Reserved",
-  loginBackgroundUrl: "",
-};
-
-const LANDING_DOC_REF = () => doc(db, "siteSettings", "landingPage");
+// ✅ Shared Firestore listeners
+import { DEFAULT_LANDING_CONTENT, useAboutContent, useLandingContent } from "../src/repository";
 
 /** ---------------------------
  * About content (site_content/about)
@@ -128,8 +99,6 @@ const DEFAULT_ABOUT: AboutContent = {
   },
 };
 
-const ABOUT_DOC_REF = () => doc(db, "site_content", "about");
-
 function safeAboutMerge(parsed: any): AboutContent {
   const c = parsed?.content ?? parsed; // supports either {content: ...} or direct
   return {
@@ -153,15 +122,27 @@ const cx = (...classes: Array<string | false | undefined | null>) =>
 const LandingPage: React.FC = () => {
   const [play, setPlay] = useState(false);
 
-  // Landing content
-  const [content, setContent] =
-    useState<LandingPageContent>(DEFAULT_LANDING_CONTENT);
-  const [loading, setLoading] = useState(true);
-  const [publicError, setPublicError] = useState<string | null>(null);
-
-  // About content (READ ONLY on landing)
-  const [about, setAbout] = useState<AboutContent>(DEFAULT_ABOUT);
-  const [aboutErr, setAboutErr] = useState<string | null>(null);
+  // ✅ Landing content (public-safe)
+  const landing = useLandingContent();
+  const content: LandingPageContent = landing.data ?? DEFAULT_LANDING_CONTENT;
+  const loading = landing.loading;
+  const publicError = landing.error
+    ? landing.error?.code === "permission-denied"
+      ? "Public data is currently locked by Firestore rules. Allow public READ for siteSettings/landingPage."
+      : "Unable to load live content right now."
+    : null;
+
+  // ✅ About content (READ ONLY on landing; About.tsx editor handles writing)
+  const aboutDoc = useAboutContent();
+  const about: AboutContent = useMemo(
+    () => (aboutDoc.data ? safeAboutMerge(aboutDoc.data) : DEFAULT_ABOUT),
+    [aboutDoc.data]
+  );
+  const aboutErr = aboutDoc.error
+    ? aboutDoc.error?.code === "permission-denied"
+      ? "About content is locked by Firestore rules. Allow public READ for site_content/about."
+      : "Unable to load About content right now."
+    : null;
 
   // ✅ Mobile menu
   const [mobileOpen, setMobileOpen] = useState(false);
@@ -217,68 +198,6 @@ const LandingPage: React.FC = () => {
     return () => window.clearTimeout(t);
   }, []);
 
-  // ✅ Landing Firestore (public-safe)
-  useEffect(() => {
-    setLoading(true);
-    setPublicError(null);
-
-    const unsub = onSnapshot(
-      LANDING_DOC_REF(),
-      (s) => {
-        if (s.exists()) {
-          const data = (s.data() || {}) as Partial<LandingPageContent>;
-          setContent({
-            ...DEFAULT_LANDING_CONTENT,
-            ...data,
-          } as LandingPageContent);
-        } else {
-          setContent(DEFAULT_LANDING_CONTENT);
-        }
-        setLoading(false);
-      },
-      (err: any) => {
-        console.error("LandingPage onSnapshot error:", err);
-        const msg =
-          err?.code === "permission-denied"
-            ? "Public data is currently locked by Firestore rules. Allow public READ for siteSettings/landingPage."
-            : "Unable to load live content right now.";
-        setPublicError(msg);
-        setContent(DEFAULT_LANDING_CONTENT);
-        setLoading(false);
-      }
-    );
-
-    return () => unsub();
-  }, []);
-
-  // ✅ About Firestore (public-safe / display-only here)
-  useEffect(() => {
-    setAboutErr(null);
-
-    const unsub = onSnapshot(
-      ABOUT_DOC_REF(),
-      (snap) => {
-        if (!snap.exists()) {
-          // no writes here; About.tsx editor handles writing
-          setAbout(DEFAULT_ABOUT);
-        } else {
-          setAbout(safeAboutMerge(snap.data()));
-        }
-      },
-      (err: any) => {
-        console.error("Landing About onSnapshot error:", err);
-        const msg =
-          err?.code === "permission-denied"
-            ? "About content is locked by Firestore rules. Allow public READ for site_content/about."
-            : "Unable to load About content right now.";
-        setAboutErr(msg);
-        setAbout(DEFAULT_ABOUT);
-      }
-    );
-
-    return () => unsub();
-  }, []);
-
   // Dummy user object for Budget component.
   const PUBLIC_VIEWER: User = useMemo(
     () => ({
@@ -343,6 +262,12 @@ const LandingPage: React.FC = () => {
             >
               Officers
             </Link>
+            <Link
+              to="/policies"
+              className="hover:text-samasa-blue transition-colors"
+            >
+              Policies
+            </Link>
           </nav>
 
           {/* Right side: desktop CTA + mobile hamburger */}
@@ -424,6 +349,14 @@ const LandingPage: React.FC = () => {
                     Officers
                   </Link>
 
+                  <Link
+                    to="/policies"
+                    onClick={closeMobile}
+                    className="px-4 py-3 rounded-2xl hover:bg-slate-50 transition"
+                  >
+                    Policies
+                  </Link>
+
                   <div className="h-px bg-slate-100 my-2" />
 
                   <Link
@@ -662,6 +595,7 @@ const LandingPage: React.FC = () => {
           </div>
 
           <LegislativeHub isEditable={false} />
+          <ImpactStories />
         </div>
       </section>
 
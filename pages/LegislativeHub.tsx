@@ -1,11 +1,13 @@
 // src/pages/LegislativeHub.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import {
   User,
   UserRole,
+  DepartmentType,
+  Permission,
   ProposalCategory,
-  Proposal,
-  Project,
+  ProposalStatus,
   ProjectStatus,
 } from "../types";
 import {
@@ -31,44 +33,60 @@ import {
   CircleDashed,
   ChevronLeft,
   ChevronRight,
+  Gavel,
+  History,
+  GitCompare,
+  MessageSquare,
+  PenLine,
+  ShieldCheck,
+  Flag,
 } from "lucide-react";
 
-// ✅ Firestore
-import { db } from "../firebase/firebaseConfig";
+// ✅ Storage backend (Firestore or localStorage)
+import { storage } from "../src/storage";
 import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  onSnapshot,
-  orderBy,
-  query,
-  serverTimestamp,
-  updateDoc,
-} from "firebase/firestore";
+  DEFAULT_PROJECT_BANNER,
+  ProjectRecord,
+  ProposalRecord,
+  useBudgetAllocations,
+  useBudgetEntries,
+  useComments,
+  usePolicies,
+  useProjects,
+  useProposals,
+  useProposalSubmitters,
+} from "../src/repository";
+import { moveToTrash } from "../src/trash";
+import { resolveTermId, useTermFilter } from "../src/fiscalTerms";
+import TermSelector from "../components/TermSelector";
+import { can, canAnywhere, departmentsWith } from "../src/permissions";
+import PolicyForm from "../components/PolicyForm";
+import VotingPanel from "../components/VotingPanel";
+import ProposalRevisions from "../components/ProposalRevisions";
+import CommentThread from "../components/CommentThread";
+import PetitionPanel from "../components/PetitionPanel";
+import StudentSubmissionForm from "../components/StudentSubmissionForm";
+import ProjectMilestones from "../components/ProjectMilestones";
+import ProjectReport from "../components/ProjectReport";
+import { commentCount, isCouncilStaff } from "../src/comments";
+import { recordInitialRevision, saveProposalRevision } from "../src/proposalRevisions";
+import { canViewProposal, isStudent } from "../src/petitions";
+import { checkProjectEarmark, projectBurn } from "../src/projectSpending";
+import { percentComplete, projectStatusFields, projectStatusMode } from "../src/projectMilestones";
+import {
+  allowedTransitions,
+  NOTE_REQUIRED,
+  PROPOSAL_STATUS_LABEL,
+  statusChange,
+  transitionProposal,
+  TRANSITION_LABEL,
+} from "../src/proposalWorkflow";
 
 type HubTab = "RESOURCES" | "PROGRAMS" | "POLICY" | "PROJECTS";
 type CreateType = "PROPOSAL" | "PROJECT";
 
-type ProposalWithMedia = Proposal & {
-  id: string;
-  pdfName?: string;
-  pdfUrl?: string;
-  pdfPublicId?: string;
-  createdAt?: any;
-  updatedAt?: any;
-};
-
-type ProjectWithMedia = Project & {
-  id: string;
-  pdfName?: string;
-  pdfUrl?: string;
-  pdfPublicId?: string;
-
-  bannerPublicId?: string;
-  createdAt?: any;
-  updatedAt?: any;
-};
+type ProposalWithMedia = ProposalRecord;
+type ProjectWithMedia = ProjectRecord;
 
 export interface LegislativeHubProps {
   /**
@@ -149,9 +167,6 @@ async function uploadToCloudinary(file: File, folder: string) {
 // ==============================
 // Helpers
 // ==============================
-const DEFAULT_PROJECT_BANNER =
-  "https://images.unsplash.com/photo-1523240795612-9a054b0db644?auto=format&fit=crop&w=1600&q=60";
-
 const prettyToday = () =>
   new Date().toLocaleDateString(undefined, {
     year: "numeric",
@@ -159,6 +174,8 @@ const prettyToday = () =>
     day: "2-digit",
   });
 
+const ALL_DEPARTMENT_IDS: string[] = Object.values(DepartmentType);
+
 const safeNum = (v: any) => (Number.isFinite(Number(v)) ? Number(v) : 0);
 
 const safePercent = (spent: number, budget: number) => {
@@ -187,14 +204,20 @@ const revokeIfBlob = (url?: string) => {
   }
 };
 
-const getProposalStatusStyle = (status: string) => {
+const getProposalStatusStyle = (status: ProposalStatus) => {
   switch (status) {
     case "APPROVED":
       return "bg-emerald-100 text-emerald-700";
     case "IMPLEMENTED":
       return "bg-samasa-blue text-white";
-    case "REVIEW":
+    case "FILED":
+    case "COMMITTEE":
+    case "FLOOR":
       return "bg-samasa-yellow text-samasa-black";
+    case "REJECTED":
+      return "bg-red-100 text-samasa-red";
+    case "PETITION":
+      return "bg-blue-50 text-samasa-blue";
     default:
       return "bg-slate-100 text-slate-500";
   }
@@ -388,11 +411,21 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
 
   // ✅ Permissions
   const isSuper = user?.role === UserRole.SUPERADMIN;
-  const isOfficer = user?.role === UserRole.OFFICER;
-
-  const canCreateProposal = isEditable ?? (isSuper || isOfficer);
-  const canCreateProject = isEditable ?? isSuper;
-  const canManage = isEditable ?? isSuper;
+  // the landing embed has no account; rules only give it public data
+  const signedIn = user.id !== FALLBACK_PUBLIC_USER.id;
+
+  // ✅ Scoped to the record's department (src/permissions); `isEditable` overrides for embeds
+  const canCreateProposal = isEditable ?? canAnywhere(user, "proposals.create");
+  const canCreateProject = isEditable ?? canAnywhere(user, "projects.edit");
+  const canEditProposal = (p: { department?: string } | null) =>
+    !!p && (isEditable ?? can(user, "proposals.edit", p.department));
+  const canEditProject = (p: { department?: string } | null) =>
+    !!p && (isEditable ?? can(user, "projects.edit", p.department));
+  const createDepartments = (permission: Permission) =>
+    isEditable ? ALL_DEPARTMENT_IDS : departmentsWith(user, permission, ALL_DEPARTMENT_IDS);
+  const isStaff = isCouncilStaff(user);
+  // ✅ Students submit into the moderation queue instead of creating proposals directly
+  const canSubmitAsStudent = isEditable !== false && isStudent(user);
 
   // ✅ tab
   const [activeTab, setActiveTab] = useState<HubTab>(() => resolvedInitialTab);
@@ -413,11 +446,52 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     else setProposalPage(1);
   }, [activeTab]);
 
-  // ✅ Firestore data
-  const [proposals, setProposals] = useState<ProposalWithMedia[]>([]);
-  const [projects, setProjects] = useState<ProjectWithMedia[]>([]);
-  const [loadingProposals, setLoadingProposals] = useState(true);
-  const [loadingProjects, setLoadingProjects] = useState(true);
+  // ✅ Firestore data (shared listeners)
+  const { data: allProposals, loading: loadingProposals } = useProposals();
+  const { data: allProjects, loading: loadingProjects } = useProjects();
+  const { data: comments } = useComments(isStaff);
+  // staff see every submitter; a student only their own submissions
+  const { data: submitters } = useProposalSubmitters(isStaff ? null : signedIn ? user.id : undefined);
+  const mySubmissionIds = useMemo(
+    () => new Set(submitters.filter((s) => s.studentId === user.id).map((s) => s.proposalId)),
+    [submitters, user.id]
+  );
+
+  // ✅ Fiscal term filter (legacy rows without termId fall back to their creation date)
+  const { terms, matches, isLocked } = useTermFilter();
+  const proposalDate = (p: ProposalWithMedia) => p.createdAt ?? p.dateSubmitted;
+  const projectDate = (p: ProjectWithMedia) => p.createdAt;
+
+  const proposals = useMemo(
+    () => allProposals.filter((p) => matches(p, proposalDate(p)) && canViewProposal(p, user, mySubmissionIds)),
+    [allProposals, matches, user, mySubmissionIds]
+  );
+  const projects = useMemo(
+    () => allProjects.filter((p) => matches(p, projectDate(p))),
+    [allProjects, matches]
+  );
+
+  // ✅ Project spending comes from linked Project-fund expenses in the ledger
+  const { data: budgetEntries } = useBudgetEntries();
+  const { data: budgetAllocations } = useBudgetAllocations();
+  const projectBurns = useMemo(
+    () => new Map(allProjects.map((p) => [p.id, projectBurn(p, budgetEntries)])),
+    [allProjects, budgetEntries]
+  );
+  const burnOf = (p: ProjectWithMedia) => projectBurns.get(p.id) ?? projectBurn(p, budgetEntries);
+
+  /** Allocations are earmarked from the term's Project fund; false when the user backs out */
+  const confirmEarmark = (project: { id?: string; termId: string; allocated: number }) => {
+    const over = checkProjectEarmark(allProjects, budgetAllocations, terms, project);
+    if (!over) return true;
+    return confirm(
+      `Project allocations for this term would total ₱${(over.earmarked + project.allocated).toLocaleString()}, ` +
+        `more than the ₱${over.fund.toLocaleString()} Project fund. Save anyway?`
+    );
+  };
+
+  const proposalLocked = (p: ProposalWithMedia | null) => !!p && isLocked(p, proposalDate(p));
+  const projectLocked = (p: ProjectWithMedia | null) => !!p && isLocked(p, projectDate(p));
 
   // ✅ Modals
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -432,6 +506,8 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   // ==========
   const [pTitle, setPTitle] = useState("");
   const [pCategory, setPCategory] = useState<ProposalCategory>(ProposalCategory.RESOURCES);
+  // shared by both create forms
+  const [createDept, setCreateDept] = useState<string>(DepartmentType.SAMASA);
   const [pNarrative, setPNarrative] = useState("");
   const [pProponent, setPProponent] = useState<string>(getUserDisplayName(user));
   const [pPdfName, setPPdfName] = useState<string>("");
@@ -447,7 +523,6 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   const [prStatus, setPrStatus] = useState<ProjectStatus>(ProjectStatus.PLANNED);
   const [prDesc, setPrDesc] = useState("");
   const [prBudget, setPrBudget] = useState<number>(0);
-  const [prSpent, setPrSpent] = useState<number>(0);
   const [prObjectives, setPrObjectives] = useState<string>("");
 
   const [prBannerUrl, setPrBannerUrl] = useState<string>("");
@@ -467,7 +542,24 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   const [ppCategory, setPpCategory] = useState<ProposalCategory>(ProposalCategory.RESOURCES);
   const [ppNarrative, setPpNarrative] = useState("");
   const [ppProponent, setPpProponent] = useState("");
-  const [ppStatus, setPpStatus] = useState<string>("REVIEW");
+
+  // ✅ Lifecycle transitions (proposal modal). Embeds are read-only; which moves a user may make
+  // in the proposal's department is decided by allowedTransitions (src/proposalWorkflow)
+  const [movingProposal, setMovingProposal] = useState(false);
+  const canMoveProposals = isEditable !== false;
+
+  // ✅ "Enact as policy" (adopted POLICY proposals → registry)
+  const { data: policies } = usePolicies();
+  const [enactFrom, setEnactFrom] = useState<ProposalWithMedia | null>(null);
+
+  // ✅ Revision history / redline
+  const [revisionsOpen, setRevisionsOpen] = useState(false);
+
+  // ✅ Student submissions (form) and the officers' moderation queue filter
+  const [studentSubmitTerm, setStudentSubmitTerm] = useState<string | null>(null);
+  const [queueOnly, setQueueOnly] = useState(false);
+  const queueCount = useMemo(() => proposals.filter((p) => p.status === "SUBMITTED").length, [proposals]);
+  useEffect(() => setProposalPage(1), [queueOnly]);
 
   const [ppPdfName, setPpPdfName] = useState("");
   const [ppPdfUrl, setPpPdfUrl] = useState("");
@@ -483,10 +575,9 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   const [epTitle, setEpTitle] = useState("");
   const [epTimeline, setEpTimeline] = useState("");
   const [epInCharge, setEpInCharge] = useState("");
-  const [epStatus, setEpStatus] = useState<ProjectStatus>(ProjectStatus.PLANNED);
+  const [epStatus, setEpStatus] = useState<ProjectStatus | "AUTO">(ProjectStatus.PLANNED);
   const [epDesc, setEpDesc] = useState("");
   const [epBudget, setEpBudget] = useState<number>(0);
-  const [epSpent, setEpSpent] = useState<number>(0);
   const [epObjectives, setEpObjectives] = useState<string>("");
 
   const [epBannerUrl, setEpBannerUrl] = useState<string>("");
@@ -523,84 +614,6 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   const lastEditPdfBlobRef = useRef<string | null>(null);
   const lastEditBannerBlobRef = useRef<string | null>(null);
 
-  // ==============================
-  // Firestore listeners
-  // ==============================
-  useEffect(() => {
-    const qProps = query(collection(db, "proposals"), orderBy("createdAt", "desc"));
-    const unsub = onSnapshot(
-      qProps,
-      (snap) => {
-        const rows: ProposalWithMedia[] = snap.docs.map((d) => {
-          const data = d.data() as any;
-          return {
-            id: d.id,
-            title: String(data.title ?? ""),
-            category: (data.category ?? ProposalCategory.RESOURCES) as any,
-            description: String(data.description ?? ""),
-            status: String(data.status ?? "REVIEW"),
-            dateSubmitted: String(data.dateSubmitted ?? ""),
-            proponent: String(data.proponent ?? ""),
-            pdfName: data.pdfName ? String(data.pdfName) : "",
-            pdfUrl: data.pdfUrl ? String(data.pdfUrl) : "",
-            pdfPublicId: data.pdfPublicId ? String(data.pdfPublicId) : "",
-            createdAt: data.createdAt,
-            updatedAt: data.updatedAt,
-          } as any;
-        });
-        setProposals(rows);
-        setLoadingProposals(false);
-      },
-      (err) => {
-        console.error("proposals snapshot error:", err);
-        setLoadingProposals(false);
-      }
-    );
-    return () => unsub();
-  }, []);
-
-  useEffect(() => {
-    const qProjs = query(collection(db, "projects"), orderBy("createdAt", "desc"));
-    const unsub = onSnapshot(
-      qProjs,
-      (snap) => {
-        const rows: ProjectWithMedia[] = snap.docs.map((d) => {
-          const data = d.data() as any;
-
-          const objectivesArr = Array.isArray(data.objectives)
-            ? data.objectives.map((x: any) => String(x)).filter(Boolean)
-            : [];
-
-          return {
-            id: d.id,
-            title: String(data.title ?? ""),
-            timeline: String(data.timeline ?? ""),
-            inCharge: String(data.inCharge ?? ""),
-            status: (data.status ?? ProjectStatus.PLANNED) as any,
-            description: String(data.description ?? ""),
-            objectives: objectivesArr,
-            budgetAllocated: safeNum(data.budgetAllocated),
-            spentAmount: safeNum(data.spentAmount),
-            bannerImage: String(data.bannerImage ?? DEFAULT_PROJECT_BANNER),
-            bannerPublicId: data.bannerPublicId ? String(data.bannerPublicId) : "",
-            pdfName: data.pdfName ? String(data.pdfName) : "",
-            pdfUrl: data.pdfUrl ? String(data.pdfUrl) : "",
-            pdfPublicId: data.pdfPublicId ? String(data.pdfPublicId) : "",
-            createdAt: data.createdAt,
-            updatedAt: data.updatedAt,
-          } as any;
-        });
-        setProjects(rows);
-        setLoadingProjects(false);
-      },
-      (err) => {
-        console.error("projects snapshot error:", err);
-        setLoadingProjects(false);
-      }
-    );
-    return () => unsub();
-  }, []);
-
   // ==============================
   // Lock background scroll while modal open + ESC close
   // ==============================
@@ -651,8 +664,9 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     };
     const cat = map[activeTab];
     if (!cat) return [];
+    if (queueOnly) return proposals.filter((p) => p.status === "SUBMITTED");
     return proposals.filter((p) => (p as any).category === cat);
-  }, [activeTab, proposals]);
+  }, [activeTab, proposals, queueOnly]);
 
   // ==============================
   // Pagination (client-side)
@@ -692,12 +706,21 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   // ==============================
   // Create modal open/close/reset
   // ==============================
+  const openStudentSubmit = () => {
+    if (!canSubmitAsStudent) return;
+    const termId = resolveTermId(terms, {}, new Date().toISOString());
+    if (terms.length > 0 && !termId) return alert("No fiscal term covers today, so submissions are closed.");
+    if (isLocked({ termId }, null)) return alert("The current fiscal term is closed.");
+    setStudentSubmitTerm(termId);
+  };
+
   const openCreate = () => {
     const allowed = activeTab === "PROJECTS" ? canCreateProject : canCreateProposal;
     if (!allowed) return;
 
     const defaultType: CreateType = activeTab === "PROJECTS" ? "PROJECT" : "PROPOSAL";
     setCreateType(defaultType);
+    setCreateDept(createDepartments(defaultType === "PROJECT" ? "projects.edit" : "proposals.create")[0] ?? "");
 
     // set category for proposal
     if (activeTab === "RESOURCES") setPCategory(ProposalCategory.RESOURCES);
@@ -708,6 +731,12 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     setShowCreateModal(true);
   };
 
+  // switching between proposal/project keeps the department only if it's allowed for the new type
+  useEffect(() => {
+    const options = createDepartments(createType === "PROJECT" ? "projects.edit" : "proposals.create");
+    if (!options.includes(createDept)) setCreateDept(options[0] ?? "");
+  }, [createType]);
+
   const resetCreateForms = () => {
     // Proposal
     setPTitle("");
@@ -727,7 +756,6 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     setPrStatus(ProjectStatus.PLANNED);
     setPrDesc("");
     setPrBudget(0);
-    setPrSpent(0);
     setPrObjectives("");
 
     setPrBannerUrl("");
@@ -833,12 +861,24 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   // ==============================
   // Create submit
   // ==============================
+  // set by the submit buttons: "Save Draft" vs "Create" (files it right away)
+  const createAsDraftRef = useRef(false);
+
   const handleCreateSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (savingCreate) return;
 
     if (createType === "PROPOSAL" && !canCreateProposal) return;
     if (createType === "PROJECT" && !canCreateProject) return;
+    const createPermission: Permission = createType === "PROJECT" ? "projects.edit" : "proposals.create";
+    if (!createDepartments(createPermission).includes(createDept)) {
+      return alert("Pick a department you can file this under.");
+    }
+
+    // ✅ New records are tagged with today's fiscal term
+    const termId = resolveTermId(terms, {}, new Date().toISOString());
+    if (terms.length > 0 && !termId) return alert("No fiscal term covers today. Ask a SUPERADMIN to open one.");
+    if (isLocked({ termId }, null)) return alert("The current fiscal term is closed.");
 
     try {
       setSavingCreate(true);
@@ -849,35 +889,43 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
         const proponentName = pProponent.trim() || getUserDisplayName(user);
         if (!title || !description) return;
 
+        const status: ProposalStatus = createAsDraftRef.current ? "DRAFT" : "FILED";
         const base = {
           title,
           category: pCategory,
+          department: createDept,
           description,
-          status: "REVIEW",
+          status,
+          statusHistory: [statusChange(null, status, user)],
+          createdById: user.id,
           dateSubmitted: prettyToday(),
           proponent: proponentName,
           pdfName: null,
           pdfUrl: null,
           pdfPublicId: null,
-          createdAt: serverTimestamp(),
-          updatedAt: serverTimestamp(),
+          termId,
+          createdAt: storage.now(),
+          updatedAt: storage.now(),
         };
 
-        const refDoc = await addDoc(collection(db, "proposals"), base as any);
+        const newId = await storage.add("proposals", base);
+        let pdf = { pdfName: null as string | null, pdfUrl: null as string | null, pdfPublicId: null as string | null };
 
         if (pPdfFile) {
           const up = await uploadToCloudinary(
             pPdfFile,
-            `${BASE_FOLDER}/proposals/${refDoc.id}`
+            `${BASE_FOLDER}/proposals/${newId}`
           );
-          await updateDoc(doc(db, "proposals", refDoc.id), {
-            pdfName: pPdfFile.name,
-            pdfUrl: up.url,
-            pdfPublicId: up.publicId,
-            updatedAt: serverTimestamp(),
+          pdf = { pdfName: pPdfFile.name, pdfUrl: up.url, pdfPublicId: up.publicId };
+          await storage.update("proposals", newId, {
+            ...pdf,
+            updatedAt: storage.now(),
           } as any);
         }
 
+        // ✅ v1 of the revision history
+        await recordInitialRevision({ ...(base as any), ...pdf, id: newId }, user);
+
         closeCreate();
         return;
       }
@@ -894,49 +942,51 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
       const description = prDesc.trim();
 
       if (!title || !timeline || !inCharge || !description) return;
+      if (!confirmEarmark({ termId, allocated: Number(prBudget) || 0 })) return;
 
       const base = {
         title,
         timeline,
         inCharge,
+        department: createDept,
         status: prStatus,
         description,
         objectives,
         budgetAllocated: Number(prBudget) || 0,
-        spentAmount: Number(prSpent) || 0,
         bannerImage: DEFAULT_PROJECT_BANNER,
         bannerPublicId: null,
         pdfName: null,
         pdfUrl: null,
         pdfPublicId: null,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
+        termId,
+        createdAt: storage.now(),
+        updatedAt: storage.now(),
       };
 
-      const refDoc = await addDoc(collection(db, "projects"), base as any);
+      const newId = await storage.add("projects", base);
 
       if (prBannerFile) {
         const up = await uploadToCloudinary(
           prBannerFile,
-          `${BASE_FOLDER}/projects/${refDoc.id}/banners`
+          `${BASE_FOLDER}/projects/${newId}/banners`
         );
-        await updateDoc(doc(db, "projects", refDoc.id), {
+        await storage.update("projects", newId, {
           bannerImage: up.url,
           bannerPublicId: up.publicId,
-          updatedAt: serverTimestamp(),
+          updatedAt: storage.now(),
         } as any);
       }
 
       if (prPdfFile) {
         const up = await uploadToCloudinary(
           prPdfFile,
-          `${BASE_FOLDER}/projects/${refDoc.id}/pdfs`
+          `${BASE_FOLDER}/projects/${newId}/pdfs`
         );
-        await updateDoc(doc(db, "projects", refDoc.id), {
+        await storage.update("projects", newId, {
           pdfName: prPdfFile.name,
           pdfUrl: up.url,
           pdfPublicId: up.publicId,
-          updatedAt: serverTimestamp(),
+          updatedAt: storage.now(),
         } as any);
       }
 
@@ -954,11 +1004,14 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   // ==============================
   const deleteProposal = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!canManage) return;
-    if (!confirm("Delete this proposal?")) return;
+    if (!canEditProposal(allProposals.find((p) => p.id === id) ?? null)) return;
+    if (proposalLocked(allProposals.find((p) => p.id === id) ?? null)) {
+      return alert("This proposal belongs to a closed fiscal term.");
+    }
+    if (!confirm("Move this proposal to the trash?")) return;
 
     try {
-      await deleteDoc(doc(db, "proposals", id));
+      await moveToTrash("proposals", id, user);
       if (selectedProposal?.id === id) closeProposalModal();
     } catch (err: any) {
       console.error("DELETE PROPOSAL ERROR:", err);
@@ -968,11 +1021,14 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
 
   const deleteProject = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!canManage) return;
-    if (!confirm("Delete this project?")) return;
+    if (!canEditProject(allProjects.find((p) => p.id === id) ?? null)) return;
+    if (projectLocked(allProjects.find((p) => p.id === id) ?? null)) {
+      return alert("This project belongs to a closed fiscal term.");
+    }
+    if (!confirm("Move this project to the trash?")) return;
 
     try {
-      await deleteDoc(doc(db, "projects", id));
+      await moveToTrash("projects", id, user);
       if (selectedProject?.id === id) closeProjectModal();
     } catch (err: any) {
       console.error("DELETE PROJECT ERROR:", err);
@@ -991,7 +1047,6 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     setPpCategory(((p as any).category || ProposalCategory.RESOURCES) as any);
     setPpNarrative((p as any).description || "");
     setPpProponent((p as any).proponent || "");
-    setPpStatus(String((p as any).status || "REVIEW"));
 
     setPpPdfName((p as any).pdfName || "");
     setPpPdfUrl((p as any).pdfUrl || "");
@@ -1003,8 +1058,46 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     lastProposalModalPdfBlobRef.current = null;
   };
 
+  // Keep the open proposal in sync with live data (status moves, other editors)
+  useEffect(() => {
+    if (!selectedProposal) return;
+    const live = allProposals.find((p) => p.id === selectedProposal.id);
+    if (live && live !== selectedProposal) setSelectedProposal(live);
+  }, [allProposals, selectedProposal]);
+
+  // Same for the open project (milestone updates re-derive its status)
+  useEffect(() => {
+    if (!selectedProject) return;
+    const live = allProjects.find((p) => p.id === selectedProject.id);
+    if (live && live !== selectedProject) setSelectedProject(live);
+  }, [allProjects, selectedProject]);
+
+  const moveProposal = async (to: ProposalStatus) => {
+    if (!selectedProposal || movingProposal) return;
+    if (proposalLocked(selectedProposal)) return alert("This proposal belongs to a closed fiscal term.");
+
+    const required = NOTE_REQUIRED.includes(to);
+    const note = prompt(
+      `${TRANSITION_LABEL[to]}: ${required ? "reason (required)" : "note (optional)"}`,
+      ""
+    );
+    if (note === null) return;
+    if (required && !note.trim()) return alert("Please give a reason.");
+
+    try {
+      setMovingProposal(true);
+      await transitionProposal(selectedProposal, to, user, note);
+    } catch (err: any) {
+      console.error("PROPOSAL STATUS ERROR:", err);
+      alert(err?.message || "Failed to update status.");
+    } finally {
+      setMovingProposal(false);
+    }
+  };
+
   const closeProposalModal = () => {
     setProposalEditMode(false);
+    setRevisionsOpen(false);
 
     if (lastProposalModalPdfBlobRef.current) {
       revokeIfBlob(lastProposalModalPdfBlobRef.current);
@@ -1058,7 +1151,6 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     setPpCategory((p.category || ProposalCategory.RESOURCES) as any);
     setPpNarrative(p.description || "");
     setPpProponent(p.proponent || "");
-    setPpStatus(String(p.status || "REVIEW"));
 
     setPpPdfName(p.pdfName || "");
     setPpPdfUrl(p.pdfUrl || "");
@@ -1069,51 +1161,41 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   };
 
   const saveProposalEdits = async () => {
-    if (!selectedProposal || !canManage || savingProposalEdit) return;
+    if (!selectedProposal || !canEditProposal(selectedProposal) || savingProposalEdit) return;
+    if (proposalLocked(selectedProposal)) return alert("This proposal belongs to a closed fiscal term.");
 
-    const id = (selectedProposal as any).id;
+    const id = selectedProposal.id;
     const title = ppTitle.trim();
     const description = ppNarrative.trim();
     const proponent = ppProponent.trim() || getUserDisplayName(user);
-    const status = String(ppStatus || "REVIEW");
 
     if (!title || !description) return;
 
     try {
       setSavingProposalEdit(true);
 
-      await updateDoc(doc(db, "proposals", id), {
-        title,
-        category: ppCategory,
-        description,
-        proponent,
-        status,
-        updatedAt: serverTimestamp(),
-      } as any);
+      // ✅ Each save becomes a new revision; replaced PDFs stay reachable from older revisions
+      let pdf = {
+        pdfName: selectedProposal.pdfName || null,
+        pdfUrl: selectedProposal.pdfUrl || null,
+        pdfPublicId: selectedProposal.pdfPublicId || null,
+      };
 
       if (ppPdfFile) {
         const up = await uploadToCloudinary(ppPdfFile, `${BASE_FOLDER}/proposals/${id}`);
-
-        await updateDoc(doc(db, "proposals", id), {
-          pdfName: ppPdfFile.name,
-          pdfUrl: up.url,
-          pdfPublicId: up.publicId,
-          updatedAt: serverTimestamp(),
-        } as any);
-
+        pdf = { pdfName: ppPdfFile.name, pdfUrl: up.url, pdfPublicId: up.publicId };
         setPpPdfPublicId(up.publicId);
-      } else {
-        if (!ppPdfUrl) {
-          await updateDoc(doc(db, "proposals", id), {
-            pdfName: null,
-            pdfUrl: null,
-            pdfPublicId: null,
-            updatedAt: serverTimestamp(),
-          } as any);
-          setPpPdfPublicId(undefined);
-        }
+      } else if (!ppPdfUrl) {
+        pdf = { pdfName: null, pdfUrl: null, pdfPublicId: null };
+        setPpPdfPublicId(undefined);
       }
 
+      await saveProposalRevision(
+        selectedProposal,
+        { title, category: ppCategory, description, proponent, ...pdf },
+        user
+      );
+
       revokeIfBlob(lastProposalModalPdfBlobRef.current || undefined);
       lastProposalModalPdfBlobRef.current = null;
       if (proposalModalPdfRef.current) proposalModalPdfRef.current.value = "";
@@ -1139,10 +1221,9 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     setEpTitle(p.title || "");
     setEpTimeline(p.timeline || "");
     setEpInCharge(p.inCharge || "");
-    setEpStatus(p.status || ProjectStatus.PLANNED);
+    setEpStatus(projectStatusMode({ ...p, status: p.status || ProjectStatus.PLANNED }));
     setEpDesc(p.description || "");
     setEpBudget(Number(p.budgetAllocated) || 0);
-    setEpSpent(Number(p.spentAmount) || 0);
     setEpObjectives((p.objectives || []).join(", "));
 
     setEpBannerUrl(p.bannerImage || DEFAULT_PROJECT_BANNER);
@@ -1162,6 +1243,26 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     lastEditPdfBlobRef.current = null;
   };
 
+  // ✅ Deep links from global search: ?proposal=<id> / ?project=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  useEffect(() => {
+    const proposalId = searchParams.get("proposal");
+    const projectId = searchParams.get("project");
+    if (!proposalId && !projectId) return;
+    if ((proposalId && loadingProposals) || (projectId && loadingProjects)) return;
+
+    const proposal = proposalId ? allProposals.find((p) => p.id === proposalId) : undefined;
+    const project = projectId ? allProjects.find((p) => p.id === projectId) : undefined;
+    if (proposal && canViewProposal(proposal, user, mySubmissionIds)) {
+      setActiveTab(proposal.category as HubTab);
+      openProposalModal(proposal);
+    } else if (project) {
+      setActiveTab("PROJECTS");
+      openProjectModal(project);
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, allProposals, allProjects, loadingProposals, loadingProjects]);
+
   const closeProjectModal = () => {
     setProjectEditMode(false);
 
@@ -1258,10 +1359,9 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     setEpTitle(p.title || "");
     setEpTimeline(p.timeline || "");
     setEpInCharge(p.inCharge || "");
-    setEpStatus(p.status || ProjectStatus.PLANNED);
+    setEpStatus(projectStatusMode({ ...p, status: p.status || ProjectStatus.PLANNED }));
     setEpDesc(p.description || "");
     setEpBudget(Number(p.budgetAllocated) || 0);
-    setEpSpent(Number(p.spentAmount) || 0);
     setEpObjectives((p.objectives || []).join(", "));
 
     setEpBannerUrl(p.bannerImage || DEFAULT_PROJECT_BANNER);
@@ -1277,7 +1377,8 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
   };
 
   const saveProjectEdits = async () => {
-    if (!selectedProject || !canManage || savingProjectEdit) return;
+    if (!selectedProject || !canEditProject(selectedProject) || savingProjectEdit) return;
+    if (projectLocked(selectedProject)) return alert("This project belongs to a closed fiscal term.");
 
     const id = (selectedProject as any).id;
 
@@ -1292,20 +1393,21 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
     const description = epDesc.trim();
 
     if (!title || !timeline || !inCharge || !description) return;
+    const termId = resolveTermId(terms, selectedProject, projectDate(selectedProject));
+    if (!confirmEarmark({ id, termId, allocated: Number(epBudget) || 0 })) return;
 
     try {
       setSavingProjectEdit(true);
 
-      await updateDoc(doc(db, "projects", id), {
+      await storage.update("projects", id, {
         title,
         timeline,
         inCharge,
-        status: epStatus,
+        ...projectStatusFields(selectedProject, epStatus),
         description,
         objectives: updatedObjectives,
         budgetAllocated: Number(epBudget) || 0,
-        spentAmount: Number(epSpent) || 0,
-        updatedAt: serverTimestamp(),
+        updatedAt: storage.now(),
       } as any);
 
       if (epBannerFile) {
@@ -1314,19 +1416,19 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
           `${BASE_FOLDER}/projects/${id}/banners`
         );
 
-        await updateDoc(doc(db, "projects", id), {
+        await storage.update("projects", id, {
           bannerImage: up.url,
           bannerPublicId: up.publicId,
-          updatedAt: serverTimestamp(),
+          updatedAt: storage.now(),
         } as any);
 
         setEpBannerPublicId(up.publicId);
       } else {
         if (epBannerUrl === DEFAULT_PROJECT_BANNER) {
-          await updateDoc(doc(db, "projects", id), {
+          await storage.update("projects", id, {
             bannerImage: DEFAULT_PROJECT_BANNER,
             bannerPublicId: null,
-            updatedAt: serverTimestamp(),
+            updatedAt: storage.now(),
           } as any);
           setEpBannerPublicId(undefined);
         }
@@ -1338,21 +1440,21 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
           `${BASE_FOLDER}/projects/${id}/pdfs`
         );
 
-        await updateDoc(doc(db, "projects", id), {
+        await storage.update("projects", id, {
           pdfName: epPdfFile.name,
           pdfUrl: up.url,
           pdfPublicId: up.publicId,
-          updatedAt: serverTimestamp(),
+          updatedAt: storage.now(),
         } as any);
 
         setEpPdfPublicId(up.publicId);
       } else {
         if (!epPdfUrl) {
-          await updateDoc(doc(db, "projects", id), {
+          await storage.update("projects", id, {
             pdfName: null,
             pdfUrl: null,
             pdfPublicId: null,
-            updatedAt: serverTimestamp(),
+            updatedAt: storage.now(),
           } as any);
           setEpPdfPublicId(undefined);
         }
@@ -1423,28 +1525,56 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
             </p>
           </div>
 
+          <div className="flex flex-wrap items-center gap-4">
+            <TermSelector user={user} />
+
+            {(activeTab === "PROJECTS" ? canCreateProject : canCreateProposal) && (
+              <button
+                onClick={openCreate}
+                className="flex items-center justify-center space-x-3 px-10 py-4 bg-samasa-black text-samasa-yellow font-black rounded-full shadow-xl hover:bg-samasa-blue hover:text-white transition-all text-sm uppercase tracking-widest active:scale-95"
+              >
+                <Plus className="w-5 h-5" />
+                <span>NEW</span>
+              </button>
+            )}
+
+            {activeTab !== "PROJECTS" && canSubmitAsStudent && (
+              <button
+                onClick={openStudentSubmit}
+                className="flex items-center justify-center space-x-3 px-10 py-4 bg-samasa-black text-samasa-yellow font-black rounded-full shadow-xl hover:bg-samasa-blue hover:text-white transition-all text-sm uppercase tracking-widest active:scale-95"
+              >
+                <Plus className="w-5 h-5" />
+                <span>SUBMIT</span>
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Embed-mode: if user is allowed to create but header hidden, still show a small button */}
+      {hideHeader && (
+        <div className="flex flex-wrap items-center justify-end gap-3 mb-3">
+          <TermSelector user={user} />
+
           {(activeTab === "PROJECTS" ? canCreateProject : canCreateProposal) && (
             <button
               onClick={openCreate}
-              className="flex items-center justify-center space-x-3 px-10 py-4 bg-samasa-black text-samasa-yellow font-black rounded-full shadow-xl hover:bg-samasa-blue hover:text-white transition-all text-sm uppercase tracking-widest active:scale-95"
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all active:scale-95"
             >
-              <Plus className="w-5 h-5" />
-              <span>NEW</span>
+              <Plus className="w-4 h-4" />
+              New
             </button>
           )}
-        </div>
-      )}
 
-      {/* Embed-mode: if user is allowed to create but header hidden, still show a small button */}
-      {hideHeader && (activeTab === "PROJECTS" ? canCreateProject : canCreateProposal) && (
-        <div className="flex justify-end mb-3">
-          <button
-            onClick={openCreate}
-            className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all active:scale-95"
-          >
-            <Plus className="w-4 h-4" />
-            New
-          </button>
+          {activeTab !== "PROJECTS" && canSubmitAsStudent && (
+            <button
+              onClick={openStudentSubmit}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all active:scale-95"
+            >
+              <Plus className="w-4 h-4" />
+              Submit
+            </button>
+          )}
         </div>
       )}
 
@@ -1465,6 +1595,25 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
         })}
       </div>
 
+      {/* Moderation queue (student submissions) */}
+      {activeTab !== "PROJECTS" && isStaff && isEditable !== false && (queueCount > 0 || queueOnly) && (
+        <div className="mb-8 flex flex-wrap items-center justify-between gap-4 rounded-[2rem] bg-white border border-slate-200 px-6 py-4">
+          <div className="flex items-center gap-3">
+            <PenLine className="w-5 h-5 text-samasa-blue" />
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+              {queueCount} student submission(s) waiting for moderation
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={() => setQueueOnly((v) => !v)}
+            className="px-5 py-2.5 rounded-full bg-samasa-black text-samasa-yellow text-[10px] font-black uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all"
+          >
+            {queueOnly ? "Show All" : "Review Queue"}
+          </button>
+        </div>
+      )}
+
       {/* Content */}
       {activeTab === "PROJECTS" ? (
         <div className="grid grid-cols-1 gap-12">
@@ -1488,7 +1637,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                   key={(project as any).id}
                   className="bg-white rounded-[3.5rem] overflow-hidden border border-slate-200 shadow-sm flex flex-col lg:flex-row hover:shadow-2xl transition-all group relative"
                 >
-                  {canManage && (
+                  {canEditProject(project) && !projectLocked(project) && (
                     <button
                       onClick={(e) => deleteProject((project as any).id, e)}
                       className="absolute top-6 right-6 z-10 p-3 bg-white/95 backdrop-blur rounded-full text-slate-300 hover:text-samasa-red shadow-lg transition-all"
@@ -1532,6 +1681,13 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                           {(project as any).inCharge}
                         </span>
 
+                        {(project.milestones || []).length > 0 && (
+                          <span className="flex items-center">
+                            <Flag className="w-4 h-4 mr-2 text-emerald-500" />
+                            {Math.round(percentComplete(project.milestones || []))}% complete
+                          </span>
+                        )}
+
                         {(project as any).pdfUrl && (
                           <span className="flex items-center gap-2 px-4 py-2 rounded-full bg-slate-50 border border-slate-100 text-slate-500 text-[10px] font-black uppercase tracking-widest">
                             <FileText className="w-4 h-4" />
@@ -1565,35 +1721,46 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                           <div className="flex justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest">
                             <span>Fund Utilization</span>
                             <span className="text-samasa-blue">
-                              {Math.round(
-                                safePercent(
-                                  (project as any).spentAmount,
-                                  (project as any).budgetAllocated
-                                )
-                              )}
-                              %
+                              {Math.round(safePercent(burnOf(project).spent, burnOf(project).allocated))}%
                             </span>
                           </div>
                           <div className="w-full h-3 bg-slate-100 rounded-full overflow-hidden">
                             <div
                               className="h-full bg-samasa-blue rounded-full transition-all duration-1000"
                               style={{
-                                width: `${safePercent(
-                                  (project as any).spentAmount,
-                                  (project as any).budgetAllocated
-                                )}%`,
+                                width: `${safePercent(burnOf(project).spent, burnOf(project).allocated)}%`,
                               }}
                             />
                           </div>
+                          <div className="flex justify-between gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                            <span>
+                              ₱{burnOf(project).spent.toLocaleString()} of ₱{burnOf(project).allocated.toLocaleString()}
+                            </span>
+                            {burnOf(project).verified ? (
+                              <span className="inline-flex items-center gap-1 text-emerald-600">
+                                <ShieldCheck className="w-3.5 h-3.5" />
+                                Ledger-verified
+                              </span>
+                            ) : (
+                              <span>Self-reported</span>
+                            )}
+                          </div>
                         </div>
 
-                        <button
-                          type="button"
-                          onClick={() => openProjectModal(project)}
-                          className="px-10 py-4 bg-samasa-black text-samasa-yellow font-black rounded-full hover:bg-samasa-blue hover:text-white transition-all text-xs uppercase tracking-widest shadow-xl active:scale-95 whitespace-nowrap"
-                        >
-                          Examine Project
-                        </button>
+                        <div className="flex items-center gap-5">
+                          <span className="inline-flex items-center gap-1.5 text-[10px] font-black text-slate-400">
+                            <MessageSquare className="w-4 h-4" />
+                            {commentCount(comments, "project", project.id, user)}
+                          </span>
+
+                          <button
+                            type="button"
+                            onClick={() => openProjectModal(project)}
+                            className="px-10 py-4 bg-samasa-black text-samasa-yellow font-black rounded-full hover:bg-samasa-blue hover:text-white transition-all text-xs uppercase tracking-widest shadow-xl active:scale-95 whitespace-nowrap"
+                          >
+                            Examine Project
+                          </button>
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -1631,10 +1798,10 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                   <div className="flex items-start justify-between gap-4 mb-6 pr-2">
                     <span
                       className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest ${getProposalStatusStyle(
-                        (p as any).status
+                        p.status
                       )}`}
                     >
-                      {(p as any).status}
+                      {PROPOSAL_STATUS_LABEL[p.status]}
                     </span>
 
                     <div className="flex items-center gap-3">
@@ -1642,7 +1809,19 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                         {(p as any).dateSubmitted}
                       </span>
 
-                      {canManage && (
+                      <span className="inline-flex items-center gap-1.5 text-[10px] font-black text-slate-400">
+                        <MessageSquare className="w-4 h-4" />
+                        {commentCount(comments, "proposal", p.id, user)}
+                      </span>
+
+                      {(p.status === "PETITION" || (p.signatureCount ?? 0) > 0) && (
+                        <span className="inline-flex items-center gap-1.5 text-[10px] font-black text-slate-400" title="Co-signatures">
+                          <PenLine className="w-4 h-4" />
+                          {p.signatureCount ?? 0}
+                        </span>
+                      )}
+
+                      {canEditProposal(p) && !proposalLocked(p) && (
                         <button
                           type="button"
                           onClick={(e) => deleteProposal((p as any).id, e)}
@@ -1806,6 +1985,24 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                       </select>
                     </div>
 
+                    {/* Department */}
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                        Department
+                      </label>
+                      <select
+                        value={createDept}
+                        onChange={(e) => setCreateDept(e.target.value)}
+                        className="w-full px-5 py-4 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium"
+                      >
+                        {createDepartments("proposals.create").map((d) => (
+                          <option key={d} value={d}>
+                            {d}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
                     {/* Proponent */}
                     <div>
                       <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
@@ -1951,6 +2148,24 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                         />
                       </div>
 
+                      {/* Department */}
+                      <div>
+                        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                          Department
+                        </label>
+                        <select
+                          value={createDept}
+                          onChange={(e) => setCreateDept(e.target.value)}
+                          className="w-full px-5 py-4 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium"
+                        >
+                          {createDepartments("projects.edit").map((d) => (
+                            <option key={d} value={d}>
+                              {d}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
                       {/* Status */}
                       <div>
                         <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
@@ -1982,11 +2197,11 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                       />
                     </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       {/* Budget */}
                       <div>
                         <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
-                          Budget Allocated
+                          Allocation (Project fund)
                         </label>
                         <input
                           value={String(prBudget)}
@@ -1998,21 +2213,6 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                         />
                       </div>
 
-                      {/* Spent */}
-                      <div>
-                        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
-                          Spent Amount
-                        </label>
-                        <input
-                          value={String(prSpent)}
-                          onChange={(e) => setPrSpent(safeNum(e.target.value))}
-                          type="number"
-                          min={0}
-                          className="w-full px-5 py-4 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium"
-                          placeholder="0"
-                        />
-                      </div>
-
                       {/* Objectives */}
                       <div>
                         <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
@@ -2177,12 +2377,23 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                   >
                     Cancel
                   </button>
+                  {createType === "PROPOSAL" && (
+                    <button
+                      type="submit"
+                      disabled={savingCreate}
+                      onClick={() => (createAsDraftRef.current = true)}
+                      className="px-8 py-3 rounded-full bg-white border border-slate-200 text-slate-600 font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 transition-all disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      Save Draft
+                    </button>
+                  )}
                   <button
                     type="submit"
                     disabled={savingCreate}
+                    onClick={() => (createAsDraftRef.current = false)}
                     className="px-10 py-3 rounded-full bg-samasa-black text-samasa-yellow font-black text-[10px] uppercase tracking-widest hover:bg-samasa-blue hover:text-white transition-all active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed"
                   >
-                    {savingCreate ? "Saving..." : "Create"}
+                    {savingCreate ? "Saving..." : createType === "PROPOSAL" ? "File" : "Create"}
                   </button>
                 </div>
               </form>
@@ -2207,10 +2418,10 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                 <div className="flex flex-wrap items-center gap-3 mb-3">
                   <span
                     className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest ${getProposalStatusStyle(
-                      (selectedProposal as any).status
+                      selectedProposal.status
                     )}`}
                   >
-                    {(selectedProposal as any).status}
+                    {PROPOSAL_STATUS_LABEL[selectedProposal.status]}
                   </span>
                   <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">
                     {(selectedProposal as any).dateSubmitted || "—"}
@@ -2232,7 +2443,35 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
               </div>
 
               <div className="flex items-center gap-2">
-                {canManage && !proposalEditMode && (
+                {canEditProposal(selectedProposal) &&
+                  !proposalEditMode &&
+                  selectedProposal.category === ProposalCategory.POLICY &&
+                  (selectedProposal.status === "APPROVED" || selectedProposal.status === "IMPLEMENTED") &&
+                  !policies.some((p) => p.proposalId === selectedProposal.id) && (
+                    <button
+                      onClick={() => setEnactFrom(selectedProposal)}
+                      className="px-4 py-2 rounded-full bg-slate-50 border border-slate-200 text-slate-600 text-[10px] font-black uppercase tracking-widest hover:bg-white transition-all"
+                    >
+                      <span className="inline-flex items-center gap-2">
+                        <Gavel className="w-4 h-4" />
+                        Enact
+                      </span>
+                    </button>
+                  )}
+
+                {!proposalEditMode && (
+                  <button
+                    onClick={() => setRevisionsOpen(true)}
+                    className="px-4 py-2 rounded-full bg-slate-50 border border-slate-200 text-slate-600 text-[10px] font-black uppercase tracking-widest hover:bg-white transition-all"
+                  >
+                    <span className="inline-flex items-center gap-2">
+                      <GitCompare className="w-4 h-4" />
+                      {selectedProposal.version ? `v${selectedProposal.version}` : "Versions"}
+                    </span>
+                  </button>
+                )}
+
+                {canEditProposal(selectedProposal) && !proposalEditMode && !proposalLocked(selectedProposal) && (
                   <button
                     onClick={() => setProposalEditMode(true)}
                     className="px-4 py-2 rounded-full bg-slate-50 border border-slate-200 text-slate-600 text-[10px] font-black uppercase tracking-widest hover:bg-white transition-all"
@@ -2244,7 +2483,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                   </button>
                 )}
 
-                {canManage && proposalEditMode && (
+                {canEditProposal(selectedProposal) && proposalEditMode && (
                   <button
                     onClick={cancelProposalEdits}
                     className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all"
@@ -2256,7 +2495,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                   </button>
                 )}
 
-                {canManage && proposalEditMode && (
+                {canEditProposal(selectedProposal) && proposalEditMode && (
                   <button
                     onClick={saveProposalEdits}
                     disabled={savingProposalEdit}
@@ -2294,37 +2533,19 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                       />
                     </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      <div>
-                        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
-                          Category
-                        </label>
-                        <select
-                          value={String(ppCategory)}
-                          onChange={(e) => setPpCategory(e.target.value as any)}
-                          className="w-full px-5 py-4 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium"
-                        >
-                          <option value={ProposalCategory.RESOURCES}>RESOURCES</option>
-                          <option value={ProposalCategory.PROGRAMS}>PROGRAMS</option>
-                          <option value={ProposalCategory.POLICY}>POLICY</option>
-                        </select>
-                      </div>
-
-                      <div>
-                        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
-                          Status
-                        </label>
-                        <select
-                          value={ppStatus}
-                          onChange={(e) => setPpStatus(e.target.value)}
-                          className="w-full px-5 py-4 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium"
-                        >
-                          <option value="REVIEW">REVIEW</option>
-                          <option value="APPROVED">APPROVED</option>
-                          <option value="IMPLEMENTED">IMPLEMENTED</option>
-                          <option value="REJECTED">REJECTED</option>
-                        </select>
-                      </div>
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                        Category
+                      </label>
+                      <select
+                        value={String(ppCategory)}
+                        onChange={(e) => setPpCategory(e.target.value as any)}
+                        className="w-full px-5 py-4 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium"
+                      >
+                        <option value={ProposalCategory.RESOURCES}>RESOURCES</option>
+                        <option value={ProposalCategory.PROGRAMS}>PROGRAMS</option>
+                        <option value={ProposalCategory.POLICY}>POLICY</option>
+                      </select>
                     </div>
 
                     <div>
@@ -2480,6 +2701,94 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                         </div>
                       )}
                     </div>
+
+                    <PetitionPanel
+                      proposal={selectedProposal}
+                      user={user}
+                      submitter={submitters.find((s) => s.proposalId === selectedProposal.id) ?? null}
+                      canAct={canMoveProposals && !proposalLocked(selectedProposal)}
+                      signedIn={signedIn}
+                    />
+
+                    <VotingPanel
+                      proposal={selectedProposal}
+                      user={user}
+                      canAct={canMoveProposals && !proposalLocked(selectedProposal)}
+                      signedIn={signedIn}
+                    />
+
+                    {/* Lifecycle */}
+                    <div className="rounded-2xl border border-slate-200 p-6">
+                      <div className="flex flex-wrap items-center justify-between gap-4 mb-5">
+                        <div className="flex items-center gap-3">
+                          <History className="w-5 h-5 text-samasa-blue" />
+                          <div>
+                            <div className="text-sm font-black text-samasa-black">Status History</div>
+                            <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                              Who moved it and why
+                            </div>
+                          </div>
+                        </div>
+
+                        {canMoveProposals && !proposalLocked(selectedProposal) && (
+                          <div className="flex flex-wrap gap-2">
+                            {allowedTransitions(user, selectedProposal).map((to) => (
+                              <button
+                                key={to}
+                                type="button"
+                                disabled={movingProposal}
+                                onClick={() => moveProposal(to)}
+                                className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-60 ${
+                                  to === "REJECTED" || to === "WITHDRAWN"
+                                    ? "bg-white border border-slate-200 text-slate-500 hover:text-samasa-red"
+                                    : "bg-samasa-black text-samasa-yellow hover:bg-samasa-blue hover:text-white"
+                                }`}
+                              >
+                                {TRANSITION_LABEL[to]}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
+                      {(selectedProposal.statusHistory ?? []).length > 0 ? (
+                        <ol className="relative border-l-2 border-slate-100 ml-2 space-y-5">
+                          {(selectedProposal.statusHistory ?? [])
+                            .slice()
+                            .reverse()
+                            .map((h, i) => (
+                              <li key={`${h.at}-${i}`} className="pl-6 relative">
+                                <span
+                                  className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full ${
+                                    i === 0 ? "bg-samasa-blue" : "bg-slate-300"
+                                  }`}
+                                />
+                                <div className="flex flex-wrap items-center gap-2">
+                                  <span
+                                    className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${getProposalStatusStyle(
+                                      h.to
+                                    )}`}
+                                  >
+                                    {PROPOSAL_STATUS_LABEL[h.to]}
+                                  </span>
+                                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                                    {h.byName || "—"} • {h.at ? new Date(h.at).toLocaleString() : "—"}
+                                  </span>
+                                </div>
+                                {h.note && (
+                                  <p className="mt-2 text-sm font-medium text-slate-600 whitespace-pre-wrap">{h.note}</p>
+                                )}
+                              </li>
+                            ))}
+                        </ol>
+                      ) : (
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-300">
+                          No recorded changes (created before status tracking).
+                        </div>
+                      )}
+                    </div>
+
+                    <CommentThread targetType="proposal" targetId={selectedProposal.id} user={user} canPost={canMoveProposals} />
                   </>
                 )}
               </div>
@@ -2525,7 +2834,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
               </div>
 
               <div className="flex items-center gap-2">
-                {canManage && !projectEditMode && (
+                {canEditProject(selectedProject) && !projectEditMode && !projectLocked(selectedProject) && (
                   <button
                     onClick={() => setProjectEditMode(true)}
                     className="px-4 py-2 rounded-full bg-slate-50 border border-slate-200 text-slate-600 text-[10px] font-black uppercase tracking-widest hover:bg-white transition-all"
@@ -2537,7 +2846,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                   </button>
                 )}
 
-                {canManage && projectEditMode && (
+                {canEditProject(selectedProject) && projectEditMode && (
                   <button
                     onClick={cancelProjectEdits}
                     className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all"
@@ -2549,7 +2858,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                   </button>
                 )}
 
-                {canManage && projectEditMode && (
+                {canEditProject(selectedProject) && projectEditMode && (
                   <button
                     onClick={saveProjectEdits}
                     disabled={savingProjectEdit}
@@ -2634,6 +2943,9 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                           onChange={(e) => setEpStatus(e.target.value as any)}
                           className="w-full px-5 py-4 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium"
                         >
+                          {((selectedProject as any).milestones || []).length > 0 && (
+                            <option value="AUTO">AUTOMATIC (milestones)</option>
+                          )}
                           <option value={ProjectStatus.PLANNED}>PLANNED</option>
                           <option value={ProjectStatus.ONGOING}>ONGOING</option>
                           <option value={ProjectStatus.COMPLETED}>COMPLETED</option>
@@ -2642,7 +2954,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
 
                       <div>
                         <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
-                          Budget Allocated
+                          Allocation (Project fund)
                         </label>
                         <input
                           value={String(epBudget)}
@@ -2655,15 +2967,11 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
 
                       <div>
                         <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
-                          Spent Amount
+                          Spent (from ledger)
                         </label>
-                        <input
-                          value={String(epSpent)}
-                          onChange={(e) => setEpSpent(safeNum(e.target.value))}
-                          type="number"
-                          min={0}
-                          className="w-full px-5 py-4 rounded-2xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30 font-medium"
-                        />
+                        <div className="w-full px-5 py-4 rounded-2xl border border-slate-100 bg-slate-50 font-medium text-slate-500">
+                          ₱{burnOf(selectedProject).spent.toLocaleString()}
+                        </div>
                       </div>
                     </div>
 
@@ -2834,7 +3142,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                           </div>
                         </div>
                         <div className="text-2xl font-black text-samasa-black">
-                          ₱{safeNum((selectedProject as any).spentAmount).toLocaleString()}
+                          ₱{burnOf(selectedProject).spent.toLocaleString()}
                         </div>
                       </div>
 
@@ -2847,10 +3155,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                         </div>
                         <div className="text-2xl font-black text-samasa-black">
                           {Math.round(
-                            safePercent(
-                              safeNum((selectedProject as any).spentAmount),
-                              safeNum((selectedProject as any).budgetAllocated)
-                            )
+                            safePercent(burnOf(selectedProject).spent, burnOf(selectedProject).allocated)
                           )}
                           %
                         </div>
@@ -2863,10 +3168,7 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                         <span>Fund Utilization</span>
                         <span className="text-samasa-blue">
                           {Math.round(
-                            safePercent(
-                              safeNum((selectedProject as any).spentAmount),
-                              safeNum((selectedProject as any).budgetAllocated)
-                            )
+                            safePercent(burnOf(selectedProject).spent, burnOf(selectedProject).allocated)
                           )}
                           %
                         </span>
@@ -2875,15 +3177,53 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                         <div
                           className="h-full bg-samasa-blue rounded-full transition-all duration-700"
                           style={{
-                            width: `${safePercent(
-                              safeNum((selectedProject as any).spentAmount),
-                              safeNum((selectedProject as any).budgetAllocated)
-                            )}%`,
+                            width: `${safePercent(burnOf(selectedProject).spent, burnOf(selectedProject).allocated)}%`,
                           }}
                         />
                       </div>
                     </div>
 
+                    {/* Linked ledger expenses */}
+                    <div className="rounded-2xl border border-slate-200 p-6">
+                      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                          Linked Expenses
+                        </div>
+                        {burnOf(selectedProject).verified ? (
+                          <span className="inline-flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-emerald-600">
+                            <ShieldCheck className="w-3.5 h-3.5" />
+                            Spent is computed from the ledger
+                          </span>
+                        ) : (
+                          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                            Self-reported until an expense is linked
+                          </span>
+                        )}
+                      </div>
+
+                      {burnOf(selectedProject).expenses.length > 0 ? (
+                        <div className="divide-y divide-slate-50">
+                          {burnOf(selectedProject).expenses.map((e) => (
+                            <div key={e.id} className="py-3 flex items-center justify-between gap-4">
+                              <div className="min-w-0">
+                                <div className="font-black text-samasa-black truncate">{e.title}</div>
+                                <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                                  {e.date} • {e.department} • {e.category}
+                                </div>
+                              </div>
+                              <div className="font-black text-samasa-black whitespace-nowrap">
+                                ₱{safeNum(e.amount).toLocaleString()}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-300">
+                          No posted Project-fund expenses reference this project yet.
+                        </div>
+                      )}
+                    </div>
+
                     {/* Description */}
                     <div className="rounded-2xl border border-slate-200 p-6">
                       <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">
@@ -2917,6 +3257,19 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                       </div>
                     </div>
 
+                    <ProjectMilestones
+                      project={selectedProject}
+                      user={user}
+                      canAct={canMoveProposals && !projectLocked(selectedProject)}
+                    />
+
+                    <ProjectReport
+                      project={selectedProject}
+                      user={user}
+                      canAct={canMoveProposals && !projectLocked(selectedProject)}
+                      spent={burnOf(selectedProject).spent}
+                    />
+
                     {/* PDF */}
                     <div className="rounded-2xl border border-slate-200 p-6">
                       <div className="flex items-center justify-between gap-4">
@@ -2957,6 +3310,8 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
                         </div>
                       )}
                     </div>
+
+                    <CommentThread targetType="project" targetId={selectedProject.id} user={user} canPost={canMoveProposals} />
                   </>
                 )}
               </div>
@@ -2964,6 +3319,34 @@ const LegislativeHub: React.FC<LegislativeHubProps> = ({
           </div>
         </div>
       )}
+
+      {revisionsOpen && selectedProposal && (
+        <ProposalRevisions
+          proposal={selectedProposal}
+          user={user}
+          canRevert={canEditProposal(selectedProposal) && !proposalLocked(selectedProposal)}
+          onClose={() => setRevisionsOpen(false)}
+        />
+      )}
+
+      {studentSubmitTerm !== null && (
+        <StudentSubmissionForm
+          user={user}
+          category={activeTab === "PROJECTS" ? ProposalCategory.RESOURCES : ProposalCategory[activeTab]}
+          dateSubmitted={prettyToday()}
+          termId={studentSubmitTerm}
+          onClose={() => setStudentSubmitTerm(null)}
+        />
+      )}
+
+      {enactFrom && (
+        <PolicyForm
+          user={user}
+          policies={policies}
+          fromProposal={enactFrom}
+          onClose={() => setEnactFrom(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 // src/pages/Login.tsx
-import React, { useMemo, useState, useEffect } from "react";
+import React, { useMemo, useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import { User, UserRole } from "../types";
 import {
@@ -10,19 +10,24 @@ import {
   ArrowLeft,
   Eye,
   EyeOff,
+  UserCircle,
 } from "lucide-react";
 
-import { auth, db } from "../firebase/firebaseConfig";
-import { signInWithEmailAndPassword, signOut } from "firebase/auth";
-import { doc, getDoc, onSnapshot } from "firebase/firestore";
+import { authBackend } from "../src/authBackend";
+import { storage } from "../src/storage";
+import { useLandingContent } from "../src/repository";
+import { profileScopes } from "../src/permissions";
 
 interface LoginProps {
   onLogin: (user: User) => void;
 }
 
-const LANDING_DOC_REF = () => doc(db, "siteSettings", "landingPage");
+type LoginMode = "SIGN_IN" | "REGISTER";
 
 const Login: React.FC<LoginProps> = ({ onLogin }) => {
+  // ✅ Students can create their own account; officer accounts still come from the Superadmin
+  const [mode, setMode] = useState<LoginMode>("SIGN_IN");
+  const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
@@ -32,29 +37,47 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
   // UX states
   const [error, setError] = useState<string | null>(null);
 
-  // ✅ NEW: superadmin-editable login background
-  const [loginBgUrl, setLoginBgUrl] = useState<string>("");
+  // ✅ NEW: superadmin-editable login background (public readable doc)
+  const { data: landing } = useLandingContent();
+  const loginBgUrl = String(landing?.loginBackgroundUrl || "");
 
   const navigate = useNavigate();
   const normalizedEmail = useMemo(() => email.trim().toLowerCase(), [email]);
 
-  // ✅ Load login background (public readable doc)
-  useEffect(() => {
-    const ref = LANDING_DOC_REF();
+  const isRegister = mode === "REGISTER";
 
-    const unsub = onSnapshot(
-      ref,
-      (snap) => {
-        const data = snap.data() as any;
-        setLoginBgUrl(String(data?.loginBackgroundUrl || ""));
+  const switchMode = (next: LoginMode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  const handleRegister = async () => {
+    const displayName = name.trim();
+    if (!displayName) {
+      setError("Please enter your name.");
+      return;
+    }
+
+    const identity = await authBackend.register(normalizedEmail, password);
+
+    // merge so a locally-stored demo password survives the profile write
+    await storage.set(
+      "users",
+      identity.uid,
+      {
+        name: displayName,
+        email: normalizedEmail,
+        role: "STUDENT",
+        active: true,
+        createdAt: storage.now(),
+        updatedAt: storage.now(),
       },
-      (err) => {
-        console.warn("Login background load failed (ok if rules block):", err);
-      }
+      { merge: true }
     );
 
-    return () => unsub();
-  }, []);
+    onLogin({ id: identity.uid, name: displayName, email: normalizedEmail, role: UserRole.STUDENT });
+    navigate("/");
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -64,36 +87,40 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
     setIsLoading(true);
 
     try {
-      // 1) Firebase Auth login
-      const cred = await signInWithEmailAndPassword(auth, normalizedEmail, password);
-      const fbUser = cred.user;
+      if (isRegister) {
+        await handleRegister();
+        return;
+      }
 
-      // 2) Validate role + active from Firestore (users/{uid})
-      const userRef = doc(db, "users", fbUser.uid);
-      const snap = await getDoc(userRef);
+      // 1) Auth login (Firebase Auth, or local demo accounts)
+      const fbUser = await authBackend.signIn(normalizedEmail, password);
 
-      if (!snap.exists()) {
+      // 2) Validate role + active from users/{uid}
+      const snap = await storage.getDoc("users", fbUser.uid);
+
+      if (!snap) {
         setError("Account profile not found. Please contact the Superadmin.");
-        await signOut(auth);
+        await authBackend.signOut();
         return;
       }
 
-      const data = snap.data() as any;
+      const data = snap.data as any;
 
-      // ✅ Allowed roles: SUPERADMIN, OFFICER (keep strict)
+      // ✅ Allowed roles: SUPERADMIN, OFFICER, STUDENT
       const roleRaw = String(data.role || "").toUpperCase();
       const isOfficer = roleRaw === String(UserRole.OFFICER);
       const isSuperAdmin = roleRaw === String(UserRole.SUPERADMIN);
+      const isStudent = roleRaw === String(UserRole.STUDENT);
 
-      if (!isOfficer && !isSuperAdmin) {
+      if (!isOfficer && !isSuperAdmin && !isStudent) {
         setError("This account is not permitted to access the portal.");
-        await signOut(auth);
+        await authBackend.signOut();
         return;
       }
 
       if (data.active === false) {
         setError("This account is disabled. Please contact the Superadmin.");
-        await signOut(auth);
+        await authBackend.signOut();
         return;
       }
 
@@ -101,8 +128,10 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         id: fbUser.uid,
         name: data.name || fbUser.displayName || "User",
         email: fbUser.email || normalizedEmail,
-        role: isSuperAdmin ? UserRole.SUPERADMIN : UserRole.OFFICER,
+        role: isSuperAdmin ? UserRole.SUPERADMIN : isOfficer ? UserRole.OFFICER : UserRole.STUDENT,
         officerId: data.officerId,
+        ...(data.department ? { department: data.department } : {}),
+        scopes: profileScopes(data),
       };
 
       onLogin(user);
@@ -120,6 +149,10 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         setError("Account not found. Please contact the Superadmin.");
       } else if (code === "auth/too-many-requests") {
         setError("Too many attempts. Please try again later.");
+      } else if (code === "auth/email-already-in-use") {
+        setError("That email is already registered. Sign in instead.");
+      } else if (code === "auth/weak-password") {
+        setError("Weak password. Use at least 6 characters.");
       } else {
         setError(err?.message || "Login failed. Please try again.");
       }
@@ -232,10 +265,12 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
 
           <div className="mb-10 sm:mb-14">
             <h1 className="text-5xl sm:text-7xl font-black text-samasa-black mb-3 sm:mb-4 tracking-tight">
-              Sign in
+              {isRegister ? "Join" : "Sign in"}
             </h1>
             <p className="text-slate-500 font-medium text-base sm:text-lg">
-              Use your official account to access the portal.
+              {isRegister
+                ? "Create a student account to submit proposals and sign petitions."
+                : "Use your official or student account to access the portal."}
             </p>
           </div>
 
@@ -254,6 +289,28 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
             autoCapitalize="none"
             spellCheck={false}
           >
+            {/* Name (student registration) */}
+            {isRegister && (
+              <div className="space-y-2.5">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] ml-2">
+                  Full Name
+                </label>
+
+                <div className="relative group">
+                  <UserCircle className="absolute left-5 sm:left-6 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-300 group-focus-within:text-samasa-blue transition-colors" />
+                  <input
+                    name="name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                    autoComplete="name"
+                    className="w-full pl-14 sm:pl-16 pr-6 py-4 sm:py-6 bg-white border border-slate-200 rounded-[1.75rem] sm:rounded-[2rem] focus:ring-8 focus:ring-samasa-blue/5 focus:border-samasa-blue outline-none transition-all font-bold text-samasa-black shadow-xl shadow-black/[0.02]"
+                    placeholder="Juan Dela Cruz"
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Email */}
             <div className="space-y-2.5">
               <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] ml-2">
@@ -291,7 +348,7 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   required
-                  autoComplete="current-password"
+                  autoComplete={isRegister ? "new-password" : "current-password"}
                   className="w-full pl-14 sm:pl-16 pr-14 sm:pr-16 py-4 sm:py-6 bg-white border border-slate-200 rounded-[1.75rem] sm:rounded-[2rem] focus:ring-8 focus:ring-samasa-blue/5 focus:border-samasa-blue outline-none transition-all font-bold text-samasa-black shadow-xl shadow-black/[0.02]"
                   placeholder="••••••••"
                 />
@@ -317,16 +374,34 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
               {isLoading ? (
                 <div className="flex items-center space-x-4">
                   <div className="w-5 h-5 border-[3px] border-white/20 border-t-white rounded-full animate-spin" />
-                  <span>Authenticating...</span>
+                  <span>{isRegister ? "Creating account..." : "Authenticating..."}</span>
                 </div>
               ) : (
                 <>
-                  <span>Enter</span>
+                  <span>{isRegister ? "Create Account" : "Enter"}</span>
                   <ArrowRight className="ml-4 w-5 h-5 transition-transform group-hover:translate-x-2" />
                 </>
               )}
             </button>
 
+            <p className="text-xs text-slate-400 font-semibold text-center">
+              {isRegister ? (
+                <>
+                  Already have an account?{" "}
+                  <button type="button" onClick={() => switchMode("SIGN_IN")} className="text-samasa-blue font-black">
+                    Sign in
+                  </button>
+                </>
+              ) : (
+                <>
+                  Student without an account?{" "}
+                  <button type="button" onClick={() => switchMode("REGISTER")} className="text-samasa-blue font-black">
+                    Create one
+                  </button>
+                </>
+              )}
+            </p>
+
             <p className="text-xs text-slate-400 font-semibold text-center">
               Having trouble? Contact your Superadmin to verify your account status.
             </p>
@@ -345,7 +420,7 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
             </div>
 
             <div className="mt-4 text-xs text-slate-400 font-semibold">
-              Only registered officers and superadmin accounts can sign in.
+              Officer accounts are issued by the Superadmin. Students may register themselves.
             </div>
           </div>
         </div>
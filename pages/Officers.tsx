@@ -1,6 +1,6 @@
 // src/pages/Officers.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import {
   Officer,
   OfficerDivision,
@@ -10,6 +10,7 @@ import {
   DepartmentType,
   UserAccount,
   DepartmentId,
+  RoleGrant,
 } from "../types";
 import {
   ArrowLeft,
@@ -30,40 +31,73 @@ import {
   Mail,
   Lock,
   Link2,
+  ShieldCheck,
 } from "lucide-react";
 
-import { auth, db } from "../firebase/firebaseConfig";
-import {
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  onSnapshot,
-  orderBy,
-  query,
-  serverTimestamp,
-  setDoc,
-  updateDoc,
-  where,
-  writeBatch,
-} from "firebase/firestore";
-
-import { initializeApp, getApps } from "firebase/app";
-import { createUserWithEmailAndPassword, getAuth, signOut } from "firebase/auth";
+import { storage } from "../src/storage";
+import { accountAdmin, AccountProfile } from "../src/accountAdmin";
+import { BatchOp } from "../src/storageAdapter";
+import { useCouncilTerms, useDepartments, useOfficerAccounts, useOfficers } from "../src/repository";
+import { officerTermId, rosterFor, sittingTerm } from "../src/councilTerms";
+import CouncilTermSelector from "../components/CouncilTermSelector";
+import RoleGrantsEditor from "../components/RoleGrantsEditor";
+import RoleManager from "../components/RoleManager";
+import { moveToTrash } from "../src/trash";
+import { departmentPath } from "../src/departmentWorkspace";
+import { ALL_DEPARTMENTS, can, canAnywhere, grantsOf, roleName, saveGrants, useRoles } from "../src/permissions";
 
 interface OfficersProps {
   currentUser?: User | null;
 }
 
-const SECONDARY_APP_NAME = "samasa-secondary";
-
 const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
   const isSuperAdmin = currentUser?.role === UserRole.SUPERADMIN;
-  const isPublic = !isSuperAdmin;
+  // ✅ Officer cards are managed per department (officers.manage); departments and accounts stay SUPERADMIN
+  const canManageOfficers = (dept: DepartmentId) => can(currentUser, "officers.manage", dept);
+  const canManageAnyOfficers = canAnywhere(currentUser, "officers.manage");
+  const isPublic = !canManageAnyOfficers;
+
+  // ✅ Firestore data (shared listeners)
+  const { data: deptRows, loading: loadingDepts } = useDepartments();
+  const { data: allOfficers, loading: loadingOfficers } = useOfficers();
+  const { data: accounts } = useOfficerAccounts();
+  const { data: councilTerms } = useCouncilTerms();
+  const { data: roles } = useRoles();
+
+  // ✅ Council term being browsed (defaults to the sitting council)
+  const [viewTermId, setViewTermId] = useState("");
+  const sitting = sittingTerm(councilTerms);
+  const termId = councilTerms.some((t) => t.id === viewTermId) ? viewTermId : sitting?.id ?? "";
+  const viewedTerm = councilTerms.find((t) => t.id === termId) ?? null;
+  const isPastCouncil = !!viewedTerm && viewedTerm.id !== sitting?.id;
+
+  const officers = useMemo(
+    () => (councilTerms.length > 0 ? rosterFor(allOfficers, councilTerms, termId) : allOfficers),
+    [allOfficers, councilTerms, termId]
+  );
+  const sittingOfficers = useMemo(
+    () => (sitting ? rosterFor(allOfficers, councilTerms, sitting.id) : allOfficers),
+    [allOfficers, councilTerms, sitting]
+  );
 
-  const [departments, setDepartments] = useState<Department[]>([]);
-  const [officers, setOfficers] = useState<Officer[]>([]);
-  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  // Ensure SAMASA exists in UI (locked)
+  const departments = useMemo(() => {
+    const hasSamasa = deptRows.some((r) => String(r.id) === String(DepartmentType.SAMASA));
+    const finalRows = hasSamasa
+      ? deptRows
+      : ([
+          {
+            id: DepartmentType.SAMASA,
+            name: "SAMASA",
+            active: true,
+            order: 0,
+            locked: true,
+          } as Department,
+          ...deptRows,
+        ] as Department[]);
+
+    return finalRows.slice().sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  }, [deptRows]);
 
   const activeDepartments = useMemo(() => {
     return departments
@@ -75,6 +109,10 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
   const [selectedDeptId, setSelectedDeptId] = useState<string>(String(DepartmentType.MSA));
   const didInitSelectedDept = useRef(false);
 
+  // ✅ Deep links from global search: ?dept=<id>&officer=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [focusOfficerId, setFocusOfficerId] = useState<string | null>(null);
+
   // Officer editor modal
   const [editorOpen, setEditorOpen] = useState(false);
   const [editing, setEditing] = useState<Officer | null>(null);
@@ -109,137 +147,25 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
     updatedAt: Date.now(),
     active: true,
   });
+  const [acctGrants, setAcctGrants] = useState<RoleGrant[]>([]);
+  const [roleManagerOpen, setRoleManagerOpen] = useState(false);
 
   const deptName = (id: any) =>
     departments.find((d) => String(d.id) === String(id))?.name || String(id);
 
   const sortByOrder = (a: Officer, b: Officer) => (a.order ?? 0) - (b.order ?? 0);
 
-  const officerById = (id?: string) => officers.find((o) => o.id === id);
+  const officerById = (id?: string) => allOfficers.find((o) => o.id === id);
 
   const accountForOfficer = (officerId?: string) =>
     accounts.find(
       (a) => a.role === UserRole.OFFICER && String(a.officerId || "") === String(officerId || "")
     );
 
-  // ✅ Firestore listeners (FIXED: remove orderBy("createdAt") to avoid index failures)
+  // Keep the editable draft in sync with the live list
   useEffect(() => {
-    const deptQ = query(collection(db, "departments"), orderBy("order", "asc"));
-    const offQ = query(collection(db, "officers"), orderBy("order", "asc"));
-
-    // where(role == OFFICER) + orderBy(createdAt) often requires a composite index.
-    const acctQ = query(collection(db, "users"), where("role", "==", "OFFICER"));
-
-    const unsubDept = onSnapshot(
-      deptQ,
-      (snap) => {
-        const rows: Department[] = snap.docs.map((d) => {
-          const data = d.data() as any;
-          return {
-            id: String(data.id ?? d.id),
-            name: String(data.name ?? ""),
-            active: data.active !== false,
-            order: Number.isFinite(data.order) ? Number(data.order) : 0,
-            locked: String(data.id ?? d.id) === String(DepartmentType.SAMASA),
-          } as Department;
-        });
-
-        // Ensure SAMASA exists in UI (locked)
-        const hasSamasa = rows.some((r) => String(r.id) === String(DepartmentType.SAMASA));
-        const finalRows = hasSamasa
-          ? rows
-          : ([
-              {
-                id: DepartmentType.SAMASA,
-                name: "SAMASA",
-                active: true,
-                order: 0,
-                locked: true,
-              } as Department,
-              ...rows,
-            ] as Department[]);
-
-        const sorted = finalRows.slice().sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
-        setDepartments(sorted);
-        setDeptDraft(sorted);
-      },
-      (err) => {
-        console.error("departments onSnapshot error:", err);
-      }
-    );
-
-    const unsubOff = onSnapshot(
-      offQ,
-      (snap) => {
-        const rows: Officer[] = snap.docs.map((d) => {
-          const data = d.data() as any;
-          return {
-            id: d.id,
-            name: String(data.name ?? ""),
-            position: String(data.position ?? ""),
-            department: (data.department ?? DepartmentType.SAMASA) as any,
-            division: (data.division ?? OfficerDivision.EXECUTIVE) as any,
-            photoUrl: String(data.photoUrl ?? ""),
-            order: Number.isFinite(data.order) ? Number(data.order) : 0,
-          } as Officer;
-        });
-
-        setOfficers(rows);
-      },
-      (err) => {
-        console.error("officers onSnapshot error:", err);
-      }
-    );
-
-    const unsubAcct = onSnapshot(
-      acctQ,
-      (snap) => {
-        const rows: UserAccount[] = snap.docs.map((d) => {
-          const data = d.data() as any;
-
-          const createdAt =
-            typeof data.createdAt?.toMillis === "function"
-              ? data.createdAt.toMillis()
-              : Number.isFinite(Number(data.createdAt))
-              ? Number(data.createdAt)
-              : 0;
-
-          const updatedAt =
-            typeof data.updatedAt?.toMillis === "function"
-              ? data.updatedAt.toMillis()
-              : Number.isFinite(Number(data.updatedAt))
-              ? Number(data.updatedAt)
-              : 0;
-
-          return {
-            id: d.id,
-            name: String(data.name ?? ""),
-            email: String(data.email ?? ""),
-            password: "", // never stored/retrieved from Firestore
-            role: UserRole.OFFICER,
-            officerId: String(data.officerId ?? ""),
-            department: (data.department ?? DepartmentType.SAMASA) as any,
-            createdAt,
-            updatedAt,
-            active: data.active !== false,
-          } as UserAccount;
-        });
-
-        // ✅ Sort locally (instead of Firestore orderBy)
-        rows.sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0));
-        setAccounts(rows);
-      },
-      (err) => {
-        console.error("users(officer accounts) onSnapshot error:", err);
-      }
-    );
-
-    return () => {
-      unsubDept();
-      unsubOff();
-      unsubAcct();
-    };
-  }, []);
+    setDeptDraft(departments);
+  }, [departments]);
 
   // init/keep selected dept valid
   useEffect(() => {
@@ -254,6 +180,37 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
     if (!stillActive) setSelectedDeptId(String(activeDepartments[0]?.id || DepartmentType.MSA));
   }, [activeDepartments, selectedDeptId]);
 
+  useEffect(() => {
+    const dept = searchParams.get("dept");
+    const officerId = searchParams.get("officer");
+    if (!dept && !officerId) return;
+    if (loadingDepts || loadingOfficers) return;
+
+    if (dept && activeDepartments.some((d) => String(d.id) === dept)) {
+      didInitSelectedDept.current = true;
+      setSelectedDeptId(dept);
+    }
+    const linked = officerId ? allOfficers.find((o) => o.id === officerId) : undefined;
+    if (linked) {
+      setViewTermId(officerTermId(linked, councilTerms));
+      setFocusOfficerId(linked.id);
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, loadingDepts, loadingOfficers, activeDepartments, allOfficers, councilTerms]);
+
+  // Scroll to the linked card once it has rendered, then let the highlight fade
+  useEffect(() => {
+    if (!focusOfficerId) return;
+    const t = window.setTimeout(() => {
+      document.getElementById(`officer-${focusOfficerId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, 100);
+    const clear = window.setTimeout(() => setFocusOfficerId(null), 3000);
+    return () => {
+      window.clearTimeout(t);
+      window.clearTimeout(clear);
+    };
+  }, [focusOfficerId]);
+
   // Highlight detection
   const findExecutiveHighlights = (list: Officer[]) => {
     const by = (re: RegExp) => list.find((o) => re.test((o.position || "").toLowerCase()));
@@ -364,13 +321,17 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
 
   // Officers CRUD (Firestore)
   const openCreate = (dept?: string) => {
-    if (!isSuperAdmin) return;
+    if (!canManageAnyOfficers) return;
+    const preferred = dept || DepartmentType.SAMASA;
+    const department = canManageOfficers(preferred)
+      ? preferred
+      : String(departments.find((d) => canManageOfficers(String(d.id)))?.id ?? preferred);
     setEditing(null);
     setForm({
       id: "",
       name: "",
       position: "",
-      department: (dept || DepartmentType.SAMASA) as any,
+      department: department as any,
       division: OfficerDivision.EXECUTIVE,
       photoUrl: "",
       order: 0,
@@ -379,37 +340,40 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
   };
 
   const openEdit = (o: Officer) => {
-    if (!isSuperAdmin) return;
+    if (!canManageOfficers(o.department)) return;
     setEditing(o);
     setForm({ ...o, photoUrl: o.photoUrl || "" });
     setEditorOpen(true);
   };
 
   const removeOfficer = async (id: string) => {
-    if (!isSuperAdmin) return;
-    if (!confirm("Delete this officer entry?")) return;
+    const target = allOfficers.find((o) => o.id === id);
+    if (!target || !canManageOfficers(target.department) || !currentUser) return;
 
-    // If any accounts link to this officer, unlink them
+    // Linked accounts keep their link while the card is in the trash; purging unlinks them
     const linked = accounts.filter(
       (a) => a.role === UserRole.OFFICER && String(a.officerId) === String(id)
     );
-    if (linked.length > 0) {
-      const ok = confirm(`This officer has ${linked.length} linked account(s). Unlink them too?`);
-      if (ok) {
-        const batch = writeBatch(db);
-        linked.forEach((a) => {
-          batch.update(doc(db, "users", a.id), { officerId: "", updatedAt: serverTimestamp() });
-        });
-        await batch.commit();
-      }
-    }
+    const msg =
+      linked.length > 0
+        ? `Move this officer entry to the trash? It stays linked to ${linked.length} account(s) until purged.`
+        : "Move this officer entry to the trash?";
+    if (!confirm(msg)) return;
 
-    await deleteDoc(doc(db, "officers", id));
+    try {
+      await moveToTrash("officers", id, currentUser);
+    } catch (err: any) {
+      console.error("DELETE OFFICER ERROR:", err);
+      alert(err?.message || "Failed to delete officer.");
+    }
   };
 
   const submitOfficer = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isSuperAdmin) return;
+    if (!canManageAnyOfficers) return;
+    if (!canManageOfficers(form.department) || (editing && !canManageOfficers(editing.department))) {
+      return alert("You can only manage officer cards in your own department(s).");
+    }
 
     if (!editing && !form.photoUrl) {
       alert("Please upload a photo before saving.");
@@ -430,27 +394,27 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
     if (!clean.name || !clean.position) return;
 
     if (editing?.id) {
-      await updateDoc(doc(db, "officers", editing.id), {
+      await storage.update("officers", editing.id, {
         name: clean.name,
         position: clean.position,
         department: clean.department,
         division: clean.division,
         photoUrl: clean.photoUrl,
         order: clean.order,
-        updatedAt: serverTimestamp(),
+        updatedAt: storage.now(),
       });
     } else {
-      // Create with Firestore-generated id
-      const newRef = doc(collection(db, "officers"));
-      await setDoc(newRef, {
+      // Create with a backend-generated id
+      await storage.add("officers", {
         name: clean.name,
         position: clean.position,
         department: clean.department,
         division: clean.division,
         photoUrl: clean.photoUrl,
         order: clean.order,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
+        ...(termId ? { councilTermId: termId } : {}),
+        createdAt: storage.now(),
+        updatedAt: storage.now(),
       });
     }
 
@@ -458,19 +422,7 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
     setEditing(null);
   };
 
-  // Accounts CRUD (Firestore users + Firebase Auth create)
-  const getSecondaryAuth = () => {
-    const options = (auth as any)?.app?.options;
-    if (!options)
-      throw new Error(
-        "Firebase app options not found. Ensure auth is initialized from firebaseConfig."
-      );
-
-    const existing = getApps().find((a) => a.name === SECONDARY_APP_NAME);
-    const secondaryApp = existing ?? initializeApp(options, SECONDARY_APP_NAME);
-    return getAuth(secondaryApp);
-  };
-
+  // Accounts CRUD (accountAdmin keeps the login and users/{uid} together)
   const openAccountsManager = () => {
     if (!isSuperAdmin) return;
     setAcctEditing(null);
@@ -486,6 +438,7 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
       updatedAt: Date.now(),
       active: true,
     });
+    setAcctGrants([{ roleId: "officer", department: selectedDeptId }]);
     setAcctModalOpen(true);
   };
 
@@ -503,19 +456,34 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
       updatedAt: Date.now(),
       active: true,
     });
+    setAcctGrants([{ roleId: "officer", department: selectedDeptId }]);
   };
 
   const openEditAccount = (a: UserAccount) => {
     setAcctEditing(a);
     setAcctForm({ ...a, password: "", updatedAt: Date.now() });
+    setAcctGrants(grantsOf(a));
+  };
+
+  const accountErrorMessage = (err: any, fallback: string) => {
+    const code = String(err?.code || "");
+    if (code === "auth/email-already-exists" || code === "auth/email-already-in-use") {
+      return "That email is already registered in Firebase Auth.";
+    }
+    if (code === "auth/invalid-email") return "Invalid email.";
+    if (code === "auth/weak-password") return "Weak password. Use a stronger password (6+ characters).";
+    return err?.message || fallback;
   };
 
   const deleteAccount = async (id: string) => {
-    if (!confirm("Delete this officer account?")) return;
-    await deleteDoc(doc(db, "users", id));
-    alert(
-      "Account profile deleted. If you also need to delete the Auth login, do it via Admin SDK / Firebase Console."
-    );
+    if (!confirm("Delete this officer account? Their login is removed too.")) return;
+    try {
+      await accountAdmin.remove(id);
+      if (acctEditing?.id === id) openCreateAccount();
+    } catch (err: any) {
+      console.error("DELETE ACCOUNT ERROR:", err);
+      alert(accountErrorMessage(err, "Failed to delete account."));
+    }
   };
 
   const submitAccount = async (e: React.FormEvent) => {
@@ -528,69 +496,43 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
     if (!acctEditing && !acctForm.password) return alert("Password is required.");
 
     // Email uniqueness check (Firestore)
-    const qEmail = query(collection(db, "users"), where("email", "==", emailNorm));
-    const snapEmail = await getDocs(qEmail);
-    const clash = snapEmail.docs.find((d) => d.id !== acctForm.id);
+    const emailRows = await storage.getDocs("users", { where: [["email", "==", emailNorm]] });
+    const clash = emailRows.find((d) => d.id !== acctForm.id);
     if (clash) return alert("Email already exists. Use another email.");
 
     if (acctForm.officerId) {
-      const qOfficer = query(
-        collection(db, "users"),
-        where("role", "==", "OFFICER"),
-        where("officerId", "==", String(acctForm.officerId))
-      );
-      const snapOfficer = await getDocs(qOfficer);
-      const officerClash = snapOfficer.docs.find((d) => d.id !== acctForm.id);
+      const officerRows = await storage.getDocs("users", {
+        where: [
+          ["role", "==", "OFFICER"],
+          ["officerId", "==", String(acctForm.officerId)],
+        ],
+      });
+      const officerClash = officerRows.find((d) => d.id !== acctForm.id);
       if (officerClash) return alert("That Officer card is already linked to another account.");
     }
 
-    if (acctEditing) {
-      await updateDoc(doc(db, "users", acctEditing.id), {
-        name: acctForm.name.trim(),
-        email: emailNorm,
-        role: "OFFICER",
-        officerId: acctForm.officerId ? String(acctForm.officerId) : "",
-        department: acctForm.department as any,
-        active: acctForm.active !== false,
-        updatedAt: serverTimestamp(),
-      });
-
-      if (acctForm.password) {
-        alert("Password changes for other users require Admin SDK. This form updated profile only.");
-      }
-
-      openCreateAccount();
-      return;
-    }
+    const profile: AccountProfile = {
+      name: acctForm.name.trim(),
+      email: emailNorm,
+      officerId: acctForm.officerId ? String(acctForm.officerId) : "",
+      department: acctForm.department,
+      active: acctForm.active !== false,
+    };
 
     try {
-      const secondaryAuth = getSecondaryAuth();
-      const cred = await createUserWithEmailAndPassword(
-        secondaryAuth,
-        emailNorm,
-        acctForm.password
-      );
-      const uid = cred.user.uid;
-
-      await setDoc(doc(db, "users", uid), {
-        name: acctForm.name.trim(),
-        email: emailNorm,
-        role: "OFFICER",
-        officerId: acctForm.officerId ? String(acctForm.officerId) : "",
-        department: acctForm.department as any,
-        active: acctForm.active !== false,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
-
-      await signOut(secondaryAuth);
+      let uid = acctEditing?.id ?? "";
+      if (acctEditing) {
+        await accountAdmin.update(acctEditing.id, profile);
+        if (acctForm.password) await accountAdmin.setPassword(acctEditing.id, acctForm.password);
+      } else {
+        uid = await accountAdmin.create(profile, acctForm.password);
+      }
+      // ✅ roles live on the profile; scopes are re-derived with them
+      await saveGrants(uid, acctGrants, roles, currentUser!);
       openCreateAccount();
     } catch (err: any) {
-      const code = String(err?.code || "");
-      if (code === "auth/email-already-in-use") alert("That email is already registered in Firebase Auth.");
-      else if (code === "auth/invalid-email") alert("Invalid email.");
-      else if (code === "auth/weak-password") alert("Weak password. Use a stronger password (6+ characters).");
-      else alert(err?.message || "Failed to create account.");
+      console.error("SAVE ACCOUNT ERROR:", err);
+      alert(accountErrorMessage(err, acctEditing ? "Failed to update account." : "Failed to create account."));
     }
   };
 
@@ -622,26 +564,30 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
     setDeptDraft((p) => p.filter((d) => String(d.id) !== String(deptId)));
 
     (async () => {
-      const toMoveOfficers = officers.filter((o) => String(o.department) === String(deptId));
+      const toMoveOfficers = allOfficers.filter((o) => String(o.department) === String(deptId));
       const toMoveAccounts = accounts.filter((a) => String(a.department) === String(deptId));
 
-      const batch = writeBatch(db);
+      const ops: BatchOp[] = [];
 
       toMoveOfficers.forEach((o) => {
-        batch.update(doc(db, "officers", o.id), {
-          department: DepartmentType.SAMASA,
-          updatedAt: serverTimestamp(),
+        ops.push({
+          type: "update",
+          path: "officers",
+          id: o.id,
+          data: { department: DepartmentType.SAMASA, updatedAt: storage.now() },
         });
       });
 
       toMoveAccounts.forEach((a) => {
-        batch.update(doc(db, "users", a.id), {
-          department: DepartmentType.SAMASA,
-          updatedAt: serverTimestamp(),
+        ops.push({
+          type: "update",
+          path: "users",
+          id: a.id,
+          data: { department: DepartmentType.SAMASA, updatedAt: storage.now() },
         });
       });
 
-      await batch.commit();
+      await storage.batch(ops);
     })();
   };
 
@@ -661,36 +607,37 @@ const Officers: React.FC<OfficersProps> = ({ currentUser }) => {
 
     const sorted = final.slice().sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
 
-    const existingSnap = await getDocs(collection(db, "departments"));
-    const existingIds = new Set(existingSnap.docs.map((d) => String((d.data() as any)?.id ?? d.id)));
+    const existingRows = await storage.getDocs("departments");
+    const existingIds = new Set(existingRows.map((d) => String(d.data?.id ?? d.id)));
     const nextIds = new Set(sorted.map((d) => String(d.id)));
 
-    const batch = writeBatch(db);
+    const ops: BatchOp[] = [];
 
     sorted.forEach((d) => {
       const id = String(d.id);
-      const ref = doc(db, "departments", id);
-      batch.set(
-        ref,
-        {
+      ops.push({
+        type: "set",
+        path: "departments",
+        id,
+        data: {
           id,
           name: d.name,
           active: d.active !== false,
           order: Number.isFinite(d.order) ? Number(d.order) : 0,
           locked: String(id) === String(DepartmentType.SAMASA),
-          updatedAt: serverTimestamp(),
-          ...(existingIds.has(id) ? {} : { createdAt: serverTimestamp() }),
+          updatedAt: storage.now(),
+          ...(existingIds.has(id) ? {} : { createdAt: storage.now() }),
         },
-        { merge: true }
-      );
+        merge: true,
+      });
     });
 
     existingIds.forEach((id) => {
       if (String(id) === String(DepartmentType.SAMASA)) return;
-      if (!nextIds.has(id)) batch.delete(doc(db, "departments", id));
+      if (!nextIds.has(id)) ops.push({ type: "delete", path: "departments", id });
     });
 
-    await batch.commit();
+    await storage.batch(ops);
 
     const stillActive = sorted
       .filter((d) => String(d.id) !== String(DepartmentType.SAMASA) && d.active)
@@ -814,8 +761,11 @@ const renderExecutiveHighlightCard = (
 
   return (
     <div
+      id={`officer-${o.id}`}
       className={`group relative overflow-hidden border rounded-[2.8rem] ${card}
-      p-8 sm:p-10 transition-all hover:-translate-y-1 hover:shadow-2xl`}
+      p-8 sm:p-10 transition-all hover:-translate-y-1 hover:shadow-2xl ${
+        focusOfficerId === o.id ? "ring-4 ring-samasa-yellow" : ""
+      }`}
     >
       <div className={`absolute top-0 left-0 w-full h-2 ${topBar}`} />
 
@@ -932,8 +882,11 @@ const renderOfficerCard = (
 
   return (
     <div
+      id={`officer-${o.id}`}
       className={`group relative overflow-hidden border rounded-[2.8rem] ${pad} ${safeTopPad} ${minH}
-      transition-all hover:-translate-y-1 hover:shadow-2xl ${card}`}
+      transition-all hover:-translate-y-1 hover:shadow-2xl ${card} ${
+        focusOfficerId === o.id ? "ring-4 ring-samasa-yellow" : ""
+      }`}
     >
       <div className={`absolute top-0 left-0 w-full h-2 ${topBar}`} />
 
@@ -950,7 +903,7 @@ const renderOfficerCard = (
 )}
 
 
-      {isSuperAdmin && (
+      {canManageOfficers(o.department) && (
         <div className="absolute top-6 right-6 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
           <button
             onClick={() => openEdit(o)}
@@ -1125,8 +1078,9 @@ const renderOfficerCard = (
     );
   };
 
+  // accounts link to cards of the sitting council
   const officerChoices = useMemo(() => {
-    return officers
+    return sittingOfficers
       .slice()
       .sort((a, b) => (a.name || "").localeCompare(b.name || ""))
       .map((o) => ({
@@ -1135,7 +1089,7 @@ const renderOfficerCard = (
           String(o.department) === String(DepartmentType.SAMASA) ? "SAMASA" : deptName(o.department)
         })`,
       }));
-  }, [officers, departments]);
+  }, [sittingOfficers, departments]);
 
   const officerAccounts = useMemo(
     () =>
@@ -1150,7 +1104,7 @@ const renderOfficerCard = (
     <div className="min-h-screen bg-slate-50">
       <div className="max-w-7xl mx-auto pb-28 px-6">
         <div className="pt-10 mb-8 flex items-start justify-between gap-6 flex-wrap">
-          <div className="h-14 flex items-center">
+          <div className="min-h-14 flex flex-wrap items-center gap-4">
             {!isSuperAdmin && (
               <Link
                 to="/"
@@ -1162,13 +1116,23 @@ const renderOfficerCard = (
                 <span className="text-[10px] font-black uppercase tracking-[0.25em]">Exit to Portal</span>
               </Link>
             )}
+
+            <CouncilTermSelector
+              user={currentUser}
+              terms={councilTerms}
+              value={termId}
+              onChange={setViewTermId}
+              officers={allOfficers}
+              accounts={accounts}
+              deptName={deptName}
+            />
           </div>
 
-          {isSuperAdmin && (
+          {canManageAnyOfficers && (
             <div className="w-full lg:w-auto">
               <div className="bg-white border border-slate-200 rounded-[2rem] p-4 sm:p-5 shadow-sm">
                 <div className="text-[10px] font-black uppercase tracking-[0.35em] text-slate-400 mb-3 px-2">
-                  Superadmin Controls
+                  {isSuperAdmin ? "Superadmin Controls" : "Directory Controls"}
                 </div>
 
                 <div className="flex flex-wrap gap-3">
@@ -1180,21 +1144,25 @@ const renderOfficerCard = (
                     Add
                   </button>
 
-                  <button
-                    onClick={openDeptManager}
-                    className="inline-flex items-center gap-3 px-5 py-4 rounded-2xl bg-white border border-slate-200 text-slate-800 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-50 transition-all active:scale-95"
-                  >
-                    <SlidersHorizontal className="w-4 h-4 text-samasa-blue" />
-                    Manage Departments
-                  </button>
+                  {isSuperAdmin && (
+                    <button
+                      onClick={openDeptManager}
+                      className="inline-flex items-center gap-3 px-5 py-4 rounded-2xl bg-white border border-slate-200 text-slate-800 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-50 transition-all active:scale-95"
+                    >
+                      <SlidersHorizontal className="w-4 h-4 text-samasa-blue" />
+                      Manage Departments
+                    </button>
+                  )}
 
-                  <button
-                    onClick={openAccountsManager}
-                    className="inline-flex items-center gap-3 px-5 py-4 rounded-2xl bg-white border border-slate-200 text-slate-800 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-50 transition-all active:scale-95"
-                  >
-                    <Users className="w-4 h-4 text-samasa-blue" />
-                    Manage Officer Accounts
-                  </button>
+                  {isSuperAdmin && (
+                    <button
+                      onClick={openAccountsManager}
+                      className="inline-flex items-center gap-3 px-5 py-4 rounded-2xl bg-white border border-slate-200 text-slate-800 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-50 transition-all active:scale-95"
+                    >
+                      <Users className="w-4 h-4 text-samasa-blue" />
+                      Manage Officer Accounts
+                    </button>
+                  )}
                 </div>
 
                 <div className="mt-4 text-xs font-semibold text-slate-400 flex items-center gap-2">
@@ -1206,6 +1174,22 @@ const renderOfficerCard = (
           )}
         </div>
 
+        {isPastCouncil && viewedTerm && (
+          <div className="mb-8 px-6 py-5 rounded-[2rem] bg-samasa-yellow/20 border border-samasa-yellow/40 flex flex-wrap items-center justify-between gap-4">
+            <div className="text-[10px] font-black uppercase tracking-[0.3em] text-samasa-black">
+              {viewedTerm.startDate > new Date().toISOString().slice(0, 10) ? "Upcoming council" : "Past council"} •{" "}
+              {viewedTerm.label} ({viewedTerm.startDate} → {viewedTerm.endDate})
+            </div>
+            <button
+              type="button"
+              onClick={() => setViewTermId(sitting?.id ?? "")}
+              className="text-[10px] font-black uppercase tracking-widest text-samasa-blue hover:text-samasa-black transition-colors"
+            >
+              Back to sitting council
+            </button>
+          </div>
+        )}
+
         <section className="mb-24">
           <div className="rounded-[3rem] overflow-hidden border border-slate-200 bg-white">
             <div className="p-10 sm:p-14 bg-samasa-black text-white relative">
@@ -1295,6 +1279,12 @@ const renderOfficerCard = (
             <div className="flex items-center gap-3 mb-8 text-slate-400">
               <Hexagon className="w-4 h-4 text-samasa-blue" />
               <div className="text-[10px] font-black uppercase tracking-[0.35em]">{deptName(selectedDeptId)} Council</div>
+              <Link
+                to={departmentPath(selectedDeptId)}
+                className="ml-auto text-[10px] font-black uppercase tracking-[0.25em] text-samasa-blue hover:underline"
+              >
+                Department Page
+              </Link>
             </div>
 
             {sectionHeader("Executive", deptGrouped.exec.length)}
@@ -1328,7 +1318,7 @@ const renderOfficerCard = (
       </div>
 
       {/* Officer Editor */}
-      {editorOpen && isSuperAdmin && (
+      {editorOpen && canManageAnyOfficers && (
         <div className="fixed inset-0 z-[100] bg-samasa-black/80 backdrop-blur-md p-4">
           <div className="mx-auto w-full max-w-2xl max-h-[90vh] overflow-hidden bg-white rounded-[3rem] border border-white/30 shadow-2xl">
             <div className="p-8 sm:p-10 border-b border-slate-100 flex items-start justify-between gap-6 sticky top-0 bg-white z-10">
@@ -1388,6 +1378,7 @@ const renderOfficerCard = (
                       className="w-full px-5 py-4 rounded-2xl bg-white border border-slate-200 font-black text-[10px] uppercase tracking-[0.25em] text-slate-700 focus:outline-none focus:ring-2 focus:ring-samasa-blue/30"
                     >
                       {departments
+                        .filter((d) => canManageOfficers(String(d.id)) || String(d.id) === String(form.department))
                         .slice()
                         .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
                         .map((d) => (
@@ -1625,13 +1616,22 @@ const renderOfficerCard = (
                 </div>
               </div>
 
-              <button
-                onClick={() => setAcctModalOpen(false)}
-                className="p-3 rounded-2xl hover:bg-slate-100 text-slate-400 hover:text-samasa-black transition-all"
-                aria-label="Close"
-              >
-                <X className="w-6 h-6" />
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setRoleManagerOpen(true)}
+                  className="inline-flex items-center gap-2 px-5 py-3 rounded-2xl bg-slate-50 border border-slate-200 text-slate-700 font-black text-[10px] uppercase tracking-[0.25em] hover:bg-slate-100 transition-all active:scale-95"
+                >
+                  <ShieldCheck className="w-4 h-4 text-samasa-blue" />
+                  Roles
+                </button>
+                <button
+                  onClick={() => setAcctModalOpen(false)}
+                  className="p-3 rounded-2xl hover:bg-slate-100 text-slate-400 hover:text-samasa-black transition-all"
+                  aria-label="Close"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
             </div>
 
             <div className="max-h-[calc(90vh-96px)] overflow-y-auto p-8 sm:p-10 space-y-10">
@@ -1721,6 +1721,19 @@ const renderOfficerCard = (
                     </div>
                   </div>
 
+                  <div className="lg:col-span-2">
+                    <label className="block text-[10px] font-black uppercase tracking-[0.3em] text-slate-400 mb-2">
+                      Roles
+                    </label>
+                    <RoleGrantsEditor
+                      grants={acctGrants}
+                      onChange={setAcctGrants}
+                      roles={roles}
+                      departments={departments.map((d) => ({ id: d.id, name: deptName(d.id) }))}
+                      defaultDepartment={acctForm.department || DepartmentType.SAMASA}
+                    />
+                  </div>
+
                   <div className="lg:col-span-2 flex items-center justify-between flex-wrap gap-3 mt-2">
                     <button
                       type="button"
@@ -1807,6 +1820,17 @@ const renderOfficerCard = (
                                   Not linked
                                 </span>
                               )}
+
+                              {grantsOf(a).map((g) => (
+                                <span
+                                  key={`${g.roleId}@${g.department}`}
+                                  className="inline-flex items-center gap-2 px-3 py-2 rounded-full text-[10px] font-black uppercase tracking-[0.25em] bg-samasa-blue/5 border border-samasa-blue/10 text-samasa-blue"
+                                >
+                                  <ShieldCheck className="w-4 h-4" />
+                                  {roleName(roles, g.roleId)} ·{" "}
+                                  {g.department === ALL_DEPARTMENTS ? "All" : deptName(g.department)}
+                                </span>
+                              ))}
                             </div>
                           </div>
 
@@ -1843,12 +1867,21 @@ const renderOfficerCard = (
               </div>
 
               <div className="text-xs font-semibold text-slate-400">
-                Note: Deleting an officer card can also unlink its linked account(s). Deleting Auth users requires Admin SDK.
+                Note: Deleting an officer card can also unlink its linked account(s). Disabled accounts can no longer sign in.
               </div>
             </div>
           </div>
         </div>
       )}
+
+      {roleManagerOpen && isSuperAdmin && currentUser && (
+        <RoleManager
+          user={currentUser}
+          roles={roles}
+          accounts={officerAccounts}
+          onClose={() => setRoleManagerOpen(false)}
+        />
+      )}
     </div>
   );
 };
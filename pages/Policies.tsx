@@ -0,0 +1,313 @@
+// src/pages/Policies.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, FileText, Gavel, Pencil, Plus, Scale, Search, X } from "lucide-react";
+import { DepartmentType, Policy, PolicyKind, PolicyStatus, User, UserRole } from "../types";
+import { usePolicies, useProposals } from "../src/repository";
+import {
+  POLICY_KIND_LABEL,
+  POLICY_STATUS_LABEL,
+  policyLinks,
+  policyStatus,
+  searchPolicies,
+} from "../src/policies";
+import PolicyForm from "../components/PolicyForm";
+
+interface PoliciesProps {
+  currentUser?: User | null;
+}
+
+const STATUS_STYLE: Record<PolicyStatus, string> = {
+  IN_FORCE: "bg-emerald-50 border-emerald-100 text-emerald-700",
+  AMENDED: "bg-amber-50 border-amber-100 text-amber-700",
+  REPEALED: "bg-red-50 border-red-100 text-samasa-red",
+};
+
+const StatusBadge: React.FC<{ status: PolicyStatus }> = ({ status }) => (
+  <span
+    className={`inline-flex items-center px-2.5 py-1 rounded-xl border text-[10px] font-black uppercase tracking-widest ${STATUS_STYLE[status]}`}
+  >
+    {POLICY_STATUS_LABEL[status]}
+  </span>
+);
+
+/** Public registry of enacted resolutions/ordinances */
+const Policies: React.FC<PoliciesProps> = ({ currentUser }) => {
+  const canManage = currentUser?.role === UserRole.SUPERADMIN;
+
+  const { data: policies, loading } = usePolicies();
+  const { data: proposals } = useProposals();
+
+  const [query, setQuery] = useState("");
+  const [kindFilter, setKindFilter] = useState<PolicyKind | "ALL">("ALL");
+  const [statusFilter, setStatusFilter] = useState<PolicyStatus | "ALL">("ALL");
+  const [deptFilter, setDeptFilter] = useState<string>("ALL");
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Policy | null>(null);
+
+  const selected = policies.find((p) => p.id === selectedId) ?? null;
+
+  // ✅ lock body scroll while the detail modal is open
+  useEffect(() => {
+    if (!selected) return;
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, [selected]);
+
+  const filtered = useMemo(
+    () =>
+      searchPolicies(policies, query).filter(
+        (p) =>
+          (kindFilter === "ALL" || p.kind === kindFilter) &&
+          (deptFilter === "ALL" || p.department === deptFilter) &&
+          (statusFilter === "ALL" || policyStatus(p, policies) === statusFilter)
+      ),
+    [policies, query, kindFilter, deptFilter, statusFilter]
+  );
+
+  const links = selected ? policyLinks(selected, policies) : null;
+  const sourceProposal = selected?.proposalId ? proposals.find((p) => p.id === selected.proposalId) : null;
+
+  const selectClass =
+    "px-4 py-3 bg-white border border-slate-200 rounded-2xl font-bold text-sm outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue transition-all";
+
+  const renderLinkGroup = (label: string, list: Policy[]) =>
+    list.length > 0 && (
+      <div>
+        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">{label}</div>
+        <div className="flex flex-wrap gap-2">
+          {list.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => setSelectedId(p.id)}
+              className="px-3 py-1.5 rounded-xl bg-slate-50 border border-slate-100 text-xs font-black text-samasa-blue hover:bg-samasa-blue hover:text-white transition-all"
+              title={p.title}
+            >
+              {p.code}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="max-w-7xl mx-auto pb-28 px-6">
+        <div className="pt-10 mb-8 flex items-start justify-between gap-6 flex-wrap">
+          <div className="h-14 flex items-center">
+            {!currentUser && (
+              <Link
+                to="/"
+                className="group inline-flex items-center gap-3 text-slate-500 hover:text-samasa-black transition-all"
+              >
+                <div className="w-11 h-11 rounded-2xl bg-white border border-slate-200 flex items-center justify-center group-hover:bg-samasa-black group-hover:text-white transition-all shadow-sm">
+                  <ArrowLeft size={18} />
+                </div>
+                <span className="text-[10px] font-black uppercase tracking-[0.25em]">Exit to Portal</span>
+              </Link>
+            )}
+          </div>
+
+          {canManage && (
+            <button
+              type="button"
+              onClick={() => {
+                setEditing(null);
+                setFormOpen(true);
+              }}
+              className="px-6 py-4 bg-samasa-black text-white font-black rounded-2xl hover:bg-samasa-blue transition-all active:scale-[0.98] text-[10px] uppercase tracking-[0.3em] flex items-center gap-3"
+            >
+              <Plus className="w-4 h-4" />
+              Enact Policy
+            </button>
+          )}
+        </div>
+
+        <div className="mb-10">
+          <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-[0.35em] text-slate-400">
+            <Scale size={14} />
+            Policy Registry
+          </div>
+          <h1 className="mt-3 text-5xl sm:text-6xl font-black tracking-tighter text-samasa-black">
+            Resolutions & Ordinances
+          </h1>
+          <p className="mt-4 max-w-2xl text-slate-500 font-medium">
+            Every enacted policy with its full text, what it amends or repeals, and the proposal it came from.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-8 flex flex-col lg:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-5 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by code, title or text…"
+              className={`${selectClass} w-full pl-12`}
+            />
+          </div>
+          <select value={kindFilter} onChange={(e) => setKindFilter(e.target.value as any)} className={selectClass}>
+            <option value="ALL">All kinds</option>
+            {(Object.keys(POLICY_KIND_LABEL) as PolicyKind[]).map((k) => (
+              <option key={k} value={k}>
+                {POLICY_KIND_LABEL[k]}
+              </option>
+            ))}
+          </select>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as any)} className={selectClass}>
+            <option value="ALL">Any status</option>
+            {(Object.keys(POLICY_STATUS_LABEL) as PolicyStatus[]).map((s) => (
+              <option key={s} value={s}>
+                {POLICY_STATUS_LABEL[s]}
+              </option>
+            ))}
+          </select>
+          <select value={deptFilter} onChange={(e) => setDeptFilter(e.target.value)} className={selectClass}>
+            <option value="ALL">All departments</option>
+            {Object.values(DepartmentType).map((d) => (
+              <option key={d} value={d}>
+                {d}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* List */}
+        <div className="space-y-3">
+          {filtered.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => setSelectedId(p.id)}
+              className="w-full text-left p-6 rounded-[2rem] bg-white border border-slate-200 shadow-sm hover:border-samasa-blue transition-all"
+            >
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-[10px] font-black uppercase tracking-widest text-samasa-blue">{p.code}</div>
+                  <div className="mt-1 text-lg font-black text-samasa-black tracking-tight truncate">{p.title}</div>
+                  {p.description && (
+                    <div className="mt-1 text-sm font-medium text-slate-500 line-clamp-2">{p.description}</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <StatusBadge status={policyStatus(p, policies)} />
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{p.dateApproved}</span>
+                </div>
+              </div>
+            </button>
+          ))}
+
+          {filtered.length === 0 && (
+            <div className="py-16 text-center text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+              {loading ? "Loading…" : "No policies found"}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Detail */}
+      {selected && links && (
+        <div className="fixed inset-0 z-[500]">
+          <div className="absolute inset-0 bg-samasa-black/40 backdrop-blur-md" onClick={() => setSelectedId(null)} />
+          <div className="relative h-full w-full flex items-center justify-center p-4 sm:p-6">
+            <div
+              className="w-full max-w-3xl bg-white rounded-[2.25rem] shadow-2xl flex flex-col overflow-hidden"
+              style={{ maxHeight: "90vh" }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="px-6 sm:px-8 py-6 border-b border-slate-100 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <Gavel size={14} />
+                    {selected.code}
+                    <StatusBadge status={policyStatus(selected, policies)} />
+                  </div>
+                  <div className="mt-2 text-3xl font-black tracking-tighter text-samasa-black">{selected.title}</div>
+                  <div className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {POLICY_KIND_LABEL[selected.kind]} • {selected.department} • Approved {selected.dateApproved}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {canManage && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditing(selected);
+                        setFormOpen(true);
+                      }}
+                      className="w-11 h-11 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-blue hover:text-white transition-all flex items-center justify-center"
+                      title="Edit"
+                    >
+                      <Pencil size={18} />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(null)}
+                    className="w-11 h-11 rounded-2xl bg-slate-50 text-slate-400 hover:bg-samasa-red hover:text-white transition-all flex items-center justify-center"
+                  >
+                    <X size={18} />
+                  </button>
+                </div>
+              </div>
+
+              <div className="px-6 sm:px-8 py-6 overflow-y-auto space-y-6">
+                {selected.description && (
+                  <div className="text-slate-600 font-medium leading-relaxed">{selected.description}</div>
+                )}
+
+                {renderLinkGroup("Amends", links.amends)}
+                {renderLinkGroup("Repeals", links.repeals)}
+                {renderLinkGroup("Amended by", links.amendedBy)}
+                {renderLinkGroup("Repealed by", links.repealedBy)}
+
+                {sourceProposal && (
+                  <div>
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                      Source proposal
+                    </div>
+                    <div className="flex items-center gap-3 p-4 rounded-2xl bg-slate-50 border border-slate-100">
+                      <FileText className="w-4 h-4 text-samasa-blue shrink-0" />
+                      <div className="min-w-0">
+                        <div className="font-black text-samasa-black text-sm truncate">{sourceProposal.title}</div>
+                        <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                          {sourceProposal.proponent} • {sourceProposal.dateSubmitted}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Full text</div>
+                  <div className="p-6 rounded-2xl bg-slate-50 border border-slate-100 whitespace-pre-wrap text-sm font-medium leading-relaxed text-slate-700">
+                    {selected.fullText || "—"}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {formOpen && currentUser && (
+        <PolicyForm
+          user={currentUser}
+          policies={policies}
+          policy={editing}
+          onClose={() => setFormOpen(false)}
+          onSaved={(id) => setSelectedId(id)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Policies;
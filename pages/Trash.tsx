@@ -0,0 +1,229 @@
+// src/pages/Trash.tsx
+import React, { useMemo, useState } from "react";
+import { Trash2, RotateCcw, Search, Filter, Clock } from "lucide-react";
+import { TrashCollection, TrashItem, User, UserRole } from "../types";
+import {
+  purgeExpiredTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  TRASH_COLLECTIONS,
+  TRASH_LABELS,
+  TRASH_RETENTION_DAYS,
+  useTrash,
+} from "../src/trash";
+
+interface TrashProps {
+  user: User;
+}
+
+type CollectionKey = TrashCollection | "ALL";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fmtDate = (ms: number) =>
+  ms ? new Date(ms).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "2-digit" }) : "—";
+
+const Trash: React.FC<TrashProps> = ({ user }) => {
+  const isSuperAdmin = user.role === UserRole.SUPERADMIN;
+
+  const { data: items, loading } = useTrash();
+
+  const [search, setSearch] = useState("");
+  const [collection, setCollection] = useState<CollectionKey>("ALL");
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return items.filter((i) => {
+      if (collection !== "ALL" && i.collection !== collection) return false;
+      if (!q) return true;
+      return i.title.toLowerCase().includes(q) || i.deletedByName.toLowerCase().includes(q);
+    });
+  }, [items, search, collection]);
+
+  const keyOf = (i: TrashItem) => `${i.collection}/${i.id}`;
+
+  const restore = async (i: TrashItem) => {
+    if (!isSuperAdmin) return;
+
+    let reason: string | undefined;
+    if (i.collection === "budgetEntries") {
+      // ✅ budget changes are audited, so ask why it's coming back
+      reason = String(prompt("Reason for restoring this budget entry:") ?? "").trim();
+      if (!reason) return alert("A reason is required to restore a budget entry.");
+    }
+
+    setBusyKey(keyOf(i));
+    try {
+      await restoreFromTrash(i, user, reason);
+    } catch (err: any) {
+      console.error("RESTORE ERROR:", err);
+      alert(err?.message || "Failed to restore item.");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const purge = async (i: TrashItem) => {
+    if (!isSuperAdmin) return;
+    if (!confirm(`Permanently delete "${i.title}"? This cannot be undone.`)) return;
+
+    setBusyKey(keyOf(i));
+    try {
+      await purgeFromTrash(i, user);
+    } catch (err: any) {
+      console.error("PURGE ERROR:", err);
+      alert(err?.message || "Failed to purge item.");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const purgeExpired = async () => {
+    if (!isSuperAdmin) return;
+    setBusyKey("__expired__");
+    try {
+      const n = await purgeExpiredTrash(user);
+      alert(n > 0 ? `Purged ${n} expired item(s).` : "Nothing has expired yet.");
+    } catch (err: any) {
+      console.error("PURGE EXPIRED ERROR:", err);
+      alert(err?.message || "Failed to purge expired items.");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  if (!isSuperAdmin) return null;
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6">
+        <div>
+          <div className="text-4xl font-black tracking-tighter text-samasa-black">Recycle Bin</div>
+          <div className="mt-2 inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-white border border-slate-100 text-[10px] font-black uppercase tracking-widest text-slate-500">
+            <Clock size={12} />
+            Auto-purge after {TRASH_RETENTION_DAYS} days
+          </div>
+        </div>
+
+        <button
+          onClick={purgeExpired}
+          disabled={busyKey !== null}
+          className="inline-flex items-center justify-center gap-3 px-7 py-4 bg-samasa-black text-white rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] hover:bg-samasa-red transition-all active:scale-95 disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          Purge Expired
+        </button>
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4 mb-6">
+        <div className="relative flex-1 max-w-md">
+          <Search className="absolute left-5 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            placeholder="Search…"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-full pl-12 pr-6 py-4 bg-white border border-slate-200 rounded-2xl outline-none focus:ring-4 focus:ring-samasa-blue/5 focus:border-samasa-blue font-bold text-sm transition-all"
+          />
+        </div>
+
+        <div className="relative">
+          <Filter className="absolute left-4 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400 pointer-events-none" />
+          <select
+            value={collection}
+            onChange={(e) => setCollection(e.target.value as CollectionKey)}
+            className="pl-10 pr-8 py-4 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase tracking-widest outline-none appearance-none hover:border-slate-300 transition-colors cursor-pointer"
+          >
+            <option value="ALL">All types</option>
+            {TRASH_COLLECTIONS.map((c) => (
+              <option key={c} value={c}>
+                {TRASH_LABELS[c]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="bg-white rounded-[2.25rem] border border-slate-100 overflow-hidden shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50/60 border-b border-slate-100">
+                <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">Item</th>
+                <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">Deleted</th>
+                <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+
+            <tbody className="divide-y divide-slate-50">
+              {filtered.map((i) => {
+                const daysLeft = Math.max(0, Math.ceil((i.purgeAt - Date.now()) / DAY_MS));
+                const busy = busyKey === keyOf(i);
+
+                return (
+                  <tr key={keyOf(i)} className="group hover:bg-slate-50/40 transition-colors">
+                    <td className="px-8 py-6">
+                      <div className="font-black text-samasa-black text-lg tracking-tight">{i.title}</div>
+                      <div className="mt-2">
+                        <span className="px-2.5 py-1 bg-slate-100 rounded-md text-[9px] font-black uppercase tracking-wider text-slate-600">
+                          {TRASH_LABELS[i.collection]}
+                        </span>
+                      </div>
+                    </td>
+
+                    <td className="px-8 py-6">
+                      <div className="text-sm font-bold text-slate-700">{fmtDate(i.deletedAt)}</div>
+                      <div className="mt-1 text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                        {i.deletedByName || "Unknown"} • purges in {daysLeft} day{daysLeft === 1 ? "" : "s"}
+                      </div>
+                    </td>
+
+                    <td className="px-8 py-6 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => restore(i)}
+                          disabled={busyKey !== null}
+                          className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 hover:bg-samasa-blue/10 hover:text-samasa-blue transition-all disabled:opacity-40"
+                          title="Restore"
+                          type="button"
+                        >
+                          <RotateCcw size={16} className={busy ? "animate-spin" : ""} />
+                        </button>
+                        <button
+                          onClick={() => purge(i)}
+                          disabled={busyKey !== null}
+                          className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-300 hover:bg-red-50 hover:text-samasa-red transition-all disabled:opacity-40"
+                          title="Delete permanently"
+                          type="button"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+
+              {filtered.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-8 py-16 text-center">
+                    <div className="text-slate-300 font-black text-[10px] uppercase tracking-[0.3em]">
+                      {loading ? "Loading…" : "Trash is empty"}
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,339 @@
+// server/adminApi.ts
+// Account administration service (`npm run admin-api`). Creates, edits, disables, deletes and
+// re-passwords officer logins with the Admin SDK and keeps users/{uid} in step with Firebase Auth.
+// Every request carries the caller's ID token; only active SUPERADMIN profiles get through.
+// It also closes council votes whose deadline passed (or that everyone voted in) while no
+// SUPERADMIN had the proposal open, the same way src/councilVoting.ts closeVoteSession does.
+//
+//   ADMIN_API_PORT        (default 8787)
+//   ADMIN_API_VOTE_SWEEP_SECONDS  how often open votes are checked (default 60; 0 turns it off)
+//   ADMIN_API_ORIGIN      browser origin allowed by CORS (default http://localhost:3000)
+//   FIREBASE_PROJECT_ID   project id (defaults to "demo-samasa" against the emulator)
+//   FIREBASE_AUTH_EMULATOR_HOST / FIRESTORE_EMULATOR_HOST  read by the Admin SDK itself
+//   GOOGLE_APPLICATION_CREDENTIALS  service account for a real project
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+import { ProposalStatusChange, UserRole, Voter } from "../types";
+import { closeReason, rollCall, tallyVotes } from "../src/voteTally";
+
+const PORT = Number(process.env.ADMIN_API_PORT) || 8787;
+const ORIGIN = process.env.ADMIN_API_ORIGIN || "http://localhost:3000";
+const VOTE_SWEEP_SECONDS = Number(process.env.ADMIN_API_VOTE_SWEEP_SECONDS ?? 60);
+const usingEmulator = Boolean(process.env.FIREBASE_AUTH_EMULATOR_HOST || process.env.FIRESTORE_EMULATOR_HOST);
+
+const app = initializeApp({
+  projectId: process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT || (usingEmulator ? "demo-samasa" : undefined),
+});
+const auth = getAuth(app);
+const db = getFirestore(app);
+const users = db.collection("users");
+
+/** Codes follow Firebase's "auth/…" style so the client maps them like Auth SDK errors */
+class HttpError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+// ==============================
+// Request helpers
+// ==============================
+const MAX_BODY_BYTES = 64 * 1024;
+
+/** Stops reading an oversized body; the server answers 413 and then drops the connection */
+const readJson = (req: IncomingMessage) =>
+  new Promise<any>((resolve, reject) => {
+    let raw = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        req.pause();
+        reject(new HttpError(413, "admin/body-too-large", "Request body too large."));
+      }
+    });
+    req.on("end", () => {
+      if (!raw) return resolve({});
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, "admin/invalid-json", "Request body is not valid JSON."));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const send = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": ORIGIN,
+    "Access-Control-Allow-Methods": "POST, PATCH, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Content-Type": "application/json",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+/** Verifies the bearer token and that it belongs to an active SUPERADMIN profile */
+async function requireSuperAdmin(req: IncomingMessage) {
+  const token = String(req.headers.authorization || "").replace(/^Bearer\s+/i, "");
+  if (!token) throw new HttpError(401, "admin/unauthenticated", "Sign in again to manage accounts.");
+
+  let uid: string;
+  try {
+    uid = (await auth.verifyIdToken(token)).uid;
+  } catch {
+    throw new HttpError(401, "admin/unauthenticated", "Your session has expired. Sign in again.");
+  }
+
+  const snap = await users.doc(uid).get();
+  const profile = snap.data();
+  if (!profile || String(profile.role).toUpperCase() !== UserRole.SUPERADMIN || profile.active === false) {
+    throw new HttpError(403, "admin/forbidden", "Only SUPERADMIN can manage accounts.");
+  }
+  return uid;
+}
+
+// ==============================
+// Validation
+// ==============================
+type ProfileInput = { name: string; email: string; officerId: string; department: string; active: boolean };
+
+const readProfile = (body: any): ProfileInput => {
+  const name = String(body?.name || "").trim();
+  const email = String(body?.email || "").trim().toLowerCase();
+  if (!name) throw new HttpError(400, "admin/invalid-name", "Name is required.");
+  if (!/^\S+@\S+\.\S+$/.test(email)) throw new HttpError(400, "auth/invalid-email", "Invalid email.");
+  return {
+    name,
+    email,
+    officerId: body?.officerId ? String(body.officerId) : "",
+    department: String(body?.department || ""),
+    active: body?.active !== false,
+  };
+};
+
+const readPassword = (body: any) => {
+  const password = String(body?.password || "");
+  if (password.length < 6) throw new HttpError(400, "auth/weak-password", "Password should be at least 6 characters.");
+  return password;
+};
+
+/** An officer card links to at most one account */
+async function assertOfficerFree(officerId: string, uid?: string) {
+  if (!officerId) return;
+  const snap = await users.where("role", "==", UserRole.OFFICER).where("officerId", "==", officerId).get();
+  if (snap.docs.some((d) => d.id !== uid)) {
+    throw new HttpError(409, "admin/officer-linked", "That Officer card is already linked to another account.");
+  }
+}
+
+/** SUPERADMIN logins are managed from the Firebase Console, not through this service */
+async function managedProfile(uid: string, callerUid: string) {
+  if (uid === callerUid) throw new HttpError(400, "admin/self", "You can't change your own account here.");
+  const snap = await users.doc(uid).get();
+  if (!snap.exists) throw new HttpError(404, "admin/not-found", "Account not found.");
+  if (String(snap.get("role")).toUpperCase() === UserRole.SUPERADMIN) {
+    throw new HttpError(403, "admin/forbidden", "SUPERADMIN accounts can't be managed here.");
+  }
+  return snap;
+}
+
+const isUserNotFound = (err: any) => err?.code === "auth/user-not-found";
+
+// ==============================
+// Handlers
+// ==============================
+async function createAccount(body: any) {
+  const profile = readProfile(body);
+  const password = readPassword(body);
+  await assertOfficerFree(profile.officerId);
+
+  const record = await auth.createUser({
+    email: profile.email,
+    password,
+    displayName: profile.name,
+    disabled: !profile.active,
+  });
+
+  try {
+    await users.doc(record.uid).set({
+      ...profile,
+      role: UserRole.OFFICER,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  } catch (err) {
+    // don't leave a login behind that has no profile
+    await auth.deleteUser(record.uid).catch(() => undefined);
+    throw err;
+  }
+  return { uid: record.uid };
+}
+
+async function updateAccount(uid: string, callerUid: string, body: any) {
+  await managedProfile(uid, callerUid);
+  const profile = readProfile(body);
+  await assertOfficerFree(profile.officerId, uid);
+
+  try {
+    await auth.updateUser(uid, { email: profile.email, displayName: profile.name, disabled: !profile.active });
+    if (!profile.active) await auth.revokeRefreshTokens(uid);
+  } catch (err) {
+    // profiles created before this service may have no login; keep editing the profile
+    if (!isUserNotFound(err)) throw err;
+  }
+
+  await users.doc(uid).update({ ...profile, updatedAt: FieldValue.serverTimestamp() });
+  return { uid };
+}
+
+async function resetPassword(uid: string, callerUid: string, body: any) {
+  await managedProfile(uid, callerUid);
+  const password = readPassword(body);
+  await auth.updateUser(uid, { password });
+  await auth.revokeRefreshTokens(uid);
+  await users.doc(uid).update({ updatedAt: FieldValue.serverTimestamp() });
+  return { uid };
+}
+
+/** Login first, then profile: a failure part-way leaves the profile visible for another try */
+async function deleteAccount(uid: string, callerUid: string) {
+  await managedProfile(uid, callerUid);
+  await auth.deleteUser(uid).catch((err) => {
+    if (!isUserNotFound(err)) throw err;
+  });
+  await users.doc(uid).delete();
+  return { uid };
+}
+
+// ==============================
+// Vote sweep
+// ==============================
+const voteSessions = db.collection("voteSessions");
+
+const sessionOf = (data: any) => ({
+  voters: (Array.isArray(data?.voters) ? data.voters : []) as Voter[],
+  rule: {
+    quorum: data?.rule?.quorum === "TWO_THIRDS" ? "TWO_THIRDS" : "MAJORITY",
+    pass: data?.rule?.pass === "ABSOLUTE" || data?.rule?.pass === "TWO_THIRDS" ? data.rule.pass : "SIMPLE",
+  } as const,
+  status: data?.status === "CLOSED" ? ("CLOSED" as const) : ("OPEN" as const),
+  closesAt: Number(data?.closesAt) || 0,
+});
+
+/** Closes one session in a transaction so a SUPERADMIN closing it at the same time can't double-decide */
+async function closeExpiredSession(id: string, now: number) {
+  const sessionRef = voteSessions.doc(id);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(sessionRef);
+    if (!snap.exists) return false;
+    const session = sessionOf(snap.data());
+    const votes = (await tx.get(db.collection("votes").where("sessionId", "==", id))).docs.map((d) => ({
+      officerId: String(d.get("officerId") ?? ""),
+      vote: d.get("vote"),
+    }));
+
+    const reason = closeReason(session, votes, now);
+    if (!reason) return false;
+
+    const tally = tallyVotes(session, votes);
+    const proposalId = String(snap.get("proposalId") ?? "");
+    const proposalRef = db.collection("proposals").doc(proposalId);
+    const proposal = tally.quorumMet && proposalId ? await tx.get(proposalRef) : null;
+
+    tx.update(sessionRef, {
+      status: "CLOSED",
+      closedAt: FieldValue.serverTimestamp(),
+      closedReason: reason,
+      tally,
+      rollCall: rollCall(session, votes),
+    });
+
+    if (proposal?.exists && String(proposal.get("status") ?? "").toUpperCase() === "FLOOR") {
+      const to = tally.passed ? "APPROVED" : "REJECTED";
+      const history: ProposalStatusChange[] = Array.isArray(proposal.get("statusHistory"))
+        ? proposal.get("statusHistory")
+        : [];
+      const change: ProposalStatusChange = {
+        from: "FLOOR",
+        to,
+        byId: "admin-api",
+        byName: "Council vote",
+        at: now,
+        note: `Council vote: ${tally.yes} yes, ${tally.no} no, ${tally.abstain} abstain (${tally.present} of ${tally.eligible} present).`,
+      };
+      tx.update(proposalRef, {
+        status: to,
+        statusHistory: [...history, change],
+        voteSessionId: id,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    return true;
+  });
+}
+
+async function sweepVotes() {
+  const now = Date.now();
+  const open = await voteSessions.where("status", "==", "OPEN").get();
+  for (const doc of open.docs) {
+    try {
+      if (await closeExpiredSession(doc.id, now)) console.log(`Closed vote ${doc.id}`);
+    } catch (err) {
+      console.error(`VOTE SWEEP ERROR (${doc.id}):`, err);
+    }
+  }
+}
+
+// ==============================
+// Routing
+// ==============================
+async function route(req: IncomingMessage) {
+  const { pathname } = new URL(req.url || "/", "http://localhost");
+  const [, resource, rawUid, action] = pathname.split("/");
+  if (resource !== "accounts") throw new HttpError(404, "admin/not-found", "Unknown endpoint.");
+
+  const callerUid = await requireSuperAdmin(req);
+  const uid = rawUid ? decodeURIComponent(rawUid) : "";
+  const method = req.method || "GET";
+
+  if (!uid && method === "POST") return createAccount(await readJson(req));
+  if (uid && !action && method === "PATCH") return updateAccount(uid, callerUid, await readJson(req));
+  if (uid && !action && method === "DELETE") return deleteAccount(uid, callerUid);
+  if (uid && action === "password" && method === "PUT") return resetPassword(uid, callerUid, await readJson(req));
+  throw new HttpError(405, "admin/method-not-allowed", "Method not allowed.");
+}
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+  try {
+    send(res, 200, await route(req));
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      // the rest of an oversized body is never read: answer, then close instead of keeping the socket
+      if (err.status === 413) {
+        res.setHeader("Connection", "close");
+        res.once("finish", () => req.destroy());
+      }
+      return send(res, err.status, { error: { code: err.code, message: err.message } });
+    }
+
+    // Admin SDK errors ("auth/email-already-exists", …) keep their code for the client
+    const code = String(err?.code || "");
+    if (code.startsWith("auth/")) {
+      return send(res, 400, { error: { code, message: err.message } });
+    }
+    console.error("ADMIN API ERROR:", err);
+    send(res, 500, { error: { code: "admin/internal", message: "Account service failed. Check the server log." } });
+  }
+}).listen(PORT, () => {
+  console.log(`Admin API listening on http://127.0.0.1:${PORT}${usingEmulator ? " (emulator)" : ""}`);
+});
+
+if (VOTE_SWEEP_SECONDS > 0) {
+  const sweep = () => sweepVotes().catch((err) => console.error("VOTE SWEEP ERROR:", err));
+  sweep();
+  setInterval(sweep, VOTE_SWEEP_SECONDS * 1000);
+}
@@ -0,0 +1,135 @@
+// src/accountAdmin.ts
+// SUPERADMIN account management matching the selected storage backend.
+// Firestore backend → the Admin API service (server/adminApi.ts), which owns Auth and users/{uid};
+// local backend → demo credentials kept in the local users collection.
+import { getFirebaseAuth } from "../firebase/firebaseConfig";
+import { DepartmentId, UserRole } from "../types";
+import { storage, STORAGE_BACKEND } from "./storage";
+
+/** Base URL of `npm run admin-api` */
+export const ADMIN_API_URL = ((import.meta.env.VITE_ADMIN_API_URL as string) || "http://127.0.0.1:8787").replace(
+  /\/+$/,
+  ""
+);
+
+export type AccountProfile = {
+  name: string;
+  email: string;
+  officerId: string;
+  department?: DepartmentId;
+  active: boolean;
+};
+
+export interface AccountAdmin {
+  /** Creates the login and its users/{uid} profile; returns the uid */
+  create(profile: AccountProfile, password: string): Promise<string>;
+  /** Updates the profile and the login's email/disabled flag together */
+  update(uid: string, profile: AccountProfile): Promise<void>;
+  setPassword(uid: string, password: string): Promise<void>;
+  /** Deletes the login and its profile */
+  remove(uid: string): Promise<void>;
+}
+
+/** Same shape as authBackend errors so callers map codes once */
+const adminError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+// ==============================
+// Admin API (Firestore backend)
+// ==============================
+async function callAdminApi(method: string, path: string, body?: unknown) {
+  const current = getFirebaseAuth().currentUser;
+  if (!current) throw adminError("admin/unauthenticated", "Sign in again to manage accounts.");
+  const token = await current.getIdToken();
+
+  let res: Response;
+  try {
+    res = await fetch(`${ADMIN_API_URL}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw adminError("admin/unavailable", `Account service is not reachable at ${ADMIN_API_URL}.`);
+  }
+
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw adminError(
+      String(payload?.error?.code || "admin/internal"),
+      String(payload?.error?.message || "Account service failed.")
+    );
+  }
+  return payload;
+}
+
+const remoteAccountAdmin: AccountAdmin = {
+  create: async (profile, password) => {
+    const { uid } = await callAdminApi("POST", "/accounts", { ...profile, password });
+    return String(uid);
+  },
+
+  update: async (uid, profile) => {
+    await callAdminApi("PATCH", `/accounts/${encodeURIComponent(uid)}`, profile);
+  },
+
+  setPassword: async (uid, password) => {
+    await callAdminApi("PUT", `/accounts/${encodeURIComponent(uid)}/password`, { password });
+  },
+
+  remove: async (uid) => {
+    await callAdminApi("DELETE", `/accounts/${encodeURIComponent(uid)}`);
+  },
+};
+
+// ==============================
+// Local backend
+// ==============================
+const assertPassword = (password: string) => {
+  if (String(password || "").length < 6) {
+    throw adminError("auth/weak-password", "Password should be at least 6 characters.");
+  }
+};
+
+const profileFields = (profile: AccountProfile) => ({
+  name: profile.name.trim(),
+  email: profile.email.trim().toLowerCase(),
+  officerId: profile.officerId ? String(profile.officerId) : "",
+  department: profile.department ?? "",
+  active: profile.active !== false,
+});
+
+const localAccountAdmin: AccountAdmin = {
+  create: async (profile, password) => {
+    const email = profile.email.trim().toLowerCase();
+    if (!/^\S+@\S+\.\S+$/.test(email)) throw adminError("auth/invalid-email", "Invalid email.");
+    if ((await storage.getDocs("users", { where: [["email", "==", email]] })).length > 0) {
+      throw adminError("auth/email-already-exists", "That email is already registered.");
+    }
+    assertPassword(password);
+
+    const uid = `local-${Math.random().toString(36).slice(2, 12)}`;
+    await storage.set("users", uid, {
+      ...profileFields(profile),
+      password,
+      role: UserRole.OFFICER,
+      createdAt: storage.now(),
+      updatedAt: storage.now(),
+    });
+    return uid;
+  },
+
+  update: async (uid, profile) => {
+    await storage.update("users", uid, { ...profileFields(profile), updatedAt: storage.now() });
+  },
+
+  setPassword: async (uid, password) => {
+    assertPassword(password);
+    await storage.update("users", uid, { password, updatedAt: storage.now() });
+  },
+
+  remove: async (uid) => {
+    await storage.remove("users", uid);
+  },
+};
+
+export const accountAdmin: AccountAdmin = STORAGE_BACKEND === "local" ? localAccountAdmin : remoteAccountAdmin;
@@ -0,0 +1,91 @@
+// src/authBackend.ts
+// Sign-in/account creation matching the selected storage backend.
+// Firestore backend → Firebase Auth; local backend → demo credentials kept in usersStore.
+// Logins for other people are created through accountAdmin (Admin API), never from the browser.
+import { createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut } from "firebase/auth";
+import { getFirebaseAuth } from "../firebase/firebaseConfig";
+import { UserRole } from "../types";
+import { findUserByEmail, upsertUser } from "./usersStore";
+import { STORAGE_BACKEND } from "./storage";
+
+export type AuthIdentity = {
+  uid: string;
+  email: string;
+  displayName?: string | null;
+};
+
+export interface AuthBackend {
+  signIn(email: string, password: string): Promise<AuthIdentity>;
+  signOut(): Promise<void>;
+  currentUid(): string | null;
+  /** Self-registration (student accounts): creates the login and signs it in */
+  register(email: string, password: string): Promise<AuthIdentity>;
+}
+
+/** Errors carry Firebase-style codes so callers can map them the same way for both backends */
+const authError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const firebaseAuthBackend: AuthBackend = {
+  signIn: async (email, password) => {
+    const cred = await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+    return {
+      uid: cred.user.uid,
+      email: cred.user.email || email,
+      displayName: cred.user.displayName,
+    };
+  },
+
+  signOut: () => signOut(getFirebaseAuth()),
+
+  currentUid: () => getFirebaseAuth().currentUser?.uid ?? null,
+
+  register: async (email, password) => {
+    const cred = await createUserWithEmailAndPassword(getFirebaseAuth(), email, password);
+    return { uid: cred.user.uid, email: cred.user.email || email, displayName: cred.user.displayName };
+  },
+};
+
+let localUid: string | null = null;
+
+const localAuthBackend: AuthBackend = {
+  signIn: async (email, password) => {
+    const account = findUserByEmail(email);
+    if (!account || account.password !== password) {
+      throw authError("auth/invalid-credential", "Invalid email or password.");
+    }
+    localUid = account.id;
+    return { uid: account.id, email: account.email, displayName: account.name };
+  },
+
+  signOut: async () => {
+    localUid = null;
+  },
+
+  currentUid: () => localUid,
+
+  register: async (email, password) => {
+    if (!/^\S+@\S+\.\S+$/.test(email)) throw authError("auth/invalid-email", "Invalid email.");
+    if (findUserByEmail(email)) {
+      throw authError("auth/email-already-in-use", "That email is already registered.");
+    }
+    if (String(password || "").length < 6) {
+      throw authError("auth/weak-password", "Password should be at least 6 characters.");
+    }
+
+    const uid = `local-${Math.random().toString(36).slice(2, 12)}`;
+    upsertUser({
+      id: uid,
+      name: "",
+      email: email.trim().toLowerCase(),
+      password,
+      role: UserRole.STUDENT,
+      createdAt: Date.now(),
+      active: true,
+    });
+    localUid = uid;
+    return { uid, email: email.trim().toLowerCase(), displayName: null };
+  },
+};
+
+export const authBackend: AuthBackend =
+  STORAGE_BACKEND === "local" ? localAuthBackend : firebaseAuthBackend;
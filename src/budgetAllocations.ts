@@ -0,0 +1,105 @@
+// src/budgetAllocations.ts
+// Per-fund ceilings (budgetAllocations/{termId}__{department}__{fund}) and the spending math
+// behind the Budget fund cards and the overspend check in saveRecord.
+// Callers pass entries already narrowed to the term (see ./fiscalTerms).
+import { BudgetAllocation, BudgetEntry, BudgetFundKey, DepartmentId, User } from "../types";
+import { storage } from "./storage";
+import { BatchOp } from "./storageAdapter";
+
+export const ALLOCATIONS_COLLECTION = "budgetAllocations";
+
+export const FUND_KEYS: BudgetFundKey[] = ["operational", "project", "trust"];
+
+export const allocationId = (term: string, department: string, fund: BudgetFundKey) =>
+  `${term}__${department}__${fund}`.replace(/\s+/g, "_");
+
+export type FundUsage = {
+  allocated: number;
+  spent: number;
+  remaining: number;
+  /** false when no ceiling was set (nothing to compare against) */
+  hasCeiling: boolean;
+};
+
+type Scope = {
+  /** fiscal term id; "ALL" sums every term */
+  term: string;
+  /** "ALL" sums every department */
+  department: DepartmentId | "ALL";
+};
+
+const inDept = (dept: string, scope: Scope) =>
+  scope.department === "ALL" || String(dept) === String(scope.department);
+
+export function fundUsage(
+  entries: BudgetEntry[],
+  allocations: BudgetAllocation[],
+  scope: Scope
+): Record<BudgetFundKey, FundUsage> {
+  const usage = (fund: BudgetFundKey): FundUsage => {
+    const allocs = allocations.filter(
+      (a) => a.fund === fund && (scope.term === "ALL" || a.term === scope.term) && inDept(a.department, scope)
+    );
+    const allocated = allocs.reduce((sum, a) => sum + a.amount, 0);
+    const spent = entries
+      .filter(
+        (e) =>
+          e.impact !== "AVAILABLE_ONLY" &&
+          e.type === "EXPENSE" &&
+          e.fund === fund &&
+          inDept(e.department, scope)
+      )
+      .reduce((sum, e) => sum + e.amount, 0);
+
+    return { allocated, spent, remaining: allocated - spent, hasCeiling: allocs.length > 0 };
+  };
+
+  return { operational: usage("operational"), project: usage("project"), trust: usage("trust") };
+}
+
+/**
+ * Returns the ceiling details when saving `amount` into this fund would exceed its allocation.
+ * `termEntries` must already be the expense's term; `ignoreId` drops the entry being edited
+ * so its old amount isn't counted twice. Submitted/approved expenses count as committed; drafts don't.
+ */
+export function checkCeiling(
+  termEntries: BudgetEntry[],
+  allocations: BudgetAllocation[],
+  expense: { department: DepartmentId; termId: string; fund: BudgetFundKey; amount: number },
+  ignoreId?: string
+) {
+  if (!expense.termId) return null;
+  const scope = { term: expense.termId, department: expense.department };
+  const usage = fundUsage(
+    termEntries.filter((e) => e.id !== ignoreId && e.status !== "DRAFT"),
+    allocations,
+    scope
+  )[expense.fund];
+
+  if (!usage.hasCeiling || usage.spent + expense.amount <= usage.allocated) return null;
+  return { allocated: usage.allocated, spentBefore: usage.spent };
+}
+
+export async function saveAllocations(
+  term: string,
+  department: DepartmentId,
+  amounts: Record<BudgetFundKey, number>,
+  actor: User
+) {
+  const ops: BatchOp[] = FUND_KEYS.map((fund) => ({
+    type: "set",
+    path: ALLOCATIONS_COLLECTION,
+    id: allocationId(term, department, fund),
+    data: {
+      term,
+      department,
+      fund,
+      amount: amounts[fund],
+      updatedBy: actor.id,
+      updatedByName: actor.name,
+      updatedAt: storage.now(),
+    },
+  }));
+
+  await storage.batch(ops);
+}
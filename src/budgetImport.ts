@@ -0,0 +1,249 @@
+// src/budgetImport.ts
+// CSV/XLSX → budgetEntries. Parsing and column mapping live here; every row is validated by
+// buildBudgetRecord (the same rules as the record form) before anything is written.
+import readXlsxFile from "read-excel-file";
+import { ApprovalRule, BudgetAllocation, BudgetEntry, DepartmentId, FiscalTerm, User } from "../types";
+import { isFundKey, normalizeNumber } from "./repository";
+import { parseLedgerDate } from "./ledgerDates";
+import { buildBudgetRecord, RecordMode } from "./budgetLedger";
+import { checkCeiling } from "./budgetAllocations";
+import { resolveTermId } from "./fiscalTerms";
+import { workflowFields } from "./expenseApproval";
+import { can } from "./permissions";
+
+export const IMPORT_FIELDS = [
+  "title",
+  "amount",
+  "type",
+  "category",
+  "department",
+  "date",
+  "fund",
+  "impact",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Column index per field (-1 = not mapped) */
+export type ColumnMap = Record<ImportField, number>;
+
+export const REQUIRED_FIELDS: ImportField[] = ["title", "amount", "department", "date"];
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ["title", "description", "particulars", "details", "item"],
+  amount: ["amount", "value", "total", "php"],
+  type: ["type", "kind", "inout"],
+  category: ["category", "account", "classification"],
+  department: ["department", "dept", "org", "organization"],
+  date: ["date", "transactiondate", "dated"],
+  fund: ["fund", "fundkey", "source"],
+  impact: ["impact", "effect"],
+};
+
+export type ImportRow = {
+  /** 1-based line in the source file (header is line 1) */
+  line: number;
+  cells: string[];
+  record?: any;
+  errors: string[];
+};
+
+// ==============================
+// Parsing
+// ==============================
+/** RFC 4180-ish: quoted fields, doubled quotes, CRLF/LF, comma or semicolon delimiter */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^﻿/, "");
+  const firstLine = src.split(/\r?\n/, 1)[0] || "";
+  const delim = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') quoted = true;
+    else if (ch === delim) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+const cellToString = (v: any) => {
+  if (v === null || v === undefined) return "";
+  if (v instanceof Date) return v.toISOString().slice(0, 10);
+  return String(v);
+};
+
+/** Returns all rows (header first) as strings */
+export async function readImportFile(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".xlsx")) {
+    const rows = await readXlsxFile(file);
+    return rows
+      .map((r) => r.map(cellToString))
+      .filter((r) => r.some((c) => c.trim() !== ""));
+  }
+
+  if (name.endsWith(".csv") || file.type === "text/csv") {
+    return parseCsv(await file.text());
+  }
+
+  throw new Error("Unsupported file. Use .csv or .xlsx.");
+}
+
+// ==============================
+// Mapping + validation
+// ==============================
+const squash = (s: string) => s.toLowerCase().replace(/[^a-z]/g, "");
+
+export function guessColumnMap(header: string[]): ColumnMap {
+  const keys = header.map(squash);
+  const map = {} as ColumnMap;
+
+  IMPORT_FIELDS.forEach((field) => {
+    map[field] = keys.findIndex((k) => FIELD_ALIASES[field].includes(k));
+  });
+
+  return map;
+}
+
+const parseMode = (type: string, impact: string): RecordMode | null => {
+  const i = squash(impact);
+  if (i === "availableonly" || i === "balance" || i === "balanceadjustment") return "AVAILABLE_ONLY";
+
+  const t = squash(type);
+  if (["income", "revenue", "in", "receipt", "credit"].includes(t)) return "INCOME";
+  if (["expense", "expenditure", "out", "disbursement", "debit"].includes(t)) return "EXPENSE";
+  return null;
+};
+
+const parseDepartment = (raw: string, departments: DepartmentId[]) =>
+  departments.map(String).find((d) => d.toLowerCase() === raw.trim().toLowerCase()) ?? raw.trim();
+
+/** "₱1,250.50" / "(300)" → number */
+const parseAmount = (raw: string) => {
+  const s = raw.trim();
+  const negative = /^\(.*\)$/.test(s);
+  const n = normalizeNumber(s.replace(/[^\d.\-]/g, ""));
+  return negative ? -Math.abs(n) : n;
+};
+
+type ValidateContext = {
+  terms: FiscalTerm[];
+  /** Ids rows may name (see departmentOptions) */
+  departments: DepartmentId[];
+  entries: BudgetEntry[];
+  allocations: BudgetAllocation[];
+  rules: ApprovalRule[];
+  actor: User;
+};
+
+/**
+ * Dry run over every data row. Expenses are also checked against fund ceilings,
+ * counting earlier rows of the same file (overrides need the record form).
+ * Expenses under a department approval rule are imported as SUBMITTED.
+ */
+export function validateImportRows(rows: string[][], map: ColumnMap, ctx: ValidateContext): ImportRow[] {
+  const missing = REQUIRED_FIELDS.filter((f) => map[f] < 0);
+  const pending: BudgetEntry[] = [];
+
+  return rows.slice(1).map((cells, idx) => {
+    const line = idx + 2;
+    const get = (f: ImportField) => (map[f] >= 0 ? String(cells[map[f]] ?? "").trim() : "");
+
+    if (missing.length > 0) {
+      return { line, cells, errors: [`Map a column for: ${missing.join(", ")}.`] };
+    }
+
+    const errors: string[] = [];
+
+    // toISODate falls back to today, so reject blanks/garbage/impossible days here instead of importing them
+    const rawDate = get("date");
+    const date = parseLedgerDate(rawDate);
+    if (!rawDate) errors.push("Date is required.");
+    else if (!date) errors.push(`Unreadable date "${rawDate}" (use YYYY-MM-DD or MM/DD/YYYY).`);
+
+    const mode = parseMode(get("type"), get("impact"));
+    if (!mode) errors.push(`Type must be INCOME or EXPENSE (got "${get("type")}").`);
+
+    const fundRaw = get("fund").toLowerCase();
+    if (mode === "EXPENSE" && fundRaw && !isFundKey(fundRaw)) {
+      errors.push(`Fund must be operational, project or trust (got "${get("fund")}").`);
+    }
+
+    if (errors.length > 0 || !mode || !date) return { line, cells, errors };
+
+    const built = buildBudgetRecord(
+      {
+        title: get("title"),
+        amount: parseAmount(get("amount")),
+        mode,
+        category: get("category"),
+        department: parseDepartment(get("department"), ctx.departments),
+        date,
+        fund: isFundKey(fundRaw) ? fundRaw : null,
+        approvedBy: ctx.actor.name,
+      },
+      ctx.terms,
+      ctx.departments
+    );
+    if (built.error !== undefined) return { line, cells, errors: [built.error] };
+    if (!can(ctx.actor, "budget.post", built.record.department)) {
+      return { line, cells, errors: [`You can't record entries for ${built.record.department}.`] };
+    }
+
+    const record = { ...built.record, ...workflowFields(built.record, ctx.rules, ctx.actor) };
+    if (record.type === "EXPENSE" && record.impact === "LEDGER") {
+      const termEntries = [...ctx.entries, ...pending].filter(
+        (e) => resolveTermId(ctx.terms, e, e.date) === record.termId
+      );
+      const over = checkCeiling(termEntries, ctx.allocations, {
+        department: record.department,
+        termId: record.termId,
+        fund: record.fund,
+        amount: record.amount,
+      });
+      if (over) {
+        return {
+          line,
+          cells,
+          errors: [`Exceeds the ${record.fund} ceiling; record it through the form to request an override.`],
+        };
+      }
+    }
+
+    pending.push({ ...record, id: `import-${line}` });
+    return { line, cells, record, errors: [] };
+  });
+}
@@ -0,0 +1,241 @@
+// src/budgetLedger.ts
+// All budgetEntries mutations go through here so each one lands together with its
+// append-only budgetAudit record (same batch: either both are written or neither).
+// Every write bumps the entry's `revision`, and its record is budgetAudit/{entryId}_{revision}:
+// firestore.rules refuses entry writes without that record and records without that write.
+import {
+  BudgetAuditAction,
+  BudgetEntry,
+  BudgetEntrySnapshot,
+  BudgetFundKey,
+  DepartmentId,
+  DepartmentType,
+  FiscalTerm,
+  User,
+} from "../types";
+import { isFundKey, normalizeBudgetSnapshot, toISODate } from "./repository";
+import { resolveTermId } from "./fiscalTerms";
+import { storage } from "./storage";
+import { BatchOp } from "./storageAdapter";
+
+export const BUDGET_COLLECTION = "budgetEntries";
+export const BUDGET_AUDIT_COLLECTION = "budgetAudit";
+
+export const auditDocId = (entryId: string, revision: number) => `${entryId}_${revision}`;
+
+/** Revision the next write to `entry` produces (rows from before revisions count as 0) */
+const nextRevision = (entry: Pick<BudgetEntry, "revision">) => (entry.revision ?? 0) + 1;
+
+const auditOp = (
+  entryId: string,
+  revision: number,
+  action: BudgetAuditAction,
+  actor: User,
+  before: BudgetEntrySnapshot | null,
+  after: BudgetEntrySnapshot | null,
+  reason: string
+): BatchOp => ({
+  type: "set",
+  path: BUDGET_AUDIT_COLLECTION,
+  id: auditDocId(entryId, revision),
+  data: {
+    entryId,
+    revision,
+    department: String((after ?? before)?.department ?? DepartmentType.SAMASA),
+    action,
+    actorId: actor.id,
+    actorName: actor.name,
+    actorRole: actor.role,
+    at: storage.now(),
+    before,
+    after,
+    reason: reason.trim(),
+  },
+});
+
+// ==============================
+// Validation (record form + bulk import)
+// ==============================
+export type RecordMode = "INCOME" | "EXPENSE" | "AVAILABLE_ONLY";
+
+export type BudgetRecordInput = {
+  title: string;
+  amount: number;
+  mode: RecordMode;
+  category: string;
+  department: string;
+  date: string;
+  fund: BudgetFundKey | null;
+  approvedBy: string;
+  /** Project-fund expenses only */
+  projectId?: string | null;
+};
+
+/**
+ * Same rules for every way into budgetEntries; returns the doc fields or the first problem.
+ * `departments` are the ids records can be filed under (see departmentOptions).
+ */
+export function buildBudgetRecord(
+  input: BudgetRecordInput,
+  terms: FiscalTerm[],
+  departments: DepartmentId[]
+): { record: any; error?: undefined } | { record?: undefined; error: string } {
+  const title = input.title.trim();
+  const amount = input.amount;
+
+  if (!title) return { error: "Description is required." };
+  if (!Number.isFinite(amount) || amount === 0) return { error: "Amount must not be 0." };
+  if (input.mode === "EXPENSE" && !isFundKey(input.fund)) {
+    return { error: "Pick Operational / Project / Trust for Expense." };
+  }
+  if (input.projectId && (input.mode !== "EXPENSE" || input.fund !== "project")) {
+    return { error: "Only Project-fund expenses can be linked to a project." };
+  }
+  if (!departments.map(String).includes(input.department)) {
+    return { error: `Unknown department "${input.department}".` };
+  }
+
+  // ✅ An entry belongs to the term its date falls in; closed terms take no new writes
+  const date = toISODate(input.date);
+  const termId = resolveTermId(terms, {}, date);
+  if (terms.length > 0 && !termId) return { error: `No fiscal term covers ${date}.` };
+  if (terms.find((t) => t.id === termId)?.status === "CLOSED") {
+    return { error: "That date falls in a closed fiscal term." };
+  }
+
+  const category = input.category.trim();
+  const record: any = {
+    title,
+    amount,
+    department: input.department,
+    date,
+    approvedBy: input.approvedBy,
+    termId,
+  };
+
+  if (input.mode === "AVAILABLE_ONLY") {
+    record.impact = "AVAILABLE_ONLY";
+    record.type = "INCOME";
+    record.category = category || "Balance Adjustment";
+  } else {
+    record.impact = "LEDGER";
+    record.type = input.mode === "INCOME" ? "INCOME" : "EXPENSE";
+    record.category = category || (input.mode === "INCOME" ? "Income" : "Expense");
+    if (input.mode === "EXPENSE") record.fund = input.fund;
+  }
+  // null clears the link when an edited entry stops being a project expense
+  record.projectId = input.projectId || null;
+
+  return { record };
+}
+
+// ==============================
+// Writes
+// ==============================
+export async function createBudgetEntry(data: any, actor: User, reason: string) {
+  const id = storage.newId(BUDGET_COLLECTION);
+  const record = { ...data, revision: 1, createdAt: storage.now(), updatedAt: storage.now() };
+
+  await storage.batch([
+    { type: "set", path: BUDGET_COLLECTION, id, data: record },
+    auditOp(id, 1, "CREATE", actor, null, normalizeBudgetSnapshot(record), reason),
+  ]);
+
+  return id;
+}
+
+/** Firestore caps a batch at 500 writes; each entry needs two (entry + audit) */
+const IMPORT_CHUNK = 200;
+
+/** Bulk create (CSV/XLSX import); each chunk lands atomically with its audit records */
+export async function createBudgetEntries(records: any[], actor: User, reason: string) {
+  for (let i = 0; i < records.length; i += IMPORT_CHUNK) {
+    const ops: BatchOp[] = [];
+
+    records.slice(i, i + IMPORT_CHUNK).forEach((data) => {
+      const id = storage.newId(BUDGET_COLLECTION);
+      const record = { ...data, revision: 1, createdAt: storage.now(), updatedAt: storage.now() };
+      ops.push({ type: "set", path: BUDGET_COLLECTION, id, data: record });
+      ops.push(auditOp(id, 1, "CREATE", actor, null, normalizeBudgetSnapshot(record), reason));
+    });
+
+    await storage.batch(ops);
+  }
+}
+
+/**
+ * `before` must be the entry as last read: a write based on a stale revision collides with the
+ * audit record of the write it missed and is rejected.
+ */
+export async function updateBudgetEntry(before: BudgetEntry, data: any, actor: User, reason: string) {
+  const revision = nextRevision(before);
+  const patch = { ...data, revision, updatedAt: storage.now() };
+
+  await storage.batch([
+    { type: "update", path: BUDGET_COLLECTION, id: before.id, data: patch },
+    auditOp(
+      before.id,
+      revision,
+      "UPDATE",
+      actor,
+      normalizeBudgetSnapshot(before),
+      normalizeBudgetSnapshot({ ...before, ...data }),
+      reason
+    ),
+  ]);
+}
+
+/** Moves the entry to the recycle bin (see ./trash); it stops counting toward totals */
+export async function deleteBudgetEntry(entry: BudgetEntry, actor: User, reason: string) {
+  const revision = nextRevision(entry);
+  await storage.batch([
+    {
+      type: "update",
+      path: BUDGET_COLLECTION,
+      id: entry.id,
+      data: {
+        deletedAt: storage.now(),
+        deletedBy: actor.id,
+        deletedByName: actor.name,
+        revision,
+        updatedAt: storage.now(),
+      },
+    },
+    auditOp(entry.id, revision, "DELETE", actor, normalizeBudgetSnapshot(entry), null, reason),
+  ]);
+}
+
+export async function restoreBudgetEntry(entry: BudgetEntry, actor: User, reason: string) {
+  const revision = nextRevision(entry);
+  await storage.batch([
+    {
+      type: "update",
+      path: BUDGET_COLLECTION,
+      id: entry.id,
+      data: { deletedAt: null, deletedBy: null, deletedByName: null, revision, updatedAt: storage.now() },
+    },
+    auditOp(entry.id, revision, "RESTORE", actor, null, normalizeBudgetSnapshot(entry), reason),
+  ]);
+}
+
+/** Permanent removal from the trash; the audit trail keeps the last snapshot */
+export async function purgeBudgetEntry(entry: BudgetEntry, actor: User, reason: string) {
+  await storage.batch([
+    { type: "delete", path: BUDGET_COLLECTION, id: entry.id },
+    auditOp(entry.id, nextRevision(entry), "PURGE", actor, normalizeBudgetSnapshot(entry), null, reason),
+  ]);
+}
+
+/** Field-level changes between two snapshots (for History rendering) */
+export function diffBudgetSnapshots(before: BudgetEntrySnapshot | null, after: BudgetEntrySnapshot | null) {
+  const keys = new Set<string>([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const out: Array<{ field: string; before: any; after: any }> = [];
+
+  keys.forEach((field) => {
+    const b = (before as any)?.[field];
+    const a = (after as any)?.[field];
+    if (JSON.stringify(b) !== JSON.stringify(a)) out.push({ field, before: b, after: a });
+  });
+
+  return out;
+}
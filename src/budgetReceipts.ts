@@ -0,0 +1,56 @@
+// src/budgetReceipts.ts
+// Official receipts / liquidation files on expenses. Files go to Cloudinary; their metadata lives
+// inline on the entry (`receipts`) so every attach/remove is an audited ledger update.
+import { BudgetEntry, BudgetReceipt, User } from "../types";
+import { uploadToCloudinary } from "../lib/cloudinaryUpload";
+import { updateBudgetEntry } from "./budgetLedger";
+
+const RECEIPTS_FOLDER = "samasa/budget/receipts";
+
+export const RECEIPT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const RECEIPT_ACCEPT = "image/*,application/pdf";
+
+/** Ledger expenses need at least one receipt to count as liquidated */
+export const isMissingLiquidation = (e: BudgetEntry) =>
+  e.type === "EXPENSE" && e.impact !== "AVAILABLE_ONLY" && !(e.receipts && e.receipts.length > 0);
+
+export async function attachReceipt(
+  entry: BudgetEntry,
+  file: File,
+  meta: { orNumber: string; vendor: string },
+  actor: User
+) {
+  const isPdf = file.type === "application/pdf";
+  if (!isPdf && !file.type.startsWith("image/")) throw new Error("Receipts must be a photo or a PDF.");
+  if (file.size > RECEIPT_MAX_BYTES) throw new Error("Receipt is larger than 10 MB.");
+
+  const up = await uploadToCloudinary(file, {
+    folder: `${RECEIPTS_FOLDER}/${entry.id}`,
+    resourceType: isPdf ? "raw" : "image",
+  });
+
+  const receipt: BudgetReceipt = {
+    id: up.publicId,
+    url: up.url,
+    publicId: up.publicId,
+    fileName: file.name,
+    kind: isPdf ? "pdf" : "image",
+    orNumber: meta.orNumber.trim(),
+    vendor: meta.vendor.trim(),
+    uploadedById: actor.id,
+    uploadedByName: actor.name,
+    // serverTimestamp() isn't allowed inside arrays
+    uploadedAt: Date.now(),
+  };
+
+  const label = receipt.orNumber ? `OR #${receipt.orNumber}` : receipt.fileName;
+  await updateBudgetEntry(entry, { receipts: [...(entry.receipts ?? []), receipt] }, actor, `Attached receipt ${label}`);
+  return receipt;
+}
+
+/** Unlinks the receipt from the entry (the Cloudinary file stays; unsigned uploads can't delete) */
+export async function removeReceipt(entry: BudgetEntry, receipt: BudgetReceipt, actor: User, reason: string) {
+  const receipts = (entry.receipts ?? []).filter((r) => r.id !== receipt.id);
+  await updateBudgetEntry(entry, { receipts }, actor, reason);
+}
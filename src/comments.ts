@@ -0,0 +1,126 @@
+// src/comments.ts
+// Threaded discussion on proposals and projects. INTERNAL comments (committee notes) are for
+// officers only; PUBLIC ones are shown to students. Officers moderate by hiding with a reason;
+// deleting a comment that has replies leaves a placeholder so the thread stays intact.
+import {
+  CommentTargetType,
+  CommentVisibility,
+  DiscussionComment,
+  Officer,
+  User,
+  UserRole,
+} from "../types";
+import { storage } from "./storage";
+
+export const COMMENTS_COLLECTION = "comments";
+
+export const COMMENT_MAX_LENGTH = 4000;
+
+/** Officers and SUPERADMIN: see INTERNAL notes and moderate */
+export const isCouncilStaff = (user?: User | null) =>
+  user?.role === UserRole.OFFICER || user?.role === UserRole.SUPERADMIN;
+
+export const commentsFor = (all: DiscussionComment[], type: CommentTargetType, id: string) =>
+  all.filter((c) => c.targetType === type && c.targetId === id);
+
+/** Card badge: live comments the viewer can read */
+export const commentCount = (all: DiscussionComment[], type: CommentTargetType, id: string, user?: User | null) =>
+  commentsFor(all, type, id).filter(
+    (c) => !c.deleted && (isCouncilStaff(user) || (c.visibility === "PUBLIC" && !c.hidden))
+  ).length;
+
+// ==============================
+// @mentions
+// ==============================
+/** Officers whose full name appears as "@Name" (longest names first so "@Ana Cruz" beats "@Ana") */
+export function parseMentions(body: string, officers: Officer[]) {
+  const text = body.toLowerCase();
+  const found: string[] = [];
+  officers
+    .slice()
+    .sort((a, b) => b.name.length - a.name.length)
+    .forEach((o) => {
+      const name = o.name.trim().toLowerCase();
+      if (name && text.includes(`@${name}`) && !found.includes(o.id)) found.push(o.id);
+    });
+  return found;
+}
+
+/** Splits a body into text / mention pieces for rendering */
+export function mentionParts(body: string, mentioned: Officer[]) {
+  const names = mentioned.map((o) => o.name.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (names.length === 0) return [{ text: body, mention: false }];
+
+  const escaped = names.map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  // split() with one capture group alternates text, mention, text, …
+  return body
+    .split(new RegExp(`(@(?:${escaped.join("|")}))`, "gi"))
+    .map((text, i) => ({ text, mention: i % 2 === 1 }))
+    .filter((p) => p.text !== "");
+}
+
+// ==============================
+// Writes
+// ==============================
+export async function postComment(
+  target: { type: CommentTargetType; id: string },
+  input: { body: string; visibility: CommentVisibility; parentId?: string | null },
+  actor: User,
+  officers: Officer[]
+) {
+  const body = input.body.trim();
+  if (!body) throw new Error("Write something first.");
+  if (body.length > COMMENT_MAX_LENGTH) throw new Error(`Comments are limited to ${COMMENT_MAX_LENGTH} characters.`);
+  if (input.visibility === "INTERNAL" && !isCouncilStaff(actor)) throw new Error("Only officers can post internal notes.");
+
+  return storage.add(COMMENTS_COLLECTION, {
+    targetType: target.type,
+    targetId: target.id,
+    parentId: input.parentId ?? null,
+    body,
+    visibility: input.visibility,
+    mentions: parseMentions(body, officers),
+    authorId: actor.id,
+    authorName: actor.name,
+    authorRole: actor.role,
+    createdAt: Date.now(),
+  });
+}
+
+export async function editComment(comment: DiscussionComment, body: string, actor: User, officers: Officer[]) {
+  if (comment.authorId !== actor.id) throw new Error("You can only edit your own comments.");
+  const text = body.trim();
+  if (!text) throw new Error("Write something first.");
+  if (text.length > COMMENT_MAX_LENGTH) throw new Error(`Comments are limited to ${COMMENT_MAX_LENGTH} characters.`);
+
+  await storage.update(COMMENTS_COLLECTION, comment.id, {
+    body: text,
+    mentions: parseMentions(text, officers),
+    editedAt: Date.now(),
+  });
+}
+
+export async function setCommentHidden(comment: DiscussionComment, hidden: boolean, actor: User, reason = "") {
+  if (!isCouncilStaff(actor)) throw new Error("Only officers can moderate comments.");
+  if (hidden && !reason.trim()) throw new Error("Please give a reason for hiding this comment.");
+
+  await storage.update(COMMENTS_COLLECTION, comment.id, {
+    hidden,
+    hiddenByName: hidden ? actor.name : null,
+    hiddenReason: hidden ? reason.trim() : null,
+  });
+}
+
+/** Authors delete their own; SUPERADMIN can delete any */
+export async function deleteComment(comment: DiscussionComment, all: DiscussionComment[], actor: User) {
+  if (comment.authorId !== actor.id && actor.role !== UserRole.SUPERADMIN) {
+    throw new Error("You can only delete your own comments.");
+  }
+
+  const hasReplies = all.some((c) => c.parentId === comment.id);
+  if (hasReplies) {
+    await storage.update(COMMENTS_COLLECTION, comment.id, { body: "", mentions: [], deleted: true });
+  } else {
+    await storage.remove(COMMENTS_COLLECTION, comment.id);
+  }
+}
@@ -0,0 +1,169 @@
+// src/councilTerms.ts
+// Terms of office (councilTerms/{id}). Officer cards carry `councilTermId`; cards without one
+// predate terms and belong to the sitting council. Re-elected officers are carried over as new
+// cards so past rosters stay as they were, and their linked accounts move to the new card.
+import { useMemo } from "react";
+import { CouncilTerm, Officer, User, UserAccount, UserRole } from "../types";
+import { useCouncilTerms, useOfficers } from "./repository";
+import { storage } from "./storage";
+import { BatchOp } from "./storageAdapter";
+import { validateTermRange } from "./fiscalTerms";
+
+export const COUNCIL_TERMS_COLLECTION = "councilTerms";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/** Term covering today, else the newest one (terms arrive newest first) */
+export const sittingTerm = (terms: CouncilTerm[]) =>
+  terms.find((t) => t.startDate <= today() && today() <= t.endDate) ?? terms[0] ?? null;
+
+/** "" when no terms exist yet */
+export const officerTermId = (officer: Officer, terms: CouncilTerm[]) =>
+  officer.councilTermId || sittingTerm(terms)?.id || "";
+
+export const rosterFor = (officers: Officer[], terms: CouncilTerm[], termId: string) =>
+  officers.filter((o) => officerTermId(o, terms) === termId);
+
+/** Councils whose term has ended, newest first */
+export const pastTerms = (terms: CouncilTerm[]) => terms.filter((t) => t.endDate < today());
+
+/**
+ * useOfficers() narrowed to the sitting council. Voting seats, milestone owners, approvers and
+ * mention suggestions use this; the directory and archives use the full history.
+ */
+export function useSittingOfficers() {
+  const state = useOfficers();
+  const { data: terms } = useCouncilTerms();
+  const data = useMemo(() => {
+    const sitting = sittingTerm(terms);
+    return sitting ? rosterFor(state.data, terms, sitting.id) : state.data;
+  }, [state.data, terms]);
+  return useMemo(() => ({ ...state, data }), [state, data]);
+}
+
+// ==============================
+// Writes (SUPERADMIN)
+// ==============================
+const assertSuper = (actor: User) => {
+  if (actor.role !== UserRole.SUPERADMIN) throw new Error("Only SUPERADMIN can manage council terms.");
+};
+
+/**
+ * Cards without a term are filed under whichever term is sitting once this one exists, so
+ * creating the next council doesn't pull the current roster into it.
+ */
+export async function createCouncilTerm(
+  data: { label: string; startDate: string; endDate: string },
+  terms: CouncilTerm[],
+  officers: Officer[],
+  actor: User
+) {
+  assertSuper(actor);
+  const label = data.label.trim();
+  if (!label) throw new Error("Term label is required.");
+  const problem = validateTermRange(terms, data.startDate, data.endDate);
+  if (problem) throw new Error(problem);
+
+  const id = storage.newId(COUNCIL_TERMS_COLLECTION);
+  const term: CouncilTerm = { id, label, startDate: data.startDate, endDate: data.endDate };
+  const sitting = sittingTerm(
+    [...terms, term].sort((a, b) => b.startDate.localeCompare(a.startDate))
+  );
+
+  const ops: BatchOp[] = [
+    {
+      type: "set",
+      path: COUNCIL_TERMS_COLLECTION,
+      id,
+      data: {
+        label,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        createdBy: actor.id,
+        createdByName: actor.name,
+        createdAt: storage.now(),
+        updatedAt: storage.now(),
+      },
+    },
+    ...officers
+      .filter((o) => !o.councilTermId)
+      .map<BatchOp>((o) => ({
+        type: "update",
+        path: "officers",
+        id: o.id,
+        data: { councilTermId: sitting!.id, updatedAt: storage.now() },
+      })),
+  ];
+  await storage.batch(ops);
+  return id;
+}
+
+export async function updateCouncilTerm(
+  term: CouncilTerm,
+  data: { label: string; startDate: string; endDate: string },
+  terms: CouncilTerm[],
+  actor: User
+) {
+  assertSuper(actor);
+  const label = data.label.trim();
+  if (!label) throw new Error("Term label is required.");
+  const problem = validateTermRange(
+    terms.filter((t) => t.id !== term.id),
+    data.startDate,
+    data.endDate
+  );
+  if (problem) throw new Error(problem);
+
+  await storage.update(COUNCIL_TERMS_COLLECTION, term.id, {
+    label,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    updatedAt: storage.now(),
+  });
+}
+
+/**
+ * Copies the selected cards into `toTerm` (same name, position, department, division, photo) and
+ * moves any officer account linked to an old card onto its copy.
+ */
+export async function carryOverOfficers(
+  selected: Officer[],
+  toTerm: CouncilTerm,
+  accounts: UserAccount[],
+  actor: User
+) {
+  assertSuper(actor);
+  if (selected.length === 0) throw new Error("Pick at least one officer to carry over.");
+  if (selected.some((o) => o.councilTermId === toTerm.id)) {
+    throw new Error(`Some of these officers are already on the ${toTerm.label} roster.`);
+  }
+
+  const ops: BatchOp[] = [];
+  selected.forEach((o) => {
+    const id = storage.newId("officers");
+    ops.push({
+      type: "set",
+      path: "officers",
+      id,
+      data: {
+        name: o.name,
+        position: o.position,
+        department: o.department,
+        division: o.division,
+        photoUrl: o.photoUrl || "",
+        order: o.order ?? 0,
+        councilTermId: toTerm.id,
+        carriedFromId: o.id,
+        createdAt: storage.now(),
+        updatedAt: storage.now(),
+      },
+    });
+    accounts
+      .filter((a) => a.role === UserRole.OFFICER && String(a.officerId) === String(o.id))
+      .forEach((a) =>
+        ops.push({ type: "update", path: "users", id: a.id, data: { officerId: id, updatedAt: storage.now() } })
+      );
+  });
+
+  await storage.batch(ops);
+}
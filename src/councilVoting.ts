@@ -0,0 +1,182 @@
+// src/councilVoting.ts
+// Council votes on proposals that are on the FLOOR. A SUPERADMIN opens a session for a department;
+// its LEGISLATIVE officers (frozen at opening) vote through their linked accounts. A SUPERADMIN closes
+// it (their client does so on its own once everyone has voted or the deadline passes, and
+// server/adminApi.ts closes the ones nobody did), and a quorate result moves the proposal to
+// APPROVED/REJECTED with the roll call kept on the session for the public page. Only SUPERADMINs
+// and the admin API close because firestore.rules can't recount the votes.
+import {
+  DepartmentId,
+  Officer,
+  OfficerDivision,
+  PassRule,
+  Proposal,
+  ProposalStatusChange,
+  QuorumRule,
+  User,
+  UserRole,
+  Vote,
+  VoteChoice,
+  VoteRule,
+  VoteSession,
+  Voter,
+} from "../types";
+import { storage } from "./storage";
+import { BatchOp } from "./storageAdapter";
+import { normalizeProposalStatus, normalizeVote, normalizeVoteSession } from "./repository";
+import { statusChange } from "./proposalWorkflow";
+import { rollCall, tallyVotes } from "./voteTally";
+
+export { closeReason, rollCall, tallyVotes } from "./voteTally";
+
+export const VOTE_SESSIONS_COLLECTION = "voteSessions";
+export const VOTES_COLLECTION = "votes";
+
+export const DEFAULT_VOTE_RULE: VoteRule = { quorum: "MAJORITY", pass: "SIMPLE" };
+
+/** Default voting window when a session is opened */
+export const DEFAULT_VOTE_HOURS = 48;
+
+export const QUORUM_LABEL: Record<QuorumRule, string> = {
+  MAJORITY: "Majority present",
+  TWO_THIRDS: "Two-thirds present",
+};
+
+export const PASS_LABEL: Record<PassRule, string> = {
+  SIMPLE: "More yes than no",
+  ABSOLUTE: "Yes from a majority of all members",
+  TWO_THIRDS: "Two-thirds of votes cast",
+};
+
+export const VOTE_LABEL: Record<VoteChoice | "ABSENT", string> = {
+  YES: "Yes",
+  NO: "No",
+  ABSTAIN: "Abstain",
+  ABSENT: "Absent",
+};
+
+export const voteDocId = (sessionId: string, officerId: string) => `${sessionId}_${officerId}`;
+
+export const eligibleVoters = (officers: Officer[], department: DepartmentId): Voter[] =>
+  officers
+    .filter((o) => o.division === OfficerDivision.LEGISLATIVE && String(o.department) === String(department))
+    .slice()
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map((o) => ({ officerId: o.id, name: o.name, position: o.position }));
+
+/** The seat this account votes in, if any */
+export const voterFor = (user: User | null | undefined, session: VoteSession) =>
+  user?.officerId ? session.voters.find((v) => v.officerId === user.officerId) ?? null : null;
+
+// ==============================
+// Writes
+// ==============================
+export async function openVoteSession(
+  proposal: Proposal,
+  input: { department: DepartmentId; rule: VoteRule; closesAt: number },
+  actor: User,
+  officers: Officer[]
+) {
+  if (actor.role !== UserRole.SUPERADMIN) throw new Error("Only a SUPERADMIN can open a vote.");
+  if (proposal.status !== "FLOOR") throw new Error("Only proposals on the floor can be put to a vote.");
+  if (!Number.isFinite(input.closesAt) || input.closesAt <= Date.now()) {
+    throw new Error("The closing time must be in the future.");
+  }
+
+  const voters = eligibleVoters(officers, input.department);
+  if (voters.length === 0) throw new Error(`${input.department} has no officers in the Legislative division.`);
+
+  const open = await storage.getDocs(VOTE_SESSIONS_COLLECTION, {
+    where: [
+      ["proposalId", "==", proposal.id],
+      ["status", "==", "OPEN"],
+    ],
+  });
+  if (open.length > 0) throw new Error("A vote is already open for this proposal.");
+
+  return storage.add(VOTE_SESSIONS_COLLECTION, {
+    proposalId: proposal.id,
+    department: input.department,
+    rule: input.rule,
+    voters,
+    voterIds: voters.map((v) => v.officerId),
+    status: "OPEN",
+    openedById: actor.id,
+    openedByName: actor.name,
+    openedAt: storage.now(),
+    closesAt: input.closesAt,
+  });
+}
+
+/** One vote per seat; re-voting before the session closes replaces it */
+export async function castVote(session: VoteSession, actor: User, vote: VoteChoice) {
+  const voter = voterFor(actor, session);
+  if (!voter) throw new Error("Your account isn't linked to a voting member of this session.");
+  if (session.status !== "OPEN" || Date.now() >= session.closesAt) throw new Error("This vote is closed.");
+
+  await storage.set(VOTES_COLLECTION, voteDocId(session.id, voter.officerId), {
+    sessionId: session.id,
+    proposalId: session.proposalId,
+    officerId: voter.officerId,
+    vote,
+    castById: actor.id,
+    castByName: actor.name,
+    castAt: storage.now(),
+  });
+}
+
+/**
+ * Freezes the tally and roll call. With quorum, the proposal (if still on the floor) moves to
+ * APPROVED/REJECTED in the same batch; without it the proposal stays on the floor for another vote.
+ */
+export async function closeVoteSession(session: VoteSession, actor: User, reason: VoteSession["closedReason"]) {
+  if (actor.role !== UserRole.SUPERADMIN) throw new Error("Only a SUPERADMIN can close a vote.");
+  const fresh = await storage.getDoc(VOTE_SESSIONS_COLLECTION, session.id);
+  if (!fresh) throw new Error("This vote no longer exists.");
+  const current = normalizeVoteSession(fresh.id, fresh.data);
+  if (current.status !== "OPEN") return;
+
+  const votes = (await storage.getDocs(VOTES_COLLECTION, { where: [["sessionId", "==", session.id]] })).map((r) =>
+    normalizeVote(r.id, r.data)
+  );
+  const tally = tallyVotes(current, votes);
+
+  const ops: BatchOp[] = [
+    {
+      type: "update",
+      path: VOTE_SESSIONS_COLLECTION,
+      id: current.id,
+      data: {
+        status: "CLOSED",
+        closedAt: storage.now(),
+        closedReason: reason,
+        tally,
+        rollCall: rollCall(current, votes),
+      },
+    },
+  ];
+
+  const proposalRow = tally.quorumMet ? await storage.getDoc("proposals", current.proposalId) : null;
+  if (proposalRow && normalizeProposalStatus(proposalRow.data?.status) === "FLOOR") {
+    const to = tally.passed ? "APPROVED" : "REJECTED";
+    const history: ProposalStatusChange[] = Array.isArray(proposalRow.data?.statusHistory)
+      ? proposalRow.data.statusHistory
+      : [];
+    const note = `Council vote: ${tally.yes} yes, ${tally.no} no, ${tally.abstain} abstain (${tally.present} of ${tally.eligible} present).`;
+
+    ops.push({
+      type: "update",
+      path: "proposals",
+      id: current.proposalId,
+      data: {
+        status: to,
+        statusHistory: [...history, statusChange("FLOOR", to, actor, note)],
+        // firestore.rules only accepts the decision together with the close of this session
+        voteSessionId: current.id,
+        updatedAt: storage.now(),
+      },
+    });
+  }
+
+  await storage.batch(ops);
+}
@@ -0,0 +1,55 @@
+// src/departmentWorkspace.ts
+// Department workspaces (/dept/:id): each member organization's public page. The blurb and logo live
+// on departments/{id} and are edited by whoever holds content.edit in that department; officers,
+// ledger, proposals and projects come from the shared listeners filtered by department.
+import { Department, DepartmentId, DepartmentType, User } from "../types";
+import { can } from "./permissions";
+import { storage } from "./storage";
+
+export const departmentPath = (id: DepartmentId) => `/dept/${encodeURIComponent(String(id))}`;
+
+export const departmentTitle = (d: Pick<Department, "id" | "name">) =>
+  String(d.id) === String(DepartmentType.SAMASA) ? "SAMASA Central Board" : d.name || String(d.id);
+
+/** Stored department, or the built-in default for enum departments that were never saved */
+export function findDepartment(departments: Department[], id: string): Department | null {
+  const stored = departments.find((d) => String(d.id) === id);
+  if (stored) return stored;
+  const builtIn = Object.values(DepartmentType).indexOf(id as DepartmentType);
+  return builtIn < 0 ? null : { id, name: id, active: true, order: builtIn, locked: id === DepartmentType.SAMASA };
+}
+
+/** Ids a record can be filed under: the built-in departments plus every active stored one, in page order */
+export function departmentOptions(departments: Department[]): DepartmentId[] {
+  const ids: string[] = Object.values(DepartmentType).map(String);
+  departments.forEach((d) => {
+    if (d.active && !ids.includes(String(d.id))) ids.push(String(d.id));
+  });
+  const order = (id: string) => findDepartment(departments, id)?.order ?? ids.length;
+  return ids.sort((a, b) => order(a) - order(b));
+}
+
+export const canEditDepartment = (user: User | null | undefined, id: DepartmentId) => can(user, "content.edit", id);
+
+export type DepartmentProfileInput = { about: string; logoUrl: string; logoPublicId: string };
+
+/** Only the blurb and logo change; name, order and active stay with the department manager */
+export async function saveDepartmentProfile(department: Department, input: DepartmentProfileInput, actor: User) {
+  if (!canEditDepartment(actor, department.id)) throw new Error("You can't edit this department's page.");
+
+  await storage.set(
+    "departments",
+    String(department.id),
+    {
+      id: String(department.id),
+      name: department.name,
+      active: department.active,
+      order: department.order,
+      about: input.about.trim(),
+      logoUrl: input.logoUrl.trim(),
+      logoPublicId: input.logoPublicId,
+      updatedAt: storage.now(),
+    },
+    { merge: true }
+  );
+}
@@ -0,0 +1,200 @@
+// src/expenseApproval.ts
+// Expense workflow: DRAFT → SUBMITTED → APPROVED → POSTED (a rejection returns it to DRAFT).
+// Only POSTED entries count toward revenue/expenditure/available. Rules are per department in
+// approvalRules/{department}; departments without a doc use DEFAULT_APPROVAL_RULE.
+// Every transition is an audited ledger update (see ./budgetLedger).
+import { ApprovalRule, BudgetEntry, DepartmentType, ExpenseStatus, Officer, User, UserRole } from "../types";
+import { storage } from "./storage";
+import { updateBudgetEntry } from "./budgetLedger";
+import { can } from "./permissions";
+
+export const APPROVAL_RULES_COLLECTION = "approvalRules";
+
+export const DEFAULT_APPROVAL_RULE: Omit<ApprovalRule, "department"> = {
+  enabled: true,
+  approverPositions: ["Treasurer"],
+  autoPostUnder: 0,
+};
+
+export const STATUS_LABEL: Record<ExpenseStatus, string> = {
+  DRAFT: "Draft",
+  SUBMITTED: "Submitted",
+  APPROVED: "Approved",
+  POSTED: "Posted",
+};
+
+export const isPosted = (e: BudgetEntry) => (e.status ?? "POSTED") === "POSTED";
+
+export const ruleFor = (rules: ApprovalRule[], department: DepartmentType | string): ApprovalRule =>
+  rules.find((r) => String(r.department) === String(department)) ?? {
+    department: department as DepartmentType,
+    ...DEFAULT_APPROVAL_RULE,
+  };
+
+/** Income and balance adjustments always post directly; expenses follow the department rule */
+export const needsApproval = (
+  rules: ApprovalRule[],
+  record: { type: string; impact?: string; department: string; amount: number }
+) => {
+  if (record.type !== "EXPENSE" || record.impact === "AVAILABLE_ONLY") return false;
+  const rule = ruleFor(rules, record.department);
+  return rule.enabled && record.amount >= rule.autoPostUnder;
+};
+
+/**
+ * approverPositions as the regex firestore.rules matches a lower-cased officer position against:
+ * any position containing one of them, like the check below
+ */
+export const positionPattern = (positions: string[]) =>
+  positions.length === 0
+    ? ""
+    : `.*(${positions.map((p) => p.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")}).*`;
+
+/**
+ * Never the expense's submitter (firestore.rules enforces this too). Otherwise SUPERADMIN, or an
+ * OFFICER holding budget.approve in the expense's department, or whose linked officer card is in
+ * that department with an approver position.
+ */
+export function canApprove(user: User, entry: BudgetEntry, rules: ApprovalRule[], officers: Officer[]) {
+  if (entry.approval?.submittedById === user.id) return false;
+  if (user.role === UserRole.SUPERADMIN) return true;
+  if (user.role !== UserRole.OFFICER) return false;
+  if (can(user, "budget.approve", entry.department)) return true;
+  if (!user.officerId) return false;
+
+  const officer = officers.find((o) => o.id === user.officerId);
+  if (!officer || String(officer.department) !== String(entry.department)) return false;
+
+  const position = officer.position.toLowerCase();
+  return ruleFor(rules, entry.department).approverPositions.some((p) => position.includes(p.toLowerCase()));
+}
+
+/**
+ * Drafts and expenses awaiting approval are only listed for whoever records, approves or audits them
+ * in their department; everyone else sees posted rows (the Budget page and search)
+ */
+export const canSeeEntry = (user: User, entry: BudgetEntry, rules: ApprovalRule[], officers: Officer[]) =>
+  isPosted(entry) ||
+  can(user, "budget.post", entry.department) ||
+  can(user, "budget.audit", entry.department) ||
+  canApprove(user, entry, rules, officers);
+
+// ==============================
+// Transitions
+// ==============================
+const expectStatus = (entry: BudgetEntry, ...allowed: ExpenseStatus[]) => {
+  const status = entry.status ?? "POSTED";
+  if (!allowed.includes(status)) {
+    throw new Error(`This expense is ${STATUS_LABEL[status].toLowerCase()}; it can't be moved from here.`);
+  }
+};
+
+const stamp = (step: "submitted" | "approved" | "posted" | "rejected", actor: User) => ({
+  [`${step}ById`]: actor.id,
+  [`${step}ByName`]: actor.name,
+  [`${step}At`]: storage.now(),
+});
+
+type LedgerFields = { type: string; impact?: string; department: string; amount: number } & Partial<
+  Pick<BudgetEntry, "title" | "category" | "date" | "fund" | "projectId">
+>;
+
+/** Whether saving `record` over `previous` changes what an approval signs off on (firestore.rules keepsLedgerFields) */
+export function changesLedgerFields(previous: BudgetEntry, record: LedgerFields) {
+  const after = { ...previous, ...record };
+  return (
+    after.title !== previous.title ||
+    after.amount !== previous.amount ||
+    after.type !== previous.type ||
+    (after.impact ?? "LEDGER") !== (previous.impact ?? "LEDGER") ||
+    after.category !== previous.category ||
+    String(after.department) !== String(previous.department) ||
+    after.date !== previous.date ||
+    (after.fund ?? null) !== (previous.fund ?? null) ||
+    (after.projectId || null) !== (previous.projectId || null)
+  );
+}
+
+/**
+ * Workflow fields for a record saved from the form or an import. Edits to POSTED entries stay
+ * posted unless they change the ledger fields of an expense that needs approval, which goes back
+ * to SUBMITTED; `draft` keeps an approval-bound expense unsubmitted.
+ */
+export function workflowFields(
+  record: LedgerFields,
+  rules: ApprovalRule[],
+  actor: User,
+  opts: { draft?: boolean; previous?: BudgetEntry | null } = {}
+): Record<string, any> {
+  const previous = opts.previous;
+  if (previous && isPosted(previous)) {
+    const bound = needsApproval(rules, previous) || needsApproval(rules, record);
+    if (!bound || !changesLedgerFields(previous, record)) return {};
+  } else {
+    if (!needsApproval(rules, record)) return { status: "POSTED" };
+    if (opts.draft) return { status: "DRAFT", approvedBy: "" };
+  }
+
+  const { rejectedById, rejectedByName, rejectedAt, rejectionNote, ...rest } = previous?.approval ?? {};
+  return { status: "SUBMITTED", approvedBy: "", approval: { ...rest, ...stamp("submitted", actor) } };
+}
+
+export async function submitExpense(entry: BudgetEntry, actor: User) {
+  expectStatus(entry, "DRAFT");
+  // a fresh submission drops the previous rejection
+  const { rejectedById, rejectedByName, rejectedAt, rejectionNote, ...rest } = entry.approval ?? {};
+  await updateBudgetEntry(
+    entry,
+    { status: "SUBMITTED", approval: { ...rest, ...stamp("submitted", actor) } },
+    actor,
+    "Submitted for approval"
+  );
+}
+
+export async function approveExpense(entry: BudgetEntry, actor: User, note?: string) {
+  expectStatus(entry, "SUBMITTED");
+  await updateBudgetEntry(
+    entry,
+    { status: "APPROVED", approvedBy: actor.name, approval: { ...entry.approval, ...stamp("approved", actor) } },
+    actor,
+    note?.trim() || "Approved"
+  );
+}
+
+export async function rejectExpense(entry: BudgetEntry, actor: User, note: string) {
+  expectStatus(entry, "SUBMITTED", "APPROVED");
+  const { approvedById, approvedByName, approvedAt, ...rest } = entry.approval ?? {};
+  await updateBudgetEntry(
+    entry,
+    {
+      status: "DRAFT",
+      approvedBy: "",
+      approval: { ...rest, ...stamp("rejected", actor), rejectionNote: note.trim() },
+    },
+    actor,
+    `Rejected: ${note.trim()}`
+  );
+}
+
+export async function postExpense(entry: BudgetEntry, actor: User) {
+  expectStatus(entry, "APPROVED");
+  await updateBudgetEntry(
+    entry,
+    { status: "POSTED", approval: { ...entry.approval, ...stamp("posted", actor) } },
+    actor,
+    "Posted to ledger"
+  );
+}
+
+export async function saveApprovalRule(rule: ApprovalRule, actor: User) {
+  await storage.set(APPROVAL_RULES_COLLECTION, rule.department, {
+    department: rule.department,
+    enabled: rule.enabled,
+    approverPositions: rule.approverPositions,
+    approverPattern: positionPattern(rule.approverPositions),
+    autoPostUnder: rule.autoPostUnder,
+    updatedBy: actor.id,
+    updatedByName: actor.name,
+    updatedAt: storage.now(),
+  });
+}
@@ -0,0 +1,257 @@
+// src/financialStatement.ts
+// Statement of receipts and disbursements for a department, date range and fund.
+// Built from the same ledger rules as the Budget cards and exported entirely in the browser (CSV + jsPDF).
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { BudgetEntry, BudgetFundKey, DepartmentId } from "../types";
+import { toISODay } from "./fiscalTerms";
+import { isPosted } from "./expenseApproval";
+
+export type StatementScope = {
+  department: DepartmentId | "ALL";
+  /** inclusive, "YYYY-MM-DD" */
+  from: string;
+  to: string;
+  /** Funds only tag expenses, so a single fund leaves out receipts and balance adjustments */
+  fund: BudgetFundKey | "ALL";
+};
+
+export type StatementLine = {
+  date: string;
+  title: string;
+  category: string;
+  department: string;
+  fund: string;
+  receipt: number;
+  disbursement: number;
+  /** running balance after this line */
+  balance: number;
+  adjustment: boolean;
+};
+
+export type Signatory = { role: string; name: string; position: string };
+
+export type FinancialStatement = {
+  scope: StatementScope;
+  opening: number;
+  lines: StatementLine[];
+  totalReceipts: number;
+  totalDisbursements: number;
+  /** net of AVAILABLE_ONLY entries (already folded into the receipt/disbursement totals) */
+  netAdjustments: number;
+  closing: number;
+};
+
+export const DEFAULT_SIGNATORIES: Signatory[] = [
+  { role: "Prepared by", name: "", position: "Treasurer" },
+  { role: "Audited by", name: "", position: "Auditor" },
+  { role: "Approved by", name: "", position: "President" },
+];
+
+const FUND_LABEL: Record<BudgetFundKey, string> = {
+  operational: "Operational",
+  project: "Project",
+  trust: "Trust",
+};
+
+// ==============================
+// Math
+// ==============================
+/** Signed effect of an entry on the available balance (same rule as Budget's `available`) */
+const netOf = (e: BudgetEntry) => {
+  const amount = Number(e.amount) || 0;
+  if (e.impact === "AVAILABLE_ONLY") return amount;
+  return e.type === "INCOME" ? amount : -amount;
+};
+
+export function buildStatement(entries: BudgetEntry[], scope: StatementScope): FinancialStatement {
+  const inScope = entries
+    .filter(isPosted)
+    .filter((e) => scope.department === "ALL" || String(e.department) === String(scope.department))
+    .filter((e) => scope.fund === "ALL" || (e.type === "EXPENSE" && e.impact !== "AVAILABLE_ONLY" && e.fund === scope.fund))
+    .map((e) => ({ e, day: toISODay(e.date) }))
+    .filter((x) => x.day !== "");
+
+  const opening = inScope.filter((x) => x.day < scope.from).reduce((sum, x) => sum + netOf(x.e), 0);
+
+  const period = inScope
+    .filter((x) => x.day >= scope.from && x.day <= scope.to)
+    .sort((a, b) => a.day.localeCompare(b.day) || String(a.e.title).localeCompare(String(b.e.title)));
+
+  let balance = opening;
+  const lines: StatementLine[] = period.map(({ e, day }) => {
+    const net = netOf(e);
+    balance += net;
+    return {
+      date: day,
+      title: e.title,
+      category: e.category || "",
+      department: String(e.department),
+      fund: e.fund ? FUND_LABEL[e.fund] : "",
+      receipt: net > 0 ? net : 0,
+      disbursement: net < 0 ? -net : 0,
+      balance,
+      adjustment: e.impact === "AVAILABLE_ONLY",
+    };
+  });
+
+  const totalReceipts = lines.reduce((sum, l) => sum + l.receipt, 0);
+  const totalDisbursements = lines.reduce((sum, l) => sum + l.disbursement, 0);
+  const netAdjustments = lines.filter((l) => l.adjustment).reduce((sum, l) => sum + l.receipt - l.disbursement, 0);
+
+  return {
+    scope,
+    opening,
+    lines,
+    totalReceipts,
+    totalDisbursements,
+    netAdjustments,
+    closing: opening + totalReceipts - totalDisbursements,
+  };
+}
+
+// ==============================
+// Export
+// ==============================
+const money = (n: number) =>
+  Number(n).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const scopeTitle = (s: StatementScope) => (s.department === "ALL" ? "SAMASA (Consolidated)" : String(s.department));
+
+const scopeFund = (s: StatementScope) => (s.fund === "ALL" ? "All funds" : `${FUND_LABEL[s.fund]} fund`);
+
+export const statementFileName = (s: StatementScope, ext: "csv" | "pdf") =>
+  `statement_${scopeTitle(s).split(" ")[0]}_${s.fund}_${s.from}_${s.to}.${ext}`.toLowerCase();
+
+const csvCell = (v: string | number) => {
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const triggerDownload = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export function statementToCsv(st: FinancialStatement, signatories: Signatory[]) {
+  const rows: (string | number)[][] = [
+    ["Statement of Receipts and Disbursements"],
+    ["Department", scopeTitle(st.scope)],
+    ["Fund", scopeFund(st.scope)],
+    ["Period", st.scope.from, st.scope.to],
+    [],
+    ["Date", "Particulars", "Category", "Department", "Fund", "Receipts", "Disbursements", "Balance"],
+    ["", "Opening balance", "", "", "", "", "", st.opening.toFixed(2)],
+    ...st.lines.map((l) => [
+      l.date,
+      l.adjustment ? `${l.title} (balance adjustment)` : l.title,
+      l.category,
+      l.department,
+      l.fund,
+      l.receipt ? l.receipt.toFixed(2) : "",
+      l.disbursement ? l.disbursement.toFixed(2) : "",
+      l.balance.toFixed(2),
+    ]),
+    ["", "Totals", "", "", "", st.totalReceipts.toFixed(2), st.totalDisbursements.toFixed(2), st.closing.toFixed(2)],
+    [],
+    ["Closing balance", st.closing.toFixed(2)],
+    [],
+    ...signatories.map((s) => [s.role, s.name, s.position]),
+  ];
+
+  // BOM so Excel reads the file as UTF-8
+  return "﻿" + rows.map((r) => r.map(csvCell).join(",")).join("\r\n");
+}
+
+export function downloadStatementCsv(st: FinancialStatement, signatories: Signatory[]) {
+  const blob = new Blob([statementToCsv(st, signatories)], { type: "text/csv;charset=utf-8" });
+  triggerDownload(blob, statementFileName(st.scope, "csv"));
+}
+
+export function downloadStatementPdf(st: FinancialStatement, signatories: Signatory[], preparedAt = new Date()) {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 40;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text(scopeTitle(st.scope), pageWidth / 2, 50, { align: "center" });
+  doc.setFontSize(11);
+  doc.text("Statement of Receipts and Disbursements", pageWidth / 2, 68, { align: "center" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.text(`${st.scope.from} to ${st.scope.to} | ${scopeFund(st.scope)}`, pageWidth / 2, 84, { align: "center" });
+
+  // Built-in PDF fonts have no peso glyph, so amounts are labelled PHP
+  autoTable(doc, {
+    startY: 104,
+    margin: { left: margin, right: margin },
+    head: [["Date", "Particulars", "Category", "Receipts (PHP)", "Disbursements (PHP)", "Balance (PHP)"]],
+    body: [
+      ["", "Opening balance", "", "", "", money(st.opening)],
+      ...st.lines.map((l) => [
+        l.date,
+        `${l.title}${l.adjustment ? " (adj.)" : ""}${st.scope.department === "ALL" ? ` - ${l.department}` : ""}`,
+        [l.category, l.fund].filter(Boolean).join(" / "),
+        l.receipt ? money(l.receipt) : "",
+        l.disbursement ? money(l.disbursement) : "",
+        money(l.balance),
+      ]),
+    ],
+    foot: [["", "Totals", "", money(st.totalReceipts), money(st.totalDisbursements), money(st.closing)]],
+    styles: { fontSize: 8, cellPadding: 4 },
+    headStyles: { fillColor: [15, 23, 42] },
+    footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42] },
+    columnStyles: {
+      0: { cellWidth: 60 },
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+    },
+  });
+
+  let y = ((doc as any).lastAutoTable?.finalY ?? 120) + 24;
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFontSize(9);
+  doc.text(`Opening balance: PHP ${money(st.opening)}`, margin, y);
+  doc.text(`Total receipts: PHP ${money(st.totalReceipts)}`, margin, y + 14);
+  doc.text(`Total disbursements: PHP ${money(st.totalDisbursements)}`, margin, y + 28);
+  doc.setFont("helvetica", "bold");
+  doc.text(`Closing balance: PHP ${money(st.closing)}`, margin, y + 42);
+  doc.setFont("helvetica", "normal");
+
+  // Signatory blocks side by side; new page when they don't fit
+  y += 90;
+  if (y + 60 > pageHeight - margin) {
+    doc.addPage();
+    y = margin + 40;
+  }
+
+  const blocks = signatories.filter((s) => s.role.trim() || s.name.trim());
+  const colWidth = (pageWidth - margin * 2) / Math.max(1, blocks.length);
+  blocks.forEach((s, i) => {
+    const x = margin + colWidth * i;
+    doc.setFontSize(8);
+    doc.text(s.role, x, y - 30);
+    doc.line(x, y, x + colWidth - 20, y);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.text(s.name || " ", x, y + 12);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.text(s.position, x, y + 24);
+  });
+
+  doc.setFontSize(7);
+  doc.setTextColor(148, 163, 184);
+  doc.text(`Generated ${preparedAt.toLocaleString()}`, margin, pageHeight - 20);
+
+  doc.save(statementFileName(st.scope, "pdf"));
+}
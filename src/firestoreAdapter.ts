@@ -0,0 +1,87 @@
+// src/firestoreAdapter.ts
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryConstraint,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { getDb } from "../firebase/firebaseConfig";
+import { DocRow, QuerySpec, StorageAdapter } from "./storageAdapter";
+
+const buildQuery = (path: string, spec?: QuerySpec) => {
+  const constraints: QueryConstraint[] = [];
+  (spec?.where || []).forEach(([field, op, value]) => constraints.push(where(field, op, value)));
+  if (spec?.orderBy) constraints.push(orderBy(spec.orderBy[0], spec.orderBy[1]));
+  return query(collection(getDb(), path), ...constraints);
+};
+
+export const firestoreAdapter: StorageAdapter = {
+  kind: "firestore",
+
+  now: () => serverTimestamp(),
+
+  newId: (path) => doc(collection(getDb(), path)).id,
+
+  subscribeCollection: (path, spec, onRows, onError) =>
+    onSnapshot(
+      buildQuery(path, spec),
+      (snap) => onRows(snap.docs.map((d) => ({ id: d.id, data: d.data() }))),
+      onError
+    ),
+
+  subscribeDoc: (path, id, onDoc, onError) =>
+    onSnapshot(
+      doc(getDb(), path, id),
+      (snap) => onDoc(snap.exists() ? { id: snap.id, data: snap.data() } : null),
+      onError
+    ),
+
+  getDoc: async (path, id) => {
+    const snap = await getDoc(doc(getDb(), path, id));
+    return snap.exists() ? { id: snap.id, data: snap.data() } : null;
+  },
+
+  getDocs: async (path, spec) => {
+    const snap = await getDocs(buildQuery(path, spec));
+    return snap.docs.map((d): DocRow => ({ id: d.id, data: d.data() }));
+  },
+
+  add: async (path, data) => {
+    const ref = await addDoc(collection(getDb(), path), data);
+    return ref.id;
+  },
+
+  set: async (path, id, data, opts) => {
+    await setDoc(doc(getDb(), path, id), data, { merge: Boolean(opts?.merge) });
+  },
+
+  update: async (path, id, data) => {
+    await updateDoc(doc(getDb(), path, id), data);
+  },
+
+  remove: async (path, id) => {
+    await deleteDoc(doc(getDb(), path, id));
+  },
+
+  batch: async (ops) => {
+    const batch = writeBatch(getDb());
+    ops.forEach((op) => {
+      const ref = doc(getDb(), op.path, op.id);
+      if (op.type === "set") batch.set(ref, op.data, { merge: Boolean(op.merge) });
+      else if (op.type === "update") batch.update(ref, op.data);
+      else batch.delete(ref);
+    });
+    await batch.commit();
+  },
+};
@@ -0,0 +1,152 @@
+// src/fiscalTerms.ts
+// Fiscal terms (academic-year partitions) plus the term picked in the page selectors.
+// Records carry `termId`; legacy rows without one fall back to the term whose dates contain them.
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { FiscalTerm, TermTagged, User } from "../types";
+import { useFiscalTerms } from "./repository";
+import { storage } from "./storage";
+
+export const FISCAL_TERMS_COLLECTION = "fiscalTerms";
+
+/** "ALL" shows every term; a term id narrows to that term */
+export type TermSelection = "ALL" | string;
+
+const SELECTED_TERM_KEY = "samasa.selectedTerm";
+const SELECTED_TERM_EVENT = "samasa:selectedTermChanged";
+
+/** Any date-ish value → "YYYY-MM-DD" ("" when unparseable) */
+export const toISODay = (raw: any) => {
+  if (raw === null || raw === undefined || raw === "") return "";
+  if (typeof raw === "string" && /^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+  const ms = typeof raw?.toMillis === "function" ? raw.toMillis() : raw;
+  const d = new Date(ms);
+  return Number.isFinite(d.getTime()) ? d.toISOString().slice(0, 10) : "";
+};
+
+export const termContaining = (terms: FiscalTerm[], date: any) => {
+  const day = toISODay(date);
+  if (!day) return null;
+  return terms.find((t) => t.startDate <= day && day <= t.endDate) ?? null;
+};
+
+/** Explicit tag wins; otherwise the term covering `date` ("" when none) */
+export const resolveTermId = (terms: FiscalTerm[], item: TermTagged, date: any) =>
+  item.termId || termContaining(terms, date)?.id || "";
+
+/** Term covering today, else the newest open term, else the newest term */
+export const currentTerm = (terms: FiscalTerm[]) =>
+  termContaining(terms, new Date().toISOString()) ??
+  terms.find((t) => t.status === "OPEN") ??
+  terms[0] ??
+  null;
+
+// ==============================
+// Selected term (shared by every page selector, remembered per browser)
+// ==============================
+const readSelection = (): TermSelection | null => {
+  try {
+    return localStorage.getItem(SELECTED_TERM_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeSelection = (value: TermSelection) => {
+  try {
+    localStorage.setItem(SELECTED_TERM_KEY, value);
+  } catch {}
+  window.dispatchEvent(new CustomEvent(SELECTED_TERM_EVENT, { detail: value }));
+};
+
+/**
+ * Term filter for a page. `matches(item, date)` says whether a record belongs to the selected
+ * term and `isLocked(item, date)` whether its term is closed.
+ */
+export function useTermFilter() {
+  const { data: terms, loading } = useFiscalTerms();
+  const [stored, setStored] = useState<TermSelection | null>(() => readSelection());
+
+  useEffect(() => {
+    const onChange = (e: Event) => setStored((e as CustomEvent).detail ?? null);
+    window.addEventListener(SELECTED_TERM_EVENT, onChange);
+    return () => window.removeEventListener(SELECTED_TERM_EVENT, onChange);
+  }, []);
+
+  // Unknown/removed ids fall back to the current term
+  const selected: TermSelection = useMemo(() => {
+    if (stored === "ALL") return "ALL";
+    if (stored && terms.some((t) => t.id === stored)) return stored;
+    return currentTerm(terms)?.id ?? "ALL";
+  }, [stored, terms]);
+
+  const selectedTerm = useMemo(
+    () => (selected === "ALL" ? null : terms.find((t) => t.id === selected) ?? null),
+    [selected, terms]
+  );
+
+  const matches = useCallback(
+    (item: TermTagged, date: any) => selected === "ALL" || resolveTermId(terms, item, date) === selected,
+    [selected, terms]
+  );
+
+  const isLocked = useCallback(
+    (item: TermTagged, date: any) => {
+      const id = resolveTermId(terms, item, date);
+      return !!id && terms.find((t) => t.id === id)?.status === "CLOSED";
+    },
+    [terms]
+  );
+
+  return { terms, loading, selected, selectedTerm, setSelected: writeSelection, matches, isLocked };
+}
+
+// ==============================
+// Writes (SUPERADMIN)
+// ==============================
+export async function createFiscalTerm(data: { label: string; startDate: string; endDate: string }, actor: User) {
+  return storage.add(FISCAL_TERMS_COLLECTION, {
+    label: data.label.trim(),
+    startDate: data.startDate,
+    endDate: data.endDate,
+    status: "OPEN",
+    createdBy: actor.id,
+    createdByName: actor.name,
+    createdAt: storage.now(),
+    updatedAt: storage.now(),
+  });
+}
+
+export async function closeFiscalTerm(term: FiscalTerm, actor: User) {
+  await storage.update(FISCAL_TERMS_COLLECTION, term.id, {
+    status: "CLOSED",
+    closedAt: storage.now(),
+    closedBy: actor.id,
+    closedByName: actor.name,
+    updatedAt: storage.now(),
+  });
+}
+
+export async function reopenFiscalTerm(term: FiscalTerm, actor: User) {
+  await storage.update(FISCAL_TERMS_COLLECTION, term.id, {
+    status: "OPEN",
+    closedAt: null,
+    closedBy: null,
+    closedByName: null,
+    reopenedAt: storage.now(),
+    reopenedBy: actor.id,
+    reopenedByName: actor.name,
+    updatedAt: storage.now(),
+  });
+}
+
+/** Returns an error message when the range is invalid or overlaps another term */
+export function validateTermRange(
+  terms: Pick<FiscalTerm, "label" | "startDate" | "endDate">[],
+  startDate: string,
+  endDate: string
+) {
+  if (!startDate || !endDate) return "Start and end dates are required.";
+  if (endDate < startDate) return "End date must be on or after the start date.";
+  const clash = terms.find((t) => t.startDate <= endDate && startDate <= t.endDate);
+  return clash ? `Dates overlap with "${clash.label}".` : null;
+}
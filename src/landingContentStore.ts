@@ -28,6 +28,8 @@ export const DEFAULT_LANDING_CONTENT: LandingPageContent = {
 
   footerLeft: "SAMASA 2026",
   footerRight: "© Samahan ng mga Mag-aaral sa Sining at Agham",
+
+  loginBackgroundUrl: "",
 };
 
 function safeMerge(
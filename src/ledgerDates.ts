@@ -0,0 +1,53 @@
+// src/ledgerDates.ts
+// Ledger dates are calendar days ("YYYY-MM-DD") with no time zone. Parsing goes through the
+// explicit formats below instead of `new Date(s).toISOString()`, which shifts the day by the
+// local UTC offset and quietly rolls impossible dates (Feb 31 → Mar 3) into real ones.
+// No imports, so it also runs under plain Node (tests/ledgerDates.test.ts).
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** The local calendar day of `d` (not the UTC one) */
+export const localISODate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const isRealDay = (y: number, m: number, d: number) =>
+  y >= 1000 && m >= 1 && m <= 12 && d >= 1 && d <= new Date(Date.UTC(y, m, 0)).getUTCDate();
+
+const day = (y: number, m: number, d: number) => (isRealDay(y, m, d) ? `${y}-${pad(m)}-${pad(d)}` : null);
+
+/** 1-12 for a month name or its abbreviation ("Mar", "Sept"), 0 otherwise */
+const monthOf = (name: string) => {
+  const n = name.toLowerCase();
+  return n.length < 3 ? 0 : MONTHS.findIndex((full) => full.startsWith(n)) + 1;
+};
+
+/**
+ * "YYYY-MM-DD" for the accepted spellings, null otherwise:
+ *   2026-03-15, 2026/3/15        year first (an ISO timestamp keeps its date part)
+ *   03/15/2026, 3-15-2026        month first (US order, as spreadsheets export it)
+ *   Mar 15, 2026 / 15 March 2026 month names
+ */
+export function parseLedgerDate(raw: string): string | null {
+  const s = raw.trim();
+  let m: RegExpMatchArray | null;
+
+  if ((m = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(T[\d:.]+Z?)?$/))) return day(+m[1], +m[2], +m[3]);
+  if ((m = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/))) return day(+m[3], +m[1], +m[2]);
+  if ((m = s.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i))) return day(+m[3], monthOf(m[1]), +m[2]);
+  if ((m = s.match(/^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{4})$/i))) return day(+m[3], monthOf(m[2]), +m[1]);
+  return null;
+}
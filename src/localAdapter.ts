@@ -0,0 +1,220 @@
+// src/localAdapter.ts
+// localStorage-backed StorageAdapter for offline development and demos.
+// Collections that already have a store in src/ (officers, departments, users, landing content)
+// are read/written through that store; everything else lives under a generic key per collection.
+import { Department, LandingPageContent, Officer, UserAccount, UserRole } from "../types";
+import { loadOfficers, saveOfficers, OFFICERS_KEY } from "./officersStore";
+import { loadDepartments, saveDepartments } from "./departmentsStore";
+import { loadUsers, saveUsers } from "./usersStore";
+import { loadLandingContent, saveLandingContent } from "./landingContentStore";
+import { applyQuerySpec, DocRow, StorageAdapter } from "./storageAdapter";
+
+const COLLECTION_KEY_PREFIX = "samasa.db.v1.";
+const CHANGE_EVENT = "samasa:localDbUpdated";
+
+/** Demo login seeded when the local users store is empty */
+export const LOCAL_ADMIN_EMAIL =
+  ((import.meta.env.VITE_LOCAL_ADMIN_EMAIL as string) || "admin@samasa.local").toLowerCase();
+export const LOCAL_ADMIN_PASSWORD =
+  (import.meta.env.VITE_LOCAL_ADMIN_PASSWORD as string) || "samasa-admin";
+
+type DocMap = Record<string, any>;
+
+type Binding = {
+  load: () => DocMap;
+  save: (docs: DocMap) => void;
+};
+
+const makeId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`.toUpperCase();
+
+const toMap = (list: Array<{ id: string }>): DocMap =>
+  list.reduce<DocMap>((acc, item) => {
+    acc[String(item.id)] = { ...item };
+    return acc;
+  }, {});
+
+const fromMap = <T,>(docs: DocMap): T[] =>
+  Object.entries(docs).map(([id, data]) => ({ ...(data || {}), id } as T));
+
+const bindings: Record<string, Binding> = {
+  officers: {
+    load: () => {
+      const list = loadOfficers();
+      // persist the seeded defaults so ids stay stable across reads
+      if (!localStorage.getItem(OFFICERS_KEY)) saveOfficers(list);
+      return toMap(list);
+    },
+    save: (docs) => saveOfficers(fromMap<Officer>(docs)),
+  },
+
+  departments: {
+    load: () => toMap(loadDepartments()),
+    save: (docs) => saveDepartments(fromMap<Department>(docs)),
+  },
+
+  users: {
+    load: () => {
+      let list = loadUsers();
+      if (list.length === 0) {
+        list = [
+          {
+            id: "local-superadmin",
+            name: "Local Superadmin",
+            email: LOCAL_ADMIN_EMAIL,
+            password: LOCAL_ADMIN_PASSWORD,
+            role: UserRole.SUPERADMIN,
+            createdAt: Date.now(),
+            active: true,
+          },
+        ];
+        saveUsers(list);
+      }
+      return toMap(list);
+    },
+    save: (docs) => saveUsers(fromMap<UserAccount>(docs)),
+  },
+
+  siteSettings: {
+    load: () => ({ landingPage: loadLandingContent() }),
+    save: (docs) => {
+      if (docs.landingPage) saveLandingContent(docs.landingPage as LandingPageContent);
+    },
+  },
+};
+
+const genericBinding = (path: string): Binding => ({
+  load: () => {
+    try {
+      const raw = localStorage.getItem(COLLECTION_KEY_PREFIX + path);
+      const parsed = raw ? JSON.parse(raw) : {};
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  },
+  save: (docs) => localStorage.setItem(COLLECTION_KEY_PREFIX + path, JSON.stringify(docs)),
+});
+
+const bindingFor = (path: string) => bindings[path] ?? genericBinding(path);
+
+const readCollection = (path: string): DocMap => bindingFor(path).load();
+
+const writeCollection = (path: string, docs: DocMap) => {
+  bindingFor(path).save(docs);
+  window.dispatchEvent(new CustomEvent(CHANGE_EVENT, { detail: { path } }));
+};
+
+const rowsOf = (docs: DocMap): DocRow[] =>
+  Object.entries(docs).map(([id, data]) => ({ id, data: { ...(data || {}) } }));
+
+/** Calls `fn` whenever `path` changes in this tab or another tab */
+const watch = (path: string, fn: () => void) => {
+  const onLocal = (e: Event) => {
+    if ((e as CustomEvent).detail?.path === path) fn();
+  };
+  const onStorage = () => fn();
+
+  window.addEventListener(CHANGE_EVENT, onLocal);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onLocal);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+const applyOp = (docs: DocMap, op: { type: string; id: string; data?: any; merge?: boolean }, path: string) => {
+  if (op.type === "delete") {
+    delete docs[op.id];
+  } else if (op.type === "update") {
+    if (!docs[op.id]) throw new Error(`No document to update: ${path}/${op.id}`);
+    docs[op.id] = { ...docs[op.id], ...op.data };
+  } else {
+    docs[op.id] = op.merge ? { ...(docs[op.id] || {}), ...op.data } : { ...op.data };
+  }
+};
+
+export const localAdapter: StorageAdapter = {
+  kind: "local",
+
+  now: () => Date.now(),
+
+  newId: () => makeId(),
+
+  subscribeCollection: (path, spec, onRows, onError) => {
+    const emit = () => {
+      try {
+        onRows(applyQuerySpec(rowsOf(readCollection(path)), spec));
+      } catch (err) {
+        onError(err);
+      }
+    };
+    const stop = watch(path, emit);
+    // async first emit, like a snapshot listener
+    const t = window.setTimeout(emit, 0);
+    return () => {
+      window.clearTimeout(t);
+      stop();
+    };
+  },
+
+  subscribeDoc: (path, id, onDoc, onError) => {
+    const emit = () => {
+      try {
+        const data = readCollection(path)[id];
+        onDoc(data ? { id, data: { ...data } } : null);
+      } catch (err) {
+        onError(err);
+      }
+    };
+    const stop = watch(path, emit);
+    const t = window.setTimeout(emit, 0);
+    return () => {
+      window.clearTimeout(t);
+      stop();
+    };
+  },
+
+  getDoc: async (path, id) => {
+    const data = readCollection(path)[id];
+    return data ? { id, data: { ...data } } : null;
+  },
+
+  getDocs: async (path, spec) => applyQuerySpec(rowsOf(readCollection(path)), spec),
+
+  add: async (path, data) => {
+    const id = makeId();
+    const docs = readCollection(path);
+    docs[id] = { ...data };
+    writeCollection(path, docs);
+    return id;
+  },
+
+  set: async (path, id, data, opts) => {
+    const docs = readCollection(path);
+    applyOp(docs, { type: "set", id, data, merge: opts?.merge }, path);
+    writeCollection(path, docs);
+  },
+
+  update: async (path, id, data) => {
+    const docs = readCollection(path);
+    applyOp(docs, { type: "update", id, data }, path);
+    writeCollection(path, docs);
+  },
+
+  remove: async (path, id) => {
+    const docs = readCollection(path);
+    applyOp(docs, { type: "delete", id }, path);
+    writeCollection(path, docs);
+  },
+
+  batch: async (ops) => {
+    // stage everything first so a failing op leaves storage untouched
+    const staged = new Map<string, DocMap>();
+    ops.forEach((op) => {
+      if (!staged.has(op.path)) staged.set(op.path, readCollection(op.path));
+      applyOp(staged.get(op.path)!, op as any, op.path);
+    });
+    staged.forEach((docs, path) => writeCollection(path, docs));
+  },
+};
@@ -28,6 +28,7 @@ function normalizeOfficer(raw: any, department: string, order: number): Officer
   const position = raw?.position || "Position";
 
   return {
+    ...(raw || {}), // keep extra fields (timestamps etc.) written through the local storage adapter
     id: raw?.id || makeId(),
     name: raw?.name || "Unnamed",
     position,
@@ -0,0 +1,230 @@
+// src/permissions.ts
+// Named permissions grouped into roles; a SUPERADMIN grants roles to officer accounts per department.
+// Profiles keep the grants plus `scopes` ("budget.post@MSA", "content.edit@*") derived from them,
+// which is the flat list both the UI (can()) and firestore.rules check. SUPERADMIN holds everything.
+import { useMemo } from "react";
+import {
+  DepartmentId,
+  DepartmentType,
+  Permission,
+  PermissionRole,
+  RoleGrant,
+  User,
+  UserAccount,
+  UserRole,
+} from "../types";
+import { useCustomRoles } from "./repository";
+import { storage } from "./storage";
+import { BatchOp } from "./storageAdapter";
+
+export const ROLES_COLLECTION = "roles";
+
+/** Grant department meaning "every department" */
+export const ALL_DEPARTMENTS = "*";
+
+export const PERMISSIONS: { id: Permission; label: string; description: string }[] = [
+  { id: "budget.post", label: "Record budget entries", description: "Add, edit and delete ledger entries" },
+  { id: "budget.approve", label: "Approve expenses", description: "Approve or reject submitted expenses" },
+  { id: "budget.allocate", label: "Set allocations", description: "Set fund allocations per term" },
+  { id: "budget.audit", label: "View audit trail", description: "Read the ledger's change history" },
+  { id: "proposals.create", label: "Create proposals", description: "Draft and file new proposals" },
+  { id: "proposals.edit", label: "Edit proposals", description: "Edit, delete and revert any proposal" },
+  { id: "projects.edit", label: "Manage projects", description: "Create, edit and delete projects" },
+  { id: "officers.manage", label: "Manage officer cards", description: "Add, edit and remove directory cards" },
+  { id: "content.edit", label: "Edit page content", description: "About page (SAMASA) and department page blurb and logo" },
+  { id: "site.manage", label: "Manage site", description: "Landing page editor and recycle bin" },
+];
+
+export const BUILT_IN_ROLES: PermissionRole[] = [
+  {
+    id: "officer",
+    name: "Officer",
+    description: "Baseline council member: records budget entries, files proposals, edits About and the department page.",
+    permissions: ["budget.post", "proposals.create", "content.edit"],
+    builtIn: true,
+  },
+  {
+    id: "treasurer",
+    name: "Treasurer",
+    description: "Keeps the ledger and approves expenses.",
+    permissions: ["budget.post", "budget.approve", "budget.audit"],
+    builtIn: true,
+  },
+  {
+    id: "secretary",
+    name: "Secretary",
+    description: "Keeps proposals, projects and the officer directory.",
+    permissions: ["proposals.create", "proposals.edit", "projects.edit", "officers.manage"],
+    builtIn: true,
+  },
+  {
+    id: "auditor",
+    name: "Auditor",
+    description: "Read-only access to the ledger's audit trail.",
+    permissions: ["budget.audit"],
+    builtIn: true,
+  },
+];
+
+export const scopeKey = (permission: Permission, department: DepartmentId | "*") => `${permission}@${department}`;
+
+export function deriveScopes(grants: RoleGrant[], roles: PermissionRole[]) {
+  const out = new Set<string>();
+  grants.forEach((g) => {
+    roles.find((r) => r.id === g.roleId)?.permissions.forEach((p) => out.add(scopeKey(p, g.department)));
+  });
+  return [...out].sort();
+}
+
+/** Accounts that predate roles act as Officers of their own department (SAMASA when unset) */
+export const grantsOf = (account: Pick<UserAccount, "role" | "department" | "grants">): RoleGrant[] =>
+  account.grants ??
+  (account.role === UserRole.OFFICER
+    ? [{ roleId: "officer", department: account.department || DepartmentType.SAMASA }]
+    : []);
+
+/** Scopes stored on a raw users/{uid} profile, falling back to the legacy Officer grant */
+export const profileScopes = (data: any): string[] =>
+  Array.isArray(data?.scopes)
+    ? data.scopes.map((x: any) => String(x))
+    : deriveScopes(
+        grantsOf({ role: String(data?.role || "").toUpperCase() as UserRole, department: data?.department }),
+        BUILT_IN_ROLES
+      );
+
+// ==============================
+// Checks
+// ==============================
+const scopesOf = (user: User) =>
+  user.scopes ?? deriveScopes(grantsOf({ role: user.role, department: user.department }), BUILT_IN_ROLES);
+
+/**
+ * True when the user holds `permission` in `department`. Council-wide things (About content,
+ * allocations, the site) are checked against SAMASA.
+ */
+export function can(user: User | null | undefined, permission: Permission, department: DepartmentId = DepartmentType.SAMASA) {
+  if (!user) return false;
+  if (user.role === UserRole.SUPERADMIN) return true;
+  if (user.role !== UserRole.OFFICER) return false;
+  const scopes = scopesOf(user);
+  return scopes.includes(scopeKey(permission, ALL_DEPARTMENTS)) || scopes.includes(scopeKey(permission, String(department)));
+}
+
+/** Holds `permission` in at least one department (whether to show the control at all) */
+export function canAnywhere(user: User | null | undefined, permission: Permission) {
+  if (!user) return false;
+  if (user.role === UserRole.SUPERADMIN) return true;
+  if (user.role !== UserRole.OFFICER) return false;
+  return scopesOf(user).some((s) => s.startsWith(`${permission}@`));
+}
+
+/** Departments (from `options`) where the user holds `permission` */
+export const departmentsWith = <T extends DepartmentId>(user: User | null | undefined, permission: Permission, options: T[]) =>
+  options.filter((d) => can(user, permission, d));
+
+// ==============================
+// Roles
+// ==============================
+/** Built-in roles followed by the custom ones from roles/{id} */
+export function useRoles() {
+  const state = useCustomRoles();
+  const data = useMemo(() => [...BUILT_IN_ROLES, ...state.data], [state.data]);
+  return useMemo(() => ({ ...state, data }), [state, data]);
+}
+
+export const roleName = (roles: PermissionRole[], roleId: string) =>
+  roles.find((r) => r.id === roleId)?.name ?? roleId;
+
+// ==============================
+// Writes (SUPERADMIN)
+// ==============================
+const assertSuper = (actor: User) => {
+  if (actor.role !== UserRole.SUPERADMIN) throw new Error("Only SUPERADMIN can assign roles.");
+};
+
+const cleanGrants = (grants: RoleGrant[]) => {
+  const seen = new Set<string>();
+  return grants.filter((g) => {
+    const key = `${g.roleId}@${g.department}`;
+    if (!g.roleId || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export async function saveGrants(accountId: string, grants: RoleGrant[], roles: PermissionRole[], actor: User) {
+  assertSuper(actor);
+  const clean = cleanGrants(grants);
+  await storage.update("users", accountId, {
+    grants: clean.map((g) => ({ roleId: g.roleId, department: String(g.department) })),
+    scopes: deriveScopes(clean, roles),
+    updatedAt: storage.now(),
+  });
+}
+
+/** Accounts holding `roleId` get their scopes re-derived in the same batch as the role write */
+const rescopeOps = (accounts: UserAccount[], roles: PermissionRole[], roleId: string): BatchOp[] =>
+  accounts
+    .filter((a) => grantsOf(a).some((g) => g.roleId === roleId))
+    .map((a) => {
+      const grants = grantsOf(a);
+      return {
+        type: "update",
+        path: "users",
+        id: a.id,
+        data: { grants, scopes: deriveScopes(grants, roles), updatedAt: storage.now() },
+      };
+    });
+
+export async function saveRole(
+  role: { id?: string; name: string; description: string; permissions: Permission[] },
+  roles: PermissionRole[],
+  accounts: UserAccount[],
+  actor: User
+) {
+  assertSuper(actor);
+  const name = role.name.trim();
+  if (!name) throw new Error("Role name is required.");
+  if (role.permissions.length === 0) throw new Error("Pick at least one permission.");
+  if (role.id && BUILT_IN_ROLES.some((r) => r.id === role.id)) throw new Error("Built-in roles can't be changed.");
+  if (roles.some((r) => r.id !== role.id && r.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A role named "${name}" already exists.`);
+  }
+
+  const id = role.id || storage.newId(ROLES_COLLECTION);
+  const saved: PermissionRole = { id, name, description: role.description.trim(), permissions: role.permissions };
+  const nextRoles = [...roles.filter((r) => r.id !== id), saved];
+
+  await storage.batch([
+    {
+      type: "set",
+      path: ROLES_COLLECTION,
+      id,
+      data: { name, description: saved.description, permissions: saved.permissions, updatedAt: storage.now() },
+    },
+    ...rescopeOps(accounts, nextRoles, id),
+  ]);
+  return id;
+}
+
+/** Removes the role and every grant of it */
+export async function deleteRole(role: PermissionRole, roles: PermissionRole[], accounts: UserAccount[], actor: User) {
+  assertSuper(actor);
+  if (role.builtIn) throw new Error("Built-in roles can't be deleted.");
+  const nextRoles = roles.filter((r) => r.id !== role.id);
+
+  await storage.batch([
+    { type: "delete", path: ROLES_COLLECTION, id: role.id },
+    ...accounts
+      .filter((a) => grantsOf(a).some((g) => g.roleId === role.id))
+      .map<BatchOp>((a) => {
+        const grants = grantsOf(a).filter((g) => g.roleId !== role.id);
+        return {
+          type: "update",
+          path: "users",
+          id: a.id,
+          data: { grants, scopes: deriveScopes(grants, nextRoles), updatedAt: storage.now() },
+        };
+      }),
+  ]);
+}
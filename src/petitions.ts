@@ -0,0 +1,187 @@
+// src/petitions.ts
+// Student submissions and petitions. A student's proposal or concern lands in the moderation
+// queue (SUBMITTED); officers file it, decline it, or open it for co-signatures (PETITION).
+// Signatures are petitionSignatures/{proposalId}_{userId} and only their count is public — the
+// submitter's identity sits in proposalSubmitters/{proposalId}, never on the proposal itself.
+import {
+  PetitionSettings,
+  Proposal,
+  ProposalCategory,
+  ProposalStatus,
+  StudentSubmissionKind,
+  User,
+  UserRole,
+} from "../types";
+import { storage } from "./storage";
+import { BatchOp } from "./storageAdapter";
+import { normalizeNumber, normalizePetitionSettings, normalizeProposalStatus } from "./repository";
+import { isActiveProposal, statusChange } from "./proposalWorkflow";
+
+export const PROPOSAL_SUBMITTERS_COLLECTION = "proposalSubmitters";
+export const PETITION_SIGNATURES_COLLECTION = "petitionSignatures";
+
+export const SUBMISSION_KIND_LABEL: Record<StudentSubmissionKind, string> = {
+  PROPOSAL: "Student Proposal",
+  CONCERN: "Student Concern",
+};
+
+export const isStudent = (user?: User | null) => user?.role === UserRole.STUDENT;
+
+export const signatureDocId = (proposalId: string, userId: string) => `${proposalId}_${userId}`;
+
+/** Stands in for the student in public history entries */
+const anonymous = (actor: User): User => ({ id: "", name: "Student", email: "", role: actor.role });
+
+/** Auto-filing isn't anyone's action, so it is recorded under this name */
+const THRESHOLD_ACTOR: User = { id: "", name: "Petition threshold", email: "", role: UserRole.STUDENT };
+
+/** Open petitions plus proposals still before the council can be co-signed */
+export const canCollectSignatures = (p: Pick<Proposal, "status">) =>
+  p.status === "PETITION" || isActiveProposal(p);
+
+/** Queue items and submissions declined from the queue stay off the public list */
+export const inModeration = (p: Proposal) => {
+  if (p.status === "SUBMITTED") return true;
+  const last = p.statusHistory?.[p.statusHistory.length - 1];
+  return !!p.submissionKind && p.status === "REJECTED" && last?.from === "SUBMITTED";
+};
+
+/**
+ * Drafts are only visible to their author (and SUPERADMIN); the moderation queue to council staff
+ * and the submitting student (`mySubmissionIds`)
+ */
+export const canViewProposal = (p: Proposal, user: User, mySubmissionIds: Set<string>) =>
+  (p.status !== "DRAFT" || user.role === UserRole.SUPERADMIN || p.createdById === user.id) &&
+  (!inModeration(p) || user.role === UserRole.OFFICER || user.role === UserRole.SUPERADMIN || mySubmissionIds.has(p.id));
+
+// ==============================
+// Submissions
+// ==============================
+export async function submitStudentProposal(
+  input: {
+    kind: StudentSubmissionKind;
+    title: string;
+    category: ProposalCategory;
+    description: string;
+    dateSubmitted: string;
+    termId: string;
+  },
+  actor: User
+) {
+  if (!isStudent(actor)) throw new Error("Only student accounts can submit here.");
+  const title = input.title.trim();
+  const description = input.description.trim();
+  if (!title || !description) throw new Error("Please add a title and a description.");
+
+  const id = storage.newId("proposals");
+  const status: ProposalStatus = "SUBMITTED";
+
+  await storage.batch([
+    {
+      type: "set",
+      path: "proposals",
+      id,
+      data: {
+        title,
+        category: input.category,
+        description,
+        status,
+        statusHistory: [statusChange(null, status, anonymous(actor))],
+        submissionKind: input.kind,
+        signatureCount: 0,
+        dateSubmitted: input.dateSubmitted,
+        proponent: SUBMISSION_KIND_LABEL[input.kind],
+        pdfName: null,
+        pdfUrl: null,
+        pdfPublicId: null,
+        termId: input.termId,
+        createdAt: storage.now(),
+        updatedAt: storage.now(),
+      },
+    },
+    {
+      type: "set",
+      path: PROPOSAL_SUBMITTERS_COLLECTION,
+      id,
+      data: {
+        proposalId: id,
+        studentId: actor.id,
+        studentName: actor.name,
+        studentEmail: actor.email,
+        submittedAt: Date.now(),
+      },
+    },
+  ]);
+
+  return id;
+}
+
+// ==============================
+// Signatures
+// ==============================
+/**
+ * Adds the student's co-signature and bumps the public count by exactly one; a PETITION that
+ * reaches the threshold is filed in the same write. Concurrent signers race on the count, and
+ * the loser's write is rejected by the security rules (count must equal the stored count + 1).
+ */
+export async function signPetition(proposal: Proposal, actor: User) {
+  if (!isStudent(actor)) throw new Error("Only students can co-sign proposals.");
+
+  const sigId = signatureDocId(proposal.id, actor.id);
+  if (await storage.getDoc(PETITION_SIGNATURES_COLLECTION, sigId)) throw new Error("You already signed this.");
+
+  const current = await storage.getDoc("proposals", proposal.id);
+  if (!current) throw new Error("This proposal no longer exists.");
+  const status = normalizeProposalStatus(current.data?.status);
+  if (!canCollectSignatures({ status })) throw new Error("This proposal is no longer collecting signatures.");
+
+  const settings: PetitionSettings = normalizePetitionSettings(
+    (await storage.getDoc("siteSettings", "petitions"))?.data
+  );
+  const count = normalizeNumber(current.data?.signatureCount) + 1;
+  const reachesThreshold = status === "PETITION" && count >= settings.signatureThreshold;
+
+  const history = Array.isArray(current.data?.statusHistory) ? current.data.statusHistory : [];
+  const ops: BatchOp[] = [
+    {
+      type: "set",
+      path: PETITION_SIGNATURES_COLLECTION,
+      id: sigId,
+      data: { proposalId: proposal.id, userId: actor.id, signedAt: Date.now() },
+    },
+    {
+      type: "update",
+      path: "proposals",
+      id: proposal.id,
+      data: {
+        signatureCount: count,
+        ...(reachesThreshold
+          ? {
+              status: "FILED",
+              statusHistory: [
+                ...history,
+                statusChange("PETITION", "FILED", THRESHOLD_ACTOR, `Reached ${settings.signatureThreshold} signatures.`),
+              ],
+              updatedAt: storage.now(),
+            }
+          : {}),
+      },
+    },
+  ];
+
+  await storage.batch(ops);
+  return reachesThreshold;
+}
+
+export async function savePetitionSettings(settings: PetitionSettings, actor: User) {
+  if (actor.role !== UserRole.SUPERADMIN) throw new Error("Only SUPERADMIN can change the petition threshold.");
+  const n = Math.floor(Number(settings.signatureThreshold));
+  if (!Number.isFinite(n) || n < 1) throw new Error("The threshold must be at least 1 signature.");
+
+  await storage.set(
+    "siteSettings",
+    "petitions",
+    { signatureThreshold: n, updatedById: actor.id, updatedAt: storage.now() },
+    { merge: true }
+  );
+}
@@ -0,0 +1,183 @@
+// src/policies.ts
+// Registry of enacted resolutions/ordinances. Codes are numbered per fiscal term + department + kind
+// ("SAMASA Res. 2026-014", "SAMASA Res. 2026B-003" for the year's second term); amendment/repeal
+// status is derived from later policies' links.
+import { DepartmentType, FiscalTerm, Policy, PolicyKind, PolicyStatus, User } from "../types";
+import { storage } from "./storage";
+import { resolveTermId } from "./fiscalTerms";
+
+export const POLICIES_COLLECTION = "policies";
+
+export const POLICY_KIND_LABEL: Record<PolicyKind, string> = {
+  RESOLUTION: "Resolution",
+  ORDINANCE: "Ordinance",
+};
+
+const KIND_ABBR: Record<PolicyKind, string> = {
+  RESOLUTION: "Res.",
+  ORDINANCE: "Ord.",
+};
+
+export const POLICY_STATUS_LABEL: Record<PolicyStatus, string> = {
+  IN_FORCE: "In force",
+  AMENDED: "Amended",
+  REPEALED: "Repealed",
+};
+
+export const formatPolicyCode = (department: string, kind: PolicyKind, period: string, number: number) =>
+  `${department} ${KIND_ABBR[kind]} ${period}-${String(number).padStart(3, "0")}`;
+
+/**
+ * Period part of a code: the year the term starts in, lettered from the second term that starts
+ * in the same year ("2026", "2026B"); the calendar year when no term covers the date
+ */
+export function policyPeriod(terms: FiscalTerm[], term: FiscalTerm | undefined, dateApproved: string) {
+  if (!term) return dateApproved.slice(0, 4);
+  const year = term.startDate.slice(0, 4);
+  const index = terms
+    .filter((t) => t.startDate.slice(0, 4) === year)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .findIndex((t) => t.id === term.id);
+  return index > 0 ? `${year}${String.fromCharCode(65 + index)}` : year;
+}
+
+/** Doc id derived from the code, so a code has one doc (firestore.rules won't let a second enactment replace it) */
+const policyDocId = (code: string) => code.replace(/[^A-Za-z0-9]+/g, "-").replace(/-+$/, "");
+
+// ==============================
+// Derived links / status
+// ==============================
+export function policyLinks(policy: Policy, all: Policy[]) {
+  const byId = (ids: string[]) => ids.map((id) => all.find((p) => p.id === id)).filter(Boolean) as Policy[];
+  return {
+    amends: byId(policy.amends),
+    repeals: byId(policy.repeals),
+    amendedBy: all.filter((p) => p.amends.includes(policy.id)),
+    repealedBy: all.filter((p) => p.repeals.includes(policy.id)),
+  };
+}
+
+export function policyStatus(policy: Policy, all: Policy[]): PolicyStatus {
+  if (all.some((p) => p.repeals.includes(policy.id))) return "REPEALED";
+  if (all.some((p) => p.amends.includes(policy.id))) return "AMENDED";
+  return "IN_FORCE";
+}
+
+export function searchPolicies(list: Policy[], query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return list;
+  return list.filter((p) =>
+    `${p.code} ${p.title} ${p.description} ${p.fullText} ${p.department}`.toLowerCase().includes(q)
+  );
+}
+
+// ==============================
+// Writes (SUPERADMIN)
+// ==============================
+export type PolicyInput = {
+  title: string;
+  kind: PolicyKind;
+  department: DepartmentType;
+  dateApproved: string;
+  description: string;
+  fullText: string;
+  proposalId?: string | null;
+  amends: string[];
+  repeals: string[];
+};
+
+const validateLinks = (input: PolicyInput, all: Policy[]) => {
+  const overlap = input.amends.find((id) => input.repeals.includes(id));
+  if (overlap) return "A policy can't both amend and repeal the same policy.";
+
+  const repealed = [...input.amends, ...input.repeals]
+    .map((id) => all.find((p) => p.id === id))
+    .find((p) => p && policyStatus(p, all) === "REPEALED");
+  return repealed ? `${repealed.code} is already repealed.` : null;
+};
+
+/**
+ * Assigns the next number in the code's period and saves. Numbers are read off the stored codes, so
+ * each term (or calendar year without one) keeps its own sequence. Two SUPERADMINs enacting at once
+ * can both pick the same number; firestore.rules only lets the first create the doc, and the other
+ * is asked to try again.
+ */
+export async function enactPolicy(input: PolicyInput, actor: User, terms: FiscalTerm[], all: Policy[]) {
+  if (!input.title.trim()) throw new Error("Title is required.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.dateApproved)) throw new Error("Date approved is required.");
+  if (!input.fullText.trim()) throw new Error("Full text is required.");
+
+  const linkProblem = validateLinks(input, all);
+  if (linkProblem) throw new Error(linkProblem);
+
+  const termId = resolveTermId(terms, {}, input.dateApproved);
+  const term = terms.find((t) => t.id === termId);
+  if (term?.status === "CLOSED") throw new Error(`${term.label} is closed; policies can't be enacted into it.`);
+
+  const period = policyPeriod(terms, term, input.dateApproved);
+  const prefix = formatPolicyCode(input.department, input.kind, period, 0).replace(/\d+$/, "");
+  const siblings = await storage.getDocs(POLICIES_COLLECTION, {
+    where: [
+      ["department", "==", input.department],
+      ["kind", "==", input.kind],
+    ],
+  });
+  const inSequence = siblings.filter((r) => String(r.data?.code ?? "").startsWith(prefix));
+  const number = inSequence.reduce((max, r) => Math.max(max, Number(r.data?.number) || 0), 0) + 1;
+
+  const code = formatPolicyCode(input.department, input.kind, period, number);
+  const id = policyDocId(code);
+  const taken = () => new Error(`${code} was just taken by someone else. Please try again.`);
+  if (await storage.getDoc(POLICIES_COLLECTION, id)) throw taken();
+
+  await storage.set(POLICIES_COLLECTION, id, {
+    title: input.title.trim(),
+    code,
+    number,
+    kind: input.kind,
+    department: input.department,
+    dateApproved: input.dateApproved,
+    description: input.description.trim(),
+    fullText: input.fullText,
+    proposalId: input.proposalId || null,
+    amends: input.amends,
+    repeals: input.repeals,
+    ...(termId ? { termId } : {}),
+    createdBy: actor.id,
+    createdByName: actor.name,
+    createdAt: storage.now(),
+    updatedAt: storage.now(),
+  }).catch((err) => {
+    // the doc appeared after the check above
+    throw err?.code === "permission-denied" ? taken() : err;
+  });
+
+  return { id, code };
+}
+
+/** Corrections only; the code, number, kind and department stay fixed once enacted */
+export async function updatePolicy(
+  policy: Policy,
+  patch: Pick<PolicyInput, "title" | "description" | "fullText" | "amends" | "repeals" | "proposalId">,
+  actor: User,
+  all: Policy[]
+) {
+  if (!patch.title.trim()) throw new Error("Title is required.");
+  if ([...patch.amends, ...patch.repeals].includes(policy.id)) throw new Error("A policy can't amend or repeal itself.");
+
+  const others = all.filter((p) => p.id !== policy.id);
+  const linkProblem = validateLinks({ ...policy, ...patch }, others);
+  if (linkProblem) throw new Error(linkProblem);
+
+  await storage.update(POLICIES_COLLECTION, policy.id, {
+    title: patch.title.trim(),
+    description: patch.description.trim(),
+    fullText: patch.fullText,
+    proposalId: patch.proposalId || null,
+    amends: patch.amends,
+    repeals: patch.repeals,
+    updatedBy: actor.id,
+    updatedByName: actor.name,
+    updatedAt: storage.now(),
+  });
+}
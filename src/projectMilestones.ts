@@ -0,0 +1,156 @@
+// src/projectMilestones.ts
+// Milestones live on projects/{id}.milestones. Percent complete, per-objective progress and —
+// unless an officer overrode it — the project status are all derived from them. Editors' writes
+// store the derived status too; owners' updates can't write status (firestore.rules), so
+// normalizeProject re-derives it on read.
+import { MilestoneState, Officer, Project, ProjectMilestone, ProjectStatus, User } from "../types";
+import { storage } from "./storage";
+import { can } from "./permissions";
+
+export const MILESTONE_STATE_LABEL: Record<MilestoneState, string> = {
+  TODO: "To Do",
+  IN_PROGRESS: "In Progress",
+  BLOCKED: "Blocked",
+  DONE: "Done",
+};
+
+export const percentComplete = (milestones: ProjectMilestone[]) =>
+  milestones.length === 0 ? 0 : (milestones.filter((m) => m.state === "DONE").length / milestones.length) * 100;
+
+/** Done/total per objective; milestones without an objective are grouped under "" */
+export function objectiveProgress(project: Pick<Project, "objectives" | "milestones">) {
+  const milestones = project.milestones ?? [];
+  const keys = [...project.objectives, ...(milestones.some((m) => !project.objectives.includes(m.objective)) ? [""] : [])];
+
+  return keys.map((objective) => {
+    const items = milestones.filter((m) =>
+      objective ? m.objective === objective : !project.objectives.includes(m.objective)
+    );
+    return { objective, done: items.filter((m) => m.state === "DONE").length, total: items.length };
+  });
+}
+
+/** null when there are no milestones (status stays whatever was set by hand) */
+export function derivedStatus(milestones: ProjectMilestone[]): ProjectStatus | null {
+  if (milestones.length === 0) return null;
+  if (milestones.every((m) => m.state === "DONE")) return ProjectStatus.COMPLETED;
+  if (milestones.some((m) => m.state !== "TODO")) return ProjectStatus.ONGOING;
+  return ProjectStatus.PLANNED;
+}
+
+export const isOverdue = (m: ProjectMilestone, today = new Date().toISOString().slice(0, 10)) =>
+  m.state !== "DONE" && !!m.dueDate && m.dueDate < today;
+
+/** projects.edit in the project's department edits the plan; an officer may update the state of milestones they own */
+export const canEditMilestones = (user: User, project: Pick<Project, "department">) =>
+  can(user, "projects.edit", project.department);
+export const canUpdateMilestone = (user: User, project: Pick<Project, "department">, m: ProjectMilestone) =>
+  canEditMilestones(user, project) || (!!user.officerId && user.officerId === m.ownerId);
+
+// ==============================
+// Writes
+// ==============================
+/**
+ * Re-reads the project so two editors don't drop each other's milestones. `withStatus: false` for
+ * owners, whose updates may only touch the milestone list.
+ */
+async function writeMilestones(
+  projectId: string,
+  change: (current: ProjectMilestone[]) => ProjectMilestone[],
+  withStatus = true
+) {
+  const row = await storage.getDoc("projects", projectId);
+  if (!row) throw new Error("This project no longer exists.");
+
+  const current: ProjectMilestone[] = Array.isArray(row.data?.milestones) ? row.data.milestones : [];
+  const milestones = change(current);
+  const status = !withStatus || row.data?.statusOverride === true ? null : derivedStatus(milestones);
+
+  await storage.update("projects", projectId, {
+    milestones,
+    ...(status ? { status } : {}),
+    updatedAt: storage.now(),
+  });
+}
+
+export type MilestoneInput = Pick<ProjectMilestone, "title" | "objective" | "ownerId" | "startDate" | "dueDate">;
+
+export async function saveMilestone(
+  project: Project,
+  input: MilestoneInput,
+  officers: Officer[],
+  actor: User,
+  id?: string
+) {
+  if (!canEditMilestones(actor, project)) throw new Error("You can't plan milestones for this department's projects.");
+  const title = input.title.trim();
+  if (!title) throw new Error("Milestone title is required.");
+  if (!input.startDate || !input.dueDate) throw new Error("Start and due dates are required.");
+  if (input.dueDate < input.startDate) throw new Error("The due date can't be before the start date.");
+
+  const owner = officers.find((o) => o.id === input.ownerId);
+  const fields = {
+    title,
+    objective: input.objective,
+    ownerId: owner?.id ?? "",
+    ownerName: owner?.name ?? "",
+    startDate: input.startDate,
+    dueDate: input.dueDate,
+  };
+
+  await writeMilestones(project.id, (current) => {
+    if (!id) return [...current, { id: storage.newId("projects"), state: "TODO", ...fields }];
+    if (!current.some((m) => m.id === id)) throw new Error("This milestone was removed by someone else.");
+    return current.map((m) => (m.id === id ? { ...m, ...fields } : m));
+  });
+}
+
+export async function setMilestoneState(
+  project: Project,
+  milestone: ProjectMilestone,
+  state: MilestoneState,
+  actor: User,
+  blockedReason = ""
+) {
+  if (!canUpdateMilestone(actor, project, milestone)) {
+    throw new Error("Only the milestone owner or a project editor in this department can update it.");
+  }
+  if (state === "BLOCKED" && !blockedReason.trim()) throw new Error("Please say what is blocking it.");
+
+  await writeMilestones(
+    project.id,
+    (current) => {
+      if (!current.some((m) => m.id === milestone.id)) throw new Error("This milestone was removed by someone else.");
+      return current.map((m) => {
+        if (m.id !== milestone.id) return m;
+        const { blockedReason: _reason, completedAt: _done, ...rest } = m;
+        return {
+          ...rest,
+          state,
+          ...(state === "BLOCKED" ? { blockedReason: blockedReason.trim() } : {}),
+          ...(state === "DONE" ? { completedAt: Date.now() } : {}),
+        };
+      });
+    },
+    canEditMilestones(actor, project)
+  );
+}
+
+export async function removeMilestone(project: Project, milestone: ProjectMilestone, actor: User) {
+  if (!canEditMilestones(actor, project)) throw new Error("You can't remove milestones from this department's projects.");
+  await writeMilestones(project.id, (current) => current.filter((m) => m.id !== milestone.id));
+}
+
+/**
+ * Status select in the project editor: "AUTO" hands control back to the milestones. A status
+ * picked by hand only counts as an override once there are milestones to override.
+ */
+export function projectStatusFields(project: Pick<Project, "status" | "milestones">, mode: ProjectStatus | "AUTO") {
+  const milestones = project.milestones ?? [];
+  if (mode === "AUTO") return { status: derivedStatus(milestones) ?? project.status, statusOverride: false };
+  return { status: mode, statusOverride: milestones.length > 0 };
+}
+
+/** Editor default for the status select */
+export const projectStatusMode = (project: Pick<Project, "status" | "milestones" | "statusOverride">) =>
+  !project.statusOverride && (project.milestones ?? []).length > 0 ? "AUTO" : project.status;
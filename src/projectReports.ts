@@ -0,0 +1,133 @@
+// src/projectReports.ts
+// Post-implementation reports live on projects/{id}.report. Photos go to Cloudinary and their
+// metadata is kept inline in `report.gallery`. A published report on a completed project is its
+// public impact story (landing page, About → Achievements).
+import { Project, ProjectOutcome, ProjectPhoto, ProjectReport, ProjectStatus, User } from "../types";
+import { uploadToCloudinary } from "../lib/cloudinaryUpload";
+import { can } from "./permissions";
+import { storage } from "./storage";
+
+const GALLERY_FOLDER = "samasa/legislative/projects";
+
+export const PHOTO_MAX_BYTES = 10 * 1024 * 1024;
+export const GALLERY_MAX_PHOTOS = 24;
+
+export const canWriteReport = (user: User, project: Pick<Project, "department">) =>
+  can(user, "projects.edit", project.department);
+
+export const isImpactStory = (p: Pick<Project, "status" | "report">) =>
+  p.status === ProjectStatus.COMPLETED && !!p.report?.published;
+
+/** Published stories, most recently updated first */
+export const impactStories = <T extends Pick<Project, "status" | "report">>(projects: T[]) =>
+  projects.filter(isImpactStory).sort((a, b) => (b.report?.updatedAt ?? 0) - (a.report?.updatedAt ?? 0));
+
+/** One outcome row per current objective, keeping whatever was already written for it */
+export function outcomeRows(project: Pick<Project, "objectives" | "report">): ProjectOutcome[] {
+  const existing = project.report?.outcomes ?? [];
+  const rows = project.objectives.map(
+    (objective) => existing.find((o) => o.objective === objective) ?? { objective, outcome: "", met: false }
+  );
+  // objectives renamed/removed after the report was written stay on the report
+  return [...rows, ...existing.filter((o) => !project.objectives.includes(o.objective))];
+}
+
+export const objectivesMet = (report: ProjectReport) => report.outcomes.filter((o) => o.met).length;
+
+// ==============================
+// Writes
+// ==============================
+/** Re-reads the project so a report save and a photo upload don't drop each other's changes */
+async function writeReport(projectId: string, change: (current: ProjectReport | null) => ProjectReport) {
+  const row = await storage.getDoc("projects", projectId);
+  if (!row) throw new Error("This project no longer exists.");
+
+  const current: ProjectReport | null = row.data?.report ?? null;
+  await storage.update("projects", projectId, { report: change(current), updatedAt: storage.now() });
+}
+
+const emptyReport = (): ProjectReport => ({
+  outcomes: [],
+  beneficiaries: 0,
+  beneficiaryNote: "",
+  finalCost: 0,
+  lessonsLearned: "",
+  gallery: [],
+  published: false,
+  authorName: "",
+  updatedAt: 0,
+});
+
+export type ReportInput = Pick<
+  ProjectReport,
+  "outcomes" | "beneficiaries" | "beneficiaryNote" | "finalCost" | "lessonsLearned" | "published"
+>;
+
+export async function saveProjectReport(project: Project, input: ReportInput, actor: User) {
+  if (!canWriteReport(actor, project)) throw new Error("You can't write reports for this department's projects.");
+  if (project.status !== ProjectStatus.COMPLETED) throw new Error("Reports are for completed projects.");
+
+  const beneficiaries = Number(input.beneficiaries);
+  const finalCost = Number(input.finalCost);
+  if (!Number.isFinite(beneficiaries) || beneficiaries < 0) throw new Error("Beneficiaries must be 0 or more.");
+  if (!Number.isFinite(finalCost) || finalCost < 0) throw new Error("Final cost must be 0 or more.");
+
+  const outcomes = input.outcomes.map((o) => ({ objective: o.objective, outcome: o.outcome.trim(), met: o.met }));
+  if (input.published && outcomes.every((o) => !o.outcome)) {
+    throw new Error("Describe at least one outcome before publishing.");
+  }
+
+  await writeReport(project.id, (current) => ({
+    ...(current ?? emptyReport()),
+    outcomes,
+    beneficiaries: Math.round(beneficiaries),
+    beneficiaryNote: input.beneficiaryNote.trim(),
+    finalCost,
+    lessonsLearned: input.lessonsLearned.trim(),
+    published: input.published,
+    authorName: actor.name,
+    updatedAt: Date.now(),
+  }));
+}
+
+/** Uploads every file first, then appends them in a single update */
+export async function addReportPhotos(project: Project, files: File[], actor: User) {
+  if (!canWriteReport(actor, project)) throw new Error("You can't add photos to this department's projects.");
+  if (files.some((f) => !f.type.startsWith("image/"))) throw new Error("Gallery files must be images.");
+  if (files.some((f) => f.size > PHOTO_MAX_BYTES)) throw new Error("Each photo must be 10 MB or smaller.");
+  if ((project.report?.gallery.length ?? 0) + files.length > GALLERY_MAX_PHOTOS) {
+    throw new Error(`A gallery holds up to ${GALLERY_MAX_PHOTOS} photos.`);
+  }
+
+  const photos: ProjectPhoto[] = [];
+  for (const file of files) {
+    const up = await uploadToCloudinary(file, { folder: `${GALLERY_FOLDER}/${project.id}/gallery` });
+    // serverTimestamp() isn't allowed inside arrays
+    photos.push({ id: up.publicId, url: up.url, publicId: up.publicId, caption: "", uploadedAt: Date.now() });
+  }
+
+  await writeReport(project.id, (current) => {
+    const base = current ?? { ...emptyReport(), authorName: actor.name };
+    return { ...base, gallery: [...(base.gallery ?? []), ...photos], updatedAt: Date.now() };
+  });
+}
+
+export async function updatePhotoCaption(project: Project, photo: ProjectPhoto, caption: string, actor: User) {
+  if (!canWriteReport(actor, project)) throw new Error("You can't edit captions on this department's projects.");
+  await writeReport(project.id, (current) => {
+    const base = current ?? emptyReport();
+    return {
+      ...base,
+      gallery: (base.gallery ?? []).map((g) => (g.id === photo.id ? { ...g, caption: caption.trim() } : g)),
+    };
+  });
+}
+
+/** Unlinks the photo (the Cloudinary file stays; unsigned uploads can't delete) */
+export async function removeReportPhoto(project: Project, photo: ProjectPhoto, actor: User) {
+  if (!canWriteReport(actor, project)) throw new Error("You can't remove photos from this department's projects.");
+  await writeReport(project.id, (current) => {
+    const base = current ?? emptyReport();
+    return { ...base, gallery: (base.gallery ?? []).filter((g) => g.id !== photo.id) };
+  });
+}
@@ -0,0 +1,61 @@
+// src/projectSpending.ts
+// A project's spending comes from the ledger: posted Project-fund expenses that reference it
+// (budgetEntries.projectId). Projects recorded before the link existed keep their typed
+// spentAmount until their first linked expense is posted.
+import { BudgetAllocation, BudgetEntry, FiscalTerm, Project } from "../types";
+import { resolveTermId } from "./fiscalTerms";
+import { ProjectRecord } from "./repository";
+
+export type ProjectBurn = {
+  allocated: number;
+  spent: number;
+  remaining: number;
+  /** true when `spent` is the sum of linked ledger expenses */
+  verified: boolean;
+  expenses: BudgetEntry[];
+};
+
+/** Posted expenses linked to the project, newest first */
+export const projectExpenses = (entries: BudgetEntry[], projectId: string) =>
+  entries
+    .filter(
+      (e) =>
+        e.projectId === projectId &&
+        e.type === "EXPENSE" &&
+        e.impact !== "AVAILABLE_ONLY" &&
+        (e.status ?? "POSTED") === "POSTED"
+    )
+    .sort((a, b) => String(b.date).localeCompare(String(a.date)));
+
+export function projectBurn(project: Project, entries: BudgetEntry[]): ProjectBurn {
+  const expenses = projectExpenses(entries, project.id);
+  const legacy = expenses.length === 0 && (Number(project.spentAmount) || 0) > 0;
+  const spent = legacy ? Number(project.spentAmount) || 0 : expenses.reduce((sum, e) => sum + e.amount, 0);
+  const allocated = Number(project.budgetAllocated) || 0;
+
+  return { allocated, spent, remaining: allocated - spent, verified: !legacy, expenses };
+}
+
+/**
+ * Project allocations are earmarked from the term's Project fund (all departments). Returns the
+ * shortfall details when `allocated` would push the term's earmarks past that fund's ceiling, or
+ * null when it fits or no ceiling was set.
+ */
+export function checkProjectEarmark(
+  projects: ProjectRecord[],
+  allocations: BudgetAllocation[],
+  terms: FiscalTerm[],
+  project: { id?: string; termId: string; allocated: number }
+) {
+  if (!project.termId) return null;
+  const ceilings = allocations.filter((a) => a.fund === "project" && a.term === project.termId);
+  if (ceilings.length === 0) return null;
+
+  const fund = ceilings.reduce((sum, a) => sum + a.amount, 0);
+  const earmarked = projects
+    .filter((p) => p.id !== project.id && resolveTermId(terms, p, p.createdAt) === project.termId)
+    .reduce((sum, p) => sum + (Number(p.budgetAllocated) || 0), 0);
+
+  if (earmarked + project.allocated <= fund) return null;
+  return { fund, earmarked };
+}
@@ -0,0 +1,108 @@
+// src/proposalRevisions.ts
+// Every save of a proposal's content is kept as proposalRevisions/{proposalId}_v{n}, including the
+// PDF it pointed to (old Cloudinary files are never deleted on replace). Proposals created before
+// revisions existed get their pre-edit state stored as v1 on the first save.
+import { Proposal, ProposalRevision, User } from "../types";
+import { storage } from "./storage";
+import { BatchOp } from "./storageAdapter";
+import { ProposalRecord, toMillis } from "./repository";
+
+export const PROPOSAL_REVISIONS_COLLECTION = "proposalRevisions";
+
+export type ProposalContent = Pick<
+  ProposalRevision,
+  "title" | "category" | "description" | "proponent" | "pdfName" | "pdfUrl" | "pdfPublicId"
+>;
+
+export const revisionDocId = (proposalId: string, version: number) => `${proposalId}_v${version}`;
+
+export const proposalContent = (p: ProposalContent): ProposalContent => ({
+  title: p.title,
+  category: p.category,
+  description: p.description,
+  proponent: p.proponent,
+  pdfName: p.pdfName || null,
+  pdfUrl: p.pdfUrl || null,
+  pdfPublicId: p.pdfPublicId || null,
+});
+
+const sameContent = (a: ProposalContent, b: ProposalContent) =>
+  JSON.stringify(proposalContent(a)) === JSON.stringify(proposalContent(b));
+
+const revisionOp = (
+  proposal: Proposal,
+  version: number,
+  content: ProposalContent,
+  saved: { byId: string; byName: string; at: number },
+  note?: string
+): BatchOp => ({
+  type: "set",
+  path: PROPOSAL_REVISIONS_COLLECTION,
+  id: revisionDocId(proposal.id, version),
+  data: {
+    proposalId: proposal.id,
+    version,
+    ...proposalContent(content),
+    status: proposal.status,
+    savedById: saved.byId,
+    savedByName: saved.byName,
+    savedAt: saved.at,
+    ...(note ? { note } : {}),
+  },
+});
+
+/** v1 for a brand-new proposal (call after the doc and its PDF exist) */
+export async function recordInitialRevision(proposal: Proposal, actor: User) {
+  await storage.batch([
+    revisionOp(proposal, 1, proposal, { byId: actor.id, byName: actor.name, at: Date.now() }),
+    { type: "update", path: "proposals", id: proposal.id, data: { version: 1 } },
+  ]);
+}
+
+/**
+ * Writes the new content and its revision together. Returns false when nothing changed.
+ * Fails if another save claimed the same version number first.
+ */
+export async function saveProposalRevision(
+  proposal: ProposalRecord,
+  content: ProposalContent,
+  actor: User,
+  note?: string
+) {
+  if (sameContent(proposal, content)) return false;
+
+  const existing = await storage.getDocs(PROPOSAL_REVISIONS_COLLECTION, {
+    where: [["proposalId", "==", proposal.id]],
+  });
+  const latest = existing.reduce((max, r) => Math.max(max, Number(r.data?.version) || 0), 0);
+
+  const ops: BatchOp[] = [];
+  let version = latest + 1;
+
+  // Legacy proposal: keep what it looked like before this first tracked edit
+  if (latest === 0) {
+    const at = toMillis(proposal.updatedAt ?? proposal.createdAt) || Date.now();
+    ops.push(revisionOp(proposal, 1, proposal, { byId: proposal.createdById ?? "", byName: proposal.proponent, at }));
+    version = 2;
+  }
+
+  if (await storage.getDoc(PROPOSAL_REVISIONS_COLLECTION, revisionDocId(proposal.id, version))) {
+    throw new Error("Someone else just saved this proposal. Please reopen it and try again.");
+  }
+
+  ops.push(revisionOp(proposal, version, content, { byId: actor.id, byName: actor.name, at: Date.now() }, note));
+  ops.push({
+    type: "update",
+    path: "proposals",
+    id: proposal.id,
+    data: { ...proposalContent(content), version, updatedAt: storage.now() },
+  });
+
+  await storage.batch(ops);
+  return true;
+}
+
+export async function revertProposal(proposal: ProposalRecord, revision: ProposalRevision, actor: User) {
+  const changed = await saveProposalRevision(proposal, revision, actor, `Reverted to v${revision.version}`);
+  if (!changed) throw new Error(`The proposal already matches v${revision.version}.`);
+}
@@ -0,0 +1,129 @@
+// src/proposalWorkflow.ts
+// Proposal lifecycle: DRAFT → FILED → COMMITTEE → FLOOR → APPROVED/REJECTED → IMPLEMENTED,
+// with WITHDRAWN reachable until the floor decides by council vote. Each move is checked against
+// the actor's role (officers need proposal rights in its department) and appended to
+// proposals/{id}.statusHistory. Student submissions enter at SUBMITTED and officers moderate
+// them (see ./petitions).
+import { Proposal, ProposalStatus, ProposalStatusChange, User, UserRole } from "../types";
+import { storage } from "./storage";
+import { normalizeProposalStatus } from "./repository";
+import { can } from "./permissions";
+
+/** PROPONENT = the account that created the proposal; OFFICER = proposal rights in its department */
+type Mover = "PROPONENT" | "OFFICER" | "SUPERADMIN";
+
+export const PROPOSAL_STATUS_LABEL: Record<ProposalStatus, string> = {
+  SUBMITTED: "In Moderation",
+  PETITION: "Petition",
+  DRAFT: "Draft",
+  FILED: "Filed",
+  COMMITTEE: "In Committee",
+  FLOOR: "On the Floor",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+  WITHDRAWN: "Withdrawn",
+  IMPLEMENTED: "Implemented",
+};
+
+/** Button label for moving *into* a status */
+export const TRANSITION_LABEL: Record<ProposalStatus, string> = {
+  SUBMITTED: "Return to Queue",
+  PETITION: "Open for Signatures",
+  DRAFT: "Return to Draft",
+  FILED: "File",
+  COMMITTEE: "Refer to Committee",
+  FLOOR: "Calendar for Floor",
+  APPROVED: "Approve",
+  REJECTED: "Reject",
+  WITHDRAWN: "Withdraw",
+  IMPLEMENTED: "Mark Implemented",
+};
+
+const TRANSITIONS: Record<ProposalStatus, Partial<Record<ProposalStatus, Mover[]>>> = {
+  SUBMITTED: { PETITION: ["OFFICER", "SUPERADMIN"], FILED: ["OFFICER", "SUPERADMIN"], REJECTED: ["OFFICER", "SUPERADMIN"] },
+  // PETITION → FILED also happens on its own at the signature threshold
+  PETITION: { FILED: ["OFFICER", "SUPERADMIN"], WITHDRAWN: ["SUPERADMIN"] },
+  DRAFT: { FILED: ["PROPONENT", "SUPERADMIN"], WITHDRAWN: ["PROPONENT", "SUPERADMIN"] },
+  FILED: { COMMITTEE: ["OFFICER", "SUPERADMIN"], WITHDRAWN: ["PROPONENT", "SUPERADMIN"] },
+  COMMITTEE: { FLOOR: ["OFFICER", "SUPERADMIN"], WITHDRAWN: ["PROPONENT", "SUPERADMIN"] },
+  // APPROVED/REJECTED come only from a council vote (see ./councilVoting)
+  FLOOR: { WITHDRAWN: ["PROPONENT", "SUPERADMIN"] },
+  APPROVED: { IMPLEMENTED: ["OFFICER", "SUPERADMIN"] },
+  REJECTED: {},
+  WITHDRAWN: {},
+  IMPLEMENTED: {},
+};
+
+/** Rejections and withdrawals must say why */
+export const NOTE_REQUIRED: ProposalStatus[] = ["REJECTED", "WITHDRAWN"];
+
+/** Still moving through the council (Home's "pending actions") */
+export const isActiveProposal = (p: Pick<Proposal, "status">) =>
+  p.status === "FILED" || p.status === "COMMITTEE" || p.status === "FLOOR";
+
+const moversFor = (user: User, proposal: Proposal): Mover[] => {
+  const out: Mover[] = [];
+  if (proposal.createdById && proposal.createdById === user.id) out.push("PROPONENT");
+  if (
+    user.role === UserRole.OFFICER &&
+    (can(user, "proposals.create", proposal.department) || can(user, "proposals.edit", proposal.department))
+  ) {
+    out.push("OFFICER");
+  }
+  if (user.role === UserRole.SUPERADMIN) out.push("SUPERADMIN");
+  return out;
+};
+
+export function canTransition(user: User, proposal: Proposal, to: ProposalStatus) {
+  const allowed = TRANSITIONS[proposal.status]?.[to] ?? [];
+  return moversFor(user, proposal).some((m) => allowed.includes(m));
+}
+
+export function allowedTransitions(user: User, proposal: Proposal): ProposalStatus[] {
+  return (Object.keys(TRANSITIONS[proposal.status] ?? {}) as ProposalStatus[]).filter((to) =>
+    canTransition(user, proposal, to)
+  );
+}
+
+/**
+ * History entry for a move. serverTimestamp() can't go inside an array, so `at` is the client clock;
+ * firestore.rules only accepts an appended entry stamped within a few minutes of the server's time.
+ */
+export const statusChange = (
+  from: ProposalStatus | null,
+  to: ProposalStatus,
+  actor: User,
+  note = ""
+): ProposalStatusChange => ({
+  from,
+  to,
+  byId: actor.id,
+  byName: actor.name,
+  at: Date.now(),
+  note: note.trim(),
+});
+
+/**
+ * Re-reads the proposal so two people can't move it from the same state at once,
+ * then appends the change to its history.
+ */
+export async function transitionProposal(proposal: Proposal, to: ProposalStatus, actor: User, note = "") {
+  if (!canTransition(actor, proposal, to)) {
+    throw new Error(`You can't move this proposal from ${PROPOSAL_STATUS_LABEL[proposal.status]} to ${PROPOSAL_STATUS_LABEL[to]}.`);
+  }
+  if (NOTE_REQUIRED.includes(to) && !note.trim()) throw new Error("Please give a reason.");
+
+  const current = await storage.getDoc("proposals", proposal.id);
+  if (!current) throw new Error("This proposal no longer exists.");
+  if (normalizeProposalStatus(current.data?.status) !== proposal.status) {
+    throw new Error("Someone else just changed this proposal's status. Please reopen it and try again.");
+  }
+
+  const history: ProposalStatusChange[] = Array.isArray(current.data?.statusHistory) ? current.data.statusHistory : [];
+
+  await storage.update("proposals", proposal.id, {
+    status: to,
+    statusHistory: [...history, statusChange(proposal.status, to, actor, note)],
+    updatedAt: storage.now(),
+  });
+}
@@ -0,0 +1,1071 @@
+// src/repository.ts
+// Shared, typed read layer over the selected storage backend (see ./storage).
+// Every collection/doc the portal renders is subscribed at most once; pages share the
+// same listener through the hooks below and get rows parsed by a single normalizer.
+import { useEffect, useMemo, useState } from "react";
+import { storage } from "./storage";
+import { localISODate, parseLedgerDate } from "./ledgerDates";
+import { derivedStatus } from "./projectMilestones";
+import {
+  ApprovalRule,
+  BudgetAllocation,
+  BudgetAuditRecord,
+  BudgetEntry,
+  BudgetEntrySnapshot,
+  BudgetFundKey,
+  BudgetImpact,
+  BudgetReceipt,
+  CouncilTerm,
+  ExpenseApproval,
+  Department,
+  DepartmentType,
+  DiscussionComment,
+  FiscalTerm,
+  LandingPageContent,
+  MilestoneState,
+  Officer,
+  OfficerDivision,
+  Permission,
+  PermissionRole,
+  PetitionSettings,
+  PetitionSignature,
+  Policy,
+  Project,
+  ProjectMilestone,
+  ProjectReport,
+  ProjectStatus,
+  Proposal,
+  ProposalCategory,
+  ProposalRevision,
+  ProposalStatus,
+  ProposalStatusChange,
+  ProposalSubmitter,
+  RoleGrant,
+  SoftDeletable,
+  UserAccount,
+  UserRole,
+  Vote,
+  VoteChoice,
+  VoteSession,
+  VoteTally,
+  Voter,
+} from "../types";
+
+// ==============================
+// Shared sources
+// ==============================
+export type SourceState<T> = {
+  data: T;
+  loading: boolean;
+  error: any | null;
+};
+
+type Listener<T> = (state: SourceState<T>) => void;
+
+type StartFn<T> = (emit: (data: T) => void, fail: (err: any) => void) => () => void;
+
+export type SharedSource<T> = {
+  peek: () => SourceState<T>;
+  subscribe: (listener: Listener<T>) => () => void;
+};
+
+/**
+ * Ref-counted listener: the underlying snapshot opens on the first subscriber and closes
+ * when the last one leaves. The last value is kept so remounts render without a flash.
+ */
+function createSharedSource<T>(label: string, initial: T, start: StartFn<T>): SharedSource<T> {
+  let state: SourceState<T> = { data: initial, loading: true, error: null };
+  const listeners = new Set<Listener<T>>();
+  let stop: (() => void) | null = null;
+
+  const publish = (next: SourceState<T>) => {
+    state = next;
+    listeners.forEach((l) => l(state));
+  };
+
+  return {
+    peek: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(state);
+
+      if (!stop) {
+        stop = start(
+          (data) => publish({ data, loading: false, error: null }),
+          (err) => {
+            console.error(`${label} snapshot error:`, err);
+            publish({ ...state, loading: false, error: err });
+          }
+        );
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && stop) {
+          stop();
+          stop = null;
+        }
+      };
+    },
+  };
+}
+
+/** For viewers the rules would deny: no listener, just `value` */
+const emptySource = <T>(label: string, value: T) =>
+  createSharedSource<T>(label, value, (emit) => {
+    emit(value);
+    return () => {};
+  });
+
+function useSharedSource<T>(source: SharedSource<T>): SourceState<T> {
+  const [state, setState] = useState<SourceState<T>>(() => source.peek());
+  useEffect(() => source.subscribe(setState), [source]);
+  return state;
+}
+
+/**
+ * Same listener, filtered by trash state. Done client-side because Firestore cannot match
+ * "field missing or null" in one where() and older docs have no deletedAt at all.
+ */
+function useSoftDeleteSource<T extends SoftDeletable>(
+  source: SharedSource<T[]>,
+  trashed: boolean
+): SourceState<T[]> {
+  const state = useSharedSource(source);
+  const data = useMemo(() => state.data.filter((x) => isTrashed(x) === trashed), [state.data, trashed]);
+  return useMemo(() => ({ ...state, data }), [state, data]);
+}
+
+// ==============================
+// Normalizers (one per entity)
+// ==============================
+export type Timestamped = {
+  createdAt?: any;
+  updatedAt?: any;
+};
+
+export type ProposalRecord = Proposal & Timestamped;
+export type ProjectRecord = Project & Timestamped;
+
+export const DEFAULT_PROJECT_BANNER =
+  "https://images.unsplash.com/photo-1523240795612-9a054b0db644?auto=format&fit=crop&w=1600&q=60";
+
+export const normalizeNumber = (v: any) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+
+export const isFundKey = (v: any): v is BudgetFundKey =>
+  v === "operational" || v === "project" || v === "trust";
+
+export const normalizeImpact = (v: any): BudgetImpact =>
+  v === "AVAILABLE_ONLY" ? "AVAILABLE_ONLY" : "LEDGER";
+
+/** Firestore Timestamp | millis | anything → millis (0 when unknown) */
+export const toMillis = (v: any) =>
+  typeof v?.toMillis === "function" ? v.toMillis() : Number.isFinite(Number(v)) ? Number(v) : 0;
+
+export const isoToday = () => localISODate(new Date());
+
+/** Ledger dates are stored as YYYY-MM-DD (see ./ledgerDates); anything unparseable becomes today */
+export const toISODate = (raw: any) => parseLedgerDate(String(raw ?? "")) ?? isoToday();
+
+export const isTrashed = (item: SoftDeletable) => !!item.deletedAt;
+
+export function normalizeSoftDelete(data: any): SoftDeletable {
+  const deletedAt = toMillis(data?.deletedAt);
+  return deletedAt
+    ? {
+        deletedAt,
+        deletedBy: String(data?.deletedBy ?? ""),
+        deletedByName: String(data?.deletedByName ?? ""),
+      }
+    : {};
+}
+
+export function normalizeBudgetEntry(id: string, data: any): BudgetEntry {
+  return {
+    ...normalizeSoftDelete(data),
+    id,
+    title: String(data?.title ?? ""),
+    amount: normalizeNumber(data?.amount),
+    type: data?.type === "INCOME" ? "INCOME" : "EXPENSE",
+    category: String(data?.category ?? ""),
+    department: (data?.department ?? DepartmentType.SAMASA) as DepartmentType,
+    date: String(data?.date ?? ""),
+    approvedBy: String(data?.approvedBy ?? ""),
+    fund: isFundKey(data?.fund) ? data.fund : undefined,
+    impact: normalizeImpact(data?.impact),
+    ...(data?.ceilingOverride ? { ceilingOverride: normalizeCeilingOverride(data.ceilingOverride) } : {}),
+    ...(Array.isArray(data?.receipts) && data.receipts.length > 0
+      ? { receipts: data.receipts.map(normalizeBudgetReceipt) }
+      : {}),
+    status: ["DRAFT", "SUBMITTED", "APPROVED"].includes(data?.status) ? data.status : "POSTED",
+    ...(data?.approval ? { approval: normalizeExpenseApproval(data.approval) } : {}),
+    ...(data?.projectId ? { projectId: String(data.projectId) } : {}),
+    ...(data?.revision ? { revision: normalizeNumber(data.revision) } : {}),
+    ...normalizeTermTag(data),
+  };
+}
+
+function normalizeExpenseApproval(data: any): ExpenseApproval {
+  const out: ExpenseApproval = {};
+  (["submitted", "approved", "posted", "rejected"] as const).forEach((step) => {
+    if (!data?.[`${step}ById`]) return;
+    (out as any)[`${step}ById`] = String(data[`${step}ById`]);
+    (out as any)[`${step}ByName`] = String(data?.[`${step}ByName`] ?? "");
+    (out as any)[`${step}At`] = toMillis(data?.[`${step}At`]);
+  });
+  if (data?.rejectionNote) out.rejectionNote = String(data.rejectionNote);
+  return out;
+}
+
+export function normalizeComment(id: string, data: any): DiscussionComment {
+  return {
+    id,
+    targetType: data?.targetType === "project" ? "project" : "proposal",
+    targetId: String(data?.targetId ?? ""),
+    parentId: data?.parentId ? String(data.parentId) : null,
+    body: String(data?.body ?? ""),
+    visibility: data?.visibility === "INTERNAL" ? "INTERNAL" : "PUBLIC",
+    mentions: Array.isArray(data?.mentions) ? data.mentions.map(String) : [],
+    authorId: String(data?.authorId ?? ""),
+    authorName: String(data?.authorName ?? ""),
+    authorRole: (data?.authorRole ?? UserRole.STUDENT) as UserRole,
+    createdAt: toMillis(data?.createdAt),
+    ...(data?.editedAt ? { editedAt: toMillis(data.editedAt) } : {}),
+    ...(data?.hidden ? { hidden: true } : {}),
+    ...(data?.hiddenByName ? { hiddenByName: String(data.hiddenByName) } : {}),
+    ...(data?.hiddenReason ? { hiddenReason: String(data.hiddenReason) } : {}),
+    ...(data?.deleted ? { deleted: true } : {}),
+  };
+}
+
+export function normalizeProposalRevision(id: string, data: any): ProposalRevision {
+  return {
+    id,
+    proposalId: String(data?.proposalId ?? ""),
+    version: normalizeNumber(data?.version),
+    title: String(data?.title ?? ""),
+    category: (data?.category ?? ProposalCategory.RESOURCES) as ProposalCategory,
+    description: String(data?.description ?? ""),
+    proponent: String(data?.proponent ?? ""),
+    pdfName: data?.pdfName ? String(data.pdfName) : "",
+    pdfUrl: data?.pdfUrl ? String(data.pdfUrl) : "",
+    pdfPublicId: data?.pdfPublicId ? String(data.pdfPublicId) : "",
+    status: normalizeProposalStatus(data?.status),
+    savedById: String(data?.savedById ?? ""),
+    savedByName: String(data?.savedByName ?? ""),
+    savedAt: toMillis(data?.savedAt),
+    ...(data?.note ? { note: String(data.note) } : {}),
+  };
+}
+
+const normalizeVoteChoice = (v: any): VoteChoice => (v === "YES" || v === "NO" ? v : "ABSTAIN");
+
+function normalizeVoter(data: any): Voter {
+  return {
+    officerId: String(data?.officerId ?? ""),
+    name: String(data?.name ?? ""),
+    position: String(data?.position ?? ""),
+  };
+}
+
+function normalizeVoteTally(data: any): VoteTally {
+  return {
+    eligible: normalizeNumber(data?.eligible),
+    present: normalizeNumber(data?.present),
+    yes: normalizeNumber(data?.yes),
+    no: normalizeNumber(data?.no),
+    abstain: normalizeNumber(data?.abstain),
+    quorumMet: !!data?.quorumMet,
+    passed: !!data?.passed,
+  };
+}
+
+export function normalizeVoteSession(id: string, data: any): VoteSession {
+  const quorum = data?.rule?.quorum === "TWO_THIRDS" ? "TWO_THIRDS" : "MAJORITY";
+  const pass = data?.rule?.pass === "ABSOLUTE" || data?.rule?.pass === "TWO_THIRDS" ? data.rule.pass : "SIMPLE";
+  const voters: Voter[] = Array.isArray(data?.voters) ? data.voters.map(normalizeVoter) : [];
+  return {
+    id,
+    proposalId: String(data?.proposalId ?? ""),
+    department: String(data?.department ?? DepartmentType.SAMASA),
+    rule: { quorum, pass },
+    voters,
+    voterIds: voters.map((v) => v.officerId),
+    status: data?.status === "CLOSED" ? "CLOSED" : "OPEN",
+    openedById: String(data?.openedById ?? ""),
+    openedByName: String(data?.openedByName ?? ""),
+    openedAt: toMillis(data?.openedAt),
+    closesAt: toMillis(data?.closesAt),
+    ...(data?.closedAt ? { closedAt: toMillis(data.closedAt) } : {}),
+    ...(data?.closedReason ? { closedReason: data.closedReason } : {}),
+    ...(data?.tally ? { tally: normalizeVoteTally(data.tally) } : {}),
+    ...(Array.isArray(data?.rollCall)
+      ? {
+          rollCall: data.rollCall.map((r: any) => ({
+            ...normalizeVoter(r),
+            vote: r?.vote === "ABSENT" ? "ABSENT" : normalizeVoteChoice(r?.vote),
+          })),
+        }
+      : {}),
+  };
+}
+
+export function normalizeVote(id: string, data: any): Vote {
+  return {
+    id,
+    sessionId: String(data?.sessionId ?? ""),
+    proposalId: String(data?.proposalId ?? ""),
+    officerId: String(data?.officerId ?? ""),
+    vote: normalizeVoteChoice(data?.vote),
+    castById: String(data?.castById ?? ""),
+    castByName: String(data?.castByName ?? ""),
+    castAt: toMillis(data?.castAt),
+  };
+}
+
+export function normalizeProposalSubmitter(id: string, data: any): ProposalSubmitter {
+  return {
+    id,
+    proposalId: String(data?.proposalId ?? id),
+    studentId: String(data?.studentId ?? ""),
+    studentName: String(data?.studentName ?? ""),
+    studentEmail: String(data?.studentEmail ?? ""),
+    submittedAt: toMillis(data?.submittedAt),
+  };
+}
+
+export function normalizePetitionSignature(id: string, data: any): PetitionSignature {
+  return {
+    id,
+    proposalId: String(data?.proposalId ?? ""),
+    userId: String(data?.userId ?? ""),
+    signedAt: toMillis(data?.signedAt),
+  };
+}
+
+/** Until a SUPERADMIN sets it, 50 co-signatures file a petition */
+export const DEFAULT_SIGNATURE_THRESHOLD = 50;
+
+export const normalizePetitionSettings = (data: any): PetitionSettings => {
+  const n = Math.floor(normalizeNumber(data?.signatureThreshold));
+  return { signatureThreshold: n > 0 ? n : DEFAULT_SIGNATURE_THRESHOLD };
+};
+
+export function normalizePolicy(id: string, data: any): Policy {
+  const ids = (v: any) => (Array.isArray(v) ? v.map(String).filter(Boolean) : []);
+  return {
+    id,
+    title: String(data?.title ?? ""),
+    code: String(data?.code ?? ""),
+    dateApproved: String(data?.dateApproved ?? ""),
+    description: String(data?.description ?? ""),
+    kind: data?.kind === "ORDINANCE" ? "ORDINANCE" : "RESOLUTION",
+    department: (data?.department ?? DepartmentType.SAMASA) as DepartmentType,
+    number: normalizeNumber(data?.number),
+    fullText: String(data?.fullText ?? ""),
+    proposalId: data?.proposalId ? String(data.proposalId) : null,
+    amends: ids(data?.amends),
+    repeals: ids(data?.repeals),
+    createdByName: String(data?.createdByName ?? ""),
+    ...normalizeTermTag(data),
+  };
+}
+
+export function normalizeApprovalRule(id: string, data: any): ApprovalRule {
+  const positions = Array.isArray(data?.approverPositions) ? data.approverPositions : [];
+  return {
+    department: (data?.department ?? id) as DepartmentType,
+    enabled: data?.enabled !== false,
+    approverPositions: positions.map((p: any) => String(p).trim()).filter(Boolean),
+    autoPostUnder: normalizeNumber(data?.autoPostUnder),
+    updatedByName: String(data?.updatedByName ?? ""),
+  };
+}
+
+const MILESTONE_STATES: MilestoneState[] = ["TODO", "IN_PROGRESS", "BLOCKED", "DONE"];
+
+function normalizeMilestone(data: any): ProjectMilestone {
+  return {
+    id: String(data?.id ?? ""),
+    title: String(data?.title ?? ""),
+    objective: String(data?.objective ?? ""),
+    ownerId: String(data?.ownerId ?? ""),
+    ownerName: String(data?.ownerName ?? ""),
+    startDate: toISODate(data?.startDate),
+    dueDate: toISODate(data?.dueDate),
+    state: MILESTONE_STATES.includes(data?.state) ? data.state : "TODO",
+    ...(data?.blockedReason ? { blockedReason: String(data.blockedReason) } : {}),
+    ...(data?.completedAt ? { completedAt: toMillis(data.completedAt) } : {}),
+  };
+}
+
+function normalizeProjectReport(data: any): ProjectReport {
+  return {
+    outcomes: Array.isArray(data?.outcomes)
+      ? data.outcomes.map((o: any) => ({
+          objective: String(o?.objective ?? ""),
+          outcome: String(o?.outcome ?? ""),
+          met: o?.met === true,
+        }))
+      : [],
+    beneficiaries: normalizeNumber(data?.beneficiaries),
+    beneficiaryNote: String(data?.beneficiaryNote ?? ""),
+    finalCost: normalizeNumber(data?.finalCost),
+    lessonsLearned: String(data?.lessonsLearned ?? ""),
+    gallery: Array.isArray(data?.gallery)
+      ? data.gallery.map((g: any) => ({
+          id: String(g?.id ?? g?.publicId ?? ""),
+          url: String(g?.url ?? ""),
+          publicId: String(g?.publicId ?? ""),
+          caption: String(g?.caption ?? ""),
+          uploadedAt: toMillis(g?.uploadedAt),
+        }))
+      : [],
+    published: data?.published === true,
+    authorName: String(data?.authorName ?? ""),
+    updatedAt: toMillis(data?.updatedAt),
+  };
+}
+
+function normalizeBudgetReceipt(data: any): BudgetReceipt {
+  return {
+    id: String(data?.id ?? data?.publicId ?? ""),
+    url: String(data?.url ?? ""),
+    publicId: String(data?.publicId ?? ""),
+    fileName: String(data?.fileName ?? ""),
+    kind: data?.kind === "pdf" ? "pdf" : "image",
+    orNumber: String(data?.orNumber ?? ""),
+    vendor: String(data?.vendor ?? ""),
+    uploadedById: String(data?.uploadedById ?? ""),
+    uploadedByName: String(data?.uploadedByName ?? ""),
+    uploadedAt: toMillis(data?.uploadedAt),
+  };
+}
+
+function normalizeTermTag(data: any) {
+  return data?.termId ? { termId: String(data.termId) } : {};
+}
+
+export function normalizeFiscalTerm(id: string, data: any): FiscalTerm {
+  return {
+    id,
+    label: String(data?.label ?? id),
+    startDate: String(data?.startDate ?? ""),
+    endDate: String(data?.endDate ?? ""),
+    status: data?.status === "CLOSED" ? "CLOSED" : "OPEN",
+    ...(data?.closedAt ? { closedAt: toMillis(data.closedAt), closedByName: String(data?.closedByName ?? "") } : {}),
+  };
+}
+
+function normalizeCeilingOverride(data: any) {
+  return {
+    approvedById: String(data?.approvedById ?? ""),
+    approvedByName: String(data?.approvedByName ?? ""),
+    reason: String(data?.reason ?? ""),
+    allocated: normalizeNumber(data?.allocated),
+    spentBefore: normalizeNumber(data?.spentBefore),
+  };
+}
+
+export function normalizeBudgetAllocation(id: string, data: any): BudgetAllocation {
+  return {
+    id,
+    term: String(data?.term ?? ""),
+    department: (data?.department ?? DepartmentType.SAMASA) as DepartmentType,
+    fund: isFundKey(data?.fund) ? data.fund : "operational",
+    amount: normalizeNumber(data?.amount),
+    updatedByName: String(data?.updatedByName ?? ""),
+  };
+}
+
+export function normalizeProposal(id: string, data: any): ProposalRecord {
+  return {
+    ...normalizeSoftDelete(data),
+    id,
+    title: String(data?.title ?? ""),
+    category: (data?.category ?? ProposalCategory.RESOURCES) as ProposalCategory,
+    department: String(data?.department || DepartmentType.SAMASA),
+    description: String(data?.description ?? ""),
+    status: normalizeProposalStatus(data?.status),
+    dateSubmitted: String(data?.dateSubmitted ?? ""),
+    proponent: String(data?.proponent ?? ""),
+    pdfName: data?.pdfName ? String(data.pdfName) : "",
+    pdfUrl: data?.pdfUrl ? String(data.pdfUrl) : "",
+    pdfPublicId: data?.pdfPublicId ? String(data.pdfPublicId) : "",
+    ...(data?.createdById ? { createdById: String(data.createdById) } : {}),
+    ...(data?.version ? { version: normalizeNumber(data.version) } : {}),
+    statusHistory: Array.isArray(data?.statusHistory) ? data.statusHistory.map(normalizeProposalStatusChange) : [],
+    ...(data?.voteSessionId ? { voteSessionId: String(data.voteSessionId) } : {}),
+    ...(data?.submissionKind ? { submissionKind: data.submissionKind === "CONCERN" ? "CONCERN" : "PROPOSAL" } : {}),
+    signatureCount: normalizeNumber(data?.signatureCount),
+    ...normalizeTermTag(data),
+    createdAt: data?.createdAt,
+    updatedAt: data?.updatedAt,
+  };
+}
+
+const PROPOSAL_STATUSES: ProposalStatus[] = [
+  "SUBMITTED",
+  "PETITION",
+  "DRAFT",
+  "FILED",
+  "COMMITTEE",
+  "FLOOR",
+  "APPROVED",
+  "REJECTED",
+  "WITHDRAWN",
+  "IMPLEMENTED",
+];
+
+/** Legacy rows used PENDING/REVIEW before the lifecycle existed */
+export const normalizeProposalStatus = (v: any): ProposalStatus => {
+  const s = String(v ?? "").toUpperCase();
+  if (s === "REVIEW") return "COMMITTEE";
+  return PROPOSAL_STATUSES.includes(s as ProposalStatus) ? (s as ProposalStatus) : "FILED";
+};
+
+function normalizeProposalStatusChange(data: any): ProposalStatusChange {
+  return {
+    from: data?.from ? normalizeProposalStatus(data.from) : null,
+    to: normalizeProposalStatus(data?.to),
+    byId: String(data?.byId ?? ""),
+    byName: String(data?.byName ?? ""),
+    at: toMillis(data?.at),
+    note: String(data?.note ?? ""),
+  };
+}
+
+export function normalizeProject(id: string, data: any): ProjectRecord {
+  const objectives = Array.isArray(data?.objectives)
+    ? data.objectives.map((x: any) => String(x)).filter(Boolean)
+    : [];
+  const milestones: ProjectMilestone[] = Array.isArray(data?.milestones) ? data.milestones.map(normalizeMilestone) : [];
+  const statusOverride = data?.statusOverride === true;
+
+  return {
+    ...normalizeSoftDelete(data),
+    id,
+    title: String(data?.title ?? ""),
+    timeline: String(data?.timeline ?? ""),
+    inCharge: String(data?.inCharge ?? ""),
+    department: String(data?.department || DepartmentType.SAMASA),
+    // owners' milestone updates leave the stored status behind (src/projectMilestones.ts)
+    status: (statusOverride ? null : derivedStatus(milestones)) ?? ((data?.status ?? ProjectStatus.PLANNED) as ProjectStatus),
+    description: String(data?.description ?? ""),
+    objectives,
+    budgetAllocated: normalizeNumber(data?.budgetAllocated),
+    spentAmount: normalizeNumber(data?.spentAmount),
+    milestones,
+    statusOverride,
+    report: data?.report ? normalizeProjectReport(data.report) : null,
+    bannerImage: String(data?.bannerImage ?? DEFAULT_PROJECT_BANNER),
+    bannerPublicId: data?.bannerPublicId ? String(data.bannerPublicId) : "",
+    pdfName: data?.pdfName ? String(data.pdfName) : "",
+    pdfUrl: data?.pdfUrl ? String(data.pdfUrl) : "",
+    pdfPublicId: data?.pdfPublicId ? String(data.pdfPublicId) : "",
+    ...normalizeTermTag(data),
+    createdAt: data?.createdAt,
+    updatedAt: data?.updatedAt,
+  };
+}
+
+export function normalizeOfficer(id: string, data: any): Officer {
+  return {
+    ...normalizeSoftDelete(data),
+    id,
+    name: String(data?.name ?? ""),
+    position: String(data?.position ?? ""),
+    department: data?.department ?? DepartmentType.SAMASA,
+    division: (data?.division ?? OfficerDivision.EXECUTIVE) as OfficerDivision,
+    photoUrl: String(data?.photoUrl ?? ""),
+    order: Number.isFinite(data?.order) ? Number(data.order) : 0,
+    ...(data?.councilTermId ? { councilTermId: String(data.councilTermId) } : {}),
+    ...(data?.carriedFromId ? { carriedFromId: String(data.carriedFromId) } : {}),
+  };
+}
+
+export function normalizeCouncilTerm(id: string, data: any): CouncilTerm {
+  return {
+    id,
+    label: String(data?.label ?? id),
+    startDate: String(data?.startDate ?? ""),
+    endDate: String(data?.endDate ?? ""),
+  };
+}
+
+export function normalizeDepartment(id: string, data: any): Department {
+  const deptId = String(data?.id ?? id);
+  return {
+    id: deptId,
+    name: String(data?.name ?? ""),
+    active: data?.active !== false,
+    order: Number.isFinite(data?.order) ? Number(data.order) : 0,
+    locked: deptId === String(DepartmentType.SAMASA),
+    about: String(data?.about ?? ""),
+    logoUrl: String(data?.logoUrl ?? ""),
+    logoPublicId: String(data?.logoPublicId ?? ""),
+  };
+}
+
+export function normalizeUserAccount(id: string, data: any): UserAccount {
+  const roleRaw = String(data?.role || "").toUpperCase();
+  const role =
+    roleRaw === UserRole.SUPERADMIN
+      ? UserRole.SUPERADMIN
+      : roleRaw === UserRole.STUDENT
+      ? UserRole.STUDENT
+      : UserRole.OFFICER;
+
+  return {
+    id,
+    name: String(data?.name ?? ""),
+    email: String(data?.email ?? ""),
+    password: "", // never stored/retrieved from Firestore
+    role,
+    officerId: String(data?.officerId ?? ""),
+    department: data?.department ?? DepartmentType.SAMASA,
+    createdAt: toMillis(data?.createdAt),
+    updatedAt: toMillis(data?.updatedAt),
+    active: data?.active !== false,
+    ...(Array.isArray(data?.grants) ? { grants: data.grants.map(normalizeRoleGrant) } : {}),
+    ...(Array.isArray(data?.scopes) ? { scopes: data.scopes.map((x: any) => String(x)) } : {}),
+  };
+}
+
+const normalizeRoleGrant = (data: any): RoleGrant => ({
+  roleId: String(data?.roleId ?? ""),
+  department: String(data?.department || DepartmentType.SAMASA),
+});
+
+export function normalizePermissionRole(id: string, data: any): PermissionRole {
+  return {
+    id,
+    name: String(data?.name ?? ""),
+    description: String(data?.description ?? ""),
+    permissions: Array.isArray(data?.permissions) ? data.permissions.map((x: any) => String(x) as Permission) : [],
+  };
+}
+
+/** Ledger fields only (no id/timestamps), as stored in audit before/after */
+export function normalizeBudgetSnapshot(data: any): BudgetEntrySnapshot {
+  const { id: _id, fund, deletedAt: _at, deletedBy: _by, deletedByName: _name, revision: _rev, ...rest } =
+    normalizeBudgetEntry("", data);
+  return fund ? { ...rest, fund } : rest;
+}
+
+export function normalizeBudgetAuditRecord(id: string, data: any): BudgetAuditRecord {
+  const action = ["CREATE", "DELETE", "RESTORE", "PURGE"].includes(data?.action) ? data.action : "UPDATE";
+  return {
+    id,
+    entryId: String(data?.entryId ?? ""),
+    revision: normalizeNumber(data?.revision),
+    department: String(
+      data?.department ?? data?.after?.department ?? data?.before?.department ?? DepartmentType.SAMASA
+    ),
+    action,
+    actorId: String(data?.actorId ?? ""),
+    actorName: String(data?.actorName ?? ""),
+    actorRole: (data?.actorRole ?? UserRole.OFFICER) as UserRole,
+    at: toMillis(data?.at),
+    before: data?.before ? normalizeBudgetSnapshot(data.before) : null,
+    after: data?.after ? normalizeBudgetSnapshot(data.after) : null,
+    reason: String(data?.reason ?? ""),
+  };
+}
+
+/** Fallback for siteSettings/landingPage (shared by LandingPage, AdminDashboard, Login) */
+export const DEFAULT_LANDING_CONTENT: LandingPageContent = {
+  heroBackgroundUrl: "",
+  heroHeadingTop: "SAMASA",
+  heroHeadingHighlight: "STRONG",
+  heroSubtitle: "Public landing subtitle…",
+
+  visionImageUrl: "",
+  visionTitle: "Vision Title",
+  visionBody: "Vision body…",
+  visionCard1Title: "Integrity",
+  visionCard1Body: "Card 1 body…",
+  visionCard2Title: "Excellence",
+  visionCard2Body: "Card 2 body…",
+
+  loginBackgroundUrl: "",
+
+  projectsEyebrow: "PROJECTS",
+  projectsTitle: "Projects",
+  budgetEyebrow: "BUDGET",
+  budgetTitle: "Budget",
+
+  footerLeft: "SAMASA",
+  footerRight: "All Rights Reserved",
+};
+
+export function normalizeLandingContent(data: any): LandingPageContent {
+  return { ...DEFAULT_LANDING_CONTENT, ...((data || {}) as Partial<LandingPageContent>) };
+}
+
+export type BudgetTopOverride = {
+  available: number;
+  revenue: number;
+  expenditure: number;
+};
+
+export function normalizeBudgetOverride(data: any): BudgetTopOverride {
+  return {
+    available: normalizeNumber(data?.top?.available),
+    revenue: normalizeNumber(data?.top?.revenue),
+    expenditure: normalizeNumber(data?.top?.expenditure),
+  };
+}
+
+// ==============================
+// Sources (one listener per collection/doc)
+// Soft-deletable collections keep trashed rows here; the hooks split live vs trashed.
+// ==============================
+const budgetEntriesSource = createSharedSource<BudgetEntry[]>("budgetEntries", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "budgetEntries",
+    { orderBy: ["createdAt", "desc"] },
+    (rows) => emit(rows.map((r) => normalizeBudgetEntry(r.id, r.data))),
+    fail
+  )
+);
+
+// Rules only let auditors read the departments they audit, so scoped viewers query exactly those
+// ("null" = every department). where(in) + orderBy(at) needs a composite index; sort locally.
+const budgetAuditSources = new Map<string, SharedSource<BudgetAuditRecord[]>>();
+
+const budgetAuditSource = (departments: string[] | null) => {
+  const key = departments ? departments.slice().sort().join(",") : "ALL";
+  let source = budgetAuditSources.get(key);
+  if (!source) {
+    source = createSharedSource<BudgetAuditRecord[]>(`budgetAudit(${key})`, [], (emit, fail) => {
+      if (departments && departments.length === 0) {
+        emit([]);
+        return () => {};
+      }
+      return storage.subscribeCollection(
+        "budgetAudit",
+        departments ? { where: [["department", "in", departments]] } : {},
+        (rows) => emit(rows.map((r) => normalizeBudgetAuditRecord(r.id, r.data)).sort((a, b) => b.at - a.at)),
+        fail
+      );
+    });
+    budgetAuditSources.set(key, source);
+  }
+  return source;
+};
+
+const budgetAllocationsSource = createSharedSource<BudgetAllocation[]>("budgetAllocations", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "budgetAllocations",
+    {},
+    (rows) => emit(rows.map((r) => normalizeBudgetAllocation(r.id, r.data))),
+    fail
+  )
+);
+
+const approvalRulesSource = createSharedSource<ApprovalRule[]>("approvalRules", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "approvalRules",
+    {},
+    (rows) => emit(rows.map((r) => normalizeApprovalRule(r.id, r.data))),
+    fail
+  )
+);
+
+const policiesSource = createSharedSource<Policy[]>("policies", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "policies",
+    { orderBy: ["dateApproved", "desc"] },
+    (rows) => emit(rows.map((r) => normalizePolicy(r.id, r.data))),
+    fail
+  )
+);
+
+// Signed-out viewers only query CLOSED sessions (the public roll call), sorted client-side to avoid
+// a composite index on (status, openedAt).
+const voteSessionsSource = (scope: "ALL" | "CLOSED") =>
+  createSharedSource<VoteSession[]>(`voteSessions(${scope})`, [], (emit, fail) =>
+    storage.subscribeCollection(
+      "voteSessions",
+      scope === "CLOSED" ? { where: [["status", "==", "CLOSED"]] } : { orderBy: ["openedAt", "desc"] },
+      (rows) => {
+        const sessions = rows.map((r) => normalizeVoteSession(r.id, r.data));
+        emit(scope === "CLOSED" ? sessions.sort((a, b) => b.openedAt - a.openedAt) : sessions);
+      },
+      fail
+    )
+  );
+
+const allVoteSessionsSource = voteSessionsSource("ALL");
+const closedVoteSessionsSource = voteSessionsSource("CLOSED");
+
+// Non-officers only ever query PUBLIC comments so security rules can deny INTERNAL ones outright.
+// Sorted client-side to avoid a composite index on (visibility, createdAt).
+const commentsSource = (scope: "ALL" | "PUBLIC") =>
+  createSharedSource<DiscussionComment[]>(`comments(${scope})`, [], (emit, fail) =>
+    storage.subscribeCollection(
+      "comments",
+      scope === "PUBLIC" ? { where: [["visibility", "==", "PUBLIC"]] } : {},
+      (rows) => emit(rows.map((r) => normalizeComment(r.id, r.data)).sort((a, b) => a.createdAt - b.createdAt)),
+      fail
+    )
+  );
+
+const allCommentsSource = commentsSource("ALL");
+const publicCommentsSource = commentsSource("PUBLIC");
+
+const rolesSource = createSharedSource<PermissionRole[]>("roles", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "roles",
+    { orderBy: ["name", "asc"] },
+    (rows) => emit(rows.map((r) => normalizePermissionRole(r.id, r.data))),
+    fail
+  )
+);
+
+const councilTermsSource = createSharedSource<CouncilTerm[]>("councilTerms", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "councilTerms",
+    { orderBy: ["startDate", "desc"] },
+    (rows) => emit(rows.map((r) => normalizeCouncilTerm(r.id, r.data))),
+    fail
+  )
+);
+
+const fiscalTermsSource = createSharedSource<FiscalTerm[]>("fiscalTerms", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "fiscalTerms",
+    { orderBy: ["startDate", "desc"] },
+    (rows) => emit(rows.map((r) => normalizeFiscalTerm(r.id, r.data))),
+    fail
+  )
+);
+
+const proposalsSource = createSharedSource<ProposalRecord[]>("proposals", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "proposals",
+    { orderBy: ["createdAt", "desc"] },
+    (rows) => emit(rows.map((r) => normalizeProposal(r.id, r.data))),
+    fail
+  )
+);
+
+const projectsSource = createSharedSource<ProjectRecord[]>("projects", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "projects",
+    { orderBy: ["createdAt", "desc"] },
+    (rows) => emit(rows.map((r) => normalizeProject(r.id, r.data))),
+    fail
+  )
+);
+
+const officersSource = createSharedSource<Officer[]>("officers", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "officers",
+    { orderBy: ["order", "asc"] },
+    (rows) => emit(rows.map((r) => normalizeOfficer(r.id, r.data))),
+    fail
+  )
+);
+
+const departmentsSource = createSharedSource<Department[]>("departments", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "departments",
+    { orderBy: ["order", "asc"] },
+    (rows) => emit(rows.map((r) => normalizeDepartment(r.id, r.data))),
+    fail
+  )
+);
+
+// where(role == OFFICER) + orderBy(createdAt) needs a composite index, so sort locally instead.
+const officerAccountsSource = createSharedSource<UserAccount[]>("users(officer accounts)", [], (emit, fail) =>
+  storage.subscribeCollection(
+    "users",
+    { where: [["role", "==", UserRole.OFFICER]] },
+    (rows) =>
+      emit(
+        rows
+          .map((r) => normalizeUserAccount(r.id, r.data))
+          .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0))
+      ),
+    fail
+  )
+);
+
+/** `null` while the doc does not exist (callers decide whether to seed it) */
+const landingContentSource = createSharedSource<LandingPageContent | null>(
+  "siteSettings/landingPage",
+  null,
+  (emit, fail) =>
+    storage.subscribeDoc(
+      "siteSettings",
+      "landingPage",
+      (row) => emit(row ? normalizeLandingContent(row.data) : null),
+      fail
+    )
+);
+
+/** Raw `content` field of site_content/about; each page merges its own defaults. */
+const aboutContentSource = createSharedSource<any | null>("site_content/about", null, (emit, fail) =>
+  storage.subscribeDoc(
+    "site_content",
+    "about",
+    (row) => emit(row ? row.data?.content ?? row.data ?? {} : null),
+    fail
+  )
+);
+
+const budgetOverrideSources = new Map<string, SharedSource<BudgetTopOverride>>();
+
+const budgetOverrideSource = (scope: string) => {
+  let source = budgetOverrideSources.get(scope);
+  if (!source) {
+    source = createSharedSource<BudgetTopOverride>(
+      `budgetOverrides/${scope}`,
+      normalizeBudgetOverride(null),
+      (emit, fail) =>
+        storage.subscribeDoc(
+          "budgetOverrides",
+          scope,
+          (row) => emit(normalizeBudgetOverride(row?.data)),
+          fail
+        )
+    );
+    budgetOverrideSources.set(scope, source);
+  }
+  return source;
+};
+
+const proposalRevisionsSources = new Map<string, SharedSource<ProposalRevision[]>>();
+
+const proposalRevisionsSource = (proposalId: string) => {
+  let source = proposalRevisionsSources.get(proposalId);
+  if (!source) {
+    source = createSharedSource<ProposalRevision[]>(`proposalRevisions(${proposalId})`, [], (emit, fail) =>
+      storage.subscribeCollection(
+        "proposalRevisions",
+        { where: [["proposalId", "==", proposalId]] },
+        (rows) =>
+          emit(rows.map((r) => normalizeProposalRevision(r.id, r.data)).sort((a, b) => b.version - a.version)),
+        fail
+      )
+    );
+    proposalRevisionsSources.set(proposalId, source);
+  }
+  return source;
+};
+
+const sessionVotesSources = new Map<string, SharedSource<Vote[]>>();
+
+const sessionVotesSource = (sessionId: string) => {
+  let source = sessionVotesSources.get(sessionId);
+  if (!source) {
+    source = createSharedSource<Vote[]>(`votes(${sessionId})`, [], (emit, fail) =>
+      storage.subscribeCollection(
+        "votes",
+        { where: [["sessionId", "==", sessionId]] },
+        (rows) => emit(rows.map((r) => normalizeVote(r.id, r.data))),
+        fail
+      )
+    );
+    sessionVotesSources.set(sessionId, source);
+  }
+  return source;
+};
+
+const noVotesSource = emptySource<Vote[]>("votes(none)", []);
+
+const petitionSettingsSource = createSharedSource<PetitionSettings>(
+  "siteSettings/petitions",
+  normalizePetitionSettings(null),
+  (emit, fail) =>
+    storage.subscribeDoc("siteSettings", "petitions", (row) => emit(normalizePetitionSettings(row?.data)), fail)
+);
+
+// Staff read every submitter ("ALL"); a student only queries their own rows so rules can enforce it.
+const proposalSubmittersSources = new Map<string, SharedSource<ProposalSubmitter[]>>();
+
+const proposalSubmittersSource = (studentId: string | null) => {
+  const key = studentId ?? "ALL";
+  let source = proposalSubmittersSources.get(key);
+  if (!source) {
+    source = createSharedSource<ProposalSubmitter[]>(`proposalSubmitters(${key})`, [], (emit, fail) =>
+      storage.subscribeCollection(
+        "proposalSubmitters",
+        studentId ? { where: [["studentId", "==", studentId]] } : {},
+        (rows) => emit(rows.map((r) => normalizeProposalSubmitter(r.id, r.data))),
+        fail
+      )
+    );
+    proposalSubmittersSources.set(key, source);
+  }
+  return source;
+};
+
+const noSubmittersSource = emptySource<ProposalSubmitter[]>("proposalSubmitters(none)", []);
+
+const userSignaturesSources = new Map<string, SharedSource<PetitionSignature[]>>();
+
+const userSignaturesSource = (userId: string) => {
+  let source = userSignaturesSources.get(userId);
+  if (!source) {
+    source = createSharedSource<PetitionSignature[]>(`petitionSignatures(${userId})`, [], (emit, fail) =>
+      storage.subscribeCollection(
+        "petitionSignatures",
+        { where: [["userId", "==", userId]] },
+        (rows) => emit(rows.map((r) => normalizePetitionSignature(r.id, r.data))),
+        fail
+      )
+    );
+    userSignaturesSources.set(userId, source);
+  }
+  return source;
+};
+
+const noSignaturesSource = emptySource<PetitionSignature[]>("petitionSignatures(none)", []);
+
+// ==============================
+// Hooks
+// ==============================
+export const useBudgetEntries = () => useSoftDeleteSource(budgetEntriesSource, false);
+/** `null` = the whole trail (SUPERADMIN, budget.audit in every department) */
+export const useBudgetAudit = (departments: string[] | null) => useSharedSource(budgetAuditSource(departments));
+export const useBudgetAllocations = () => useSharedSource(budgetAllocationsSource);
+export const useFiscalTerms = () => useSharedSource(fiscalTermsSource);
+export const useCouncilTerms = () => useSharedSource(councilTermsSource);
+/** custom roles only; src/permissions merges in the built-in ones */
+export const useCustomRoles = () => useSharedSource(rolesSource);
+export const useApprovalRules = () => useSharedSource(approvalRulesSource);
+export const usePolicies = () => useSharedSource(policiesSource);
+export const useComments = (includeInternal: boolean) =>
+  useSharedSource(includeInternal ? allCommentsSource : publicCommentsSource);
+/** `signedIn: false` = closed sessions only, the part the public may read */
+export const useVoteSessions = (signedIn = true) =>
+  useSharedSource(signedIn ? allVoteSessionsSource : closedVoteSessionsSource);
+export const useProposalRevisions = (proposalId: string) =>
+  useSharedSource(proposalRevisionsSource(proposalId));
+/** `enabled: false` skips the listener (closed sessions keep their roll call on the session) */
+export const useSessionVotes = (sessionId: string, enabled = true) =>
+  useSharedSource(enabled ? sessionVotesSource(sessionId) : noVotesSource);
+export const usePetitionSettings = () => useSharedSource(petitionSettingsSource);
+/** `null` = every submitter (council staff); `undefined` = none (signed-out viewers) */
+export const useProposalSubmitters = (studentId: string | null | undefined) =>
+  useSharedSource(studentId === undefined ? noSubmittersSource : proposalSubmittersSource(studentId));
+/** `enabled: false` for signed-out viewers, whom the rules deny */
+export const useUserSignatures = (userId: string, enabled = true) =>
+  useSharedSource(enabled ? userSignaturesSource(userId) : noSignaturesSource);
+export const useProposals = () => useSoftDeleteSource(proposalsSource, false);
+export const useProjects = () => useSoftDeleteSource(projectsSource, false);
+export const useOfficers = () => useSoftDeleteSource(officersSource, false);
+
+// Recycle bin views
+export const useTrashedBudgetEntries = () => useSoftDeleteSource(budgetEntriesSource, true);
+export const useTrashedProposals = () => useSoftDeleteSource(proposalsSource, true);
+export const useTrashedProjects = () => useSoftDeleteSource(projectsSource, true);
+export const useTrashedOfficers = () => useSoftDeleteSource(officersSource, true);
+export const useDepartments = () => useSharedSource(departmentsSource);
+export const useOfficerAccounts = () => useSharedSource(officerAccountsSource);
+export const useLandingContent = () => useSharedSource(landingContentSource);
+export const useAboutContent = () => useSharedSource(aboutContentSource);
+export const useBudgetOverride = (scope = "ALL") => useSharedSource(budgetOverrideSource(scope));
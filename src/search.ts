@@ -0,0 +1,126 @@
+// src/search.ts
+// Client-side global search (Header → Ctrl+K). The index is rebuilt from the shared listeners for
+// the signed-in user, so it only ever holds rows that user could already see on the pages it links
+// to. Matching and ranking live in ./searchMatch.
+import { ApprovalRule, BudgetEntry, Department, Officer, Proposal, Project, User, UserRole } from "../types";
+import { canSeeEntry } from "./expenseApproval";
+import { canViewProposal } from "./petitions";
+import { departmentPath } from "./departmentWorkspace";
+import { SearchDoc, SearchKind, tokenize } from "./searchMatch";
+
+export { searchIndex } from "./searchMatch";
+export type { SearchDoc, SearchGroup, SearchKind } from "./searchMatch";
+
+export const SEARCH_KIND_LABEL: Record<SearchKind, string> = {
+  proposal: "Proposals",
+  project: "Projects",
+  entry: "Budget Entries",
+  officer: "Officers",
+  department: "Departments",
+  achievement: "Achievements",
+};
+
+/** Stored About achievements (site_content/about → achievements.items) */
+export type SearchAchievement = { id: string; title: string; summary?: string; lead?: string; tags?: string[] };
+
+export type SearchSources = {
+  proposals: Proposal[];
+  projects: Project[];
+  entries: BudgetEntry[];
+  /** who may see unposted entries (see canSeeEntry) */
+  approvalRules: ApprovalRule[];
+  officers: Officer[];
+  departments: Department[];
+  achievements: SearchAchievement[];
+  /** the student's own submissions (moderation queue) */
+  mySubmissionIds: Set<string>;
+};
+
+const doc = (
+  kind: SearchKind,
+  id: string,
+  title: string,
+  subtitle: string,
+  to: string,
+  body: Array<string | number | undefined | null>
+): SearchDoc => ({
+  kind,
+  id,
+  title,
+  subtitle,
+  to,
+  titleWords: tokenize(title),
+  words: tokenize([subtitle, ...body].filter((x) => x !== undefined && x !== null).join(" ")),
+});
+
+export function buildSearchIndex(sources: SearchSources, user: User): SearchDoc[] {
+  const deptName = (id: string) => sources.departments.find((d) => String(d.id) === String(id))?.name ?? id;
+
+  const proposals = sources.proposals
+    .filter((p) => canViewProposal(p, user, sources.mySubmissionIds))
+    .map((p) =>
+      doc("proposal", p.id, p.title, `${p.category} • ${p.status}`, `/proposals?proposal=${p.id}`, [
+        p.proponent,
+        p.description,
+      ])
+    );
+
+  const projects = sources.projects.map((p) =>
+    doc("project", p.id, p.title, `${p.status} • ${p.inCharge}`, `/proposals?project=${p.id}`, [
+      p.description,
+      p.timeline,
+      ...p.objectives,
+    ])
+  );
+
+  // Same rows as the Budget page: drafts and pending approvals only for those who handle them
+  const entries = sources.entries
+    .filter((e) => canSeeEntry(user, e, sources.approvalRules, sources.officers))
+    .map((e) =>
+      doc(
+        "entry",
+        e.id,
+        e.title,
+        `${e.date} • ${e.type} • ₱${Number(e.amount).toLocaleString()}`,
+        `/budget?entry=${e.id}`,
+        [e.category, deptName(String(e.department)), e.fund, e.amount]
+      )
+    );
+
+  const officers = sources.officers.map((o) =>
+    doc(
+      "officer",
+      o.id,
+      o.name,
+      `${o.position} • ${deptName(String(o.department))}`,
+      `/officers?dept=${encodeURIComponent(String(o.department))}&officer=${o.id}`,
+      [o.division]
+    )
+  );
+
+  const departments = sources.departments
+    .filter((d) => d.active || user.role === UserRole.SUPERADMIN)
+    .map((d) =>
+      doc(
+        "department",
+        String(d.id),
+        d.name,
+        d.active ? "Department" : "Inactive department",
+        departmentPath(d.id),
+        [String(d.id), d.about]
+      )
+    );
+
+  const achievements = sources.achievements.map((a) =>
+    doc(
+      "achievement",
+      a.id,
+      a.title,
+      a.lead || "Achievement",
+      `/about?tab=Achievements&achievement=${encodeURIComponent(a.id)}`,
+      [a.summary, ...(a.tags ?? [])]
+    )
+  );
+
+  return [...proposals, ...projects, ...entries, ...officers, ...departments, ...achievements];
+}
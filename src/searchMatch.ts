@@ -0,0 +1,95 @@
+// src/searchMatch.ts
+// Matching and ranking for the global search (see ./search). Matching is per word: exact, prefix,
+// or within a small edit distance for typos. No imports, so it also runs under plain Node
+// (tests/search.test.ts).
+
+export type SearchKind = "proposal" | "project" | "entry" | "officer" | "department" | "achievement";
+
+export type SearchDoc = {
+  kind: SearchKind;
+  id: string;
+  title: string;
+  subtitle: string;
+  /** route (with query) that opens the row */
+  to: string;
+  titleWords: string[];
+  words: string[];
+};
+
+const KIND_ORDER: SearchKind[] = ["proposal", "project", "entry", "officer", "department", "achievement"];
+
+export const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// ==============================
+// Matching
+// ==============================
+/** Optimal string alignment distance, giving up once it exceeds `max` */
+export function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, d[i][j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return d[a.length][b.length];
+}
+
+/** Typos allowed for a query word: none under 4 letters, one under 8, two beyond */
+const typoBudget = (term: string) => (term.length < 4 ? 0 : term.length < 8 ? 1 : 2);
+
+/** 3 exact, 2 prefix, 1 typo, 0 no match */
+function wordScore(term: string, word: string) {
+  if (word === term) return 3;
+  if (word.startsWith(term)) return 2;
+  const budget = typoBudget(term);
+  if (budget === 0) return 0;
+  // compare against the word's prefix too, so "budgt" still finds "budgeting"
+  const candidate = word.length > term.length + budget ? word.slice(0, term.length) : word;
+  return editDistance(term, candidate, budget) <= budget ? 1 : 0;
+}
+
+function scoreDoc(terms: string[], d: SearchDoc) {
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const w of d.titleWords) best = Math.max(best, wordScore(term, w) * 2);
+    if (best < 6) for (const w of d.words) best = Math.max(best, wordScore(term, w));
+    // every query word has to match somewhere
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total;
+}
+
+export type SearchGroup = { kind: SearchKind; results: SearchDoc[] };
+
+export function searchIndex(index: SearchDoc[], query: string, perKind = 5): SearchGroup[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const scored = index
+    .map((d) => ({ d, score: scoreDoc(terms, d) }))
+    .filter((x) => x.score > 0)
+    .sort((a, b) => b.score - a.score || a.d.title.localeCompare(b.d.title));
+
+  return KIND_ORDER.map((kind) => ({
+    kind,
+    results: scored.filter((x) => x.d.kind === kind).slice(0, perKind).map((x) => x.d),
+  })).filter((g) => g.results.length > 0);
+}
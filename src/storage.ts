@@ -0,0 +1,15 @@
+// src/storage.ts
+// Picks the storage backend once at startup.
+//   VITE_STORAGE_BACKEND=local      → localStorage only (no Firebase project needed)
+//   VITE_STORAGE_BACKEND=firestore  → Firestore (default; honours the emulator env vars)
+import { StorageAdapter, StorageBackendKind } from "./storageAdapter";
+import { firestoreAdapter } from "./firestoreAdapter";
+import { localAdapter } from "./localAdapter";
+
+export const STORAGE_BACKEND: StorageBackendKind =
+  String(import.meta.env.VITE_STORAGE_BACKEND || "").trim().toLowerCase() === "local"
+    ? "local"
+    : "firestore";
+
+export const storage: StorageAdapter =
+  STORAGE_BACKEND === "local" ? localAdapter : firestoreAdapter;
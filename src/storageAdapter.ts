@@ -0,0 +1,90 @@
+// src/storageAdapter.ts
+// Backend-neutral document store used by the repository and every page write.
+// Implementations: Firestore (default) and localStorage (offline demo / laptop dev).
+
+export type StorageBackendKind = "firestore" | "local";
+
+export type DocRow = {
+  id: string;
+  data: any;
+};
+
+export type WhereClause = [field: string, op: "==" | "in", value: any];
+
+export type QuerySpec = {
+  where?: WhereClause[];
+  orderBy?: [field: string, direction: "asc" | "desc"];
+};
+
+export type BatchOp =
+  | { type: "set"; path: string; id: string; data: any; merge?: boolean }
+  | { type: "update"; path: string; id: string; data: any }
+  | { type: "delete"; path: string; id: string };
+
+export type Unsubscribe = () => void;
+
+export interface StorageAdapter {
+  readonly kind: StorageBackendKind;
+
+  /** Value to store in createdAt/updatedAt (server time on Firestore, millis locally) */
+  now(): any;
+
+  /** Reserve a new document id without writing */
+  newId(path: string): string;
+
+  subscribeCollection(
+    path: string,
+    spec: QuerySpec,
+    onRows: (rows: DocRow[]) => void,
+    onError: (err: any) => void
+  ): Unsubscribe;
+
+  /** `null` is emitted while the doc does not exist */
+  subscribeDoc(
+    path: string,
+    id: string,
+    onDoc: (row: DocRow | null) => void,
+    onError: (err: any) => void
+  ): Unsubscribe;
+
+  getDoc(path: string, id: string): Promise<DocRow | null>;
+  getDocs(path: string, spec?: QuerySpec): Promise<DocRow[]>;
+
+  /** Creates a doc with a generated id and returns that id */
+  add(path: string, data: any): Promise<string>;
+  set(path: string, id: string, data: any, opts?: { merge?: boolean }): Promise<void>;
+  update(path: string, id: string, data: any): Promise<void>;
+  remove(path: string, id: string): Promise<void>;
+
+  /** Applies all ops atomically where the backend supports it */
+  batch(ops: BatchOp[]): Promise<void>;
+}
+
+/** Shared by the local adapter; mirrors Firestore's where/orderBy semantics closely enough */
+export function applyQuerySpec(rows: DocRow[], spec?: QuerySpec): DocRow[] {
+  let out = rows;
+
+  (spec?.where || []).forEach(([field, op, value]) => {
+    out = out.filter((r) => {
+      const v = r.data?.[field];
+      if (op === "in") return Array.isArray(value) && value.includes(v);
+      return v === value;
+    });
+  });
+
+  if (spec?.orderBy) {
+    const [field, direction] = spec.orderBy;
+    const sign = direction === "desc" ? -1 : 1;
+    const key = (v: any) =>
+      typeof v?.toMillis === "function" ? v.toMillis() : typeof v === "number" ? v : String(v ?? "");
+
+    out = out.slice().sort((a, b) => {
+      const ka = key(a.data?.[field]);
+      const kb = key(b.data?.[field]);
+      if (ka === kb) return 0;
+      return (ka > kb ? 1 : -1) * sign;
+    });
+  }
+
+  return out;
+}
@@ -0,0 +1,57 @@
+// src/textDiff.ts
+// Word-level diff (LCS) for redlining revisions. Whitespace is kept as its own token so the
+// pieces can be rendered back verbatim; very long texts fall back to a line-level diff.
+// No imports, so it also runs under plain Node (tests/textDiff.test.ts).
+
+export type DiffPart = { kind: "same" | "added" | "removed"; text: string };
+
+const MAX_CELLS = 4_000_000;
+
+const tokenize = (s: string) => s.split(/(\s+)/).filter((t) => t !== "");
+const lines = (s: string) => s.split(/(?<=\n)/);
+
+function lcsDiff(a: string[], b: string[]): DiffPart[] {
+  const n = a.length;
+  const m = b.length;
+
+  // lengths[i][j] = LCS of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const out: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], text: string) => {
+    const last = out[out.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else out.push({ kind, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < n) push("removed", a[i++]);
+  while (j < m) push("added", b[j++]);
+  return out;
+}
+
+export function diffText(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ kind: "same", text: before }] : [];
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if ((a.length + 1) * (b.length + 1) <= MAX_CELLS) return lcsDiff(a, b);
+  return lcsDiff(lines(before), lines(after));
+}
@@ -0,0 +1,146 @@
+// src/trash.ts
+// Recycle bin for proposals, projects, officers and budget entries.
+// Deleting sets deletedAt/deletedBy instead of removing the doc; SUPERADMIN can restore or
+// purge, and anything older than TRASH_RETENTION_DAYS is purged on the next admin session.
+import { useMemo } from "react";
+import { BudgetEntry, TrashCollection, TrashItem, User } from "../types";
+import {
+  normalizeBudgetEntry,
+  toMillis,
+  useTrashedBudgetEntries,
+  useTrashedOfficers,
+  useTrashedProjects,
+  useTrashedProposals,
+} from "./repository";
+import { purgeBudgetEntry, restoreBudgetEntry } from "./budgetLedger";
+import { storage } from "./storage";
+import { BatchOp } from "./storageAdapter";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_RETENTION_DAYS = (() => {
+  const n = Number(import.meta.env.VITE_TRASH_RETENTION_DAYS);
+  return Number.isFinite(n) && n > 0 ? n : 30;
+})();
+
+export const TRASH_COLLECTIONS: TrashCollection[] = ["proposals", "projects", "officers", "budgetEntries"];
+
+export const TRASH_LABELS: Record<TrashCollection, string> = {
+  proposals: "Proposal",
+  projects: "Project",
+  officers: "Officer",
+  budgetEntries: "Budget Entry",
+};
+
+const purgeAtOf = (deletedAt: number) => deletedAt + TRASH_RETENTION_DAYS * DAY_MS;
+
+const toTrashItem = (collection: TrashCollection, x: any): TrashItem => ({
+  collection,
+  id: String(x.id),
+  title: String(x.title ?? x.name ?? x.id),
+  deletedAt: Number(x.deletedAt) || 0,
+  deletedByName: String(x.deletedByName ?? ""),
+  purgeAt: purgeAtOf(Number(x.deletedAt) || 0),
+});
+
+// ==============================
+// Writes
+// ==============================
+/** Soft delete for proposals/projects/officers (budget entries go through budgetLedger) */
+export async function moveToTrash(collection: Exclude<TrashCollection, "budgetEntries">, id: string, actor: User) {
+  await storage.update(collection, id, {
+    deletedAt: storage.now(),
+    deletedBy: actor.id,
+    deletedByName: actor.name,
+    updatedAt: storage.now(),
+  });
+}
+
+const loadBudgetEntry = async (id: string): Promise<BudgetEntry> => {
+  const row = await storage.getDoc("budgetEntries", id);
+  if (!row) throw new Error("Budget entry no longer exists.");
+  return normalizeBudgetEntry(row.id, row.data);
+};
+
+export async function restoreFromTrash(item: TrashItem, actor: User, reason = "Restored from trash") {
+  if (item.collection === "budgetEntries") {
+    await restoreBudgetEntry(await loadBudgetEntry(item.id), actor, reason);
+    return;
+  }
+
+  await storage.update(item.collection, item.id, {
+    deletedAt: null,
+    deletedBy: null,
+    deletedByName: null,
+    updatedAt: storage.now(),
+  });
+}
+
+export async function purgeFromTrash(item: TrashItem, actor: User, reason = "Purged from trash") {
+  if (item.collection === "budgetEntries") {
+    await purgeBudgetEntry(await loadBudgetEntry(item.id), actor, reason);
+    return;
+  }
+
+  const ops: BatchOp[] = [{ type: "delete", path: item.collection, id: item.id }];
+
+  // accounts linked to a purged officer card lose the link (they stay linked while it's only trashed)
+  if (item.collection === "officers") {
+    const linked = await storage.getDocs("users", { where: [["officerId", "==", item.id]] });
+    linked.forEach((r) =>
+      ops.push({ type: "update", path: "users", id: r.id, data: { officerId: "", updatedAt: storage.now() } })
+    );
+  }
+
+  await storage.batch(ops);
+}
+
+/** Purges everything past the retention window; returns how many items were removed */
+export async function purgeExpiredTrash(actor: User) {
+  const now = Date.now();
+  let purged = 0;
+
+  for (const collection of TRASH_COLLECTIONS) {
+    const rows = await storage.getDocs(collection);
+    const expired = rows
+      .map((r) => toTrashItem(collection, { ...r.data, id: r.id, deletedAt: toMillis(r.data?.deletedAt) }))
+      .filter((item) => item.deletedAt > 0 && item.purgeAt <= now);
+
+    for (const item of expired) {
+      try {
+        await purgeFromTrash(item, actor, `Auto-purged after ${TRASH_RETENTION_DAYS} days in trash`);
+        purged++;
+      } catch (err) {
+        console.error("AUTO PURGE ERROR:", item, err);
+      }
+    }
+  }
+
+  return purged;
+}
+
+// ==============================
+// Read
+// ==============================
+/** Every trashed item across collections, most recently deleted first */
+export function useTrash() {
+  const proposals = useTrashedProposals();
+  const projects = useTrashedProjects();
+  const officers = useTrashedOfficers();
+  const budgetEntries = useTrashedBudgetEntries();
+
+  const data = useMemo(
+    () =>
+      [
+        ...proposals.data.map((x) => toTrashItem("proposals", x)),
+        ...projects.data.map((x) => toTrashItem("projects", x)),
+        ...officers.data.map((x) => toTrashItem("officers", x)),
+        ...budgetEntries.data.map((x) => toTrashItem("budgetEntries", x)),
+      ].sort((a, b) => b.deletedAt - a.deletedAt),
+    [proposals.data, projects.data, officers.data, budgetEntries.data]
+  );
+
+  const loading = proposals.loading || projects.loading || officers.loading || budgetEntries.loading;
+
+  return { data, loading };
+}
@@ -0,0 +1,48 @@
+// src/voteTally.ts
+// Council vote counting: the tally, the roll call and when an open session should close.
+// Type imports only, so it also runs under plain Node: server/adminApi.ts closes sessions past
+// their deadline with it, and tests/voteTally.test.ts covers it.
+import type { RollCallEntry, Vote, VoteSession, VoteTally } from "../types";
+
+type Counted = Pick<VoteSession, "voters" | "rule">;
+
+export function tallyVotes(session: Counted, votes: Pick<Vote, "officerId" | "vote">[]): VoteTally {
+  const seated = new Set(session.voters.map((v) => v.officerId));
+  const counted = votes.filter((v) => seated.has(v.officerId));
+
+  const eligible = session.voters.length;
+  const yes = counted.filter((v) => v.vote === "YES").length;
+  const no = counted.filter((v) => v.vote === "NO").length;
+  const abstain = counted.filter((v) => v.vote === "ABSTAIN").length;
+  const present = yes + no + abstain;
+
+  const quorumMet =
+    eligible > 0 && (session.rule.quorum === "TWO_THIRDS" ? present * 3 >= eligible * 2 : present * 2 > eligible);
+
+  const carried =
+    session.rule.pass === "ABSOLUTE"
+      ? yes * 2 > eligible
+      : session.rule.pass === "TWO_THIRDS"
+        ? yes > 0 && yes * 3 >= (yes + no) * 2
+        : yes > no;
+
+  return { eligible, present, yes, no, abstain, quorumMet, passed: quorumMet && carried };
+}
+
+export const rollCall = (session: Pick<VoteSession, "voters">, votes: Pick<Vote, "officerId" | "vote">[]): RollCallEntry[] =>
+  session.voters.map((v) => ({
+    ...v,
+    vote: votes.find((x) => x.officerId === v.officerId)?.vote ?? "ABSENT",
+  }));
+
+/** Why an open session should close now (null while it should stay open) */
+export function closeReason(
+  session: Pick<VoteSession, "voters" | "rule" | "status" | "closesAt">,
+  votes: Pick<Vote, "officerId" | "vote">[],
+  now = Date.now()
+): VoteSession["closedReason"] | null {
+  if (session.status !== "OPEN") return null;
+  if (session.voters.length > 0 && tallyVotes(session, votes).present >= session.voters.length) return "ALL_VOTED";
+  if (session.closesAt && now >= session.closesAt) return "DEADLINE";
+  return null;
+}
@@ -0,0 +1,48 @@
+// tests/ledgerDates.test.ts
+// Import date parsing (`npm test`): explicit formats, no time-zone shifts, no impossible days.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { localISODate, parseLedgerDate } from "../src/ledgerDates";
+
+describe("parseLedgerDate", () => {
+  it("keeps ISO days as they are", () => {
+    assert.equal(parseLedgerDate("2026-03-15"), "2026-03-15");
+    assert.equal(parseLedgerDate(" 2026/3/5 "), "2026-03-05");
+    assert.equal(parseLedgerDate("2026-03-15T00:00:00.000Z"), "2026-03-15");
+  });
+
+  it("reads MM/DD/YYYY without shifting the day", () => {
+    assert.equal(parseLedgerDate("03/15/2026"), "2026-03-15");
+    assert.equal(parseLedgerDate("3-1-2026"), "2026-03-01");
+    assert.equal(parseLedgerDate("12/31/2026"), "2026-12-31");
+  });
+
+  it("reads month names", () => {
+    assert.equal(parseLedgerDate("Mar 15, 2026"), "2026-03-15");
+    assert.equal(parseLedgerDate("15 March 2026"), "2026-03-15");
+    assert.equal(parseLedgerDate("Sept. 1, 2026"), "2026-09-01");
+  });
+
+  it("rejects impossible days", () => {
+    assert.equal(parseLedgerDate("2026-02-31"), null);
+    assert.equal(parseLedgerDate("2026-02-29"), null);
+    assert.equal(parseLedgerDate("2028-02-29"), "2028-02-29");
+    assert.equal(parseLedgerDate("13/01/2026"), null);
+    assert.equal(parseLedgerDate("2026-00-10"), null);
+    assert.equal(parseLedgerDate("Feb 30, 2026"), null);
+  });
+
+  it("rejects blanks and garbage", () => {
+    assert.equal(parseLedgerDate(""), null);
+    assert.equal(parseLedgerDate("next week"), null);
+    assert.equal(parseLedgerDate("Ma 15, 2026"), null);
+    assert.equal(parseLedgerDate("15/03/26"), null);
+  });
+});
+
+describe("localISODate", () => {
+  it("uses the local calendar day", () => {
+    assert.equal(localISODate(new Date(2026, 2, 15, 0, 30)), "2026-03-15");
+    assert.equal(localISODate(new Date(2026, 11, 31, 23, 59)), "2026-12-31");
+  });
+});
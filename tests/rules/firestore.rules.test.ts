@@ -0,0 +1,959 @@
+// tests/rules/firestore.rules.test.ts
+// firestore.rules against the Firestore emulator (`npm run test:rules`, needs Java 21 for the
+// emulator). Each role from src/permissions.ts gets a profile; writes are checked from each side of
+// a department boundary (MSA officer vs PSSS treasurer) and for the signed-out public.
+import { after, before, beforeEach, describe, it } from "node:test";
+import { readFileSync } from "node:fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  FieldValue,
+  Firestore,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import {
+  BudgetAuditAction,
+  BudgetEntry,
+  CommentVisibility,
+  DepartmentType,
+  DiscussionComment,
+  Proposal,
+  ProposalCategory,
+  ProposalStatus,
+  ProposalStatusChange,
+  Project,
+  ProjectMilestone,
+  ProjectStatus,
+  UserRole,
+  Vote,
+  VoteSession,
+  VoteTally,
+} from "../../types";
+
+let env: RulesTestEnvironment;
+
+// ==============================
+// Accounts
+// ==============================
+const PROFILES: Record<string, Record<string, unknown>> = {
+  root: { name: "Root", role: "SUPERADMIN", active: true },
+  // created before roles: acts as the built-in Officer role in MSA
+  "msa-officer": { name: "MSA Officer", role: "OFFICER", department: "MSA", active: true },
+  "samasa-officer": { name: "Board Officer", role: "OFFICER", department: "SAMASA", active: true },
+  "psss-treasurer": {
+    name: "PSSS Treasurer",
+    role: "OFFICER",
+    department: "PSSS",
+    scopes: ["budget.post@PSSS", "budget.approve@PSSS", "budget.audit@PSSS"],
+    active: true,
+  },
+  secretary: {
+    name: "Secretary General",
+    role: "OFFICER",
+    department: "SAMASA",
+    scopes: ["proposals.create@*", "proposals.edit@*", "projects.edit@*", "officers.manage@*"],
+    active: true,
+  },
+  // no permissions of its own; approves through the linked MSA officer card
+  "msa-approver": {
+    name: "MSA Treasurer",
+    role: "OFFICER",
+    department: "MSA",
+    scopes: [],
+    officerId: "off-msa-treasurer",
+    active: true,
+  },
+  // linked to an MSA card whose position isn't an approver position
+  "msa-secretary": {
+    name: "MSA Secretary",
+    role: "OFFICER",
+    department: "MSA",
+    scopes: [],
+    officerId: "off-msa-secretary",
+    active: true,
+  },
+  disabled: { name: "Former Officer", role: "OFFICER", department: "MSA", active: false },
+  student: { name: "Student", email: "student@school.edu", role: "STUDENT", active: true },
+  "student-2": { name: "Other Student", email: "other@school.edu", role: "STUDENT", active: true },
+};
+
+// contexts hand out compat instances; the modular calls unwrap them
+const as = (uid: string | null): Firestore =>
+  (uid ? env.authenticatedContext(uid) : env.unauthenticatedContext()).firestore() as unknown as Firestore;
+
+type Ledger = Omit<BudgetEntry, "id">;
+
+const entry = (department: DepartmentType, extra: Partial<Ledger> = {}): Ledger => ({
+  title: "Supplies",
+  amount: 500,
+  type: "EXPENSE",
+  category: "Expense",
+  department,
+  date: "2026-03-15",
+  approvedBy: "",
+  fund: "operational",
+  impact: "LEDGER",
+  status: "POSTED",
+  termId: "fy-2026",
+  revision: 1,
+  ...extra,
+});
+
+const SUBMITTED_MSA = entry(DepartmentType.MSA, {
+  status: "SUBMITTED",
+  approval: { submittedById: "msa-officer", submittedByName: "MSA Officer", submittedAt: 1 },
+});
+const POSTED_PSSS = entry(DepartmentType.PSSS);
+// new expenses start unposted under the default approval rule
+const draft = (department: DepartmentType, extra: Partial<Ledger> = {}) =>
+  entry(department, { status: "DRAFT", ...extra });
+const approvedAs = (uid: string, name: string) => ({
+  ...SUBMITTED_MSA,
+  status: "APPROVED" as const,
+  approvedBy: name,
+  approval: { ...SUBMITTED_MSA.approval, approvedById: uid, approvedByName: name, approvedAt: 2 },
+});
+const CLOSED_MSA = entry(DepartmentType.MSA, { date: "2025-03-15", termId: "fy-2025" });
+
+type ProposalDoc = Omit<Proposal, "id">;
+
+const proposal = (department: DepartmentType, extra: Partial<ProposalDoc> = {}): ProposalDoc => ({
+  title: "Library hours",
+  category: ProposalCategory.PROGRAMS,
+  department,
+  proponent: "MSA Officer",
+  dateSubmitted: "March 15, 2026",
+  status: "FILED",
+  description: "Keep the library open until 9 PM during finals.",
+  statusHistory: [],
+  ...extra,
+});
+
+const FILED_MSA = proposal(DepartmentType.MSA, { createdById: "msa-officer" });
+const PETITION = proposal(DepartmentType.SAMASA, {
+  title: "Water stations",
+  proponent: "Anonymous",
+  status: "PETITION",
+  submissionKind: "PROPOSAL",
+  signatureCount: 4,
+});
+
+type ProjectDoc = Omit<Project, "id">;
+
+const milestone = (id: string, ownerId: string, ownerName: string): ProjectMilestone => ({
+  id,
+  title: `Milestone ${id}`,
+  objective: "Cleaner campus",
+  ownerId,
+  ownerName,
+  startDate: "2026-03-01",
+  dueDate: "2026-03-31",
+  state: "TODO",
+});
+// the first milestone belongs to the MSA treasurer's officer card (msa-approver's account)
+const MILESTONES = [milestone("m1", "off-msa-treasurer", "MSA Treasurer"), milestone("m2", "off-other", "Other Officer")];
+
+const project = (department: DepartmentType, extra: Partial<ProjectDoc> = {}): ProjectDoc => ({
+  title: "Clean-up drive",
+  bannerImage: "",
+  status: ProjectStatus.PLANNED,
+  timeline: "March 2026",
+  inCharge: "MSA Officer",
+  department,
+  description: "Monthly campus clean-up.",
+  objectives: ["Cleaner campus"],
+  spentAmount: 0,
+  budgetAllocated: 1000,
+  milestones: MILESTONES,
+  ...extra,
+});
+
+type CommentDoc = Omit<DiscussionComment, "id">;
+
+const comment = (
+  authorId: string,
+  authorName: string,
+  authorRole: UserRole,
+  visibility: CommentVisibility,
+  extra: Partial<CommentDoc> = {}
+): CommentDoc => ({
+  targetType: "proposal",
+  targetId: "prop-msa",
+  parentId: null,
+  body: "Looks good",
+  visibility,
+  mentions: [],
+  authorId,
+  authorName,
+  authorRole,
+  createdAt: Date.now(),
+  ...extra,
+});
+
+type SessionDoc = Omit<VoteSession, "id">;
+// castAt is stamped by the server
+type VoteDoc = Omit<Vote, "id" | "castAt"> & { castAt: FieldValue | number };
+
+const MSA_SEAT = { officerId: "off-msa-treasurer", name: "MSA Treasurer", position: "Treasurer" };
+const session = (extra: Partial<SessionDoc> = {}): SessionDoc => ({
+  proposalId: "prop-msa",
+  department: DepartmentType.MSA,
+  rule: { quorum: "MAJORITY", pass: "SIMPLE" },
+  voters: [MSA_SEAT],
+  voterIds: [MSA_SEAT.officerId],
+  status: "OPEN",
+  openedById: "root",
+  openedByName: "Root",
+  openedAt: Date.now(),
+  closesAt: Date.now() + 3600000,
+  ...extra,
+});
+
+/** History entry the way statusChange() writes it */
+const change = (from: ProposalStatus | null, to: ProposalStatus, byId: string, at = Date.now()): ProposalStatusChange => ({
+  from,
+  to,
+  byId,
+  byName: byId,
+  at,
+  note: "",
+});
+
+/** Writes an entry as-is (rules off), for starting states the seed doesn't cover */
+const seedEntry = (entryId: string, data: Ledger) =>
+  env.withSecurityRulesDisabled((ctx) =>
+    setDoc(doc(ctx.firestore() as unknown as Firestore, "budgetEntries", entryId), data)
+  );
+
+/**
+ * One ledger write batched the way src/budgetLedger.ts does it: the entry at the next revision
+ * plus budgetAudit/{entryId}_{revision}. `after: null` purges the entry.
+ */
+const ledgerWrite = (
+  uid: string,
+  entryId: string,
+  before: Ledger | null,
+  after: Ledger | null,
+  audit: { actorId?: string; department?: string; revision?: number } = {}
+) => {
+  const db = as(uid);
+  const revision = audit.revision ?? (before?.revision ?? 0) + 1;
+  const action: BudgetAuditAction = !before ? "CREATE" : after ? "UPDATE" : "PURGE";
+  const batch = writeBatch(db);
+  if (after) batch.set(doc(db, "budgetEntries", entryId), { ...after, revision });
+  else batch.delete(doc(db, "budgetEntries", entryId));
+  batch.set(doc(db, "budgetAudit", `${entryId}_${revision}`), {
+    entryId,
+    revision,
+    department: audit.department ?? (after ?? before)!.department,
+    action,
+    actorId: audit.actorId ?? uid,
+    before,
+    after,
+    reason: "Test",
+  });
+  return batch.commit();
+};
+
+// ==============================
+// Setup
+// ==============================
+before(async () => {
+  env = await initializeTestEnvironment({
+    projectId: "demo-samasa",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+after(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    const db = ctx.firestore() as unknown as Firestore;
+    await Promise.all([
+      ...Object.entries(PROFILES).map(([uid, data]) => setDoc(doc(db, "users", uid), data)),
+      setDoc(doc(db, "officers", "off-msa-treasurer"), { name: "MSA Treasurer", department: "MSA", position: "Treasurer" }),
+      setDoc(doc(db, "officers", "off-msa-secretary"), { name: "MSA Secretary", department: "MSA", position: "Secretary" }),
+      setDoc(doc(db, "departments", "MSA"), { id: "MSA", name: "MSA", active: true, order: 1 }),
+      setDoc(doc(db, "fiscalTerms", "fy-2025"), { label: "FY 2025", startDate: "2025-01-01", endDate: "2025-12-31", status: "CLOSED" }),
+      setDoc(doc(db, "fiscalTerms", "fy-2026"), { label: "FY 2026", startDate: "2026-01-01", endDate: "2026-12-31", status: "OPEN" }),
+      setDoc(doc(db, "budgetEntries", "msa-old"), CLOSED_MSA),
+      setDoc(doc(db, "budgetEntries", "msa-1"), SUBMITTED_MSA),
+      setDoc(doc(db, "budgetEntries", "psss-1"), POSTED_PSSS),
+      setDoc(doc(db, "budgetAudit", "msa-1_1"), {
+        entryId: "msa-1",
+        revision: 1,
+        department: "MSA",
+        action: "CREATE",
+        actorId: "msa-officer",
+        before: null,
+        after: SUBMITTED_MSA,
+      }),
+      setDoc(doc(db, "budgetAudit", "psss-1_1"), {
+        entryId: "psss-1",
+        revision: 1,
+        department: "PSSS",
+        action: "CREATE",
+        actorId: "psss-treasurer",
+        before: null,
+        after: POSTED_PSSS,
+      }),
+      setDoc(doc(db, "proposals", "prop-msa"), FILED_MSA),
+      setDoc(doc(db, "proposals", "petition"), PETITION),
+      setDoc(doc(db, "projects", "proj-msa"), project(DepartmentType.MSA)),
+      setDoc(doc(db, "comments", "public"), comment("student", "Student", UserRole.STUDENT, "PUBLIC", { body: "Hello" })),
+      setDoc(
+        doc(db, "comments", "internal"),
+        comment("secretary", "Secretary General", UserRole.OFFICER, "INTERNAL", { body: "Staff note" })
+      ),
+      setDoc(doc(db, "voteSessions", "session-1"), session()),
+      // a PSSS vote the MSA treasurer holds no seat in
+      setDoc(
+        doc(db, "voteSessions", "session-psss"),
+        session({
+          proposalId: "prop-psss",
+          department: DepartmentType.PSSS,
+          voters: [{ officerId: "off-psss", name: "PSSS Chair", position: "Chair" }],
+          voterIds: ["off-psss"],
+        })
+      ),
+    ]);
+  });
+});
+
+// ==============================
+// Accounts and roles
+// ==============================
+describe("users", () => {
+  it("keeps profiles private to their owner and the officer directory", async () => {
+    await assertFails(getDoc(doc(as(null), "users", "student")));
+    await assertSucceeds(getDoc(doc(as("student"), "users", "student")));
+    await assertFails(getDoc(doc(as("student"), "users", "student-2")));
+    await assertSucceeds(getDocs(query(collection(as("msa-officer"), "users"), where("role", "==", "OFFICER"))));
+    await assertFails(getDoc(doc(as("msa-officer"), "users", "student")));
+  });
+
+  it("lets students register only themselves, only as students", async () => {
+    const profile = { name: "New", email: "new@school.edu", role: "STUDENT", active: true, createdAt: 1, updatedAt: 1 };
+    await assertSucceeds(setDoc(doc(as("new-student"), "users", "new-student"), profile));
+    await assertFails(setDoc(doc(as("new-officer"), "users", "new-officer"), { ...profile, role: "OFFICER" }));
+    await assertFails(setDoc(doc(as("new-admin"), "users", "new-admin"), { ...profile, scopes: ["site.manage@*"] }));
+    await assertFails(setDoc(doc(as("student"), "users", "someone-else"), profile));
+  });
+
+  it("never lets an account change its own role or grants", async () => {
+    await assertSucceeds(updateDoc(doc(as("student"), "users", "student"), { name: "Renamed" }));
+    await assertFails(updateDoc(doc(as("student"), "users", "student"), { role: "SUPERADMIN" }));
+    await assertFails(updateDoc(doc(as("msa-officer"), "users", "msa-officer"), { scopes: ["budget.post@*"] }));
+    await assertSucceeds(updateDoc(doc(as("root"), "users", "msa-officer"), { scopes: ["budget.post@*"] }));
+  });
+
+  it("limits roles to SUPERADMIN", async () => {
+    await assertSucceeds(getDoc(doc(as(null), "roles", "officer")));
+    await assertFails(setDoc(doc(as("secretary"), "roles", "custom"), { name: "Custom", permissions: [] }));
+    await assertSucceeds(setDoc(doc(as("root"), "roles", "custom"), { name: "Custom", permissions: [] }));
+  });
+});
+
+// ==============================
+// Budget
+// ==============================
+describe("budgetEntries", () => {
+  it("is public to read", async () => {
+    await assertSucceeds(getDoc(doc(as(null), "budgetEntries", "msa-1")));
+  });
+
+  it("posts only inside the caller's departments", async () => {
+    await assertSucceeds(ledgerWrite("msa-officer", "new-1", null, draft(DepartmentType.MSA)));
+    await assertFails(ledgerWrite("msa-officer", "new-2", null, draft(DepartmentType.PSSS)));
+    await assertSucceeds(ledgerWrite("psss-treasurer", "new-3", null, draft(DepartmentType.PSSS)));
+    await assertFails(ledgerWrite("psss-treasurer", "new-4", null, draft(DepartmentType.MSA)));
+    await assertFails(ledgerWrite("student", "new-5", null, draft(DepartmentType.MSA)));
+    await assertFails(setDoc(doc(as(null), "budgetEntries", "new-6"), draft(DepartmentType.MSA)));
+  });
+
+  it("needs the permission on both sides of a department move", async () => {
+    const moved = { ...POSTED_PSSS, department: DepartmentType.MSA };
+    await assertFails(ledgerWrite("msa-officer", "psss-1", POSTED_PSSS, moved));
+    await assertSucceeds(ledgerWrite("root", "psss-1", POSTED_PSSS, moved));
+  });
+
+  it("shuts out disabled accounts", async () => {
+    await assertFails(ledgerWrite("disabled", "new", null, draft(DepartmentType.MSA)));
+  });
+
+  it("refuses writes without their audit record", async () => {
+    await assertFails(setDoc(doc(as("msa-officer"), "budgetEntries", "new"), draft(DepartmentType.MSA)));
+    await assertFails(updateDoc(doc(as("psss-treasurer"), "budgetEntries", "psss-1"), { amount: 1, revision: 2 }));
+    await assertFails(updateDoc(doc(as("psss-treasurer"), "budgetEntries", "psss-1"), { amount: 1 }));
+    await assertFails(deleteDoc(doc(as("root"), "budgetEntries", "psss-1")));
+  });
+
+  it("refuses writes based on a stale revision", async () => {
+    const stale = { ...POSTED_PSSS, revision: 0 };
+    await assertFails(ledgerWrite("psss-treasurer", "psss-1", stale, { ...POSTED_PSSS, amount: 1 }));
+  });
+
+  it("lets linked approvers decide but not edit", async () => {
+    await assertSucceeds(ledgerWrite("msa-approver", "msa-1", SUBMITTED_MSA, approvedAs("msa-approver", "MSA Treasurer")));
+    await assertFails(ledgerWrite("msa-approver", "msa-1", SUBMITTED_MSA, { ...SUBMITTED_MSA, amount: 1 }));
+    await assertFails(ledgerWrite("msa-approver", "psss-1", POSTED_PSSS, { ...POSTED_PSSS, status: "DRAFT" }));
+  });
+
+  it("creates expenses unposted unless the department rule exempts them", async () => {
+    const income = entry(DepartmentType.MSA, { type: "INCOME", category: "Income" });
+    await assertSucceeds(ledgerWrite("msa-officer", "new-1", null, income));
+    await assertFails(ledgerWrite("msa-officer", "new-2", null, entry(DepartmentType.MSA)));
+    await assertFails(ledgerWrite("msa-officer", "new-3", null, { ...SUBMITTED_MSA, approval: { submittedById: "root" } }));
+    await assertSucceeds(ledgerWrite("msa-officer", "new-4", null, SUBMITTED_MSA));
+
+    await env.withSecurityRulesDisabled((ctx) =>
+      setDoc(doc(ctx.firestore() as unknown as Firestore, "approvalRules", "MSA"), { enabled: true, autoPostUnder: 1000 })
+    );
+    await assertSucceeds(ledgerWrite("msa-officer", "new-5", null, entry(DepartmentType.MSA)));
+    await assertFails(ledgerWrite("msa-officer", "new-6", null, entry(DepartmentType.MSA, { amount: 1000 })));
+  });
+
+  it("lets linked officers approve only from an approver position", async () => {
+    await assertFails(ledgerWrite("msa-secretary", "msa-1", SUBMITTED_MSA, approvedAs("msa-secretary", "MSA Secretary")));
+
+    // the pattern saveApprovalRule stores for ["Secretary"]
+    await env.withSecurityRulesDisabled((ctx) =>
+      setDoc(doc(ctx.firestore() as unknown as Firestore, "approvalRules", "MSA"), {
+        enabled: true,
+        approverPositions: ["Secretary"],
+        approverPattern: ".*(secretary).*",
+        autoPostUnder: 0,
+      })
+    );
+    await assertFails(ledgerWrite("msa-approver", "msa-1", SUBMITTED_MSA, approvedAs("msa-approver", "MSA Treasurer")));
+    await assertSucceeds(ledgerWrite("msa-secretary", "msa-1", SUBMITTED_MSA, approvedAs("msa-secretary", "MSA Secretary")));
+  });
+
+  it("approves only submitted expenses, never the submitter's own", async () => {
+    await assertFails(ledgerWrite("msa-officer", "msa-1", SUBMITTED_MSA, approvedAs("msa-officer", "MSA Officer")));
+    await assertFails(ledgerWrite("msa-approver", "msa-1", SUBMITTED_MSA, approvedAs("root", "Root")));
+    await assertSucceeds(ledgerWrite("root", "msa-1", SUBMITTED_MSA, approvedAs("root", "Root")));
+
+    const own = { ...SUBMITTED_MSA, approval: { ...SUBMITTED_MSA.approval, submittedById: "root" } };
+    await seedEntry("msa-2", own);
+    await assertFails(
+      ledgerWrite("root", "msa-2", own, { ...approvedAs("root", "Root"), approval: { ...own.approval, approvedById: "root" } })
+    );
+
+    const drafted = draft(DepartmentType.MSA);
+    await seedEntry("msa-3", drafted);
+    await assertFails(ledgerWrite("msa-approver", "msa-3", drafted, approvedAs("msa-approver", "MSA Treasurer")));
+  });
+
+  it("posts only approved expenses and never unposts", async () => {
+    await assertFails(ledgerWrite("msa-officer", "msa-1", SUBMITTED_MSA, { ...SUBMITTED_MSA, status: "POSTED" }));
+    await assertFails(ledgerWrite("psss-treasurer", "psss-1", POSTED_PSSS, { ...POSTED_PSSS, status: "DRAFT" }));
+    await assertFails(ledgerWrite("psss-treasurer", "psss-1", POSTED_PSSS, { ...POSTED_PSSS, status: "APPROVED" }));
+
+    const approved = approvedAs("msa-approver", "MSA Treasurer");
+    await seedEntry("msa-2", approved);
+    await assertFails(ledgerWrite("msa-officer", "msa-2", approved, { ...approved, amount: 5000 }));
+    await assertSucceeds(ledgerWrite("msa-officer", "msa-2", approved, { ...approved, status: "POSTED" }));
+  });
+
+  it("posts an approved expense only as it was approved", async () => {
+    const approved = approvedAs("msa-approver", "MSA Treasurer");
+    await seedEntry("msa-2", approved);
+    const posted = { ...approved, status: "POSTED" as const };
+    await assertFails(ledgerWrite("msa-officer", "msa-2", approved, { ...posted, amount: 5000 }));
+    await assertFails(ledgerWrite("msa-officer", "msa-2", approved, { ...posted, fund: "trust" }));
+    await assertFails(ledgerWrite("msa-officer", "msa-2", approved, { ...posted, projectId: "proj-msa" }));
+    await assertFails(ledgerWrite("root", "msa-2", approved, { ...posted, department: DepartmentType.PSSS }));
+  });
+
+  it("sends an edited posted expense back for approval", async () => {
+    const posted = { ...approvedAs("msa-approver", "MSA Treasurer"), status: "POSTED" as const };
+    await seedEntry("msa-2", posted);
+    const resubmitted = {
+      ...posted,
+      amount: 5000,
+      status: "SUBMITTED" as const,
+      approvedBy: "",
+      approval: { submittedById: "msa-officer", submittedByName: "MSA Officer", submittedAt: 3 },
+    };
+    await assertFails(ledgerWrite("msa-officer", "msa-2", posted, { ...posted, amount: 5000 }));
+    await assertFails(ledgerWrite("msa-officer", "msa-2", posted, { ...resubmitted, amount: posted.amount }));
+    await assertSucceeds(ledgerWrite("msa-officer", "msa-2", posted, resubmitted));
+
+    // edits outside the ledger fields stay posted
+    await seedEntry("msa-4", posted);
+    await assertSucceeds(ledgerWrite("msa-officer", "msa-4", posted, { ...posted, approvedBy: "MSA Treasurer (OR 1123)" }));
+
+    // income posts directly, so its edits stay posted
+    const income = entry(DepartmentType.MSA, { type: "INCOME", category: "Income" });
+    await seedEntry("msa-3", income);
+    await assertSucceeds(ledgerWrite("msa-officer", "msa-3", income, { ...income, amount: 5000 }));
+  });
+
+  it("leaves ceiling overrides to SUPERADMIN", async () => {
+    const override = (approvedById: string, approvedByName: string) => ({
+      approvedById,
+      approvedByName,
+      reason: "Emergency repairs",
+      allocated: 1000,
+      spentBefore: 900,
+    });
+    const income = entry(DepartmentType.PSSS, { type: "INCOME", category: "Income" });
+    await assertFails(
+      ledgerWrite("psss-treasurer", "new-1", null, { ...income, ceilingOverride: override("psss-treasurer", "PSSS Treasurer") })
+    );
+    await assertFails(ledgerWrite("root", "new-2", null, { ...income, ceilingOverride: override("psss-treasurer", "PSSS Treasurer") }));
+    await assertSucceeds(ledgerWrite("root", "new-3", null, { ...income, ceilingOverride: override("root", "Root") }));
+
+    // an override stays on later edits and can be cleared, but not re-signed by an officer
+    const overridden = { ...POSTED_PSSS, ceilingOverride: override("root", "Root") };
+    await seedEntry("psss-1", overridden);
+    await assertFails(
+      ledgerWrite("psss-treasurer", "psss-1", overridden, { ...overridden, ceilingOverride: override("root", "Root (edited)") })
+    );
+    await assertSucceeds(ledgerWrite("psss-treasurer", "psss-1", overridden, { ...overridden, approvedBy: "PSSS Treasurer" }));
+  });
+
+  it("purges with a PURGE record", async () => {
+    await assertSucceeds(ledgerWrite("root", "psss-1", POSTED_PSSS, null));
+  });
+
+  it("keeps closed fiscal terms read-only", async () => {
+    await assertFails(ledgerWrite("msa-officer", "new-1", null, { ...CLOSED_MSA, status: "DRAFT" }));
+    await assertFails(ledgerWrite("root", "msa-old", CLOSED_MSA, { ...CLOSED_MSA, amount: 1 }));
+    await assertFails(ledgerWrite("root", "msa-old", CLOSED_MSA, { ...CLOSED_MSA, termId: "" }));
+    // the date decides the term, not the tag
+    await assertFails(ledgerWrite("msa-officer", "new-2", null, { ...CLOSED_MSA, status: "DRAFT", termId: "fy-2026" }));
+    await assertFails(ledgerWrite("msa-officer", "msa-1", SUBMITTED_MSA, { ...SUBMITTED_MSA, termId: "" }));
+  });
+
+  it("still purges trashed entries of a closed term", async () => {
+    const trashed = { ...CLOSED_MSA, deletedAt: 1, deletedBy: "root" };
+    await seedEntry("msa-old", trashed);
+    await assertSucceeds(ledgerWrite("root", "msa-old", trashed, null));
+  });
+});
+
+describe("budgetAudit", () => {
+  it("is readable only where the caller audits, and append-only", async () => {
+    await assertFails(getDoc(doc(as(null), "budgetAudit", "psss-1_1")));
+    await assertFails(getDoc(doc(as("student"), "budgetAudit", "psss-1_1")));
+    await assertSucceeds(getDoc(doc(as("psss-treasurer"), "budgetAudit", "psss-1_1")));
+    await assertFails(getDoc(doc(as("psss-treasurer"), "budgetAudit", "msa-1_1")));
+    await assertFails(getDoc(doc(as("msa-officer"), "budgetAudit", "msa-1_1")));
+    await assertSucceeds(getDocs(query(collection(as("psss-treasurer"), "budgetAudit"), where("department", "in", ["PSSS"]))));
+    await assertFails(getDocs(collection(as("psss-treasurer"), "budgetAudit")));
+    await assertSucceeds(getDocs(collection(as("root"), "budgetAudit")));
+    await assertFails(updateDoc(doc(as("root"), "budgetAudit", "psss-1_1"), { reason: "tidy" }));
+    await assertFails(deleteDoc(doc(as("root"), "budgetAudit", "psss-1_1")));
+  });
+
+  it("records only the caller's own write, in the same batch", async () => {
+    const changed = { ...POSTED_PSSS, amount: 750 };
+    await assertFails(ledgerWrite("psss-treasurer", "psss-1", POSTED_PSSS, changed, { actorId: "root" }));
+    await assertFails(ledgerWrite("psss-treasurer", "psss-1", POSTED_PSSS, changed, { department: "MSA" }));
+
+    // a record with no matching entry write, or for an entry that doesn't exist
+    const row = { entryId: "psss-1", revision: 2, department: "PSSS", action: "UPDATE", actorId: "psss-treasurer" };
+    await assertFails(setDoc(doc(as("psss-treasurer"), "budgetAudit", "psss-1_2"), row));
+    await assertFails(setDoc(doc(as("psss-treasurer"), "budgetAudit", "ghost_1"), { ...row, entryId: "ghost", revision: 1 }));
+    await assertFails(setDoc(doc(as("psss-treasurer"), "budgetAudit", "psss-1_9"), { ...row, revision: 9 }));
+  });
+});
+
+describe("budget settings", () => {
+  it("keeps overrides, approval rules and fiscal terms with SUPERADMIN", async () => {
+    await assertSucceeds(getDoc(doc(as(null), "budgetOverrides", "MSA")));
+    await assertFails(setDoc(doc(as("psss-treasurer"), "budgetOverrides", "PSSS"), { amount: 1 }));
+    await assertFails(setDoc(doc(as("psss-treasurer"), "approvalRules", "PSSS"), { tiers: [] }));
+    await assertFails(setDoc(doc(as("secretary"), "fiscalTerms", "fy"), { label: "FY" }));
+    await assertSucceeds(setDoc(doc(as("root"), "approvalRules", "PSSS"), { tiers: [] }));
+  });
+});
+
+// ==============================
+// Legislative
+// ==============================
+describe("proposals", () => {
+  const move = (uid: string, id: string, from: ProposalStatus, to: ProposalStatus) =>
+    updateDoc(doc(as(uid), "proposals", id), { status: to, statusHistory: [change(from, to, uid)] });
+
+  const seedProposal = (id: string, data: ProposalDoc) =>
+    env.withSecurityRulesDisabled((ctx) => setDoc(doc(ctx.firestore() as unknown as Firestore, "proposals", id), data));
+
+  it("creates only in the caller's departments, as a draft or filed", async () => {
+    const draft = (department: DepartmentType, uid: string) =>
+      proposal(department, { status: "DRAFT", createdById: uid, statusHistory: [change(null, "DRAFT", uid)] });
+    await assertSucceeds(setDoc(doc(as("msa-officer"), "proposals", "new"), draft(DepartmentType.MSA, "msa-officer")));
+    await assertFails(setDoc(doc(as("msa-officer"), "proposals", "new"), draft(DepartmentType.PSSS, "msa-officer")));
+    await assertFails(setDoc(doc(as("psss-treasurer"), "proposals", "new"), draft(DepartmentType.PSSS, "psss-treasurer")));
+    await assertSucceeds(setDoc(doc(as("secretary"), "proposals", "new"), draft(DepartmentType.PSSS, "secretary")));
+    await assertFails(
+      setDoc(doc(as("secretary"), "proposals", "new-2"), { ...draft(DepartmentType.PSSS, "secretary"), status: "APPROVED" })
+    );
+  });
+
+  it("separates content edits from workflow moves", async () => {
+    await assertFails(updateDoc(doc(as("psss-treasurer"), "proposals", "prop-msa"), { title: "Changed" }));
+    await assertSucceeds(updateDoc(doc(as("secretary"), "proposals", "prop-msa"), { title: "Changed" }));
+    await assertFails(updateDoc(doc(as("secretary"), "proposals", "prop-msa"), { title: "Changed again", status: "COMMITTEE" }));
+    // staff from another department can't move it
+    await assertFails(move("psss-treasurer", "prop-msa", "FILED", "COMMITTEE"));
+    await assertFails(move("student", "prop-msa", "FILED", "COMMITTEE"));
+    await assertSucceeds(move("msa-officer", "prop-msa", "FILED", "COMMITTEE"));
+    await assertSucceeds(updateDoc(doc(as("msa-officer"), "proposals", "prop-msa"), { pdfUrl: "https://x/y.pdf" }));
+  });
+
+  it("allows only the workflow's transitions, by their movers", async () => {
+    await assertFails(move("msa-officer", "prop-msa", "FILED", "FLOOR"));
+    await assertFails(move("secretary", "prop-msa", "FILED", "WITHDRAWN"));
+    await assertFails(move("root", "prop-msa", "FILED", "APPROVED"));
+    await assertSucceeds(move("msa-officer", "prop-msa", "FILED", "WITHDRAWN"));
+
+    await seedProposal("prop-floor", { ...FILED_MSA, status: "FLOOR" });
+    await assertFails(move("root", "prop-floor", "FLOOR", "APPROVED"));
+    await assertFails(move("root", "prop-floor", "FLOOR", "REJECTED"));
+  });
+
+  it("appends exactly one honest history entry per move", async () => {
+    const ref = doc(as("msa-officer"), "proposals", "prop-msa");
+    await assertFails(updateDoc(ref, { status: "COMMITTEE" }));
+    await assertFails(
+      updateDoc(ref, { status: "COMMITTEE", statusHistory: [change("FILED", "COMMITTEE", "msa-officer"), change("FILED", "COMMITTEE", "msa-officer")] })
+    );
+    await assertFails(updateDoc(ref, { status: "COMMITTEE", statusHistory: [change("DRAFT", "COMMITTEE", "msa-officer")] }));
+    await assertFails(updateDoc(ref, { status: "COMMITTEE", statusHistory: [change("FILED", "COMMITTEE", "secretary")] }));
+    await assertFails(updateDoc(ref, { status: "COMMITTEE", statusHistory: [change("FILED", "COMMITTEE", "msa-officer", 1)] }));
+  });
+
+  it("takes APPROVED/REJECTED only from the close of its own vote", async () => {
+    await seedProposal("prop-msa", { ...FILED_MSA, status: "FLOOR" });
+    const tally = (passed: boolean): VoteTally => ({
+      eligible: 1,
+      present: 1,
+      yes: passed ? 1 : 0,
+      no: passed ? 0 : 1,
+      abstain: 0,
+      quorumMet: true,
+      passed,
+    });
+    const decide = (passed: boolean, to: ProposalStatus, sessionId = "session-1") => {
+      const db = as("root");
+      const batch = writeBatch(db);
+      batch.update(doc(db, "voteSessions", "session-1"), {
+        status: "CLOSED",
+        closedAt: serverTimestamp(),
+        closedReason: "MANUAL",
+        tally: tally(passed),
+        rollCall: [{ ...MSA_SEAT, vote: passed ? "YES" : "NO" }],
+      });
+      batch.update(doc(db, "proposals", "prop-msa"), {
+        status: to,
+        statusHistory: [change("FLOOR", to, "root")],
+        voteSessionId: sessionId,
+      });
+      return batch.commit();
+    };
+
+    await assertFails(decide(false, "APPROVED"));
+    await assertFails(decide(true, "APPROVED", "session-2"));
+    await assertSucceeds(decide(true, "APPROVED"));
+  });
+
+  it("accepts student submissions with their submitter record", async () => {
+    const db = as("student");
+    const batch = writeBatch(db);
+    batch.set(doc(db, "proposals", "sub"), {
+      title: "More benches",
+      status: "SUBMITTED",
+      statusHistory: [],
+      submissionKind: "PROPOSAL",
+      signatureCount: 0,
+    });
+    batch.set(doc(db, "proposalSubmitters", "sub"), { proposalId: "sub", studentId: "student" });
+    await assertSucceeds(batch.commit());
+
+    await assertFails(
+      setDoc(doc(db, "proposals", "sub-2"), { title: "Skip review", status: "FILED", submissionKind: "PROPOSAL" })
+    );
+    await assertSucceeds(getDoc(doc(db, "proposalSubmitters", "sub")));
+    await assertFails(getDoc(doc(as("student-2"), "proposalSubmitters", "sub")));
+  });
+
+  it("counts exactly one signature per student", async () => {
+    const sign = async (uid: string, count: number) => {
+      const db = as(uid);
+      const batch = writeBatch(db);
+      batch.set(doc(db, "petitionSignatures", `petition_${uid}`), { proposalId: "petition", userId: uid });
+      batch.update(doc(db, "proposals", "petition"), { signatureCount: count });
+      return batch.commit();
+    };
+
+    await assertFails(sign("student", 6));
+    await assertSucceeds(sign("student", 5));
+    await assertFails(sign("student", 6));
+    await assertFails(updateDoc(doc(as("student-2"), "proposals", "petition"), { signatureCount: 6 }));
+  });
+
+  it("files a petition only once it reaches the threshold", async () => {
+    const filed: ProposalStatusChange = {
+      from: "PETITION",
+      to: "FILED",
+      byId: "system",
+      byName: "Petition",
+      at: Date.now(),
+      note: "",
+    };
+    const sign = (uid: string, patch: Record<string, unknown>) => {
+      const db = as(uid);
+      const batch = writeBatch(db);
+      batch.set(doc(db, "petitionSignatures", `petition_${uid}`), { proposalId: "petition", userId: uid });
+      batch.update(doc(db, "proposals", "petition"), { signatureCount: 5, ...patch });
+      return batch.commit();
+    };
+
+    // default threshold (50)
+    await assertFails(sign("student", { status: "FILED", statusHistory: [filed] }));
+    await assertFails(sign("student", { statusHistory: [filed] }));
+
+    await env.withSecurityRulesDisabled((ctx) =>
+      setDoc(doc(ctx.firestore() as unknown as Firestore, "siteSettings", "petitions"), { signatureThreshold: 5 })
+    );
+    await assertFails(sign("student", { status: "FILED", statusHistory: [filed, filed] }));
+    await assertFails(sign("student", { status: "FILED", statusHistory: [{ ...filed, at: 1 }] }));
+    await assertSucceeds(sign("student", { status: "FILED", statusHistory: [filed] }));
+  });
+});
+
+describe("policies", () => {
+  it("lets a code be enacted once and keeps it on corrections", async () => {
+    const policy = (title: string) => ({
+      title,
+      code: "SAMASA Res. 2026-001",
+      number: 1,
+      kind: "RESOLUTION",
+      department: DepartmentType.SAMASA,
+      createdBy: "root",
+      createdAt: serverTimestamp(),
+    });
+    const ref = doc(as("root"), "policies", "SAMASA-Res-2026-001");
+
+    await assertFails(setDoc(doc(as("secretary"), "policies", "SAMASA-Res-2026-001"), policy("First")));
+    await assertSucceeds(setDoc(ref, policy("First")));
+    await assertFails(setDoc(ref, policy("Second")));
+    await assertFails(updateDoc(ref, { number: 2 }));
+    await assertSucceeds(updateDoc(ref, { title: "First, corrected" }));
+  });
+});
+
+describe("projects", () => {
+  const moved = (i: number, extra: Partial<ProjectMilestone> = {}) =>
+    MILESTONES.map((m, at) => (at === i ? { ...m, state: "IN_PROGRESS" as const, ...extra } : m));
+
+  it("edits by projects.edit in the project's department", async () => {
+    const fair = project(DepartmentType.PSSS, { title: "Fair" });
+    await assertSucceeds(setDoc(doc(as("secretary"), "projects", "new"), fair));
+    await assertFails(setDoc(doc(as("msa-officer"), "projects", "new"), fair));
+    await assertFails(updateDoc(doc(as("msa-officer"), "projects", "proj-msa"), { title: "Renamed" }));
+    await assertFails(updateDoc(doc(as("psss-treasurer"), "projects", "proj-msa"), { milestones: [] }));
+    await assertFails(updateDoc(doc(as("student"), "projects", "proj-msa"), { milestones: [] }));
+  });
+
+  it("lets an owner move only their own milestone, without touching the status", async () => {
+    const update = (milestones: ProjectMilestone[], uid = "msa-approver") =>
+      updateDoc(doc(as(uid), "projects", "proj-msa"), { milestones });
+
+    await assertFails(update(moved(1)));
+    await assertFails(update(moved(0, { title: "Renamed" })));
+    await assertFails(update([moved(0)[0], { ...MILESTONES[1], ownerId: "off-msa-treasurer" }]));
+    await assertFails(update(moved(0).slice(0, 1)));
+    await assertFails(update(moved(0), "msa-officer"));
+    // skipping ahead of the milestones (or past an override) is for project editors
+    await assertFails(
+      updateDoc(doc(as("msa-approver"), "projects", "proj-msa"), { milestones: moved(0), status: ProjectStatus.COMPLETED })
+    );
+    await assertSucceeds(update(moved(0)));
+  });
+
+  it("leaves completion reports to projects.edit in the project's department", async () => {
+    const report: Pick<ProjectDoc, "report"> = {
+      report: {
+        outcomes: [{ objective: "Cleaner campus", outcome: "Done monthly", met: true }],
+        beneficiaries: 300,
+        beneficiaryNote: "",
+        finalCost: 900,
+        lessonsLearned: "",
+        gallery: [],
+        published: false,
+        authorName: "Secretary General",
+        updatedAt: 1,
+      },
+    };
+    await assertFails(updateDoc(doc(as("msa-officer"), "projects", "proj-msa"), report));
+    await assertFails(updateDoc(doc(as("psss-treasurer"), "projects", "proj-msa"), report));
+    await assertSucceeds(updateDoc(doc(as("secretary"), "projects", "proj-msa"), report));
+  });
+});
+
+// ==============================
+// Discussion and voting
+// ==============================
+describe("comments", () => {
+  const byStudent = (visibility: CommentVisibility, extra: Partial<CommentDoc> = {}) =>
+    comment("student", "Student", UserRole.STUDENT, visibility, extra);
+
+  it("hides internal notes from students and the public", async () => {
+    await assertSucceeds(getDoc(doc(as(null), "comments", "public")));
+    await assertFails(getDoc(doc(as(null), "comments", "internal")));
+    await assertFails(getDoc(doc(as("student"), "comments", "internal")));
+    await assertSucceeds(getDoc(doc(as("msa-officer"), "comments", "internal")));
+  });
+
+  it("posts as the caller only", async () => {
+    const post = (data: CommentDoc) => setDoc(doc(as("student"), "comments", "new"), data);
+    await assertSucceeds(post(byStudent("PUBLIC")));
+    await assertFails(post(byStudent("INTERNAL")));
+    await assertFails(post(comment("secretary", "Secretary General", UserRole.OFFICER, "PUBLIC")));
+    await assertFails(post(byStudent("PUBLIC", { authorRole: UserRole.OFFICER })));
+    await assertFails(post(byStudent("PUBLIC", { body: "x".repeat(4001) })));
+    await assertFails(post(byStudent("PUBLIC", { hidden: true })));
+  });
+
+  it("lets authors edit and officers moderate", async () => {
+    await assertSucceeds(updateDoc(doc(as("student"), "comments", "public"), { body: "Edited", editedAt: 1 }));
+    await assertFails(updateDoc(doc(as("student-2"), "comments", "public"), { body: "Vandalised" }));
+    await assertFails(updateDoc(doc(as("msa-officer"), "comments", "public"), { body: "Rewritten" }));
+    await assertSucceeds(
+      updateDoc(doc(as("msa-officer"), "comments", "public"), { hidden: true, hiddenByName: "MSA Officer", hiddenReason: "Spam" })
+    );
+    await assertFails(deleteDoc(doc(as("student-2"), "comments", "public")));
+    await assertSucceeds(deleteDoc(doc(as("student"), "comments", "public")));
+  });
+});
+
+describe("votes", () => {
+  const vote = (officerId: string, castById: string, sessionId = "session-1"): VoteDoc => ({
+    sessionId,
+    proposalId: "prop-msa",
+    officerId,
+    vote: "YES",
+    castById,
+    castByName: "MSA Treasurer",
+    castAt: serverTimestamp(),
+  });
+
+  it("casts only for the caller's own seat while the session is open", async () => {
+    const db = as("msa-approver");
+    await assertSucceeds(setDoc(doc(db, "votes", "session-1_off-msa-treasurer"), vote("off-msa-treasurer", "msa-approver")));
+    await assertFails(setDoc(doc(db, "votes", "session-1_off-other"), vote("off-other", "msa-approver")));
+    await assertFails(
+      setDoc(doc(as("msa-officer"), "votes", "session-1_off-msa-treasurer"), vote("off-msa-treasurer", "msa-officer"))
+    );
+    // the server stamps the time
+    await assertFails(
+      setDoc(doc(db, "votes", "session-1_off-msa-treasurer"), { ...vote("off-msa-treasurer", "msa-approver"), castAt: 1 })
+    );
+  });
+
+  it("casts only in sessions the officer holds a seat in", async () => {
+    const db = as("msa-approver");
+    await assertFails(
+      setDoc(doc(db, "votes", "session-psss_off-msa-treasurer"), {
+        ...vote("off-msa-treasurer", "msa-approver", "session-psss"),
+        proposalId: "prop-psss",
+      })
+    );
+    await assertFails(
+      setDoc(doc(db, "votes", "session-1_off-msa-treasurer"), { ...vote("off-msa-treasurer", "msa-approver"), proposalId: "petition" })
+    );
+  });
+
+  it("leaves opening a vote to SUPERADMIN", async () => {
+    const open = { ...session(), openedAt: serverTimestamp() };
+    await assertFails(setDoc(doc(as("secretary"), "voteSessions", "new"), { ...open, openedById: "secretary" }));
+    await assertFails(setDoc(doc(as("root"), "voteSessions", "new-2"), { ...open, openedAt: 1 }));
+    await assertFails(setDoc(doc(as("root"), "voteSessions", "new-3"), { ...open, voters: [], voterIds: [] }));
+    await assertSucceeds(setDoc(doc(as("root"), "voteSessions", "new"), open));
+  });
+
+  it("shows the public closed sessions only", async () => {
+    await env.withSecurityRulesDisabled((ctx) =>
+      setDoc(doc(ctx.firestore() as unknown as Firestore, "voteSessions", "closed"), session({ status: "CLOSED" }))
+    );
+    const sessions = collection(as(null), "voteSessions");
+    await assertSucceeds(getDoc(doc(sessions, "closed")));
+    await assertSucceeds(getDocs(query(sessions, where("status", "==", "CLOSED"))));
+    await assertFails(getDoc(doc(sessions, "session-1")));
+    await assertFails(getDocs(sessions));
+    await assertFails(getDocs(collection(as(null), "votes")));
+  });
+
+  it("leaves closing a vote to SUPERADMIN, with a tally over the session's seats", async () => {
+    const close = (uid: string, eligible = 1) =>
+      updateDoc(doc(as(uid), "voteSessions", "session-1"), {
+        status: "CLOSED",
+        closedAt: serverTimestamp(),
+        closedReason: "MANUAL",
+        tally: { eligible, present: 1, yes: 1, no: 0, abstain: 0, quorumMet: true, passed: true },
+        rollCall: [{ ...MSA_SEAT, vote: "YES" }],
+      });
+    await assertFails(close("msa-approver"));
+    await assertFails(close("secretary"));
+    await assertFails(close("root", 5));
+    await assertSucceeds(close("root"));
+  });
+});
+
+// ==============================
+// Directory and site
+// ==============================
+describe("site content", () => {
+  it("keeps About with SAMASA content editors", async () => {
+    const about = { content: {}, updatedAt: 1 };
+    await assertSucceeds(getDoc(doc(as(null), "site_content", "about")));
+    await assertFails(setDoc(doc(as(null), "site_content", "about"), about));
+    await assertFails(setDoc(doc(as("msa-officer"), "site_content", "about"), about));
+    await assertSucceeds(setDoc(doc(as("samasa-officer"), "site_content", "about"), about));
+  });
+
+  it("keeps the petition threshold with SUPERADMIN", async () => {
+    await assertFails(setDoc(doc(as("samasa-officer"), "siteSettings", "petitions"), { signatureThreshold: 1 }));
+    await assertSucceeds(setDoc(doc(as("root"), "siteSettings", "petitions"), { signatureThreshold: 1 }));
+  });
+
+  it("lets department content editors change only their page", async () => {
+    await assertSucceeds(updateDoc(doc(as("msa-officer"), "departments", "MSA"), { about: "Math majors", updatedAt: 1 }));
+    await assertFails(updateDoc(doc(as("msa-officer"), "departments", "MSA"), { name: "Renamed" }));
+    await assertFails(updateDoc(doc(as("psss-treasurer"), "departments", "MSA"), { about: "Hijacked" }));
+  });
+
+  it("edits officer cards with officers.manage", async () => {
+    const card = { name: "New Officer", department: "PSSS", position: "Auditor" };
+    await assertSucceeds(getDoc(doc(as(null), "officers", "off-msa-treasurer")));
+    await assertFails(setDoc(doc(as("msa-officer"), "officers", "new"), card));
+    await assertSucceeds(setDoc(doc(as("secretary"), "officers", "new"), card));
+  });
+
+  it("closes collections the rules don't know", async () => {
+    await assertFails(getDoc(doc(as("root"), "scratch", "x")));
+    await assertFails(setDoc(doc(as("root"), "scratch", "x"), { a: 1 }));
+  });
+});
@@ -0,0 +1,84 @@
+// tests/search.test.ts
+// Global search matching (`npm test`): typo tolerance, ranking and grouping.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { editDistance, SearchDoc, SearchKind, searchIndex, tokenize } from "../src/searchMatch";
+
+const doc = (kind: SearchKind, id: string, title: string, body = ""): SearchDoc => ({
+  kind,
+  id,
+  title,
+  subtitle: "",
+  to: `/${kind}/${id}`,
+  titleWords: tokenize(title),
+  words: tokenize(body),
+});
+
+const ids = (index: SearchDoc[], query: string) => searchIndex(index, query).flatMap((g) => g.results.map((d) => d.id));
+
+describe("editDistance", () => {
+  it("counts edits, with a swap of neighbouring letters as one", () => {
+    assert.equal(editDistance("budget", "budget", 2), 0);
+    assert.equal(editDistance("budget", "budgte", 2), 1);
+    assert.equal(editDistance("budget", "bugdet", 2), 1);
+    assert.equal(editDistance("budget", "budgets", 2), 1);
+    assert.equal(editDistance("council", "cuncel", 2), 2);
+  });
+
+  it("gives up past the limit", () => {
+    assert.equal(editDistance("budget", "ledger", 1), 2);
+    assert.equal(editDistance("ab", "abcdef", 2), 3);
+  });
+});
+
+describe("tokenize", () => {
+  it("lower-cases, drops accents and splits on anything but letters and digits", () => {
+    assert.deepEqual(tokenize("Año-2026: Ordinance #3"), ["ano", "2026", "ordinance", "3"]);
+  });
+});
+
+describe("searchIndex", () => {
+  const index = [
+    doc("proposal", "p1", "Library Budgeting Reform", "funds for books"),
+    doc("proposal", "p2", "Sports Fest", "budget for the library"),
+    doc("project", "j1", "Library Renovation"),
+    doc("entry", "e1", "Library books", "Operational"),
+    doc("officer", "o1", "Carla Cruz", "Treasurer"),
+  ];
+
+  it("ranks title matches above body matches and exact words above prefixes", () => {
+    assert.deepEqual(ids([index[1], index[0]], "library"), ["p1", "p2"]);
+    const funds = [doc("project", "a", "Annual Fundraiser"), doc("project", "z", "Zero Fund")];
+    assert.deepEqual(ids(funds, "fund"), ["z", "a"]);
+  });
+
+  it("finds prefixes and typos, but not typos in short words", () => {
+    assert.deepEqual(ids(index, "budg"), ["p1", "p2"]);
+    assert.deepEqual(ids(index, "budgt"), ["p1", "p2"]);
+    assert.deepEqual(ids(index, "tresurer"), ["o1"]);
+    assert.deepEqual(ids(index, "cars"), []);
+  });
+
+  it("needs every query word to match", () => {
+    assert.deepEqual(ids(index, "library books"), ["p1", "e1"]);
+    assert.deepEqual(ids(index, "library treasurer"), []);
+  });
+
+  it("groups by kind in a fixed order, capped per kind", () => {
+    const groups = searchIndex(index, "library", 1);
+    assert.deepEqual(
+      groups.map((g) => [g.kind, g.results.map((d) => d.id)]),
+      [
+        ["proposal", ["p1"]],
+        ["project", ["j1"]],
+        ["entry", ["e1"]],
+      ]
+    );
+    assert.deepEqual(searchIndex(index, "  "), []);
+  });
+
+  it("orders equal scores by title", () => {
+    const tied = [doc("project", "b", "Zoning Plan"), doc("project", "a", "Annual Plan")];
+    assert.deepEqual(ids(tied, "plan"), ["a", "b"]);
+  });
+});
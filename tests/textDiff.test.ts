@@ -0,0 +1,60 @@
+// tests/textDiff.test.ts
+// Revision redlines (`npm test`): word-level pieces that render back to both texts verbatim.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DiffPart, diffText } from "../src/textDiff";
+
+const side = (parts: DiffPart[], drop: DiffPart["kind"]) =>
+  parts
+    .filter((p) => p.kind !== drop)
+    .map((p) => p.text)
+    .join("");
+
+describe("diffText", () => {
+  it("marks the changed words and keeps the rest", () => {
+    assert.deepEqual(diffText("pay the treasurer", "pay the auditor"), [
+      { kind: "same", text: "pay the " },
+      { kind: "removed", text: "treasurer" },
+      { kind: "added", text: "auditor" },
+    ]);
+  });
+
+  it("returns nothing to mark for identical or empty texts", () => {
+    assert.deepEqual(diffText("", ""), []);
+    assert.deepEqual(diffText("As filed.", "As filed."), [{ kind: "same", text: "As filed." }]);
+    assert.deepEqual(diffText("", "New text"), [{ kind: "added", text: "New text" }]);
+    assert.deepEqual(diffText("Old text", ""), [{ kind: "removed", text: "Old text" }]);
+  });
+
+  it("keeps whitespace, so both sides render back verbatim", () => {
+    const before = "Section 1.\n\nThe council  shall meet monthly.";
+    const after = "Section 1.\n\nThe council shall meet\ntwice a month.";
+    const parts = diffText(before, after);
+    assert.equal(side(parts, "added"), before);
+    assert.equal(side(parts, "removed"), after);
+  });
+
+  it("merges neighbouring pieces of the same kind", () => {
+    const parts = diffText("a b c", "x y z");
+    assert.deepEqual(
+      parts.map((p) => p.kind),
+      ["removed", "added", "same", "removed", "added", "same", "removed", "added"]
+    );
+    parts.forEach((p, i) => assert.notEqual(p.kind, parts[i + 1]?.kind));
+  });
+
+  it("falls back to whole lines for very long texts", () => {
+    const rows = Array.from({ length: 600 }, (_, i) => `w${i} x\n`);
+    const before = rows.join("");
+    const after = [...rows.slice(0, 300), "changed x\n", ...rows.slice(301)].join("");
+
+    const parts = diffText(before, after);
+    assert.deepEqual(
+      parts.map((p) => p.kind),
+      ["same", "removed", "added", "same"]
+    );
+    assert.equal(parts[1].text, "w300 x\n");
+    assert.equal(parts[2].text, "changed x\n");
+    assert.equal(side(parts, "added"), before);
+  });
+});
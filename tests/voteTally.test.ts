@@ -0,0 +1,80 @@
+// tests/voteTally.test.ts
+// Council vote counting (`npm test`): quorum and passing rules at their edges, and when a session closes.
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { closeReason, tallyVotes } from "../src/voteTally";
+import type { PassRule, QuorumRule, VoteChoice } from "../types";
+
+const session = (seats: number, quorum: QuorumRule = "MAJORITY", pass: PassRule = "SIMPLE") => ({
+  voters: Array.from({ length: seats }, (_, i) => ({ officerId: `o${i}`, name: `Officer ${i}`, position: "Councilor" })),
+  rule: { quorum, pass },
+  status: "OPEN" as const,
+  closesAt: 1000,
+});
+
+const cast = (...choices: VoteChoice[]) => choices.map((vote, i) => ({ officerId: `o${i}`, vote }));
+
+describe("tallyVotes", () => {
+  it("loses a simple vote on a tie", () => {
+    const tally = tallyVotes(session(4), cast("YES", "NO", "YES", "NO"));
+    assert.deepEqual(tally, { eligible: 4, present: 4, yes: 2, no: 2, abstain: 0, quorumMet: true, passed: false });
+  });
+
+  it("needs more than half present for a majority quorum", () => {
+    assert.equal(tallyVotes(session(4), cast("YES", "YES")).quorumMet, false);
+    assert.equal(tallyVotes(session(4), cast("YES", "YES", "ABSTAIN")).quorumMet, true);
+  });
+
+  it("meets a two-thirds quorum at exactly two thirds", () => {
+    assert.equal(tallyVotes(session(6, "TWO_THIRDS"), cast("YES", "YES", "NO", "ABSTAIN")).quorumMet, true);
+    assert.equal(tallyVotes(session(6, "TWO_THIRDS"), cast("YES", "YES", "NO")).quorumMet, false);
+  });
+
+  it("carries a two-thirds vote at exactly two thirds of votes cast, abstentions aside", () => {
+    assert.equal(tallyVotes(session(4, "MAJORITY", "TWO_THIRDS"), cast("YES", "YES", "NO", "ABSTAIN")).passed, true);
+    assert.equal(tallyVotes(session(5, "MAJORITY", "TWO_THIRDS"), cast("YES", "NO", "YES", "NO")).passed, false);
+  });
+
+  it("counts an absolute majority against every seat", () => {
+    assert.equal(tallyVotes(session(5, "MAJORITY", "ABSOLUTE"), cast("YES", "YES", "ABSTAIN")).passed, false);
+    assert.equal(tallyVotes(session(5, "MAJORITY", "ABSOLUTE"), cast("YES", "YES", "YES")).passed, true);
+  });
+
+  it("decides nothing without votes or seats", () => {
+    assert.deepEqual(tallyVotes(session(3), []), {
+      eligible: 3,
+      present: 0,
+      yes: 0,
+      no: 0,
+      abstain: 0,
+      quorumMet: false,
+      passed: false,
+    });
+    assert.equal(tallyVotes(session(0), []).quorumMet, false);
+    assert.equal(tallyVotes(session(3, "MAJORITY", "TWO_THIRDS"), cast("ABSTAIN", "ABSTAIN")).passed, false);
+  });
+
+  it("ignores votes from outside the session's seats", () => {
+    const tally = tallyVotes(session(2), [...cast("NO"), { officerId: "stranger", vote: "YES" }]);
+    assert.equal(tally.present, 1);
+    assert.equal(tally.yes, 0);
+  });
+});
+
+describe("closeReason", () => {
+  it("stays open until everyone voted or the deadline", () => {
+    assert.equal(closeReason(session(3), cast("YES", "NO"), 999), null);
+    assert.equal(closeReason(session(3), cast("YES", "NO"), 1000), "DEADLINE");
+    assert.equal(closeReason(session(3), cast("YES", "NO", "ABSTAIN"), 999), "ALL_VOTED");
+  });
+
+  it("reports ALL_VOTED over DEADLINE when both apply", () => {
+    assert.equal(closeReason(session(2), cast("YES", "NO"), 5000), "ALL_VOTED");
+  });
+
+  it("never closes a closed session or an empty one before its deadline", () => {
+    assert.equal(closeReason({ ...session(1), status: "CLOSED" }, cast("YES"), 5000), null);
+    assert.equal(closeReason(session(0), [], 999), null);
+    assert.equal(closeReason(session(0), [], 1000), "DEADLINE");
+  });
+});
@@ -43,9 +43,61 @@ export enum OfficerDivision {
   ADVISERS = "ADVISERS",
 }
 
+/** ✅ NEW: soft-delete marker (recycle bin); trashed items are hidden from default queries */
+export interface SoftDeletable {
+  /** millis; set while the item is in the trash */
+  deletedAt?: number | null;
+  deletedBy?: string | null;
+  deletedByName?: string | null;
+}
+
+/** Collections that go through the recycle bin instead of hard deletes */
+export type TrashCollection = "proposals" | "projects" | "officers" | "budgetEntries";
+
+export interface TrashItem {
+  collection: TrashCollection;
+  id: string;
+  title: string;
+  deletedAt: number;
+  deletedByName: string;
+  /** millis when the auto-purge removes it for good */
+  purgeAt: number;
+}
+
+/** ✅ NEW: academic-year partition (fiscalTerms/{id}); closing a term locks everything tagged with it */
+export type FiscalTermStatus = "OPEN" | "CLOSED";
+
+export interface FiscalTerm {
+  id: string;
+  /** e.g. "AY 2025–2026, 1st Sem" */
+  label: string;
+  /** ISO dates (inclusive) */
+  startDate: string;
+  endDate: string;
+  status: FiscalTermStatus;
+
+  closedAt?: number;
+  closedByName?: string;
+}
+
+/** Records tagged with the fiscal term they belong to (untagged legacy rows fall back to their date) */
+export interface TermTagged {
+  termId?: string;
+}
+
 /** Officers directory supports dynamic department IDs */
 export type DepartmentId = DepartmentType | string;
 
+/** ✅ NEW: term of office (councilTerms/{id}); officer cards belong to one council */
+export interface CouncilTerm {
+  id: string;
+  /** e.g. "Council 2025–2026" */
+  label: string;
+  /** ISO dates (inclusive) */
+  startDate: string;
+  endDate: string;
+}
+
 export interface User {
   id: string;
   name: string;
@@ -57,6 +109,37 @@ export interface User {
 
   /** ✅ NEW: if this logged-in OFFICER is linked to an Officer card */
   officerId?: string;
+
+  /** ✅ NEW: "permission@department" strings from the profile (see src/permissions) */
+  scopes?: string[];
+}
+
+/** ✅ NEW: named permissions; officers get them through roles granted per department */
+export type Permission =
+  | "budget.post"
+  | "budget.approve"
+  | "budget.allocate"
+  | "budget.audit"
+  | "proposals.create"
+  | "proposals.edit"
+  | "projects.edit"
+  | "officers.manage"
+  | "content.edit"
+  | "site.manage";
+
+/** roles/{id} (custom) or one of the built-in roles */
+export interface PermissionRole {
+  id: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  builtIn?: boolean;
+}
+
+/** one role held in one department ("*" = every department) */
+export interface RoleGrant {
+  roleId: string;
+  department: DepartmentId | "*";
 }
 
 export interface Department {
@@ -65,10 +148,15 @@ export interface Department {
   active: boolean;
   order: number;
   locked?: boolean;
+
+  /** ✅ NEW: department workspace (/dept/:id) blurb and logo */
+  about?: string;
+  logoUrl?: string;
+  logoPublicId?: string;
 }
 
 /** ✅ Removed email + social links feature */
-export interface Officer {
+export interface Officer extends SoftDeletable {
   id: string;
   name: string;
   position: string;
@@ -78,6 +166,11 @@ export interface Officer {
 
   photoUrl?: string; // stored as DataURL from upload
   order?: number;
+
+  /** ✅ NEW: council term served (untagged legacy cards belong to the sitting council) */
+  councilTermId?: string;
+  /** card this one was carried over from (re-elected officers) */
+  carriedFromId?: string;
 }
 
 /** ✅ NEW: stored login accounts (for Officer login CRUD by Superadmin) */
@@ -101,9 +194,14 @@ export interface UserAccount {
   updatedAt?: number;
 
   active?: boolean; // optional toggle if you want "disable account"
+
+  /** ✅ NEW: roles assigned by SUPERADMIN; unset on accounts that predate roles */
+  grants?: RoleGrant[];
+  /** derived from `grants` whenever they or a role change; what the UI and security rules check */
+  scopes?: string[];
 }
 
-export interface BudgetEntry {
+export interface BudgetEntry extends SoftDeletable, TermTagged {
   id: string;
   title: string;
   amount: number;
@@ -121,43 +219,383 @@ export interface BudgetEntry {
 
   // ✅ NEW: allows "Balance Adjustment" (affects Available only)
   impact?: BudgetImpact;
+
+  // ✅ NEW: present when this expense was saved past its fund ceiling
+  ceilingOverride?: CeilingOverride;
+
+  // ✅ NEW: official receipts / liquidation documents (expenses)
+  receipts?: BudgetReceipt[];
+
+  // ✅ NEW: approval workflow; only POSTED entries count toward the totals (legacy rows are POSTED)
+  status?: ExpenseStatus;
+  approval?: ExpenseApproval;
+
+  // ✅ NEW: project this expense was spent on (Project-fund expenses only)
+  projectId?: string | null;
+
+  // ✅ NEW: bumped by every write; budgetAudit/{id}_{revision} records that write
+  revision?: number;
 }
 
-export interface Proposal {
+/** DRAFT → SUBMITTED → APPROVED → POSTED; a rejection sends the expense back to DRAFT */
+export type ExpenseStatus = "DRAFT" | "SUBMITTED" | "APPROVED" | "POSTED";
+
+/** Who moved the expense through each step (timestamps are millis) */
+export interface ExpenseApproval {
+  submittedById?: string;
+  submittedByName?: string;
+  submittedAt?: number;
+
+  approvedById?: string;
+  approvedByName?: string;
+  approvedAt?: number;
+
+  postedById?: string;
+  postedByName?: string;
+  postedAt?: number;
+
+  rejectedById?: string;
+  rejectedByName?: string;
+  rejectedAt?: number;
+  rejectionNote?: string;
+}
+
+/** ✅ NEW: per-department approval settings (approvalRules/{department}) */
+export interface ApprovalRule {
+  department: DepartmentType;
+  /** false lets expenses post immediately, as before */
+  enabled: boolean;
+  /** officer positions allowed to approve, matched case-insensitively (e.g. "Treasurer") */
+  approverPositions: string[];
+  /** expenses below this amount post without approval (0 = every expense needs approval) */
+  autoPostUnder: number;
+  updatedByName?: string;
+}
+
+/** Uploaded OR photo or PDF backing an expense (stored inline on the entry) */
+export interface BudgetReceipt {
+  id: string;
+  url: string;
+  publicId: string;
+  fileName: string;
+  kind: "image" | "pdf";
+  orNumber: string;
+  vendor: string;
+  uploadedById: string;
+  uploadedByName: string;
+  /** millis */
+  uploadedAt: number;
+}
+
+/** SUPERADMIN sign-off for an expense that exceeds its fund allocation */
+export interface CeilingOverride {
+  approvedById: string;
+  approvedByName: string;
+  reason: string;
+  /** ceiling and prior spending at the time of approval */
+  allocated: number;
+  spentBefore: number;
+}
+
+/** ✅ NEW: per-fund ceiling for one department and fiscal term */
+export interface BudgetAllocation {
+  id: string;
+  term: string;
+  department: DepartmentType;
+  fund: BudgetFundKey;
+  amount: number;
+  updatedByName?: string;
+}
+
+/** DELETE moves the entry to the trash; PURGE removes it permanently */
+export type BudgetAuditAction = "CREATE" | "UPDATE" | "DELETE" | "RESTORE" | "PURGE";
+
+/** Persisted ledger fields captured before/after a mutation */
+export type BudgetEntrySnapshot = Omit<BudgetEntry, "id" | keyof SoftDeletable>;
+
+/** ✅ NEW: append-only audit trail (budgetAudit/{id}); never updated or deleted */
+export interface BudgetAuditRecord {
+  id: string;
+  entryId: string;
+  /** entry revision this write produced (0 on rows from before revisions) */
+  revision: number;
+  /** department the entry is in after the write (before it, for deletes); what auditors are scoped to */
+  department: DepartmentId;
+  action: BudgetAuditAction;
+
+  actorId: string;
+  actorName: string;
+  actorRole: UserRole;
+
+  /** millis */
+  at: number;
+
+  before: BudgetEntrySnapshot | null;
+  after: BudgetEntrySnapshot | null;
+  reason: string;
+}
+
+/**
+ * ✅ Proposal lifecycle: DRAFT → FILED → COMMITTEE → FLOOR → APPROVED/REJECTED/WITHDRAWN → IMPLEMENTED.
+ * Student submissions start at SUBMITTED (moderation queue) and may collect signatures as a PETITION first.
+ */
+export type ProposalStatus =
+  | "SUBMITTED"
+  | "PETITION"
+  | "DRAFT"
+  | "FILED"
+  | "COMMITTEE"
+  | "FLOOR"
+  | "APPROVED"
+  | "REJECTED"
+  | "WITHDRAWN"
+  | "IMPLEMENTED";
+
+export interface ProposalStatusChange {
+  /** null for the first entry (creation) */
+  from: ProposalStatus | null;
+  to: ProposalStatus;
+  byId: string;
+  byName: string;
+  /** millis (serverTimestamp isn't allowed inside arrays) */
+  at: number;
+  note: string;
+}
+
+export interface Proposal extends SoftDeletable, TermTagged {
   id: string;
   title: string;
   category: ProposalCategory;
+  /** ✅ NEW: owning department (permission scope); older proposals belong to SAMASA */
+  department?: DepartmentId;
   proponent: string;
   dateSubmitted: string;
-  status: "PENDING" | "REVIEW" | "APPROVED" | "IMPLEMENTED";
+  status: ProposalStatus;
   description: string;
 
+  /** account that created it (may file/withdraw it) */
+  createdById?: string;
+  /** latest saved revision number (see ProposalRevision) */
+  version?: number;
+  statusHistory?: ProposalStatusChange[];
+  /** the council vote that moved it to APPROVED/REJECTED (see VoteSession) */
+  voteSessionId?: string;
+
+  /** set on student submissions; who submitted it lives in proposalSubmitters/{id} (staff-only) */
+  submissionKind?: StudentSubmissionKind;
+  /** public co-signer count (names are never stored on the proposal) */
+  signatureCount?: number;
+
   /** ✅ Cloudinary (optional) */
   pdfName?: string | null;
   pdfUrl?: string | null;
   pdfPublicId?: string | null;
 }
 
-export interface Policy {
+/** ✅ NEW: student-facing submissions and petitions */
+export type StudentSubmissionKind = "PROPOSAL" | "CONCERN";
+
+/** proposalSubmitters/{proposalId} — readable by council staff and the submitter only */
+export interface ProposalSubmitter {
+  id: string;
+  proposalId: string;
+  studentId: string;
+  studentName: string;
+  studentEmail: string;
+  submittedAt: number;
+}
+
+/** petitionSignatures/{proposalId}_{userId} */
+export interface PetitionSignature {
+  id: string;
+  proposalId: string;
+  userId: string;
+  signedAt: number;
+}
+
+/** siteSettings/petitions */
+export interface PetitionSettings {
+  /** co-signatures that move a PETITION to FILED */
+  signatureThreshold: number;
+}
+
+/** ✅ NEW: every saved version of a proposal (proposalRevisions/{proposalId}_v{version}) */
+export interface ProposalRevision {
+  id: string;
+  proposalId: string;
+  /** 1-based, increasing */
+  version: number;
+
+  title: string;
+  category: ProposalCategory;
+  description: string;
+  proponent: string;
+  pdfName?: string | null;
+  pdfUrl?: string | null;
+  pdfPublicId?: string | null;
+
+  /** proposal status when this version was saved */
+  status: ProposalStatus;
+  savedById: string;
+  savedByName: string;
+  savedAt: number;
+  /** e.g. "Reverted to v2" */
+  note?: string;
+}
+
+/** ✅ NEW: discussion on proposals/projects (comments/{id}) */
+export type CommentTargetType = "proposal" | "project";
+
+/** INTERNAL = officers only (committee notes); PUBLIC = shown to students */
+export type CommentVisibility = "PUBLIC" | "INTERNAL";
+
+export interface DiscussionComment {
+  id: string;
+  targetType: CommentTargetType;
+  targetId: string;
+  /** null for top-level comments */
+  parentId: string | null;
+  body: string;
+  visibility: CommentVisibility;
+  /** officer ids mentioned with @Name */
+  mentions: string[];
+
+  authorId: string;
+  authorName: string;
+  authorRole: UserRole;
+  createdAt: number;
+  editedAt?: number;
+
+  /** moderation: hidden comments show as a placeholder outside the officer view */
+  hidden?: boolean;
+  hiddenByName?: string;
+  hiddenReason?: string;
+  /** removed but kept as a placeholder because it has replies */
+  deleted?: boolean;
+}
+
+/** ✅ NEW: council votes on proposals on the floor (voteSessions/{id}, votes/{sessionId}_{officerId}) */
+export type VoteChoice = "YES" | "NO" | "ABSTAIN";
+
+/** MAJORITY: more than half of eligible voters present; TWO_THIRDS: at least two-thirds present */
+export type QuorumRule = "MAJORITY" | "TWO_THIRDS";
+
+/** SIMPLE: yes > no; ABSOLUTE: yes > half of eligible voters; TWO_THIRDS: yes ≥ two-thirds of yes + no */
+export type PassRule = "SIMPLE" | "ABSOLUTE" | "TWO_THIRDS";
+
+export interface VoteRule {
+  quorum: QuorumRule;
+  pass: PassRule;
+}
+
+export interface Voter {
+  officerId: string;
+  name: string;
+  position: string;
+}
+
+export interface RollCallEntry extends Voter {
+  vote: VoteChoice | "ABSENT";
+}
+
+export interface VoteTally {
+  eligible: number;
+  present: number;
+  yes: number;
+  no: number;
+  abstain: number;
+  quorumMet: boolean;
+  passed: boolean;
+}
+
+export interface VoteSession {
+  id: string;
+  proposalId: string;
+  department: DepartmentId;
+  rule: VoteRule;
+  /** LEGISLATIVE officers of the department, frozen when the session opens */
+  voters: Voter[];
+  /** voters' officer ids, stored alongside so firestore.rules can check a seat */
+  voterIds: string[];
+  status: "OPEN" | "CLOSED";
+
+  openedById: string;
+  openedByName: string;
+  openedAt: number;
+  /** millis; the session closes on its own at this time (or once everyone has voted) */
+  closesAt: number;
+
+  closedAt?: number;
+  closedReason?: "ALL_VOTED" | "DEADLINE" | "MANUAL";
+  tally?: VoteTally;
+  rollCall?: RollCallEntry[];
+}
+
+export interface Vote {
+  id: string;
+  sessionId: string;
+  proposalId: string;
+  officerId: string;
+  vote: VoteChoice;
+  castById: string;
+  castByName: string;
+  castAt: number;
+}
+
+/** ✅ NEW: enacted resolutions/ordinances registry (policies/{id}) */
+export type PolicyKind = "RESOLUTION" | "ORDINANCE";
+
+/** Derived from later policies' amends/repeals links, never stored */
+export type PolicyStatus = "IN_FORCE" | "AMENDED" | "REPEALED";
+
+export interface Policy extends TermTagged {
   id: string;
   title: string;
+  /** e.g. "SAMASA Res. 2026-014"; assigned on enactment and never reused */
   code: string;
   dateApproved: string;
+  /** short summary shown in lists */
   description: string;
+
+  kind: PolicyKind;
+  department: DepartmentType;
+  /** sequence within term + department + kind */
+  number: number;
+  fullText: string;
+
+  /** proposal this was enacted from (Legislative Hub) */
+  proposalId?: string | null;
+  /** ids of earlier policies this one amends / repeals */
+  amends: string[];
+  repeals: string[];
+
+  createdByName?: string;
 }
 
-export interface Project {
+export interface Project extends SoftDeletable, TermTagged {
   id: string;
   title: string;
   bannerImage: string;
   status: ProjectStatus;
   timeline: string;
   inCharge: string;
+  /** ✅ NEW: owning department (permission scope); older projects belong to SAMASA */
+  department?: DepartmentId;
   description: string;
   objectives: string[];
+  /** legacy typed value; linked ledger expenses take over once there are any (see src/projectSpending) */
   spentAmount: number;
+  /** earmarked from the Project fund of the project's term */
   budgetAllocated: number;
 
+  /** ✅ NEW: dated milestones; percent complete and (unless overridden) status derive from them */
+  milestones?: ProjectMilestone[];
+  /** true when an officer set `status` by hand instead of letting milestones drive it */
+  statusOverride?: boolean;
+
+  /** ✅ NEW: post-implementation report (completed projects) */
+  report?: ProjectReport | null;
+
   /** ✅ Cloudinary (optional) */
   bannerPublicId?: string | null;
   pdfName?: string | null;
@@ -165,6 +603,57 @@ export interface Project {
   pdfPublicId?: string | null;
 }
 
+/** ✅ NEW: project milestones (kept on the project doc) */
+export type MilestoneState = "TODO" | "IN_PROGRESS" | "BLOCKED" | "DONE";
+
+export interface ProjectMilestone {
+  id: string;
+  title: string;
+  /** one of the project's objectives ("" = general) */
+  objective: string;
+  /** officer directory card */
+  ownerId: string;
+  ownerName: string;
+  /** ISO dates (YYYY-MM-DD) */
+  startDate: string;
+  dueDate: string;
+  state: MilestoneState;
+  blockedReason?: string;
+  /** millis */
+  completedAt?: number;
+}
+
+/** ✅ NEW: completion report; published ones are shown publicly as impact stories */
+export interface ProjectOutcome {
+  /** one of the project's objectives at the time of the report */
+  objective: string;
+  outcome: string;
+  met: boolean;
+}
+
+export interface ProjectPhoto {
+  id: string;
+  url: string;
+  publicId: string;
+  caption: string;
+  /** millis */
+  uploadedAt: number;
+}
+
+export interface ProjectReport {
+  outcomes: ProjectOutcome[];
+  beneficiaries: number;
+  /** who was reached, e.g. "1st-year students" */
+  beneficiaryNote: string;
+  finalCost: number;
+  lessonsLearned: string;
+  gallery: ProjectPhoto[];
+  published: boolean;
+  authorName: string;
+  /** millis */
+  updatedAt: number;
+}
+
 export interface LandingPageContent {
   heroBackgroundUrl: string;
   heroHeadingTop: string;